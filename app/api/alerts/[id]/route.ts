@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AlertRuleParamsSchema, alertRuleFromRow } from '@/lib/alerts/rules'
+import { requireUserId } from '@/lib/auth'
+
+// =============================================================================
+// Alert Rule API - Update or delete a single rule
+// =============================================================================
+
+const AlertRuleUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+  rule: AlertRuleParamsSchema.optional(),
+})
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+    const body = await request.json()
+
+    const parsed = AlertRuleUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.alertRule.findFirst({ where: { id, userId: auth.userId } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    const { name, enabled, rule } = parsed.data
+    const row = await prisma.alertRule.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(enabled !== undefined && { enabled }),
+        ...(rule && { type: rule.type, params: JSON.stringify(rule) }),
+      },
+    })
+
+    return NextResponse.json(alertRuleFromRow(row))
+  } catch (error) {
+    console.error('Error updating alert rule:', error)
+    const message = error instanceof Error ? error.message : 'Failed to update alert rule'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+
+    // Events are removed with the rule (onDelete: Cascade)
+    const { count } = await prisma.alertRule.deleteMany({ where: { id, userId: auth.userId } })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting alert rule:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete alert rule'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
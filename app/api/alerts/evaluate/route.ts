@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { runAlertEvaluation } from '@/lib/alerts/engine'
+import { requireUserId } from '@/lib/auth'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { requireMarketData } from '@/lib/env'
+
+// =============================================================================
+// Alert Evaluation Trigger
+// =============================================================================
+// POST /api/alerts/evaluate
+//   Authorization: Bearer $CRON_SECRET  -> evaluate every user (external cron)
+//   otherwise                           -> evaluate the current user ("run now")
+// =============================================================================
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  // Rate limit check
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Alerts require database configuration.' },
+      { status: 503 }
+    )
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
+
+  const cronSecret = process.env.CRON_SECRET
+  const isCron = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`
+
+  let userId: string | undefined
+  if (!isCron) {
+    const auth = await requireUserId(request)
+    if (auth.response) {
+      return auth.response
+    }
+    userId = auth.userId
+  }
+
+  try {
+    const summary = await runAlertEvaluation(userId)
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('[Alerts API] Evaluation error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Alert evaluation failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { requireUserId } from '@/lib/auth'
+
+// =============================================================================
+// Alert History API
+// =============================================================================
+// GET /api/alerts/history?limit=50&ruleId=...  -> triggered alerts, newest first
+// =============================================================================
+
+const MAX_LIMIT = 200
+
+interface AlertEventRow {
+  id: string
+  ruleId: string
+  date: string
+  message: string
+  evidence: string
+  createdAt: Date
+  rule: { name: string; type: string }
+}
+
+export async function GET(request: NextRequest) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json({ events: [], source: 'none' })
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const limit = Math.min(Math.max(Number.parseInt(searchParams.get('limit') || '50') || 50, 1), MAX_LIMIT)
+  const ruleId = searchParams.get('ruleId')
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+
+    const events = await prisma.alertEvent.findMany({
+      where: { userId: auth.userId, ...(ruleId && { ruleId }) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { rule: { select: { name: true, type: true } } },
+    })
+
+    return NextResponse.json({
+      events: events.map((event: AlertEventRow) => ({
+        id: event.id,
+        ruleId: event.ruleId,
+        ruleName: event.rule.name,
+        ruleType: event.rule.type,
+        date: event.date,
+        message: event.message,
+        evidence: JSON.parse(event.evidence),
+        createdAt: event.createdAt,
+      })),
+      source: 'database',
+    })
+  } catch (error) {
+    console.error('Error fetching alert history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert history', events: [] },
+      { status: 500 }
+    )
+  }
+}
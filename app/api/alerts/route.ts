@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { AlertRuleInputSchema, alertRuleFromRow, describeRule } from '@/lib/alerts/rules'
+import { getUserPreferences } from '@/lib/preferences'
+import { requireUserId } from '@/lib/auth'
+
+// =============================================================================
+// Alert Rules API
+// =============================================================================
+// GET  /api/alerts  -> rules for the current user plus the alertsEnabled flag
+// POST /api/alerts  -> create a rule: { name?, enabled?, rule: { type, ... } }
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json({
+      rules: [],
+      alertsEnabled: false,
+      source: 'none',
+      message: 'Database not configured. Alerts are unavailable.',
+    })
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+
+    const [preferences, rows] = await Promise.all([
+      getUserPreferences(auth.userId),
+      prisma.alertRule.findMany({
+        where: { userId: auth.userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ])
+
+    return NextResponse.json({
+      rules: rows.map(alertRuleFromRow).filter(Boolean),
+      alertsEnabled: preferences.alertsEnabled,
+      source: 'database',
+    })
+  } catch (error) {
+    console.error('Error fetching alert rules:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert rules', rules: [] },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Alerts require database configuration.' },
+      { status: 503 }
+    )
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+    const body = await request.json()
+
+    const parsed = AlertRuleInputSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const { name, enabled, rule } = parsed.data
+
+    const row = await prisma.alertRule.create({
+      data: {
+        userId: auth.userId,
+        name: name ?? describeRule(rule),
+        type: rule.type,
+        params: JSON.stringify(rule),
+        enabled,
+      },
+    })
+
+    return NextResponse.json(alertRuleFromRow(row), { status: 201 })
+  } catch (error) {
+    console.error('Error creating alert rule:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create alert rule'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
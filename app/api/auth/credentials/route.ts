@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { registerWithPassword, signInWithPassword, startSession } from '@/lib/auth'
+
+// =============================================================================
+// Credentials Sign-In API
+// =============================================================================
+// POST /api/auth/credentials
+//   { mode: 'signin', email, password }        -> session cookie + user
+//   { mode: 'register', email, password, name? } -> create account, then as above
+// =============================================================================
+
+const CredentialsSchema = z.object({
+  mode: z.enum(['signin', 'register']).default('signin'),
+  email: z.string().trim().email().max(320),
+  password: z.string().min(1).max(200),
+  name: z.string().trim().max(100).optional(),
+})
+
+export async function POST(request: NextRequest) {
+  // Throttle password guessing
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  try {
+    const body = await request.json()
+
+    const parsed = CredentialsSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const { mode, email, password, name } = parsed.data
+    const result =
+      mode === 'register'
+        ? await registerWithPassword({ email, password, name })
+        : await signInWithPassword({ email, password })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const { id, email: userEmail, name: userName } = result.user
+    const response = NextResponse.json(
+      { user: { id, email: userEmail, name: userName } },
+      { status: mode === 'register' ? 201 : 200 }
+    )
+    return await startSession(response, result.user)
+  } catch (error) {
+    console.error('Error signing in with credentials:', error)
+    const message = error instanceof Error ? error.message : 'Failed to sign in'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
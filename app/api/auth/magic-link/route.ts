@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { requestMagicLink, startSession, verifyMagicLink } from '@/lib/auth'
+
+// =============================================================================
+// Magic Link Sign-In API
+// =============================================================================
+// POST /api/auth/magic-link  { email }  -> email a single-use sign-in link
+// GET  /api/auth/magic-link?token=...   -> verify, set session cookie, redirect home
+// =============================================================================
+
+const MagicLinkRequestSchema = z.object({
+  email: z.string().trim().email().max(320),
+})
+
+export async function POST(request: NextRequest) {
+  // Throttle link requests (each one sends an email)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  try {
+    const body = await request.json()
+
+    const parsed = MagicLinkRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    const result = await requestMagicLink(parsed.data.email, origin)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error sending magic link:', error)
+    const message = error instanceof Error ? error.message : 'Failed to send sign-in link'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+  const home = new URL('/', request.nextUrl.origin)
+
+  if (!token) {
+    home.searchParams.set('auth_error', 'Missing sign-in token')
+    return NextResponse.redirect(home)
+  }
+
+  try {
+    const result = await verifyMagicLink(token)
+    if (!result.success) {
+      home.searchParams.set('auth_error', result.error)
+      return NextResponse.redirect(home)
+    }
+
+    return await startSession(NextResponse.redirect(home), result.user)
+  } catch (error) {
+    console.error('Error verifying magic link:', error)
+    home.searchParams.set('auth_error', 'Failed to sign in')
+    return NextResponse.redirect(home)
+  }
+}
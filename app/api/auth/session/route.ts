@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { endSession, getEnabledProviders, getSessionUser, isAuthEnabled } from '@/lib/auth'
+
+// =============================================================================
+// Auth Session API
+// =============================================================================
+// GET    /api/auth/session  -> { enabled, providers, user }
+// DELETE /api/auth/session  -> sign out
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const enabled = isAuthEnabled()
+    const user = enabled ? await getSessionUser(request) : null
+
+    return NextResponse.json(
+      {
+        enabled,
+        providers: enabled ? getEnabledProviders() : [],
+        user,
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    )
+  } catch (error) {
+    console.error('Error fetching session:', error)
+    return NextResponse.json({ error: 'Failed to fetch session' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    return await endSession(request, NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('Error signing out:', error)
+    const message = error instanceof Error ? error.message : 'Failed to sign out'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,90 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { backtestSymbols, DEFAULT_BACKTEST_SYMBOLS } from '@/lib/backtest/run'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { requireMarketData } from '@/lib/env'
+
+// =============================================================================
+// Signal Backtest API
+// =============================================================================
+// GET /api/backtest?symbols=SPX,NDX,RUT&years=5&lookback=63
+//
+// Replays confirmations, rejections (by severity) and divergences over the
+// requested history and reports forward returns at 1/5/10/21 sessions, hit
+// rates and average drawdown per signal group, next to an unconditional
+// baseline so the edge (if any) is visible.
+// =============================================================================
+
+export const dynamic = 'force-dynamic'
+
+const MAX_SYMBOLS = 20
+const MAX_YEARS = 10
+
+export async function GET(request: NextRequest) {
+  // Rate limit check
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const symbolsParam = searchParams.get('symbols')
+  const years = Number.parseFloat(searchParams.get('years') || '5')
+  const lookback = Number.parseInt(searchParams.get('lookback') || '63')
+
+  const symbols = symbolsParam
+    ? symbolsParam
+        .split(',')
+        .map((s) => s.trim().toUpperCase())
+        .filter((s) => s.length > 0)
+    : DEFAULT_BACKTEST_SYMBOLS
+
+  if (symbols.length === 0 || symbols.length > MAX_SYMBOLS) {
+    return NextResponse.json(
+      { error: `Provide between 1 and ${MAX_SYMBOLS} symbols` },
+      { status: 400 }
+    )
+  }
+
+  if (!Number.isFinite(years) || years < 1 || years > MAX_YEARS) {
+    return NextResponse.json(
+      { error: `years must be between 1 and ${MAX_YEARS}` },
+      { status: 400 }
+    )
+  }
+
+  if (!Number.isFinite(lookback) || lookback < 5 || lookback > 504) {
+    return NextResponse.json(
+      { error: 'lookback must be between 5 and 504' },
+      { status: 400 }
+    )
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const result = await backtestSymbols(symbols, years, { lookback })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Unable to fetch market data. Please try again later.', failedSymbols: symbols },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      ...result,
+      ...(result.failedSymbols.length > 0 && { warnings: { failedSymbols: result.failedSymbols } }),
+    })
+  } catch (error) {
+    console.error('[Backtest API] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Backtest failed' },
+      { status: 500 }
+    )
+  }
+}
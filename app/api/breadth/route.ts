@@ -1,37 +1,63 @@
 import { type NextRequest, NextResponse } from 'next/server'
-import { resolveUniverse, type Universe } from '@/lib/universes'
-import { fetchBulkDailyBars, alignBarsByDate } from '@/lib/breadth/fetch-bulk'
-import { computeBreadthSeries, type BreadthEntry } from '@/lib/breadth/compute'
+import { loadUniverse } from '@/lib/universes'
+import { computeUniverseBreadth, detectUniverseBreadthEvents } from '@/lib/breadth/universe-series'
+import type { BreadthEventConfigOverrides, BreadthEventReport } from '@/lib/breadth/events'
+import type { BreadthEntry } from '@/lib/breadth/compute'
+import {
+  BREADTH_MEASURES,
+  BREADTH_MEASURE_IDS,
+  isBreadthMeasureId,
+  selectBreadthMeasure,
+  type BreadthMeasureDefinition,
+  type BreadthMeasureId,
+  type BreadthMeasurePoint,
+} from '@/lib/breadth/measures'
 import { findPeakDay, findWindowAroundPeak, findTopPeaks, type PeakResult, type WindowResult } from '@/lib/breadth/extremes'
 import { buildResponseMeta, fetchMarketStatus } from '@/lib/massive-api'
 import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { asOfFromSearchParams, AS_OF_CACHE_CONTROL } from '@/lib/as-of'
+import { requireMarketData } from '@/lib/env'
 
 // =============================================================================
 // Breadth Analysis API
 // =============================================================================
 // Computes breadth metrics (% new lows / highs) for an ETF-proxy universe
-// and finds peak days/windows for extreme readings.
+// and finds peak days/windows for extreme readings. ?measure= adds one of the
+// participation measures (% above MAs, A/D line, McClellan, up/down volume,
+// net new highs) over the same dates. ?events=true adds the thrust / washout
+// / divergence event history with proxy ETF forward returns (thresholds via
+// thrustFrom, thrustTo, thrustDays, washoutAbove, recoveryBelow).
+// ?asOf=YYYY-MM-DD ends the series on that session (replay mode).
 // =============================================================================
 
 export interface BreadthResponse {
   success: true
   data: {
-    asOf: string
+    asOf: string // Replayed session date, or the generation time for the live view
     universe: {
       id: string
       label: string
       disclosureText: string
       etfProxy: string
+      custom: boolean
+      pointInTime: boolean
+      pointInTimeFrom: string | null
+      membershipSnapshots: number
     }
     params: {
       lookbackDays: number
       searchDays: number
       windowDays: number
       metric: 'new_lows' | 'new_highs'
+      measure: BreadthMeasureId | null
     }
     constituentsUsed: number
     failedTickers: string[]
+    flaggedTickers: string[]
+    dataQualityWarnings: string[]
     series: BreadthEntry[]
+    measure: (BreadthMeasureDefinition & { id: BreadthMeasureId; series: BreadthMeasurePoint[] }) | null
+    events: BreadthEventReport | null
     peak: PeakResult | null
     window: WindowResult | null
     topPeaks: PeakResult[]
@@ -53,7 +79,7 @@ export interface BreadthError {
 
 export async function GET(request: NextRequest) {
   // Rate limiting - this is an expensive operation
-  const rateLimit = withRateLimit(request, RATE_LIMITS.heavy)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
   if (rateLimit.response) {
     return rateLimit.response
   }
@@ -66,6 +92,8 @@ export async function GET(request: NextRequest) {
   const searchDays = parseInt(searchParams.get('searchDays') || '500', 10)
   const windowDays = parseInt(searchParams.get('windowDays') || '100', 10)
   const metric = (searchParams.get('metric') || 'new_lows') as 'new_lows' | 'new_highs'
+  const measureParam = searchParams.get('measure')
+  const measure = measureParam && isBreadthMeasureId(measureParam) ? measureParam : null
 
   // Validate parameters
   if (lookbackDays < 10 || lookbackDays > 252) {
@@ -94,15 +122,72 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  const includeEvents = searchParams.get('events') === 'true'
+  const numberParam = (name: string) => {
+    const raw = searchParams.get(name)
+    return raw === null ? undefined : Number.parseFloat(raw)
+  }
+  const eventOverrides: BreadthEventConfigOverrides = {
+    thrust: { from: numberParam('thrustFrom'), to: numberParam('thrustTo'), withinDays: numberParam('thrustDays') },
+    washout: { above: numberParam('washoutAbove'), recoveryBelow: numberParam('recoveryBelow') },
+  }
+
+  const eventThresholds = [
+    eventOverrides.thrust?.from,
+    eventOverrides.thrust?.to,
+    eventOverrides.washout?.above,
+    eventOverrides.washout?.recoveryBelow,
+  ]
+  const thrustDays = eventOverrides.thrust?.withinDays
+  if (
+    eventThresholds.some((v) => v !== undefined && !(v >= 0 && v <= 100)) ||
+    (thrustDays !== undefined && !(thrustDays >= 1 && thrustDays <= 63))
+  ) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INVALID_PARAMS',
+          message: 'Event thresholds must be percentages between 0 and 100, and thrustDays between 1 and 63',
+        },
+      } satisfies BreadthError,
+      { status: 400 }
+    )
+  }
+
+  if (measureParam && !measure) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INVALID_PARAMS',
+          message: `measure must be one of: ${BREADTH_MEASURE_IDS.join(', ')}`,
+        },
+      } satisfies BreadthError,
+      { status: 400 }
+    )
+  }
+
+  const { asOf, error: asOfError } = asOfFromSearchParams(searchParams)
+  if (asOfError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INVALID_PARAMS', message: asOfError },
+      } satisfies BreadthError,
+      { status: 400 }
+    )
+  }
+
   // Resolve universe
-  const universe = resolveUniverse(universeId)
+  const universe = await loadUniverse(universeId)
   if (!universe) {
     return NextResponse.json(
       {
         success: false,
         error: {
           code: 'INVALID_UNIVERSE',
-          message: `Unknown universe: ${universeId}. Valid options: soxx, smh, qqq, spy, iwm, dia`,
+          message: `Unknown universe: ${universeId}. Valid options: soxx, smh, qqq, spy, iwm, dia, or a saved custom universe`,
         },
       } satisfies BreadthError,
       { status: 400 }
@@ -110,7 +195,7 @@ export async function GET(request: NextRequest) {
   }
 
   // Check API key
-  if (!process.env.MASSIVE_API_KEY) {
+  if (!requireMarketData().isValid) {
     return NextResponse.json(
       {
         success: false,
@@ -127,17 +212,18 @@ export async function GET(request: NextRequest) {
     // Refresh market status (non-blocking)
     fetchMarketStatus().catch(() => {})
 
-    // Fetch data for all symbols in the universe
-    // Need extra days for lookback window calculation
-    const fetchDays = searchDays + lookbackDays + 30
-
-    const fetchResult = await fetchBulkDailyBars(
-      universe.symbols,
-      fetchDays
+    // Fetch, align and compute breadth (point-in-time membership if imported)
+    // Measures are only needed for ?measure= and the advance_ratio thrust
+    const result = await computeUniverseBreadth(
+      universe,
+      lookbackDays,
+      searchDays,
+      asOf,
+      measure !== null || includeEvents
     )
 
     // Check if we got enough data
-    if (fetchResult.succeeded.length === 0) {
+    if (!result) {
       return NextResponse.json(
         {
           success: false,
@@ -150,57 +236,63 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Align bars by date
-    const { dates, alignedBars, validSymbols } = alignBarsByDate(fetchResult.barsBySymbol)
-
-    // Slice to search window
-    const slicedDates = dates.slice(-searchDays - lookbackDays)
-    const slicedAlignedBars: Record<string, (typeof alignedBars)[string]> = {}
-    for (const symbol of validSymbols) {
-      slicedAlignedBars[symbol] = alignedBars[symbol].slice(-searchDays - lookbackDays)
-    }
-
-    // Compute breadth series
-    const breadthSeries = computeBreadthSeries(slicedAlignedBars, slicedDates, lookbackDays)
+    const breadthSeries = result.series
 
     // Find peak and window
     const peak = findPeakDay(breadthSeries, metric)
     const window = peak ? findWindowAroundPeak(breadthSeries, metric, windowDays) : null
     const topPeaks = findTopPeaks(breadthSeries, metric, 5)
+    const events = includeEvents
+      ? await detectUniverseBreadthEvents(universe, result, asOf, eventOverrides)
+      : null
 
     const meta = buildResponseMeta()
 
     const response: BreadthResponse = {
       success: true,
       data: {
-        asOf: new Date().toISOString(),
+        asOf: asOf ?? new Date().toISOString(),
         universe: {
           id: universe.id,
           label: universe.label,
           disclosureText: universe.disclosureText,
           etfProxy: universe.etfProxy,
+          custom: !!universe.custom,
+          pointInTime: result.pointInTime,
+          pointInTimeFrom: result.pointInTimeFrom,
+          membershipSnapshots: result.membershipSnapshots,
         },
         params: {
           lookbackDays,
           searchDays,
           windowDays,
           metric,
+          measure,
         },
-        constituentsUsed: validSymbols.length,
-        failedTickers: fetchResult.failed,
+        constituentsUsed: result.constituentsUsed,
+        failedTickers: result.failedTickers,
+        flaggedTickers: result.flaggedTickers,
+        dataQualityWarnings: result.dataQualityWarnings,
         series: breadthSeries.entries,
+        measure: measure
+          ? { id: measure, ...BREADTH_MEASURES[measure], series: selectBreadthMeasure(result.measures, measure) }
+          : null,
+        events,
         peak,
         window,
         topPeaks,
         meta: {
           dataDelayed: meta.isDelayed,
           marketStatus: meta.marketStatus,
-          fetchTimeMs: fetchResult.fetchTimeMs,
+          fetchTimeMs: result.fetchTimeMs,
         },
       },
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json(
+      response,
+      asOf ? { headers: { 'Cache-Control': AS_OF_CACHE_CONTROL } } : undefined
+    )
   } catch (error) {
     console.error('[Breadth API] Error:', error)
     return NextResponse.json(
@@ -1,4 +1,5 @@
 import { type NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth'
 
 // =============================================================================
 // Chat Share API - Save and retrieve AI chat conversations
@@ -29,10 +30,14 @@ export async function POST(request: NextRequest) {
     // Auto-generate title from first user message if not provided
     const autoTitle = title || messages.find((m: { role: string }) => m.role === 'user')?.content?.slice(0, 100) || 'Chat Export'
 
+    // Signed-out visitors can still share; the link just has no owner to manage it
+    const userId = await getRequestUserId(request)
+
     const chatShare = await prisma.chatShare.create({
       data: {
         title: autoTitle,
         messages: JSON.stringify(messages),
+        userId,
       },
     })
 
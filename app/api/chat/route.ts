@@ -1,6 +1,4 @@
 import { streamText, tool, zodSchema, stepCountIs } from 'ai'
-import { anthropic } from '@ai-sdk/anthropic'
-import { openai } from '@ai-sdk/openai'
 import { z } from 'zod'
 import {
   executePlan,
@@ -10,27 +8,33 @@ import {
   createOptionsChainPlan,
 } from '@/lib/ai/query-plan'
 import type { ResultEnvelope } from '@/lib/ai/query-plan'
-import { resolveUniverse, listUniverses } from '@/lib/universes'
-import { fetchBulkDailyBars, alignBarsByDate } from '@/lib/breadth/fetch-bulk'
-import { computeBreadthSeries } from '@/lib/breadth/compute'
+import { getModel } from '@/lib/ai/model'
+import { loadUniverse, listAllUniverses } from '@/lib/universes'
+import { computeUniverseBreadth, detectUniverseBreadthEvents } from '@/lib/breadth/universe-series'
 import { findPeakDay, findWindowAroundPeak, findTopPeaks } from '@/lib/breadth/extremes'
+import {
+  BREADTH_MEASURES,
+  BREADTH_MEASURE_IDS,
+  selectBreadthMeasure,
+} from '@/lib/breadth/measures'
+import { backtestSymbols, DEFAULT_BACKTEST_SYMBOLS } from '@/lib/backtest/run'
+import {
+  fetchIvSurface,
+  fetchStrategy,
+  DEFAULT_SURFACE_DAYS,
+  DEFAULT_STRATEGY_DAYS,
+  DEFAULT_STRATEGY_WIDTH,
+} from '@/lib/options/run'
+import { STRATEGY_TEMPLATES } from '@/lib/options'
+import { getIvRank } from '@/lib/options/iv-store'
+import { scanUnusualActivity } from '@/lib/options/scan'
+import { INDICATOR_IDS } from '@/lib/indicators'
+import { computeSectorRotation, DEFAULT_RRG_BENCHMARK } from '@/lib/rotation'
+import { computeCorrelationSet, resolveCorrelationSet } from '@/lib/correlation'
+import { requireMarketData } from '@/lib/env'
 
 export const dynamic = 'force-dynamic'
 
-// -----------------------------------------------------------------------------
-// Model Selection Strategy
-// -----------------------------------------------------------------------------
-
-function getModel() {
-  // Prefer Anthropic for complex financial data analysis
-  if (process.env.ANTHROPIC_API_KEY) {
-    // Use Claude Sonnet 4 - latest stable model
-    return anthropic('claude-sonnet-4-20250514')
-  }
-  // Fallback to OpenAI
-  return openai('gpt-4-turbo')
-}
-
 // -----------------------------------------------------------------------------
 // System Persona - Elite Trading Copilot
 // -----------------------------------------------------------------------------
@@ -61,14 +65,23 @@ const SYSTEM_PROMPT = `You are an elite Trading Copilot. You are concise, data-d
 - For extremes/heatmaps: use the "heatmap" or "extremes" dataset
 - For options analysis: use the "options_chain" dataset
 - For price charts: use the "aggregates" dataset
+- For RSI, MACD, moving averages, Bollinger, VWAP or ATR: use "aggregates" with indicators
 - For breadth analysis: use compute_breadth_extremes with universe IDs (soxx, qqq, spy, iwm)
 - For methodology questions: use explain_universe to show data sources
+- For "how reliable are rejections/confirmations/divergences": use backtest_signals
+- For IV term structure, skew or "is skew steep": use show_iv_surface (ETFs/stocks, e.g. SPY not SPX)
+- For "is IV high/cheap", IV rank or premium buying vs selling: use analyze_options (includes 52-week IV rank when history exists)
+- For trade ideas or "how would I play X with options": use build_options_strategy with the template that fits the view (directional -> verticals, range-bound -> iron_condor, big move -> straddle/strangle, term structure -> calendar)
+- For unusual options activity, big flow, sweeps or "what's trading heavy": use show_unusual_options with a universe
+- For sector rotation, "which sectors are leading/improving" or RRG: use show_sector_rotation (add symbols to plot them alongside the sector ETFs)
+- For correlations, diversification or "is everything moving together": use show_correlation_matrix (set=core, sectors or a universe id, or explicit symbols)
 
 ## Breadth Analysis:
 - "Semis breadth" or "SOX breadth" -> use universe="soxx" (SOXX ETF constituents as proxy)
 - "Nasdaq breadth" -> use universe="qqq" (QQQ ETF top holdings)
 - "S&P breadth" -> use universe="spy" (SPY ETF top holdings)
 - "Russell breadth" or "small cap breadth" -> use universe="iwm"
+- Custom universes (saved watchlists) are resolved by their id - use explain_universe to list them
 - Always disclose: "Using [ETF] constituents as a proxy for [Index] breadth"
 
 ## Trader Semantics:
@@ -99,6 +112,10 @@ const universalQuerySchema = z.object({
     .max(504)
     .default(63)
     .describe('Lookback period in trading days (21=1mo, 63=quarter, 252=year)'),
+  granularity: z
+    .enum(['1m', '5m', '15m', '1h', '1d'])
+    .default('1d')
+    .describe('Bar size for aggregates: 1d for daily history, 1m-1h for intraday (covers the last few sessions only)'),
   visualization: z
     .enum(['chart', 'heatmap', 'table', 'dashboard', 'pulse', 'options_chain'])
     .default('dashboard')
@@ -111,6 +128,10 @@ const universalQuerySchema = z.object({
     .string()
     .optional()
     .describe('Options expiration date (YYYY-MM-DD) or "this_friday"'),
+  indicators: z
+    .array(z.enum(INDICATOR_IDS))
+    .optional()
+    .describe('Technical indicators to compute on aggregates (e.g. ["rsi"], ["sma_50", "sma_200"])'),
 })
 
 // Quick action shortcuts
@@ -159,7 +180,14 @@ function mapEnvelopeToClientType(envelope: ResultEnvelope): Record<string, unkno
         }, {} as Record<string, number[]>),
       }
 
-    case 'options_chain':
+    case 'options_chain': {
+      const analytics = envelope.meta.analytics
+      const maxPainStrike = envelope.meta.maxPainStrike || 0
+      // Strike with the most combined open interest
+      const topStrike = analytics?.profile.reduce(
+        (top, row) => (row.callOI + row.putOI > top.oi ? { strike: row.strike, oi: row.callOI + row.putOI } : top),
+        { strike: 0, oi: 0 }
+      ).strike || maxPainStrike
       return {
         type: 'options_chain',
         symbol: envelope.underlying,
@@ -167,17 +195,33 @@ function mapEnvelopeToClientType(envelope: ResultEnvelope): Record<string, unkno
         data: {
           putCallRatio: envelope.meta.putCallRatio,
           sentiment: envelope.meta.putCallRatio > 1.2 ? 'Bearish' : envelope.meta.putCallRatio < 0.8 ? 'Bullish' : 'Neutral',
-          topStrike: envelope.meta.maxPainStrike || 0,
+          topStrike,
           totalVolume: envelope.meta.totalVolume,
           totalOpenInterest: envelope.contracts.reduce((sum, c) => sum + c.openInterest, 0),
           avgIV: envelope.meta.avgIV,
-          maxPainStrike: envelope.meta.maxPainStrike || 0,
+          maxPainStrike,
           underlyingPrice: envelope.underlyingPrice,
-          strikeDistance: envelope.meta.maxPainStrike
-            ? ((Math.abs(envelope.meta.maxPainStrike - envelope.underlyingPrice) / envelope.underlyingPrice) * 100)
+          strikeDistance: envelope.underlyingPrice
+            ? ((Math.abs(topStrike - envelope.underlyingPrice) / envelope.underlyingPrice) * 100)
             : 0,
+          analytics,
+          contracts: envelope.contracts.map((c) => ({
+            ticker: c.ticker,
+            contractType: c.contractType,
+            strike: c.strike,
+            expiration: c.expiration,
+            bid: c.bid,
+            ask: c.ask,
+            last: c.last,
+            impliedVolatility: c.impliedVolatility,
+            delta: c.delta,
+            gamma: c.gamma,
+            theta: c.theta,
+            vega: c.vega,
+          })),
         },
       }
+    }
 
     case 'timeseries':
       // Map to market dashboard format for compatibility
@@ -193,6 +237,12 @@ function mapEnvelopeToClientType(envelope: ResultEnvelope): Record<string, unkno
           close: envelope.data[envelope.data.length - 1]?.[symbol] as number | null,
           rollingHigh: null,
           rollingLow: null,
+          series: envelope.meta.indicators
+            ? {
+                closes: envelope.data.map((row) => (row[symbol] as number) || null),
+                indicators: envelope.meta.indicators[symbol] ?? [],
+              }
+            : undefined,
         })),
       }
 
@@ -238,7 +288,7 @@ export async function POST(req: Request) {
   }
 
   // Check for Massive/Polygon API key
-  if (!process.env.MASSIVE_API_KEY) {
+  if (!requireMarketData().isValid) {
     return new Response(
       JSON.stringify({ error: 'Market data service not configured. Missing MASSIVE_API_KEY.' }),
       { status: 503, headers: { 'Content-Type': 'application/json' } }
@@ -266,7 +316,7 @@ export async function POST(req: Request) {
               symbols: params.symbols.map((s: string) => s.toUpperCase()),
               assetClass: params.datasets.includes('options_chain') ? 'options' : 'stocks',
               timeframe: { mode: 'lookback', days: params.lookback },
-              granularity: '1d',
+              granularity: params.granularity,
               datasets: params.datasets,
               transforms: ['none'],
               benchmark: 'SPY',
@@ -274,6 +324,7 @@ export async function POST(req: Request) {
               lookback: params.lookback,
               basis: params.basis,
               optionsExpiration: params.optionsExpiration,
+              indicators: params.indicators,
             }
 
             try {
@@ -352,15 +403,23 @@ export async function POST(req: Request) {
         analyze_options: tool({
           description:
             'Analyze options flow for a symbol. Shows put/call ratio, implied volatility, max pain, ' +
-            'and sentiment signals. Use to gauge whether a move is priced in.',
+            'dealer gamma exposure (GEX) with the zero-gamma flip level, call/put open-interest walls, ' +
+            '52-week IV rank/percentile and sentiment signals. Use to gauge whether a move is priced in or where pinning may occur.',
           inputSchema: zodSchema(quickOptionsSchema),
           execute: async ({ symbol, expiration }) => {
             const plan = createOptionsChainPlan(symbol.toUpperCase(), expiration)
 
             try {
-              const results = await executePlan(plan)
+              const [results, ivRank] = await Promise.all([
+                executePlan(plan),
+                // IV history is optional; a missing database just drops the rank
+                getIvRank(symbol).catch(() => null),
+              ])
               if (results.length > 0) {
-                return mapEnvelopeToClientType(results[0])
+                const card = mapEnvelopeToClientType(results[0])
+                return ivRank && ivRank.samples > 0 && card.data
+                  ? { ...card, data: { ...(card.data as Record<string, unknown>), ivRank } }
+                  : card
               }
               return {
                 type: 'options_chain',
@@ -442,34 +501,61 @@ export async function POST(req: Request) {
         // Breadth Analysis - ETF Proxy Based
         compute_breadth_extremes: tool({
           description:
-            'Compute breadth analysis for a universe (SOXX/semiconductors, QQQ/Nasdaq, SPY/S&P, IWM/Russell). ' +
+            'Compute breadth analysis for a universe (SOXX/semiconductors, QQQ/Nasdaq, SPY/S&P, IWM/Russell) ' +
+            'or a saved custom universe (watchlist) by its id. ' +
             'Finds the worst/best periods based on % of new lows or new highs. ' +
-            'Use for questions like "worst 100-day stretch for semis" or "when was breadth most washed out".',
+            'Optionally adds a participation measure: % above 20/50/200-day MAs, advance/decline line, ' +
+            'McClellan oscillator and summation index, up/down volume ratio, or net new highs. ' +
+            'Use for questions like "worst 100-day stretch for semis", "when was breadth most washed out" ' +
+            'or "what share of the S&P is above its 200-day". ' +
+            'Set events to list past breadth thrusts, washout-to-recovery sequences and positive divergences ' +
+            '(lower low in the proxy ETF with fewer new lows) with the proxy\'s forward returns.',
           inputSchema: zodSchema(z.object({
-            universe: z.string().describe('Universe ID: soxx (semis), qqq (nasdaq), spy (s&p), iwm (russell), dia (dow)'),
+            universe: z.string().describe('Universe ID: soxx (semis), qqq (nasdaq), spy (s&p), iwm (russell), dia (dow), or a custom universe id'),
             lookbackDays: z.number().default(100).describe('Rolling window for new high/low detection (default: 100)'),
             searchDays: z.number().default(500).describe('How many days of history to search (default: 500)'),
             windowDays: z.number().default(100).describe('Window size around peak day (default: 100)'),
             metric: z.enum(['new_lows', 'new_highs']).default('new_lows').describe('Which metric to analyze'),
+            measure: z
+              .enum(BREADTH_MEASURE_IDS)
+              .optional()
+              .describe('Additional breadth measure: pct_above_ma, advance_decline, mcclellan, up_down_volume, net_new_highs'),
+            events: z.boolean().default(false).describe('Detect thrust / washout / divergence events with forward returns'),
+            thrustFrom: z.number().min(0).max(100).optional().describe('Thrust starts below this % (default: 40)'),
+            thrustTo: z.number().min(0).max(100).optional().describe('Thrust completes above this % (default: 61.5)'),
+            thrustDays: z.number().int().min(1).max(63).optional().describe('Sessions allowed for the thrust (default: 10)'),
+            washoutAbove: z.number().min(0).max(100).optional().describe('% at new lows that counts as a washout (default: 20)'),
           })),
-          execute: async ({ universe: universeId, lookbackDays, searchDays, windowDays, metric }) => {
+          execute: async ({
+            universe: universeId,
+            lookbackDays,
+            searchDays,
+            windowDays,
+            metric,
+            measure,
+            events,
+            thrustFrom,
+            thrustTo,
+            thrustDays,
+            washoutAbove,
+          }) => {
             // Resolve universe
-            const universe = resolveUniverse(universeId)
+            const universe = await loadUniverse(universeId)
             if (!universe) {
               return {
                 type: 'error',
                 title: 'Unknown Universe',
-                message: `"${universeId}" is not a valid universe. Use: soxx, smh, qqq, spy, iwm, dia`,
+                message: `"${universeId}" is not a valid universe. Use: soxx, smh, qqq, spy, iwm, dia, or a saved custom universe`,
                 recoverable: true,
               }
             }
 
             try {
-              // Fetch data for all symbols
-              const fetchDays = searchDays + lookbackDays + 30
-              const fetchResult = await fetchBulkDailyBars(universe.symbols, fetchDays)
+              // Fetch, align and compute breadth (point-in-time membership if imported)
+              // Measures are only needed for the measure panel and the advance_ratio thrust
+              const result = await computeUniverseBreadth(universe, lookbackDays, searchDays, null, !!measure || !!events)
 
-              if (fetchResult.succeeded.length === 0) {
+              if (!result) {
                 return {
                   type: 'error',
                   title: 'No Data',
@@ -478,18 +564,18 @@ export async function POST(req: Request) {
                 }
               }
 
-              // Align and compute breadth
-              const { dates, alignedBars, validSymbols } = alignBarsByDate(fetchResult.barsBySymbol)
-              const slicedDates = dates.slice(-searchDays - lookbackDays)
-              const slicedBars: Record<string, (typeof alignedBars)[string]> = {}
-              for (const symbol of validSymbols) {
-                slicedBars[symbol] = alignedBars[symbol].slice(-searchDays - lookbackDays)
-              }
-
-              const series = computeBreadthSeries(slicedBars, slicedDates, lookbackDays)
+              const series = result.series
               const peak = findPeakDay(series, metric)
               const window = peak ? findWindowAroundPeak(series, metric, windowDays) : null
               const topPeaks = findTopPeaks(series, metric, 5)
+              const latestEntry = series.entries[series.entries.length - 1]
+              const latestMeasures = result.measures[result.measures.length - 1]
+              const eventReport = events
+                ? await detectUniverseBreadthEvents(universe, result, null, {
+                    thrust: { from: thrustFrom, to: thrustTo, withinDays: thrustDays },
+                    washout: { above: washoutAbove },
+                  })
+                : null
 
               return {
                 type: 'breadth_report',
@@ -498,11 +584,39 @@ export async function POST(req: Request) {
                   label: universe.label,
                   disclosureText: universe.disclosureText,
                   etfProxy: universe.etfProxy,
+                  custom: !!universe.custom,
+                  pointInTime: result.pointInTime,
+                  pointInTimeFrom: result.pointInTimeFrom,
                 },
-                params: { lookbackDays, searchDays, windowDays, metric },
-                constituentsUsed: validSymbols.length,
-                failedTickers: fetchResult.failed,
+                params: { lookbackDays, searchDays, windowDays, metric, measure: measure ?? null },
+                constituentsUsed: result.constituentsUsed,
+                failedTickers: result.failedTickers,
+                flaggedTickers: result.flaggedTickers,
+                dataQualityWarnings: result.dataQualityWarnings,
                 series: series.entries.slice(-100), // Last 100 entries for display
+                // Latest session's participation plus the requested measure, for the breadth panel
+                breadth: measure && latestMeasures && latestEntry
+                  ? {
+                      type: 'breadth',
+                      universe: universe.label,
+                      date: latestMeasures.date,
+                      advancers: latestMeasures.advances,
+                      decliners: latestMeasures.declines,
+                      unchanged: latestMeasures.unchanged,
+                      newHighs: latestEntry.countNewHighs,
+                      newLows: latestEntry.countNewLows,
+                      upVolume: latestMeasures.upVolume,
+                      downVolume: latestMeasures.downVolume,
+                      measure: {
+                        id: measure,
+                        ...BREADTH_MEASURES[measure],
+                        series: selectBreadthMeasure(result.measures.slice(-100), measure),
+                      },
+                    }
+                  : null,
+                events: eventReport
+                  ? { ...eventReport, events: eventReport.events.slice(-20) } // Most recent 20 for display
+                  : null,
                 peak,
                 window,
                 topPeaks,
@@ -519,6 +633,302 @@ export async function POST(req: Request) {
           },
         }),
 
+        // Signal Backtest
+        backtest_signals: tool({
+          description:
+            'Backtest the dashboard signals (confirmed breakouts, rejections by severity, divergences) over years of ' +
+            'daily history. Reports forward returns at 1/5/10/21 days, hit rates and average drawdown versus a baseline. ' +
+            'Use when users ask whether a signal actually works or how to tune thresholds.',
+          inputSchema: zodSchema(z.object({
+            symbols: z
+              .array(z.string())
+              .min(1)
+              .max(20)
+              .default(DEFAULT_BACKTEST_SYMBOLS)
+              .describe('Index or ticker symbols to replay (default: DJI, SPX, IXIC, NDX, RUT, SOX)'),
+            years: z.number().min(1).max(10).default(5).describe('Years of history to replay (default: 5)'),
+            lookback: z.number().int().min(5).max(504).default(63).describe('Rolling high window in days (default: 63)'),
+          })),
+          execute: async ({ symbols, years, lookback }) => {
+            try {
+              const result = await backtestSymbols(
+                symbols.map((s: string) => s.toUpperCase()),
+                years,
+                { lookback }
+              )
+
+              if (!result) {
+                return {
+                  type: 'error',
+                  title: 'No Data',
+                  message: 'Failed to fetch history for any symbol',
+                  recoverable: true,
+                }
+              }
+
+              return { type: 'signal_backtest', ...result }
+            } catch (error) {
+              return {
+                type: 'error',
+                title: 'Backtest Error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+                recoverable: true,
+              }
+            }
+          },
+        }),
+
+        // Implied Volatility Surface
+        show_iv_surface: tool({
+          description:
+            'Show the implied volatility surface for an ETF or stock: ATM IV term structure across expirations, ' +
+            '25-delta put/call skew per expiry and a strike x expiry IV grid. Use for questions about skew, ' +
+            'term structure (contango/backwardation) or how expensive options are across maturities.',
+          inputSchema: zodSchema(z.object({
+            symbol: z.string().describe('ETF or stock with listed options (use SPY for SPX, QQQ for NDX)'),
+            days: z
+              .number()
+              .int()
+              .min(7)
+              .max(365)
+              .default(DEFAULT_SURFACE_DAYS)
+              .describe('Include expirations up to this many days out (default: 90)'),
+          })),
+          execute: async ({ symbol, days }) => {
+            try {
+              const result = await fetchIvSurface(symbol.toUpperCase(), days)
+
+              if (!result.surface) {
+                return {
+                  type: 'error',
+                  title: 'No Options Data',
+                  message: result.error || `No options data for ${symbol}`,
+                  recoverable: true,
+                }
+              }
+
+              return { type: 'iv_surface', symbol: result.symbol, contracts: result.contracts, ...result.surface }
+            } catch (error) {
+              return {
+                type: 'error',
+                title: 'IV Surface Error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+                recoverable: true,
+              }
+            }
+          },
+        }),
+
+        // Options Strategy Builder
+        build_options_strategy: tool({
+          description:
+            'Propose a multi-leg options strategy from the live chain (verticals, straddles, strangles, iron condors, ' +
+            'calendars). Returns net debit/credit, breakevens, max profit/loss, position Greeks and payoff curves at ' +
+            'expiry and today, as an editable card the user can adjust and pin.',
+          inputSchema: zodSchema(z.object({
+            symbol: z.string().describe('ETF or stock with listed options (use SPY for SPX, QQQ for NDX)'),
+            template: z.enum(STRATEGY_TEMPLATES).describe('Strategy to build'),
+            days: z
+              .number()
+              .int()
+              .min(1)
+              .max(365)
+              .default(DEFAULT_STRATEGY_DAYS)
+              .describe('Target days to expiration; the nearest listed expiration is used (default: 30)'),
+            widthPct: z
+              .number()
+              .min(0.005)
+              .max(0.25)
+              .default(DEFAULT_STRATEGY_WIDTH)
+              .describe('Distance of short strikes/wings from spot as a fraction (default: 0.05 = 5%)'),
+          })),
+          execute: async ({ symbol, template, days, widthPct }) => {
+            try {
+              const result = await fetchStrategy(symbol.toUpperCase(), template, days, widthPct)
+
+              if (!result.analysis) {
+                return {
+                  type: 'error',
+                  title: 'No Strategy',
+                  message: result.error || `Could not build a strategy on ${symbol}`,
+                  recoverable: true,
+                }
+              }
+
+              return {
+                type: 'options_strategy',
+                symbol: result.symbol,
+                template: result.template,
+                label: result.label,
+                spot: result.spot,
+                legs: result.legs,
+                analysis: result.analysis,
+                contracts: result.contracts,
+              }
+            } catch (error) {
+              return {
+                type: 'error',
+                title: 'Strategy Error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+                recoverable: true,
+              }
+            }
+          },
+        }),
+
+        // Unusual Options Activity
+        show_unusual_options: tool({
+          description:
+            'Scan the short-dated option chains of a universe for unusual activity: volume well above open interest, ' +
+            'volume spikes versus the trailing average, and large premium on short-dated OTM strikes. ' +
+            'Returns a sortable table of flagged contracts, largest premium first.',
+          inputSchema: zodSchema(z.object({
+            universe: z.string().default('qqq').describe('Universe ID to scan (soxx, smh, qqq, spy, iwm, dia, or a custom universe)'),
+            minVolumeOiRatio: z.number().min(0).optional().describe('Volume / open interest threshold (default: 2)'),
+            spikeMultiple: z.number().min(0).optional().describe('Multiple of trailing average volume (default: 5)'),
+            minPremium: z.number().min(0).optional().describe('Dollar premium for the large-premium flag (default: 250000)'),
+            maxDte: z.number().int().min(0).max(45).optional().describe('Max days to expiration for the large-premium flag (default: 14)'),
+          })),
+          execute: async ({ universe: universeId, minVolumeOiRatio, spikeMultiple, minPremium, maxDte }) => {
+            try {
+              const universe = await loadUniverse(universeId)
+              if (!universe) {
+                return {
+                  type: 'error',
+                  title: 'Unknown Universe',
+                  message: `Unknown universe: ${universeId}. Available: soxx, smh, qqq, spy, iwm, dia, or a saved custom universe`,
+                  recoverable: true,
+                }
+              }
+
+              const scan = await scanUnusualActivity(universe.symbols, {
+                minVolumeOiRatio,
+                spikeMultiple,
+                minPremium,
+                maxDte,
+              })
+
+              return {
+                type: 'unusual_options',
+                universe: { id: universe.id, label: universe.label },
+                date: scan.date,
+                results: scan.results.slice(0, 50),
+                totalFlagged: scan.results.length,
+                scanned: scan.scanned,
+                failedSymbols: scan.failedSymbols,
+                criteria: scan.criteria,
+              }
+            } catch (error) {
+              return {
+                type: 'error',
+                title: 'Unusual Options Error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+                recoverable: true,
+              }
+            }
+          },
+        }),
+
+        // Sector Rotation (Relative Rotation Graph)
+        show_sector_rotation: tool({
+          description:
+            'Show a relative rotation graph (RRG) of the sector ETFs, plus any extra symbols, against a benchmark. ' +
+            'Each symbol gets an RS-Ratio (relative trend) and RS-Momentum (its rate of change) series with a ' +
+            'trailing tail through the leading, weakening, lagging and improving quadrants.',
+          inputSchema: zodSchema(z.object({
+            symbols: z.array(z.string()).max(20).optional().describe('Extra symbols to plot alongside the sector ETFs'),
+            benchmark: z.string().default(DEFAULT_RRG_BENCHMARK).describe('Benchmark symbol (default: SPY)'),
+            interval: z.enum(['daily', 'weekly']).optional().describe('Bar interval (default: weekly)'),
+            smoothing: z.number().int().min(1).max(20).optional().describe('EMA smoothing of raw relative strength (default: 3)'),
+            period: z.number().int().min(2).max(52).optional().describe('RS-Ratio normalization period (default: 14)'),
+            momentumPeriod: z.number().int().min(2).max(26).optional().describe('RS-Momentum normalization period (default: 5)'),
+            tailLength: z.number().int().min(2).max(52).optional().describe('Points in each trailing tail (default: 10)'),
+          })),
+          execute: async ({ symbols, benchmark, interval, smoothing, period, momentumPeriod, tailLength }) => {
+            try {
+              const result = await computeSectorRotation(
+                symbols,
+                { interval, smoothing, period, momentumPeriod, tailLength },
+                benchmark
+              )
+
+              if (!result) {
+                return {
+                  type: 'error',
+                  title: 'No Benchmark Data',
+                  message: `No price history for benchmark ${benchmark.toUpperCase()}`,
+                  recoverable: true,
+                }
+              }
+
+              return { type: 'sector_rotation', ...result }
+            } catch (error) {
+              return {
+                type: 'error',
+                title: 'Sector Rotation Error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+                recoverable: true,
+              }
+            }
+          },
+        }),
+
+        // Correlation Matrix
+        show_correlation_matrix: tool({
+          description:
+            'Show a clustered rolling correlation matrix of daily returns across a symbol set, with the average ' +
+            'pairwise correlation history. Flags correlation spikes (everything moving together), which often ' +
+            'precede risk-off moves.',
+          inputSchema: zodSchema(z.object({
+            set: z
+              .string()
+              .default('core')
+              .describe('core (dashboard indices), sectors (sector ETFs) or a universe id (soxx, qqq, spy, ...)'),
+            symbols: z.array(z.string()).min(2).max(50).optional().describe('Explicit symbols; overrides set'),
+            window: z.number().int().min(10).max(252).optional().describe('Sessions of returns in the matrix (default: 63)'),
+            jumpThreshold: z
+              .number()
+              .min(0.01)
+              .max(1)
+              .optional()
+              .describe('Rise in average correlation over 10 sessions that flags a spike (default: 0.2)'),
+          })),
+          execute: async ({ set: setId, symbols, window, jumpThreshold }) => {
+            try {
+              const set = symbols
+                ? { id: 'custom', label: symbols.map((s) => s.toUpperCase()).join(', '), symbols }
+                : await resolveCorrelationSet(setId)
+              if (!set) {
+                return {
+                  type: 'error',
+                  title: 'Unknown Symbol Set',
+                  message: `Unknown set: ${setId}. Use core, sectors, a universe id, or pass symbols`,
+                  recoverable: true,
+                }
+              }
+
+              const result = await computeCorrelationSet(set, { window, jumpThreshold })
+              if (!result) {
+                return {
+                  type: 'error',
+                  title: 'No Data',
+                  message: `Fewer than two symbols in ${set.label} have enough history for the window`,
+                  recoverable: true,
+                }
+              }
+
+              return { type: 'correlation_matrix', ...result }
+            } catch (error) {
+              return {
+                type: 'error',
+                title: 'Correlation Error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+                recoverable: true,
+              }
+            }
+          },
+        }),
+
         // Explain Universe
         explain_universe: tool({
           description:
@@ -529,12 +939,12 @@ export async function POST(req: Request) {
           })),
           execute: async ({ universeId }) => {
             if (universeId) {
-              const universe = resolveUniverse(universeId)
+              const universe = await loadUniverse(universeId)
               if (!universe) {
                 return {
                   type: 'universe_explanation',
                   found: false,
-                  message: `Unknown universe: ${universeId}. Available: soxx, smh, qqq, spy, iwm, dia`,
+                  message: `Unknown universe: ${universeId}. Available: soxx, smh, qqq, spy, iwm, dia, or a saved custom universe`,
                 }
               }
               return {
@@ -546,6 +956,7 @@ export async function POST(req: Request) {
                   description: universe.description,
                   disclosureText: universe.disclosureText,
                   etfProxy: universe.etfProxy,
+                  custom: !!universe.custom,
                   symbolCount: universe.symbols.length,
                   sampleSymbols: universe.symbols.slice(0, 10),
                 },
@@ -553,7 +964,7 @@ export async function POST(req: Request) {
             }
 
             // List all universes
-            const all = listUniverses()
+            const all = await listAllUniverses()
             return {
               type: 'universe_list',
               universes: all.map(u => ({
@@ -561,6 +972,7 @@ export async function POST(req: Request) {
                 label: u.label,
                 description: u.description,
                 etfProxy: u.etfProxy,
+                custom: !!u.custom,
                 symbolCount: u.symbols.length,
               })),
             }
@@ -0,0 +1,128 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  computeCorrelationSet,
+  resolveCorrelationSet,
+  MAX_CORRELATION_SYMBOLS,
+  type CorrelationSet,
+} from '@/lib/correlation'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { asOfFromSearchParams, AS_OF_CACHE_CONTROL } from '@/lib/as-of'
+import { requireMarketData } from '@/lib/env'
+
+// =============================================================================
+// Correlation Matrix API
+// =============================================================================
+// GET /api/correlation?set=core&window=63
+// GET /api/correlation?symbols=SPY,TLT,GLD,UUP&window=21
+//
+// Rolling correlation of daily returns across a symbol set - `core` (the
+// dashboard indices), `sectors` (sector ETFs) or a universe id - or an
+// explicit ?symbols= list. The matrix comes back in clustered order, with
+// the average pairwise correlation history and any correlation shifts
+// (jumps of ?jumpThreshold= across ?jumpDays= sessions).
+// =============================================================================
+
+export const dynamic = 'force-dynamic'
+
+const CorrelationQuerySchema = z.object({
+  set: z.string().optional(),
+  symbols: z.string().optional(), // Comma-separated; overrides `set`
+  window: z.coerce.number().int().min(10).max(252).optional(),
+  shiftWindow: z.coerce.number().int().min(5).max(63).optional(),
+  jumpDays: z.coerce.number().int().min(1).max(63).optional(),
+  jumpThreshold: z.coerce.number().min(0.01).max(1).optional(),
+  historyDays: z.coerce.number().int().min(21).max(756).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  // Rate limit check
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const { asOf, error: asOfError } = asOfFromSearchParams(searchParams)
+  if (asOfError) {
+    return NextResponse.json({ error: asOfError }, { status: 400 })
+  }
+
+  const parsed = CorrelationQuerySchema.safeParse(
+    Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+  )
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+      { status: 400 }
+    )
+  }
+
+  const query = parsed.data
+  let set: CorrelationSet | null
+  if (query.symbols) {
+    const symbols = query.symbols
+      .split(',')
+      .map((s) => s.trim().toUpperCase())
+      .filter((s) => s.length > 0)
+    if (symbols.length < 2 || symbols.length > MAX_CORRELATION_SYMBOLS) {
+      return NextResponse.json(
+        { error: `Provide between 2 and ${MAX_CORRELATION_SYMBOLS} symbols` },
+        { status: 400 }
+      )
+    }
+    set = { id: 'custom', label: symbols.join(', '), symbols }
+  } else {
+    set = await resolveCorrelationSet(query.set ?? 'core')
+    if (!set) {
+      return NextResponse.json(
+        { error: `Unknown set: ${query.set}. Use core, sectors, a universe id, or ?symbols=` },
+        { status: 400 }
+      )
+    }
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const result = await computeCorrelationSet(
+      set,
+      {
+        window: query.window,
+        shiftWindow: query.shiftWindow,
+        jumpDays: query.jumpDays,
+        jumpThreshold: query.jumpThreshold,
+        historyDays: query.historyDays,
+      },
+      asOf
+    )
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Fewer than two symbols returned enough history for the correlation window.' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        ...result,
+        ...((result.failedSymbols.length > 0 || result.shortHistorySymbols.length > 0) && {
+          warnings: { failedSymbols: result.failedSymbols, shortHistorySymbols: result.shortHistorySymbols },
+        }),
+      },
+      { headers: asOf ? { 'Cache-Control': AS_OF_CACHE_CONTROL } : undefined }
+    )
+  } catch (error) {
+    console.error('[Correlation API] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Correlation failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -21,6 +21,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
     return NextResponse.json({
       id: dashboard.id,
+      title: dashboard.title,
       createdAt: dashboard.createdAt,
       config: JSON.parse(dashboard.config),
       results: JSON.parse(dashboard.results),
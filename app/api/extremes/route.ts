@@ -1,18 +1,23 @@
 import { type NextRequest, NextResponse } from "next/server"
 import {
-  fetchDailyBars,
   computeEnhancedMetrics,
   buildResponseMeta,
   fetchMarketStatus,
   type HeatmapMetrics,
   type DailyBar,
 } from "@/lib/massive-api"
+import { getDailyBarHistory, type DailyBarHistory } from "@/lib/bars/store"
+import { asOfFromSearchParams, AS_OF_CACHE_CONTROL } from "@/lib/as-of"
+import { requireMarketData } from "@/lib/env"
 
 // =============================================================================
 // Enhanced Extremes API - Returns BOTH High and Close Bases
 // =============================================================================
 // Now returns both bases for dual-view comparison in the main heatmap table.
 // Includes sanity checks for data quality and delta calculations.
+// ?asOf=YYYY-MM-DD replays the window as it stood after that session's close.
+// ?adjusted=false serves unadjusted prices (default: split/special-dividend
+// adjusted, so corporate actions don't read as new highs or lows).
 // =============================================================================
 
 export interface ExtremesResponse {
@@ -24,10 +29,13 @@ export interface ExtremesResponse {
   // For backward compat: the currently selected basis (defaults to close)
   data: Record<string, HeatmapMetrics[]>
   rawBars: Record<string, DailyBar[]>
+  asOf: string | null // Replayed session, null for the live view
   // Sanity check flags
   sanity: {
     staleSymbols: string[] // Symbols with potentially stale data
     constantDays: string[] // Symbols where daysSinceHigh is constant across all days (suspicious)
+    flaggedSymbols: string[] // Symbols with gaps or unexplained jumps in their bars
+    dataQualityWarnings: string[]
   }
   meta: ReturnType<typeof buildResponseMeta>
 }
@@ -38,6 +46,7 @@ export async function GET(request: NextRequest) {
   const lookback = Number.parseInt(searchParams.get("lookback") || "63")
   const basis = (searchParams.get("basis") || "close") as "close" | "intraday"
   const days = Number.parseInt(searchParams.get("days") || "30")
+  const adjusted = searchParams.get("adjusted") !== "false"
 
   const symbols = symbolsParam
     .split(",")
@@ -51,7 +60,12 @@ export async function GET(request: NextRequest) {
     )
   }
 
-  if (!process.env.MASSIVE_API_KEY) {
+  const { asOf, error: asOfError } = asOfFromSearchParams(searchParams)
+  if (asOfError) {
+    return NextResponse.json({ error: asOfError }, { status: 400 })
+  }
+
+  if (!requireMarketData().isValid) {
     return NextResponse.json({ error: "MASSIVE_API_KEY not configured" }, { status: 500 })
   }
 
@@ -62,7 +76,9 @@ export async function GET(request: NextRequest) {
     // Fetch with extra buffer for lookback computation
     const fetchDays = Math.max(days + lookback + 30, 252)
     const barsPromises = symbols.map((symbol) =>
-      fetchDailyBars(symbol, fetchDays).catch(() => [] as DailyBar[])
+      getDailyBarHistory(symbol, fetchDays, asOf, { adjusted }).catch(
+        (): DailyBarHistory => ({ bars: [], issues: [] })
+      )
     )
 
     const barsResults = await Promise.all(barsPromises)
@@ -76,10 +92,17 @@ export async function GET(request: NextRequest) {
     // Sanity check tracking
     const staleSymbols: string[] = []
     const constantDays: string[] = []
+    const flaggedSymbols: string[] = []
+    const dataQualityWarnings: string[] = []
 
-    barsResults.forEach((bars, index) => {
+    barsResults.forEach(({ bars, issues }, index) => {
       const symbol = symbols[index]
 
+      if (issues.length > 0) {
+        flaggedSymbols.push(symbol)
+        dataQualityWarnings.push(...issues.map((issue) => `${symbol} ${issue.date}: ${issue.detail}`))
+      }
+
       if (bars.length === 0) {
         basisHigh[symbol] = []
         basisClose[symbol] = []
@@ -108,10 +131,10 @@ export async function GET(request: NextRequest) {
       rawBars[symbol] = displayBars
 
       // Sanity checks
-      // 1. Check for stale data (latest bar more than 3 days old)
+      // 1. Check for stale data (latest bar more than 3 days before today / asOf)
       if (displayBars.length > 0) {
         const latestDate = new Date(displayBars[displayBars.length - 1].date)
-        const now = new Date()
+        const now = asOf ? new Date(asOf) : new Date()
         const daysDiff = Math.floor((now.getTime() - latestDate.getTime()) / (1000 * 60 * 60 * 24))
         if (daysDiff > 3) {
           staleSymbols.push(symbol)
@@ -136,14 +159,20 @@ export async function GET(request: NextRequest) {
       basisClose,
       data,
       rawBars,
+      asOf,
       sanity: {
         staleSymbols,
         constantDays,
+        flaggedSymbols,
+        dataQualityWarnings,
       },
       meta: buildResponseMeta(),
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json(
+      response,
+      asOf ? { headers: { "Cache-Control": AS_OF_CACHE_CONTROL } } : undefined
+    )
   } catch (error) {
     console.error("Extremes API error:", error)
     return NextResponse.json(
@@ -0,0 +1,167 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  fetchMarketStatus,
+  isMarketOpen,
+  type DailyBar,
+} from "@/lib/massive-api"
+import { getDailyBars } from "@/lib/bars/store"
+import { withRateLimit, RATE_LIMITS } from "@/lib/rate-limit"
+import {
+  buildLiveRow,
+  getLiveFeedId,
+  mergeQuote,
+  subscribeLiveQuotes,
+  type LiveRowUpdate,
+  type LiveStreamStatus,
+} from "@/lib/live"
+import { requireMarketData } from "@/lib/env"
+
+// =============================================================================
+// Extremes Stream - Server-Sent Events for the latest heatmap row
+// =============================================================================
+// Loads enough history for the latest row, then recomputes it as the live
+// feed updates each symbol's session bar. Events:
+//   status -> LiveStreamStatus (first event; live=false closes the stream)
+//   row    -> LiveRowUpdate, coalesced to at most one per symbol per second
+// Outside market hours the stream closes and asks the browser to retry in
+// five minutes. The replay feed ignores market hours.
+// =============================================================================
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const MAX_SYMBOLS = 50
+const FLUSH_MS = 1000
+const HEARTBEAT_MS = 15_000
+const CLOSED_RETRY_MS = 5 * 60 * 1000
+
+const encoder = new TextEncoder()
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+}
+
+function sseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+function closedStream(status: LiveStreamStatus): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${CLOSED_RETRY_MS}\n\n`))
+      controller.enqueue(sseEvent("status", status))
+      controller.close()
+    },
+  })
+  return new Response(body, { headers: SSE_HEADERS })
+}
+
+export async function GET(request: NextRequest) {
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) return rateLimit.response
+
+  const searchParams = request.nextUrl.searchParams
+  const lookback = Number.parseInt(searchParams.get("lookback") || "63")
+  const symbols = (searchParams.get("symbols") || "DJI,SPX,IXIC,NDX,RUT,SOX")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter((s) => s.length > 0)
+
+  if (symbols.length === 0 || symbols.length > MAX_SYMBOLS) {
+    return NextResponse.json(
+      { error: `Provide between 1 and ${MAX_SYMBOLS} symbols` },
+      { status: 400 }
+    )
+  }
+  if (!Number.isFinite(lookback) || lookback < 1) {
+    return NextResponse.json({ error: "Invalid lookback" }, { status: 400 })
+  }
+
+  const feed = getLiveFeedId()
+
+  if (feed !== "replay") {
+    if (!requireMarketData().isValid) {
+      return closedStream({ live: false, feed, reason: "unavailable" })
+    }
+    await fetchMarketStatus().catch(() => {})
+    if (!isMarketOpen()) {
+      return closedStream({ live: false, feed, reason: "market-closed" })
+    }
+  }
+
+  // Same adjusted bar store /api/extremes reads, so the recomputed row matches it
+  const barsBySymbol: Record<string, DailyBar[]> = {}
+  await Promise.all(
+    symbols.map(async (symbol) => {
+      const bars = await getDailyBars(symbol, lookback + 30).catch(() => [] as DailyBar[])
+      if (bars.length > 0) barsBySymbol[symbol] = bars
+    })
+  )
+
+  let cleanup = () => {}
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const pending = new Map<string, LiveRowUpdate>()
+      let closed = false
+
+      const send = (chunk: Uint8Array) => {
+        if (closed) return
+        try {
+          controller.enqueue(chunk)
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeLiveQuotes(Object.keys(barsBySymbol), (quote) => {
+        const merged = mergeQuote(barsBySymbol[quote.symbol], quote)
+        if (!merged) return
+        barsBySymbol[quote.symbol] = merged
+        pending.set(quote.symbol, buildLiveRow(quote.symbol, merged, lookback, quote.timestamp))
+      })
+
+      const flush = setInterval(() => {
+        for (const row of pending.values()) send(sseEvent("row", row))
+        pending.clear()
+      }, FLUSH_MS)
+
+      const heartbeat = setInterval(async () => {
+        if (feed !== "replay") {
+          await fetchMarketStatus().catch(() => {})
+          if (!isMarketOpen()) {
+            send(encoder.encode(`retry: ${CLOSED_RETRY_MS}\n\n`))
+            send(sseEvent("status", { live: false, feed, reason: "market-closed" } satisfies LiveStreamStatus))
+            cleanup()
+            return
+          }
+        }
+        send(encoder.encode(": ping\n\n"))
+      }, HEARTBEAT_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(flush)
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      request.signal.addEventListener("abort", () => cleanup())
+      send(sseEvent("status", { live: true, feed } satisfies LiveStreamStatus))
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(body, { headers: SSE_HEADERS })
+}
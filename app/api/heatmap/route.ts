@@ -1,5 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { fetchDailyBars, computeHeatmap, buildResponseMeta } from "@/lib/massive-api"
+import { computeHeatmap, buildResponseMeta } from "@/lib/massive-api"
+import { getDailyBars } from "@/lib/bars/store"
+import { asOfFromSearchParams, AS_OF_CACHE_CONTROL } from "@/lib/as-of"
+import { requireMarketData } from "@/lib/env"
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
@@ -7,6 +10,7 @@ export async function GET(request: NextRequest) {
   const lookback = Number.parseInt(searchParams.get("lookback") || "63")
   const basis = (searchParams.get("basis") || "close") as "close" | "intraday"
   const days = Number.parseInt(searchParams.get("days") || "63")
+  const adjusted = searchParams.get("adjusted") !== "false"
 
   const symbols = symbolsParam
     .split(",")
@@ -20,7 +24,13 @@ export async function GET(request: NextRequest) {
     )
   }
 
-  if (!process.env.MASSIVE_API_KEY) {
+  // Replay mode: compute as of a past session's close
+  const { asOf, error: asOfError } = asOfFromSearchParams(searchParams)
+  if (asOfError) {
+    return NextResponse.json({ error: asOfError }, { status: 400 })
+  }
+
+  if (!requireMarketData().isValid) {
     return NextResponse.json(
       { error: "Market data service not configured. Please contact support." },
       { status: 503 }
@@ -29,7 +39,7 @@ export async function GET(request: NextRequest) {
 
   try {
     // Fetch data for all symbols in parallel
-    const barsPromises = symbols.map((symbol) => fetchDailyBars(symbol, Math.max(days + lookback, 252)))
+    const barsPromises = symbols.map((symbol) => getDailyBars(symbol, Math.max(days + lookback, 252), asOf, { adjusted }))
 
     const barsResults = await Promise.allSettled(barsPromises)
 
@@ -74,12 +84,16 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({
-      dates,
-      data,
-      meta: buildResponseMeta(),
-      ...(failedSymbols.length > 0 && { warnings: { failedSymbols } })
-    })
+    return NextResponse.json(
+      {
+        dates,
+        data,
+        asOf,
+        meta: buildResponseMeta(),
+        ...(failedSymbols.length > 0 && { warnings: { failedSymbols } })
+      },
+      asOf ? { headers: { "Cache-Control": AS_OF_CACHE_CONTROL } } : undefined
+    )
   } catch (error) {
     console.error("[Heatmap API] Error:", error)
     return NextResponse.json(
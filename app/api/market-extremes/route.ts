@@ -1,11 +1,25 @@
 import { type NextRequest, NextResponse } from "next/server"
 import {
-  fetchDailyBars,
   computeEnhancedMetrics,
   buildResponseMeta,
   type HeatmapMetrics,
   type DailyBar,
 } from "@/lib/massive-api"
+import { getDailyBars } from "@/lib/bars/store"
+import {
+  computeBreadth,
+  computeRegime,
+  detectRejections,
+  resolveTraderConfig,
+  type RegimeInfo,
+  type RejectionSignal,
+  type TraderConfig,
+} from "@/lib/trader-signals"
+import { traderConfigFromSearchParams } from "@/lib/trader-config"
+import { getUserPreferences } from "@/lib/preferences"
+import { getRequestUserId } from "@/lib/auth"
+import { asOfFromSearchParams } from "@/lib/as-of"
+import { requireMarketData } from "@/lib/env"
 
 // =============================================================================
 // Market Extremes API - Returns BOTH High and Close Bases
@@ -22,6 +36,12 @@ import {
 // - Rejected Breakout: HIGH=0 but CLOSE>0 days. Intraday high touched but
 //   sellers pushed it down by close. Potential reversal warning.
 // - Lagging: Neither at high. Look at delta for momentum divergence.
+//
+// Regime and rejection severity use the caller's trader thresholds: saved
+// user preferences, then per-request query overrides (hotThreshold,
+// coldThreshold, regimeMajority, rejectionMild, rejectionNotable, recentRows).
+//
+// ?asOf=YYYY-MM-DD replays everything as of that session's close.
 // =============================================================================
 
 export interface MarketExtremesResponse {
@@ -41,7 +61,11 @@ export interface MarketExtremesResponse {
       totalSymbols: number
       avgDaysSinceHigh: number
     }
+    regime: RegimeInfo // Close basis, using traderConfig thresholds
+    rejections: RejectionSignal[] // Latest session, using traderConfig severity bands
   }
+  traderConfig: TraderConfig
+  asOf: string | null // Replayed session, null for the live view
   meta: ReturnType<typeof buildResponseMeta>
 }
 
@@ -81,15 +105,32 @@ export async function GET(request: NextRequest) {
 
   const symbols = symbolsParam.split(",").map((s) => s.trim().toUpperCase())
 
-  if (!process.env.MASSIVE_API_KEY) {
+  const { overrides, error: configError } = traderConfigFromSearchParams(searchParams)
+  if (configError) {
+    return NextResponse.json({ error: configError }, { status: 400 })
+  }
+
+  const { asOf, error: asOfError } = asOfFromSearchParams(searchParams)
+  if (asOfError) {
+    return NextResponse.json({ error: asOfError }, { status: 400 })
+  }
+
+  if (!requireMarketData().isValid) {
     return NextResponse.json({ error: "MASSIVE_API_KEY not configured" }, { status: 500 })
   }
 
   try {
+    // Saved thresholds make the response user-specific; keep it out of shared caches
+    const preferences = await getRequestUserId(request)
+      .then((userId) => getUserPreferences(userId))
+      .catch(() => null)
+    const savedConfig = preferences?.traderConfig ?? null
+    const traderConfig = resolveTraderConfig(savedConfig, overrides)
+
     // Fetch bars with buffer for lookback window computation
     const fetchDays = Math.max(days + lookback + 30, 252)
     const barsPromises = symbols.map((symbol) =>
-      fetchDailyBars(symbol, fetchDays).catch(() => [] as DailyBar[])
+      getDailyBars(symbol, fetchDays, asOf).catch(() => [] as DailyBar[])
     )
 
     const barsResults = await Promise.all(barsPromises)
@@ -216,6 +257,11 @@ export async function GET(request: NextRequest) {
     const avgDaysSinceHigh =
       validDays.length > 0 ? validDays.reduce((a, b) => a + b, 0) / validDays.length : 0
 
+    // Regime and rejections under the resolved thresholds
+    const latestDate = dates[dates.length - 1] ?? ""
+    const regime = computeRegime(computeBreadth(latestCloseDays, traderConfig), traderConfig)
+    const rejections = detectRejections(latestHighDays, latestCloseDays, latestDate, traderConfig)
+
     const response: MarketExtremesResponse = {
       dates,
       symbols,
@@ -233,16 +279,22 @@ export async function GET(request: NextRequest) {
           totalSymbols: symbols.length,
           avgDaysSinceHigh: Math.round(avgDaysSinceHigh * 10) / 10,
         },
+        regime,
+        rejections,
       },
+      traderConfig,
+      asOf,
       meta: buildResponseMeta(),
     }
 
-    // Set cache headers based on market hours
-    const cacheSeconds = isMarketOpen() ? 30 : 900 // 30s open, 15min closed
+    // Set cache headers based on market hours (replayed sessions don't change)
+    const cacheSeconds = asOf ? 86400 : isMarketOpen() ? 30 : 900 // 30s open, 15min closed
 
     return NextResponse.json(response, {
       headers: {
-        "Cache-Control": `public, s-maxage=${cacheSeconds}, stale-while-revalidate=${cacheSeconds * 2}`,
+        "Cache-Control": savedConfig
+          ? `private, max-age=${cacheSeconds}`
+          : `public, s-maxage=${cacheSeconds}, stale-while-revalidate=${cacheSeconds * 2}`,
       },
     })
   } catch (error) {
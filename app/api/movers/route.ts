@@ -13,7 +13,7 @@ export async function GET(request: Request) {
   const ctx = startTiming('/api/movers')
 
   // Rate limiting
-  const rateLimit = withRateLimit(request, RATE_LIMITS.standard)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.standard)
   if (rateLimit.response) {
     logger.warn('Rate limit exceeded', { requestId: ctx.requestId, endpoint: ctx.endpoint })
     return rateLimit.response
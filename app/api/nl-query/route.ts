@@ -1,75 +1,81 @@
 import { NextResponse } from 'next/server'
-import { parseNLQuery, describePlan } from '@/lib/nl-planner'
-import { massiveRequest, transformForVisualization } from '@/lib/massive-openapi'
+import { planFromNaturalLanguage } from '@/lib/ai/planner'
+import { executePlan } from '@/lib/ai/query-plan'
+import { requireAiProvider, requireMarketData } from '@/lib/env'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+
+// =============================================================================
+// Natural Language Query API
+// =============================================================================
+// POST /api/nl-query  { "query": "NVDA vs SMH this quarter with RSI" }
+//
+// Plans the question into a QueryPlan and runs it through the same executor
+// as the chat tools. Returns the plan alongside its result envelopes.
+// =============================================================================
 
 export const dynamic = 'force-dynamic'
 
-/**
- * POST /api/nl-query
- * Execute a natural language query against the Massive API
- */
-export async function POST(request: Request) {
-  try {
-    const { query } = await request.json()
+const MAX_QUERY_LENGTH = 500
 
-    if (!query || typeof query !== 'string') {
-      return NextResponse.json(
-        { error: 'Query is required' },
-        { status: 400 }
-      )
-    }
+export async function POST(request: Request) {
+  // Rate limit check (one LLM call plus the plan's data fetches)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.chat)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
 
-    // Parse NL query into API plan
-    const plan = parseNLQuery(query)
+  const ai = requireAiProvider()
+  if (!ai.isValid) {
+    return NextResponse.json(
+      { error: `AI service not configured. Missing ${ai.missing.join(', ')}.` },
+      { status: 503 }
+    )
+  }
 
-    if (!plan) {
-      return NextResponse.json({
-        success: false,
-        error: 'Could not understand the query. Try asking about a specific stock (e.g., "AAPL last month") or market data (e.g., "top gainers").',
-        suggestions: [
-          'AAPL last month',
-          'Show me NVDA chart',
-          'Top gainers today',
-          'Market status',
-          'How is TSLA doing?',
-        ],
-      })
-    }
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
 
-    // Execute the API request
-    const result = await massiveRequest(plan.operationId, plan.params)
+  const body = await request.json().catch(() => null)
+  const query = typeof body?.query === 'string' ? body.query.trim() : ''
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `query must be a non-empty string of at most ${MAX_QUERY_LENGTH} characters` },
+      { status: 400 }
+    )
+  }
 
-    if (!result.success) {
-      return NextResponse.json({
-        success: false,
-        error: result.error,
-        plan: {
-          operationId: plan.operationId,
-          params: plan.params,
-          explanation: plan.explanation,
+  try {
+    const planned = await planFromNaturalLanguage([{ role: 'user', content: query }])
+    if (!planned.success) {
+      return NextResponse.json(
+        {
+          error: 'Could not understand the query.',
+          details: planned.error,
+          suggestions: ['AAPL last month', 'NVDA vs SMH with RSI', 'Top gainers today', 'SPY options this Friday'],
         },
-      })
+        { status: 422 }
+      )
     }
 
-    // Transform result for visualization
-    const visualization = transformForVisualization(plan.operationId, result.data)
+    const results = await executePlan(planned.plan)
 
-    return NextResponse.json({
-      success: true,
-      plan: {
-        operationId: plan.operationId,
-        params: plan.params,
-        explanation: plan.explanation,
-        description: describePlan(plan),
-      },
-      visualization,
-      followupQuestions: plan.followupQuestions,
-      rawData: result.data,
-    })
+    return NextResponse.json(
+      { plan: planned.plan, results },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+          'X-RateLimit-Remaining': String(rateLimit.remaining),
+        },
+      }
+    )
   } catch (error) {
-    console.error('NL Query error:', error)
+    console.error('[NL Query API] Error:', error)
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { error: error instanceof Error ? error.message : 'Failed to run query' },
       { status: 500 }
     )
   }
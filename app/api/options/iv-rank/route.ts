@@ -0,0 +1,100 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { getIvRank, getIvHistory, runIvSnapshot } from '@/lib/options/iv-store'
+import { computeIvRank } from '@/lib/options/iv-history'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { requireMarketData } from '@/lib/env'
+
+// =============================================================================
+// IV Rank API
+// =============================================================================
+// GET /api/options/iv-rank?symbol=SPY[&history=true]
+//   52-week IV rank and IV percentile of the constant-maturity 30-day ATM IV,
+//   from the nightly snapshots. `history` adds the stored series.
+//
+// POST /api/options/iv-rank
+//   Authorization: Bearer $CRON_SECRET -> take today's snapshot (external cron)
+// =============================================================================
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  // Rate limit check
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.standard)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'IV history requires database configuration.' },
+      { status: 503 }
+    )
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const symbol = (searchParams.get('symbol') || 'SPY').trim().toUpperCase()
+  const includeHistory = searchParams.get('history') === 'true'
+
+  if (!/^[A-Z.]{1,10}$/.test(symbol)) {
+    return NextResponse.json({ error: 'symbol must be a stock or ETF ticker' }, { status: 400 })
+  }
+
+  try {
+    const history = includeHistory ? await getIvHistory(symbol) : null
+    const stats = history ? computeIvRank(symbol, history) : await getIvRank(symbol)
+
+    return NextResponse.json(
+      { ...stats, ...(history ? { history } : {}) },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=3600',
+          'X-RateLimit-Remaining': String(rateLimit.remaining),
+        },
+      }
+    )
+  } catch (error) {
+    console.error('[IV Rank API] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load IV history' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // Rate limit check (one chain fetch per symbol)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'IV history requires database configuration.' },
+      { status: 503 }
+    )
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const summary = await runIvSnapshot()
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('[IV Rank API] Snapshot error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'IV snapshot failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  fetchStrategy,
+  DEFAULT_STRATEGY_DAYS,
+  DEFAULT_STRATEGY_WIDTH,
+} from '@/lib/options/run'
+import { STRATEGY_TEMPLATES, type StrategyTemplate } from '@/lib/options'
+import { buildResponseMeta } from '@/lib/massive-api'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { requireMarketData } from '@/lib/env'
+
+// =============================================================================
+// Options Strategy API
+// =============================================================================
+// GET /api/options/strategy?symbol=SPY&template=iron_condor&days=30&width=0.05
+//
+// Picks the legs of a strategy template from the live chain (expiration
+// nearest `days`, wings `width` of spot away) and returns net premium,
+// breakevens, max profit/loss, position Greeks and payoff curves, plus the
+// chain around the legs so a client can edit them and re-price locally.
+// =============================================================================
+
+export const dynamic = 'force-dynamic'
+
+const MAX_DAYS = 365
+const MAX_WIDTH = 0.25
+
+export async function GET(request: NextRequest) {
+  // Rate limit check (multi-page chain fetch)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const symbol = (searchParams.get('symbol') || 'SPY').trim().toUpperCase()
+  const template = searchParams.get('template') || 'bull_call_spread'
+  const days = Number.parseInt(searchParams.get('days') || String(DEFAULT_STRATEGY_DAYS))
+  const width = Number.parseFloat(searchParams.get('width') || String(DEFAULT_STRATEGY_WIDTH))
+
+  if (!/^[A-Z.]{1,10}$/.test(symbol)) {
+    return NextResponse.json({ error: 'symbol must be a stock or ETF ticker' }, { status: 400 })
+  }
+
+  if (!(STRATEGY_TEMPLATES as readonly string[]).includes(template)) {
+    return NextResponse.json(
+      { error: `template must be one of: ${STRATEGY_TEMPLATES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (!Number.isFinite(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json({ error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 })
+  }
+
+  if (!Number.isFinite(width) || width <= 0 || width > MAX_WIDTH) {
+    return NextResponse.json({ error: `width must be between 0 and ${MAX_WIDTH}` }, { status: 400 })
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const result = await fetchStrategy(symbol, template as StrategyTemplate, days, width)
+
+    if (!result.analysis) {
+      return NextResponse.json({ error: result.error, symbol, template }, { status: 502 })
+    }
+
+    return NextResponse.json(
+      { ...result, meta: buildResponseMeta() },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
+          'X-RateLimit-Remaining': String(rateLimit.remaining),
+        },
+      }
+    )
+  } catch (error) {
+    console.error('[Options Strategy API] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build strategy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { fetchIvSurface, DEFAULT_SURFACE_DAYS } from '@/lib/options/run'
+import { buildResponseMeta } from '@/lib/massive-api'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { requireMarketData } from '@/lib/env'
+
+// =============================================================================
+// Implied Volatility Surface API
+// =============================================================================
+// GET /api/options/surface?symbol=SPY&days=90
+//
+// ATM IV term structure, 25-delta put/call skew per expiration and a
+// strike x expiry IV grid, built from every listed contract within `days`
+// and ±30% of spot. Options exist on ETFs and stocks, not on indices.
+// =============================================================================
+
+export const dynamic = 'force-dynamic'
+
+const MAX_DAYS = 365
+
+export async function GET(request: NextRequest) {
+  // Rate limit check (multi-page chain fetch)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const symbol = (searchParams.get('symbol') || 'SPY').trim().toUpperCase()
+  const days = Number.parseInt(searchParams.get('days') || String(DEFAULT_SURFACE_DAYS))
+
+  if (!/^[A-Z.]{1,10}$/.test(symbol)) {
+    return NextResponse.json({ error: 'symbol must be a stock or ETF ticker' }, { status: 400 })
+  }
+
+  if (!Number.isFinite(days) || days < 7 || days > MAX_DAYS) {
+    return NextResponse.json({ error: `days must be between 7 and ${MAX_DAYS}` }, { status: 400 })
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const result = await fetchIvSurface(symbol, days)
+
+    if (!result.surface) {
+      return NextResponse.json({ error: result.error, symbol }, { status: 502 })
+    }
+
+    return NextResponse.json(
+      {
+        symbol,
+        days,
+        contracts: result.contracts,
+        ...result.surface,
+        meta: buildResponseMeta(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+          'X-RateLimit-Remaining': String(rateLimit.remaining),
+        },
+      }
+    )
+  } catch (error) {
+    console.error('[Options Surface API] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build IV surface' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { scanUnusualActivity } from '@/lib/options/scan'
+import { loadUniverse } from '@/lib/universes'
+import { buildResponseMeta } from '@/lib/massive-api'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { requireMarketData } from '@/lib/env'
+
+// =============================================================================
+// Unusual Options Activity API
+// =============================================================================
+// GET /api/options/unusual?universe=qqq
+//   [&minVolume=100&minVolumeOiRatio=2&spikeMultiple=5&minPremium=250000&maxDte=14&limit=100]
+//
+// Scans the short-dated chain of every universe constituent and returns the
+// contracts flagged for volume/OI, a volume spike versus their stored
+// trailing average, or large premium on short-dated OTM strikes.
+// =============================================================================
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+function optionalNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : Number.NaN
+}
+
+export async function GET(request: NextRequest) {
+  // Rate limit check (one chain fetch per constituent)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const universeId = searchParams.get('universe') || 'qqq'
+  const limit = Number.parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT))
+
+  const criteria = {
+    minVolume: optionalNumber(searchParams.get('minVolume')),
+    minVolumeOiRatio: optionalNumber(searchParams.get('minVolumeOiRatio')),
+    spikeMultiple: optionalNumber(searchParams.get('spikeMultiple')),
+    minPremium: optionalNumber(searchParams.get('minPremium')),
+    maxDte: optionalNumber(searchParams.get('maxDte')),
+  }
+
+  const invalid = Object.entries(criteria).find(([, value]) => Number.isNaN(value))
+  if (invalid) {
+    return NextResponse.json({ error: `${invalid[0]} must be a non-negative number` }, { status: 400 })
+  }
+
+  if (!Number.isFinite(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 })
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json(
+      { error: 'Market data service not configured. Please contact support.' },
+      { status: 503 }
+    )
+  }
+
+  const universe = await loadUniverse(universeId)
+  if (!universe) {
+    return NextResponse.json({ error: `Unknown universe: ${universeId}` }, { status: 404 })
+  }
+
+  try {
+    const scan = await scanUnusualActivity(universe.symbols, criteria)
+
+    return NextResponse.json(
+      {
+        universe: { id: universe.id, label: universe.label },
+        ...scan,
+        results: scan.results.slice(0, limit),
+        totalFlagged: scan.results.length,
+        meta: buildResponseMeta(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=120, stale-while-revalidate=300',
+          'X-RateLimit-Remaining': String(rateLimit.remaining),
+        },
+      }
+    )
+  } catch (error) {
+    console.error('[Unusual Options API] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to scan options activity' },
+      { status: 500 }
+    )
+  }
+}
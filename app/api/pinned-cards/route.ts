@@ -1,10 +1,14 @@
 import { type NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId, requireUserId } from '@/lib/auth'
 
 // =============================================================================
 // Pinned Cards API - Manages AI-generated cards pinned to dashboard
 // =============================================================================
+// Cards belong to the signed-in user (or the local user when auth is off).
+// Signed-out visitors get an empty list and keep pins in the browser.
+// =============================================================================
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   // Check if database is configured
   if (!process.env.DATABASE_URL) {
     // Fallback to localStorage on client-side
@@ -16,10 +20,19 @@ export async function GET() {
   }
 
   try {
+    const userId = await getRequestUserId(request)
+    if (!userId) {
+      return NextResponse.json({
+        cards: [],
+        source: 'none',
+        message: 'Sign in to save pinned cards. Cards will be stored locally.',
+      })
+    }
+
     const { prisma } = await import('@/lib/prisma')
 
     const cards = await prisma.pinnedCard.findMany({
-      where: { active: true },
+      where: { userId, active: true },
       orderBy: { position: 'asc' },
     })
 
@@ -52,6 +65,11 @@ export async function POST(request: NextRequest) {
     )
   }
 
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
   try {
     const { prisma } = await import('@/lib/prisma')
     const body = await request.json()
@@ -67,7 +85,7 @@ export async function POST(request: NextRequest) {
 
     // Get the next position
     const lastCard = await prisma.pinnedCard.findFirst({
-      where: { active: true },
+      where: { userId: auth.userId, active: true },
       orderBy: { position: 'desc' },
     })
     const nextPosition = (lastCard?.position ?? -1) + 1
@@ -79,6 +97,7 @@ export async function POST(request: NextRequest) {
         config: JSON.stringify(config || {}),
         position: nextPosition,
         active: true,
+        userId: auth.userId,
       },
     })
 
@@ -106,6 +125,11 @@ export async function DELETE(request: NextRequest) {
     )
   }
 
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
   try {
     const { prisma } = await import('@/lib/prisma')
     const { searchParams } = new URL(request.url)
@@ -119,10 +143,13 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Soft delete by setting active to false
-    await prisma.pinnedCard.update({
-      where: { id },
+    const { count } = await prisma.pinnedCard.updateMany({
+      where: { id, userId: auth.userId },
       data: { active: false },
     })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Pinned card not found' }, { status: 404 })
+    }
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -141,6 +168,11 @@ export async function PATCH(request: NextRequest) {
     )
   }
 
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
   try {
     const { prisma } = await import('@/lib/prisma')
     const body = await request.json()
@@ -157,6 +189,11 @@ export async function PATCH(request: NextRequest) {
     if (typeof position === 'number') updateData.position = position
     if (typeof title === 'string') updateData.title = title
 
+    const existing = await prisma.pinnedCard.findFirst({ where: { id, userId: auth.userId } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Pinned card not found' }, { status: 404 })
+    }
+
     const card = await prisma.pinnedCard.update({
       where: { id },
       data: updateData,
@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getUserPreferences, updateUserPreferences } from '@/lib/preferences'
+import { getRequestUserId, requireUserId } from '@/lib/auth'
+import { TraderConfigOverridesSchema } from '@/lib/trader-config'
+
+// =============================================================================
+// User Preferences API
+// =============================================================================
+// GET   /api/preferences  -> current user's preferences (defaults if none saved or signed out)
+// PATCH /api/preferences  -> partial update (traderConfig: null resets thresholds)
+// =============================================================================
+
+const PreferencesUpdateSchema = z.object({
+  defaultSymbols: z.string().trim().min(1).max(500).optional(),
+  defaultLookback: z.number().int().min(5).max(504).optional(),
+  defaultBasis: z.enum(['close', 'intraday']).optional(),
+  darkMode: z.boolean().optional(),
+  alertsEnabled: z.boolean().optional(),
+  traderConfig: TraderConfigOverridesSchema.nullable().optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    const preferences = await getUserPreferences(userId)
+
+    // Signed-out visitors get defaults and keep changes in the browser
+    return NextResponse.json({
+      ...preferences,
+      source: process.env.DATABASE_URL && userId ? 'database' : 'none',
+    })
+  } catch (error) {
+    console.error('Error fetching preferences:', error)
+    return NextResponse.json({ error: 'Failed to fetch preferences' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  try {
+    const body = await request.json()
+
+    const parsed = PreferencesUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const preferences = await updateUserPreferences(parsed.data, auth.userId)
+    return NextResponse.json(preferences)
+  } catch (error) {
+    console.error('Error updating preferences:', error)
+    const message = error instanceof Error ? error.message : 'Failed to update preferences'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -2,27 +2,52 @@ import { NextResponse } from 'next/server'
 import { classifyRiskRegime, buildResponseMeta } from '@/lib/massive-api'
 import { logger, startTiming, endTiming } from '@/lib/logger'
 import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { asOfFromSearchParams, AS_OF_CACHE_CONTROL } from '@/lib/as-of'
+import { computeRegimeHistory } from '@/lib/regime'
 
 export const dynamic = 'force-dynamic'
 
+const MAX_HISTORY = 504
+
 /**
  * GET /api/risk
- * Returns current market risk regime classification (risk on/off/mixed)
+ * Returns current market risk regime classification (risk on/off/mixed).
+ * ?asOf=YYYY-MM-DD classifies the regime as of that session instead.
+ *
+ * ?history=N adds `model`: the multi-factor regime model (trend, credit,
+ * rates, dollar, breadth, VIX term structure) as a daily series over the
+ * last N sessions, with per-factor scores and how long the current regime
+ * has lasted. Model runs are cached per session date.
  */
 export async function GET(request: Request) {
   const ctx = startTiming('/api/risk')
 
   // Rate limiting (heavy computation)
-  const rateLimit = withRateLimit(request, RATE_LIMITS.heavy)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
   if (rateLimit.response) {
     logger.warn('Rate limit exceeded', { requestId: ctx.requestId, endpoint: ctx.endpoint })
     return rateLimit.response
   }
 
+  const searchParams = new URL(request.url).searchParams
+  const { asOf, error: asOfError } = asOfFromSearchParams(searchParams)
+  if (asOfError) {
+    return NextResponse.json({ error: asOfError }, { status: 400 })
+  }
+
+  const historyParam = searchParams.get('history')
+  const history = historyParam ? Number(historyParam) : null
+  if (history !== null && (!Number.isInteger(history) || history < 1 || history > MAX_HISTORY)) {
+    return NextResponse.json({ error: `history must be an integer between 1 and ${MAX_HISTORY}` }, { status: 400 })
+  }
+
   try {
-    logger.apiRequest(ctx.endpoint, 'GET', { requestId: ctx.requestId })
+    logger.apiRequest(ctx.endpoint, 'GET', { requestId: ctx.requestId, asOf, history })
 
-    const result = await classifyRiskRegime()
+    const [result, model] = await Promise.all([
+      classifyRiskRegime(asOf),
+      history !== null ? computeRegimeHistory(history, {}, asOf) : null,
+    ])
     const durationMs = endTiming(ctx)
 
     if (!result.success || !result.metrics) {
@@ -55,11 +80,13 @@ export async function GET(request: Request) {
         confidence: result.metrics.confidence,
         signals: result.metrics.signals,
         details: result.metrics.details,
+        ...(history !== null && { model }),
+        asOf,
         meta: buildResponseMeta(),
       },
       {
         headers: {
-          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=60',
+          'Cache-Control': asOf ? AS_OF_CACHE_CONTROL : 'public, s-maxage=300, stale-while-revalidate=60',
           'X-Request-Id': ctx.requestId,
           'X-Response-Time': `${durationMs}ms`,
           'X-RateLimit-Remaining': String(rateLimit.remaining),
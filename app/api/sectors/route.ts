@@ -1,28 +1,60 @@
 import { NextResponse } from 'next/server'
+import { z } from 'zod'
 import { fetchSectorPerformance, buildResponseMeta } from '@/lib/massive-api'
-import { logger, startTiming, endTiming } from '@/lib/logger'
+import { logger, startTiming, endTiming, type TimingContext } from '@/lib/logger'
 import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { asOfFromSearchParams, AS_OF_CACHE_CONTROL } from '@/lib/as-of'
+import { requireMarketData } from '@/lib/env'
+import { computeSectorRotation, DEFAULT_RRG_BENCHMARK } from '@/lib/rotation'
 
 export const dynamic = 'force-dynamic'
 
+const MAX_RRG_SYMBOLS = 20
+
+const RrgQuerySchema = z.object({
+  symbols: z.string().optional(), // Comma-separated, added to the sector ETFs
+  benchmark: z.string().regex(/^[A-Za-z.]{1,10}$/).optional(),
+  interval: z.enum(['daily', 'weekly']).optional(),
+  smoothing: z.coerce.number().int().min(1).max(20).optional(),
+  period: z.coerce.number().int().min(2).max(52).optional(),
+  momentumPeriod: z.coerce.number().int().min(2).max(26).optional(),
+  points: z.coerce.number().int().min(5).max(260).optional(),
+  tail: z.coerce.number().int().min(2).max(52).optional(),
+})
+
 /**
  * GET /api/sectors
- * Returns sector ETF performance with relative strength vs SPY
+ * Returns sector ETF performance with relative strength vs SPY.
+ * ?asOf=YYYY-MM-DD reports that session's change instead of today's.
+ *
+ * ?mode=rrg returns the relative rotation graph instead: RS-Ratio and
+ * RS-Momentum series for every sector ETF plus ?symbols=, against
+ * ?benchmark= (default SPY), with interval/smoothing/period/momentumPeriod/
+ * points/tail overrides.
  */
 export async function GET(request: Request) {
   const ctx = startTiming('/api/sectors')
 
   // Rate limiting
-  const rateLimit = withRateLimit(request, RATE_LIMITS.standard)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.standard)
   if (rateLimit.response) {
     logger.warn('Rate limit exceeded', { requestId: ctx.requestId, endpoint: ctx.endpoint })
     return rateLimit.response
   }
 
+  const { asOf, error: asOfError } = asOfFromSearchParams(new URL(request.url).searchParams)
+  if (asOfError) {
+    return NextResponse.json({ error: asOfError }, { status: 400 })
+  }
+
+  if (new URL(request.url).searchParams.get('mode') === 'rrg') {
+    return handleRrg(request, ctx, asOf)
+  }
+
   try {
-    logger.apiRequest(ctx.endpoint, 'GET', { requestId: ctx.requestId })
+    logger.apiRequest(ctx.endpoint, 'GET', { requestId: ctx.requestId, asOf })
 
-    const result = await fetchSectorPerformance()
+    const result = await fetchSectorPerformance(asOf)
     const durationMs = endTiming(ctx)
 
     if (!result.success) {
@@ -50,11 +82,12 @@ export async function GET(request: Request) {
         sectors: result.sectors,
         spyPrice: result.spyPrice,
         spyChangePercent: result.spyChangePercent,
+        asOf,
         meta: buildResponseMeta(),
       },
       {
         headers: {
-          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=30',
+          'Cache-Control': asOf ? AS_OF_CACHE_CONTROL : 'public, s-maxage=60, stale-while-revalidate=30',
           'X-Request-Id': ctx.requestId,
           'X-Response-Time': `${durationMs}ms`,
           'X-RateLimit-Remaining': String(rateLimit.remaining),
@@ -80,3 +113,83 @@ export async function GET(request: Request) {
     )
   }
 }
+
+async function handleRrg(request: Request, ctx: TimingContext, asOf: string | null) {
+  const searchParams = new URL(request.url).searchParams
+  const parsed = RrgQuerySchema.safeParse(
+    Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+  )
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+      { status: 400 }
+    )
+  }
+
+  const query = parsed.data
+  const symbols = (query.symbols ?? '')
+    .split(',')
+    .map((s) => s.trim().toUpperCase())
+    .filter((s) => s.length > 0)
+  if (symbols.length > MAX_RRG_SYMBOLS) {
+    return NextResponse.json({ error: `Provide at most ${MAX_RRG_SYMBOLS} extra symbols` }, { status: 400 })
+  }
+
+  if (!requireMarketData().isValid) {
+    return NextResponse.json({ error: 'Market data service not configured' }, { status: 503 })
+  }
+
+  try {
+    logger.apiRequest(ctx.endpoint, 'GET', { requestId: ctx.requestId, asOf, mode: 'rrg' })
+
+    const result = await computeSectorRotation(
+      symbols,
+      {
+        interval: query.interval,
+        smoothing: query.smoothing,
+        period: query.period,
+        momentumPeriod: query.momentumPeriod,
+        points: query.points,
+        tailLength: query.tail,
+      },
+      query.benchmark ?? DEFAULT_RRG_BENCHMARK,
+      asOf
+    )
+    const durationMs = endTiming(ctx)
+
+    if (!result) {
+      logger.apiError(ctx.endpoint, 'NO_DATA', 'Benchmark history unavailable', {
+        requestId: ctx.requestId,
+        durationMs,
+      })
+      return NextResponse.json(
+        { error: `No history for benchmark ${query.benchmark ?? DEFAULT_RRG_BENCHMARK}` },
+        { status: 502, headers: { 'X-Request-Id': ctx.requestId, 'X-Response-Time': `${durationMs}ms` } }
+      )
+    }
+
+    logger.apiResponse(ctx.endpoint, 200, durationMs, { requestId: ctx.requestId })
+
+    return NextResponse.json(
+      { ...result, meta: buildResponseMeta() },
+      {
+        headers: {
+          'Cache-Control': asOf ? AS_OF_CACHE_CONTROL : 'public, s-maxage=300, stale-while-revalidate=60',
+          'X-Request-Id': ctx.requestId,
+          'X-Response-Time': `${durationMs}ms`,
+        },
+      }
+    )
+  } catch (error) {
+    const durationMs = endTiming(ctx)
+    logger.apiError(ctx.endpoint, 'INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error', {
+      requestId: ctx.requestId,
+      durationMs,
+    })
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500, headers: { 'X-Request-Id': ctx.requestId, 'X-Response-Time': `${durationMs}ms` } }
+    )
+  }
+}
@@ -1,12 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { withRateLimit, RATE_LIMITS } from "@/lib/rate-limit"
+import { getRequestUserId } from "@/lib/auth"
 
 // Maximum payload size: 500KB
 const MAX_PAYLOAD_SIZE = 500 * 1024
 
 export async function POST(request: NextRequest) {
   // Rate limit check
-  const rateLimit = withRateLimit(request, RATE_LIMITS.heavy)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
   if (rateLimit.response) {
     return rateLimit.response
   }
@@ -35,10 +36,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Signed-out visitors can still share; the link just has no owner to manage it
+    const userId = await getRequestUserId(request)
+
     const dashboard = await prisma.dashboard.create({
       data: {
         config: JSON.stringify(config),
         results: resultsStr,
+        userId,
       },
     })
 
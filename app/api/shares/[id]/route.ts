@@ -0,0 +1,115 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUserId } from '@/lib/auth'
+
+// =============================================================================
+// My Shares API - Rename or delete a share owned by the current user
+// =============================================================================
+// PATCH  /api/shares/[id]?kind=dashboard|chat  { title }
+// DELETE /api/shares/[id]?kind=dashboard|chat
+// =============================================================================
+
+const ShareKindSchema = z.enum(['dashboard', 'chat'])
+
+const ShareUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+})
+
+function parseKind(request: NextRequest) {
+  return ShareKindSchema.safeParse(request.nextUrl.searchParams.get('kind'))
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  const kind = parseKind(request)
+  if (!kind.success) {
+    return NextResponse.json({ error: 'kind must be "dashboard" or "chat"' }, { status: 400 })
+  }
+
+  const { id } = await params
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+    const body = await request.json()
+
+    const parsed = ShareUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const where = { id, userId: auth.userId }
+    const data = { title: parsed.data.title }
+    const { count } =
+      kind.data === 'dashboard'
+        ? await prisma.dashboard.updateMany({ where, data })
+        : await prisma.chatShare.updateMany({ where, data })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ kind: kind.data, id, title: parsed.data.title })
+  } catch (error) {
+    console.error('Error updating share:', error)
+    const message = error instanceof Error ? error.message : 'Failed to update share'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  const kind = parseKind(request)
+  if (!kind.success) {
+    return NextResponse.json({ error: 'kind must be "dashboard" or "chat"' }, { status: 400 })
+  }
+
+  const { id } = await params
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+
+    // Hard delete - the public link stops working immediately
+    const where = { id, userId: auth.userId }
+    const { count } =
+      kind.data === 'dashboard'
+        ? await prisma.dashboard.deleteMany({ where })
+        : await prisma.chatShare.deleteMany({ where })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting share:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete share'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { requireUserId } from '@/lib/auth'
+
+// =============================================================================
+// My Shares API - Dashboards and chats shared by the current user
+// =============================================================================
+// GET /api/shares  -> { shares: [{ kind, id, title, createdAt, viewCount, lastViewedAt }] }
+// Rename/delete a share via /api/shares/[id]?kind=dashboard|chat
+// =============================================================================
+
+export type ShareKind = 'dashboard' | 'chat'
+
+export interface ShareSummary {
+  kind: ShareKind
+  id: string
+  title: string | null
+  createdAt: Date
+  viewCount: number
+  lastViewedAt: Date | null
+}
+
+interface ShareRow {
+  id: string
+  title: string | null
+  createdAt: Date
+  viewCount: number
+  lastViewedAt: Date | null
+}
+
+const SHARE_SELECT = { id: true, title: true, createdAt: true, viewCount: true, lastViewedAt: true }
+const MAX_SHARES = 200
+
+export async function GET(request: NextRequest) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json({ shares: [], source: 'none' })
+  }
+
+  const auth = await requireUserId(request)
+  if (auth.response) {
+    return auth.response
+  }
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+
+    const [dashboards, chats] = await Promise.all([
+      prisma.dashboard.findMany({
+        where: { userId: auth.userId },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_SHARES,
+        select: SHARE_SELECT,
+      }),
+      prisma.chatShare.findMany({
+        where: { userId: auth.userId },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_SHARES,
+        select: SHARE_SELECT,
+      }),
+    ])
+
+    const shares: ShareSummary[] = [
+      ...dashboards.map((row: ShareRow) => ({ kind: 'dashboard' as const, ...row })),
+      ...chats.map((row: ShareRow) => ({ kind: 'chat' as const, ...row })),
+    ].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+    return NextResponse.json({ shares, source: 'database' })
+  } catch (error) {
+    console.error('Error fetching shares:', error)
+    return NextResponse.json({ error: 'Failed to fetch shares', shares: [] }, { status: 500 })
+  }
+}
@@ -21,7 +21,7 @@ export async function GET(
   const ctx = startTiming(`/api/strength/${symbol}`)
 
   // Rate limiting
-  const rateLimit = withRateLimit(request, RATE_LIMITS.standard)
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.standard)
   if (rateLimit.response) {
     logger.warn('Rate limit exceeded', { requestId: ctx.requestId, endpoint: ctx.endpoint })
     return rateLimit.response
@@ -0,0 +1,124 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { loadUniverse } from '@/lib/universes'
+import {
+  parseHoldingsCsv,
+  loadMembershipTimeline,
+  saveMembershipSnapshots,
+  type MembershipSnapshot,
+} from '@/lib/breadth/membership'
+import { withRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+
+// =============================================================================
+// Universe Membership API - Dated constituent lists for point-in-time breadth
+// =============================================================================
+// GET  /api/universes/:id/membership  -> list stored snapshots
+// POST /api/universes/:id/membership  -> import snapshots
+//   Content-Type: text/csv           body: "date,symbol" rows
+//   Content-Type: application/json   body: { csv?: string, snapshots?: [...], source?: string }
+// =============================================================================
+
+// Maximum payload size: 2MB (full Russell 2000 lists across many dates)
+const MAX_PAYLOAD_SIZE = 2 * 1024 * 1024
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const universe = await loadUniverse(id)
+
+  if (!universe) {
+    return NextResponse.json({ error: `Unknown universe: ${id}` }, { status: 404 })
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const timeline = await loadMembershipTimeline(universe.id)
+
+  return NextResponse.json({
+    universeId: universe.id,
+    pointInTime: timeline !== null,
+    snapshots: (timeline?.snapshots ?? []).map((snapshot) => ({
+      effectiveDate: snapshot.effectiveDate,
+      symbolCount: snapshot.symbols.length,
+    })),
+  })
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Rate limit check
+  const rateLimit = await withRateLimit(request, RATE_LIMITS.heavy)
+  if (rateLimit.response) {
+    return rateLimit.response
+  }
+
+  const { id } = await params
+  const universe = await loadUniverse(id)
+
+  if (!universe) {
+    return NextResponse.json({ error: `Unknown universe: ${id}` }, { status: 404 })
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Membership import requires database configuration.' },
+      { status: 503 }
+    )
+  }
+
+  const raw = await request.text()
+  if (raw.length > MAX_PAYLOAD_SIZE) {
+    return NextResponse.json(
+      { error: 'Import too large. Split the holdings file by date range.' },
+      { status: 413 }
+    )
+  }
+
+  let snapshots: MembershipSnapshot[]
+  let source: string | undefined
+
+  try {
+    const contentType = request.headers.get('content-type') || ''
+
+    if (contentType.includes('application/json')) {
+      const body = JSON.parse(raw)
+      source = typeof body.source === 'string' ? body.source : undefined
+      snapshots = typeof body.csv === 'string'
+        ? parseHoldingsCsv(body.csv)
+        : Array.isArray(body.snapshots)
+          ? body.snapshots
+          : []
+    } else {
+      source = request.nextUrl.searchParams.get('source') || 'csv'
+      snapshots = parseHoldingsCsv(raw)
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid import payload'
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+
+  const invalid = snapshots.find(
+    (s) => !/^\d{4}-\d{2}-\d{2}$/.test(s.effectiveDate) || !Array.isArray(s.symbols) || s.symbols.length === 0
+  )
+  if (snapshots.length === 0 || invalid) {
+    return NextResponse.json(
+      { error: 'Each snapshot needs an effectiveDate (YYYY-MM-DD) and a non-empty symbols array' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const saved = await saveMembershipSnapshots(universe.id, snapshots, source)
+
+    return NextResponse.json({
+      universeId: universe.id,
+      snapshotsSaved: saved,
+    })
+  } catch (error) {
+    console.error('Error importing universe membership:', error)
+    const message = error instanceof Error ? error.message : 'Failed to import membership'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,119 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  loadUniverse,
+  isReservedUniverseId,
+  CustomUniverseInputSchema,
+  customUniverseFromRow,
+} from '@/lib/universes'
+
+// =============================================================================
+// Universe API - Read any universe, update/delete custom universes
+// =============================================================================
+
+// Slug is the path id and cannot be changed in place
+const CustomUniverseUpdateSchema = CustomUniverseInputSchema.omit({ slug: true }).partial()
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const universe = await loadUniverse(id)
+
+  if (!universe) {
+    return NextResponse.json({ error: `Unknown universe: ${id}` }, { status: 404 })
+  }
+
+  return NextResponse.json({ ...universe, custom: !!universe.custom })
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+  if (isReservedUniverseId(id)) {
+    return NextResponse.json(
+      { error: 'Built-in universes cannot be modified' },
+      { status: 403 }
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 })
+  }
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+
+    const parsed = CustomUniverseUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const slug = id.toLowerCase()
+    const existing = await prisma.customUniverse.findUnique({ where: { slug } })
+    if (!existing) {
+      return NextResponse.json({ error: `Unknown universe: ${id}` }, { status: 404 })
+    }
+
+    const { symbols, ...rest } = parsed.data
+    const updateData: Record<string, unknown> = { ...rest }
+    if (symbols) updateData.symbols = JSON.stringify(symbols)
+
+    const row = await prisma.customUniverse.update({
+      where: { slug },
+      data: updateData,
+    })
+
+    return NextResponse.json(customUniverseFromRow(row))
+  } catch (error) {
+    console.error('Error updating custom universe:', error)
+    const message = error instanceof Error ? error.message : 'Failed to update custom universe'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+  if (isReservedUniverseId(id)) {
+    return NextResponse.json(
+      { error: 'Built-in universes cannot be deleted' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+    const slug = id.toLowerCase()
+
+    const existing = await prisma.customUniverse.findUnique({ where: { slug } })
+    if (!existing) {
+      return NextResponse.json({ error: `Unknown universe: ${id}` }, { status: 404 })
+    }
+
+    await prisma.customUniverse.delete({ where: { slug } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting custom universe:', error)
+    const message = error instanceof Error ? error.message : 'Failed to delete custom universe'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const prisma = vi.hoisted(() => ({
+  customUniverse: { findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn(), delete: vi.fn() },
+}))
+vi.mock('@/lib/prisma', () => ({ prisma }))
+
+import { GET as listUniverses, POST as createUniverse } from './route'
+import { GET as getUniverse, PATCH as updateUniverse, DELETE as deleteUniverse } from './[id]/route'
+
+const ROW = {
+  slug: 'my-semis',
+  label: 'My Semis',
+  description: null,
+  symbols: JSON.stringify(['NVDA', 'AMD']),
+  etfProxy: null,
+  disclosureText: null,
+  updatedAt: new Date('2024-03-01T12:00:00Z'),
+}
+
+function jsonRequest(path: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+beforeEach(() => {
+  vi.stubEnv('DATABASE_URL', 'postgres://test')
+  for (const fn of Object.values(prisma.customUniverse)) fn.mockReset()
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('POST /api/universes', () => {
+  it('creates a custom universe', async () => {
+    prisma.customUniverse.findUnique.mockResolvedValue(null)
+    prisma.customUniverse.create.mockResolvedValue(ROW)
+
+    const response = await createUniverse(
+      jsonRequest('/api/universes', 'POST', { slug: 'my-semis', label: 'My Semis', symbols: ['nvda', 'AMD', 'NVDA'] })
+    )
+
+    expect(response.status).toBe(201)
+    expect(prisma.customUniverse.create.mock.calls[0][0].data.symbols).toBe(JSON.stringify(['NVDA', 'AMD']))
+    expect(await response.json()).toMatchObject({ id: 'my-semis', custom: true })
+  })
+
+  it('rejects a duplicate id', async () => {
+    prisma.customUniverse.findUnique.mockResolvedValue(ROW)
+
+    const response = await createUniverse(
+      jsonRequest('/api/universes', 'POST', { slug: 'my-semis', label: 'Again', symbols: ['NVDA', 'AMD'] })
+    )
+
+    expect(response.status).toBe(409)
+    expect(prisma.customUniverse.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects invalid symbols and built-in ids', async () => {
+    const invalid = await createUniverse(
+      jsonRequest('/api/universes', 'POST', { slug: 'mine', label: 'Mine', symbols: ['NVDA', 'not a symbol'] })
+    )
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).error).toContain('invalid symbol')
+
+    const reserved = await createUniverse(
+      jsonRequest('/api/universes', 'POST', { slug: 'qqq', label: 'Mine', symbols: ['NVDA', 'AMD'] })
+    )
+    expect(reserved.status).toBe(400)
+    expect(prisma.customUniverse.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await createUniverse(
+      new NextRequest('http://localhost/api/universes', { method: 'POST', body: '{"slug": "mine",' })
+    )
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(/valid JSON/)
+    expect(prisma.customUniverse.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('needs a database', async () => {
+    vi.stubEnv('DATABASE_URL', '')
+    const response = await createUniverse(
+      jsonRequest('/api/universes', 'POST', { slug: 'mine', label: 'Mine', symbols: ['NVDA', 'AMD'] })
+    )
+    expect(response.status).toBe(503)
+  })
+})
+
+describe('GET /api/universes', () => {
+  it('lists built-ins before custom universes', async () => {
+    prisma.customUniverse.findMany.mockResolvedValue([ROW])
+
+    const { universes } = await (await listUniverses()).json()
+    expect(universes[0].custom).toBe(false)
+    expect(universes[universes.length - 1]).toMatchObject({ id: 'my-semis', symbolCount: 2, custom: true })
+  })
+})
+
+describe('/api/universes/[id]', () => {
+  it('returns 404 for unknown ids', async () => {
+    prisma.customUniverse.findUnique.mockResolvedValue(null)
+
+    expect((await getUniverse(jsonRequest('/api/universes/nope', 'GET'), params('nope'))).status).toBe(404)
+    expect(
+      (await updateUniverse(jsonRequest('/api/universes/nope', 'PATCH', { label: 'X' }), params('nope'))).status
+    ).toBe(404)
+    expect((await deleteUniverse(jsonRequest('/api/universes/nope', 'DELETE'), params('nope'))).status).toBe(404)
+    expect(prisma.customUniverse.update).not.toHaveBeenCalled()
+    expect(prisma.customUniverse.delete).not.toHaveBeenCalled()
+  })
+
+  it('refuses to modify built-in universes', async () => {
+    const patched = await updateUniverse(jsonRequest('/api/universes/spy', 'PATCH', { label: 'X' }), params('spy'))
+    const deleted = await deleteUniverse(jsonRequest('/api/universes/semis', 'DELETE'), params('semis'))
+
+    expect(patched.status).toBe(403)
+    expect(deleted.status).toBe(403)
+    expect(prisma.customUniverse.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('validates symbols on update', async () => {
+    const response = await updateUniverse(
+      jsonRequest('/api/universes/my-semis', 'PATCH', { symbols: ['NVDA', 'bad symbol!'] }),
+      params('my-semis')
+    )
+
+    expect(response.status).toBe(400)
+    expect(prisma.customUniverse.update).not.toHaveBeenCalled()
+  })
+
+  it('rejects an update body that is not JSON', async () => {
+    const response = await updateUniverse(
+      new NextRequest('http://localhost/api/universes/my-semis', { method: 'PATCH', body: 'label=X' }),
+      params('my-semis')
+    )
+
+    expect(response.status).toBe(400)
+    expect(prisma.customUniverse.update).not.toHaveBeenCalled()
+  })
+
+  it('updates and deletes a custom universe', async () => {
+    prisma.customUniverse.findUnique.mockResolvedValue(ROW)
+    prisma.customUniverse.update.mockResolvedValue({ ...ROW, symbols: JSON.stringify(['NVDA', 'AMD', 'AVGO']) })
+
+    const patched = await updateUniverse(
+      jsonRequest('/api/universes/my-semis', 'PATCH', { symbols: ['NVDA', 'AMD', 'avgo'] }),
+      params('my-semis')
+    )
+    expect(patched.status).toBe(200)
+    expect(prisma.customUniverse.update).toHaveBeenCalledWith({
+      where: { slug: 'my-semis' },
+      data: { symbols: JSON.stringify(['NVDA', 'AMD', 'AVGO']) },
+    })
+
+    const deleted = await deleteUniverse(jsonRequest('/api/universes/my-semis', 'DELETE'), params('my-semis'))
+    expect(await deleted.json()).toEqual({ success: true })
+    expect(prisma.customUniverse.delete).toHaveBeenCalledWith({ where: { slug: 'my-semis' } })
+  })
+})
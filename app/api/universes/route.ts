@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { listAllUniverses, CustomUniverseInputSchema, customUniverseFromRow } from '@/lib/universes'
+
+// =============================================================================
+// Universes API - Built-in ETF proxies plus user-defined custom universes
+// =============================================================================
+// GET  /api/universes  -> all universes (built-in first, then custom)
+// POST /api/universes  -> create a custom universe
+// =============================================================================
+
+export async function GET() {
+  const universes = await listAllUniverses()
+
+  return NextResponse.json({
+    universes: universes.map((u) => ({
+      id: u.id,
+      label: u.label,
+      description: u.description,
+      etfProxy: u.etfProxy,
+      symbolCount: u.symbols.length,
+      symbols: u.symbols,
+      custom: !!u.custom,
+    })),
+    source: process.env.DATABASE_URL ? 'database' : 'none',
+  })
+}
+
+export async function POST(request: NextRequest) {
+  // Check if database is configured
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Custom universes require database configuration.' },
+      { status: 503 }
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 })
+  }
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+
+    const parsed = CustomUniverseInputSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ') },
+        { status: 400 }
+      )
+    }
+
+    const { slug, label, description, symbols, etfProxy, disclosureText } = parsed.data
+
+    const existing = await prisma.customUniverse.findUnique({ where: { slug } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Universe "${slug}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const row = await prisma.customUniverse.create({
+      data: {
+        slug,
+        label,
+        description,
+        symbols: JSON.stringify(symbols),
+        etfProxy,
+        disclosureText,
+      },
+    })
+
+    return NextResponse.json(customUniverseFromRow(row), { status: 201 })
+  } catch (error) {
+    console.error('Error creating custom universe:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create custom universe'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
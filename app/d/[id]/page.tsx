@@ -15,6 +15,7 @@ import { ThemeToggle } from "@/components/theme-toggle"
 
 interface SharedDashboard {
   id: string
+  title: string | null
   createdAt: string
   config: DashboardConfig
   results: {
@@ -130,6 +131,12 @@ export default function SharedDashboardPage({ params }: { params: Promise<{ id:
 
       {/* Info Bar */}
       <div className="border-b border-border bg-muted/50 px-4 py-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {dashboard.title && (
+          <>
+            <span className="font-medium text-foreground">{dashboard.title}</span>
+            <div className="h-4 w-px bg-border" />
+          </>
+        )}
         <div className="flex items-center gap-1.5">
           <Calendar className="w-3 h-3" />
           <span>Created {new Date(dashboard.createdAt).toLocaleDateString()}</span>
@@ -137,6 +144,9 @@ export default function SharedDashboardPage({ params }: { params: Promise<{ id:
         <div className="h-4 w-px bg-border" />
         <span>Lookback: <span className="font-mono">{dashboard.config.lookback}d</span></span>
         <span>Basis: <span className="capitalize">{dashboard.config.basis}</span></span>
+        {dashboard.config.asOf && (
+          <span>As of: <span className="font-mono">{dashboard.config.asOf}</span></span>
+        )}
         {dataDateRange && (
           <>
             <div className="h-4 w-px bg-border" />
@@ -7,21 +7,27 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { LoadingSkeleton } from "@/components/loading-skeleton"
 import Image from "next/image"
-import { AlertCircle, Share2, Activity, Loader2 } from "lucide-react"
+import { AlertCircle, Share2, Activity, Loader2, History } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { ExportMenu } from "@/components/export-menu"
 import { DashboardControls, type DashboardConfig } from "@/components/dashboard-controls"
 import { StatsBar } from "@/components/stats-bar"
 import { MarketExtremesPanel } from "@/components/market-extremes-panel"
+import { AlertsPanel } from "@/components/alerts-panel"
 import { EnhancedHeatmapTable } from "@/components/enhanced-heatmap-table"
 import { AICompanion } from "@/components/ai-companion"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { TraderSettings } from "@/components/trader-settings"
+import { AccountMenu } from "@/components/account-menu"
+import { useTraderConfig } from "@/hooks/use-trader-config"
+import { useLiveExtremes } from "@/hooks/use-live-extremes"
 // Trader Layer components
 import { TraderSummaryBar } from "@/components/trader-summary-bar"
 import { RejectionDetector } from "@/components/rejection-detector"
 import { DivergenceSpotlight } from "@/components/divergence-spotlight"
 import { SymbolDrillSheet } from "@/components/symbol-drill-sheet"
 import type { HeatmapMetrics, DailyBar } from "@/lib/massive-api"
+import type { RegimeModelResult } from "@/lib/regime/model"
 
 // Animation variants for smooth transitions
 const fadeSlide = {
@@ -64,12 +70,35 @@ export default function DashboardPage() {
     basis: config.basis,
     days: config.days.toString(),
   })
+  if (config.asOf) params.set("asOf", config.asOf)
+  const replaying = !!config.asOf
 
   const { data, error, isLoading, isValidating, mutate } = useSWR(`/api/extremes?${params}`, fetcher, {
-    refreshInterval: 300000, // 5 minutes
+    refreshInterval: replaying ? 0 : 300000, // 5 minutes; replayed sessions don't change
     keepPreviousData: true, // Keep showing old data while fetching new
   })
 
+  // Streamed latest-row updates during market hours (patches `data` in place)
+  const live = useLiveExtremes(data, {
+    symbols: config.symbols,
+    lookback: config.lookback,
+    basis: config.basis,
+    mutate,
+    enabled: !!data && !replaying,
+  })
+
+  // Multi-factor regime; the history bounds how far back the current regime's start can be found.
+  // It is a daily model (cached server-side per session), so it loads once rather than polling
+  const riskParams = new URLSearchParams({ history: "126" })
+  if (config.asOf) riskParams.set("asOf", config.asOf)
+  const { data: risk } = useSWR<{ model?: RegimeModelResult | null }>(`/api/risk?${riskParams}`, fetcher, {
+    revalidateOnFocus: false,
+    revalidateIfStale: false,
+  })
+
+  // Signal thresholds (saved preferences or browser-local overrides)
+  const traderConfig = useTraderConfig()
+
   const [isSharing, setIsSharing] = useState(false)
   const [mounted, setMounted] = useState(false)
   const [isChatOpen, setIsChatOpen] = useState(false)
@@ -175,17 +204,35 @@ export default function DashboardPage() {
                 </h1>
                 <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
                   <Activity className="w-3 h-3" />
-                  <span className="text-green-600 dark:text-green-500 flex items-center gap-1">
-                    <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse" />
-                    Live
-                  </span>
+                  {replaying ? (
+                    <span className="flex items-center gap-1">
+                      <History className="w-3 h-3" />
+                      Replay
+                    </span>
+                  ) : live.live ? (
+                    <span className="text-green-600 dark:text-green-500 flex items-center gap-1">
+                      <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse" />
+                      Live
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1" title="Refreshes every 5 minutes">
+                      <span className="w-1.5 h-1.5 bg-muted-foreground/50 rounded-full" />
+                      Snapshot
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
 
             {/* Actions */}
             <div className="flex items-center gap-2">
+              <TraderSettings
+                config={traderConfig.config}
+                persisted={traderConfig.persisted}
+                onSave={traderConfig.save}
+              />
               <ThemeToggle />
+              <AccountMenu />
               <ExportMenu data={data} config={config} />
               <Button
                 onClick={handleShare}
@@ -247,6 +294,29 @@ export default function DashboardPage() {
               )}
             </AnimatePresence>
 
+            {/* Replay banner - everything below is as of a past session */}
+            {replaying && (
+              <div className="px-4 pt-4">
+                <Alert className="border-primary/40 bg-primary/5">
+                  <History className="h-4 w-4" />
+                  <AlertDescription className="flex items-center justify-between gap-2">
+                    <span>
+                      Replaying the close of{" "}
+                      <span className="font-mono font-medium">{data.dates?.[data.dates.length - 1] ?? config.asOf}</span>
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setConfig({ ...config, asOf: undefined })}
+                    >
+                      Back to live
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              </div>
+            )}
+
             {/* Trader Summary Bar - Always visible above heatmaps */}
             {data.basisHigh && data.basisClose && data.dates && (
               <motion.div
@@ -260,8 +330,10 @@ export default function DashboardPage() {
                   basisClose={data.basisClose}
                   dates={data.dates}
                   lookback={config.lookback}
-                  marketOpen={data.meta?.marketStatus === 'open'}
-                  lastUpdated={data.meta?.lastUpdated}
+                  marketOpen={!replaying && (live.live || data.meta?.marketStatus === 'open')}
+                  lastUpdated={live.lastUpdate ? new Date(live.lastUpdate).toISOString() : data.meta?.lastUpdated}
+                  config={traderConfig.config}
+                  riskRegime={risk?.model?.current}
                 />
               </motion.div>
             )}
@@ -282,6 +354,7 @@ export default function DashboardPage() {
                     rawBars={data.rawBars}
                     onViewChart={handleViewChart}
                     onPin={handlePin}
+                    config={traderConfig.config}
                   />
                   <DivergenceSpotlight
                     basisClose={data.basisClose}
@@ -306,9 +379,16 @@ export default function DashboardPage() {
                 symbols={config.symbols}
                 lookback={config.lookback}
                 days={20}
+                traderConfig={traderConfig.overrides}
+                asOf={config.asOf}
               />
             </div>
 
+            {/* Alerts - Rules and recent triggers (requires database) */}
+            <div className="p-4 pb-0">
+              <AlertsPanel />
+            </div>
+
             {/* Heatmap Table */}
             {data.dates && data.data && (
               <AnimatePresence mode="wait">
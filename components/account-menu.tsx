@@ -0,0 +1,243 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import useSWR from 'swr'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Link2, Loader2, LogIn, LogOut, Mail, User } from 'lucide-react'
+import { MySharesSheet } from '@/components/my-shares-sheet'
+import type { AuthProviderId, SessionUser } from '@/lib/auth'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SessionResponse {
+  enabled: boolean
+  providers: AuthProviderId[]
+  user: SessionUser | null
+}
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json())
+
+// =============================================================================
+// Sign-In Form
+// =============================================================================
+
+function SignInForm({
+  providers,
+  initialError,
+  onSignedIn,
+}: {
+  providers: AuthProviderId[]
+  initialError: string | null
+  onSignedIn: () => void
+}) {
+  const [mode, setMode] = useState<'signin' | 'register'>('signin')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(initialError)
+  const [linkSent, setLinkSent] = useState(false)
+
+  const hasCredentials = providers.includes('credentials')
+  const hasMagicLink = providers.includes('magic-link')
+
+  const post = async (url: string, body: unknown) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Sign-in failed')
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCredentials = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await post('/api/auth/credentials', { mode, email, password })) {
+      onSignedIn()
+    }
+  }
+
+  const handleMagicLink = async () => {
+    if (await post('/api/auth/magic-link', { email })) {
+      setLinkSent(true)
+    }
+  }
+
+  if (linkSent) {
+    return (
+      <div className="space-y-2 text-sm">
+        <p className="font-medium">Check your email</p>
+        <p className="text-xs text-muted-foreground">
+          We sent a sign-in link to {email}. It expires in 15 minutes.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleCredentials} className="space-y-2">
+      <p className="text-sm font-medium">{mode === 'register' ? 'Create account' : 'Sign in'}</p>
+      <Input
+        type="email"
+        placeholder="Email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className="h-8 text-sm"
+        required
+      />
+      {hasCredentials && (
+        <Input
+          type="password"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="h-8 text-sm"
+          autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+        />
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {hasCredentials && (
+        <Button type="submit" size="sm" className="w-full h-8 text-xs" disabled={busy || !email || !password}>
+          {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : mode === 'register' ? 'Create account' : 'Sign in'}
+        </Button>
+      )}
+      {hasMagicLink && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="w-full h-8 text-xs"
+          disabled={busy || !email}
+          onClick={handleMagicLink}
+        >
+          <Mail className="h-3.5 w-3.5 mr-1.5" />
+          Email me a sign-in link
+        </Button>
+      )}
+      {hasCredentials && (
+        <button
+          type="button"
+          className="w-full text-center text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => setMode(mode === 'register' ? 'signin' : 'register')}
+        >
+          {mode === 'register' ? 'Have an account? Sign in' : 'New here? Create an account'}
+        </button>
+      )}
+    </form>
+  )
+}
+
+// =============================================================================
+// Account Menu
+// =============================================================================
+
+/**
+ * Header control: sign-in popover when signed out, account menu when signed
+ * in. With auth disabled it only offers "My shares" for the local user.
+ */
+export function AccountMenu() {
+  const { data, mutate } = useSWR<SessionResponse>('/api/auth/session', fetcher, {
+    revalidateOnFocus: false,
+  })
+  const [signInOpen, setSignInOpen] = useState(false)
+  const [sharesOpen, setSharesOpen] = useState(false)
+  const [linkError, setLinkError] = useState<string | null>(null)
+
+  // Failed magic links redirect home with ?auth_error=...
+  useEffect(() => {
+    const url = new URL(window.location.href)
+    const authError = url.searchParams.get('auth_error')
+    if (!authError) return
+    setLinkError(authError)
+    setSignInOpen(true)
+    url.searchParams.delete('auth_error')
+    window.history.replaceState(null, '', url)
+  }, [])
+
+  if (!data) return null
+
+  // Pins, preferences and alerts are per user - reload so everything refetches
+  const refresh = () => window.location.reload()
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' })
+    await mutate()
+    refresh()
+  }
+
+  if (data.enabled && !data.user) {
+    return (
+      <Popover open={signInOpen} onOpenChange={setSignInOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 px-2 text-xs">
+            <LogIn className="h-4 w-4 sm:mr-1.5" />
+            <span className="hidden sm:inline">Sign in</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72">
+          <SignInForm providers={data.providers} initialError={linkError} onSignedIn={refresh} />
+        </PopoverContent>
+      </Popover>
+    )
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={data.user?.email ?? 'Account'}>
+            <User className="h-4 w-4" />
+            <span className="sr-only">Account</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          {data.user && (
+            <>
+              <DropdownMenuLabel className="font-normal">
+                <p className="text-sm truncate">{data.user.name || data.user.email}</p>
+                {data.user.name && <p className="text-xs text-muted-foreground truncate">{data.user.email}</p>}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onSelect={() => setSharesOpen(true)}>
+            <Link2 className="h-4 w-4 mr-2" />
+            My shares
+          </DropdownMenuItem>
+          {data.user && (
+            <DropdownMenuItem onSelect={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <MySharesSheet open={sharesOpen} onOpenChange={setSharesOpen} />
+    </>
+  )
+}
@@ -3,6 +3,8 @@
 import { cn } from '@/lib/utils'
 import { BarChart3, Pin, TrendingUp, TrendingDown } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { linePath } from '@/lib/indicators'
+import type { BreadthMeasureId } from '@/lib/breadth/measures'
 import type { CardProps, BreadthData, PinConfig } from './types'
 
 interface BreadthPanelProps extends CardProps {
@@ -14,7 +16,7 @@ export function BreadthPanel({ data, onPin, className }: BreadthPanelProps) {
     if (!onPin) return
     const config: PinConfig = {
       type: 'breadth',
-      title: 'Market Breadth',
+      title: data.universe ? `${data.universe} Breadth` : 'Market Breadth',
       config: {},
       pinnedAt: new Date().toISOString(),
     }
@@ -47,7 +49,10 @@ export function BreadthPanel({ data, onPin, className }: BreadthPanelProps) {
       <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-white/5">
         <div className="flex items-center gap-2">
           <BarChart3 className="w-4 h-4 text-blue-400" />
-          <span className="text-xs font-medium text-white">Market Breadth</span>
+          <span className="text-xs font-medium text-white">
+            {data.universe ? `${data.universe} Breadth` : 'Market Breadth'}
+          </span>
+          {data.date && <span className="text-[10px] text-white/40 font-mono">{data.date}</span>}
         </div>
         <div className="flex items-center gap-2">
           <BreadthSignalBadge signal={breadthSignal} />
@@ -144,6 +149,99 @@ export function BreadthPanel({ data, onPin, className }: BreadthPanelProps) {
           />
         </div>
       </div>
+
+      {/* Breadth Measure History */}
+      {data.measure && <MeasureChart measure={data.measure} />}
+    </div>
+  )
+}
+
+type MeasureSeries = NonNullable<BreadthData['measure']>
+
+const MEASURE_CHART_WIDTH = 320
+const MEASURE_CHART_HEIGHT = 80
+const MEASURE_COLORS = ['rgb(96 165 250)', 'rgb(250 204 21)', 'rgb(192 132 252)']
+
+// Level each measure oscillates around (drawn on the first line's scale)
+const MEASURE_NEUTRAL: Record<BreadthMeasureId, number> = {
+  pct_above_ma: 50,
+  advance_decline: 0,
+  mcclellan: 0,
+  up_down_volume: 1,
+  net_new_highs: 0,
+}
+
+function formatMeasureValue(value: number | null | undefined, percent: boolean): string {
+  if (value === null || value === undefined) return '—'
+  if (percent) return `${value.toFixed(0)}%`
+  return Math.abs(value) < 10 ? value.toFixed(2) : Math.round(value).toLocaleString()
+}
+
+function MeasureChart({ measure }: { measure: MeasureSeries }) {
+  const { series } = measure
+  if (series.length < 2) return null
+
+  // Percentages share one 0-100 scale; other lines (e.g. daily A/D vs the
+  // cumulative line) each get their own range
+  const percent = measure.id === 'pct_above_ma'
+  const lines = measure.fields.map((field) => {
+    const values = series.map((point) => point.values[field.key] ?? null)
+    const defined = values.filter((v): v is number => v !== null)
+    const fixed = percent || defined.length === 0
+    const min = fixed ? 0 : Math.min(...defined)
+    const max = fixed ? 100 : Math.max(...defined)
+    return { ...field, values, min, range: max - min || 1 }
+  })
+
+  const scaleX = (i: number) => (i / (series.length - 1)) * MEASURE_CHART_WIDTH
+  const scaleYFor = (line: (typeof lines)[number]) => (v: number) =>
+    MEASURE_CHART_HEIGHT - ((v - line.min) / line.range) * MEASURE_CHART_HEIGHT
+
+  const neutral = MEASURE_NEUTRAL[measure.id]
+  const neutralY = scaleYFor(lines[0])(neutral)
+  const latest = series[series.length - 1]
+
+  return (
+    <div className="px-3 py-2 border-t border-white/5">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-[10px] text-white/40">{measure.label}</span>
+        <span className="text-[10px] text-white/40 font-mono">
+          {series[0].date} → {latest.date}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${MEASURE_CHART_WIDTH} ${MEASURE_CHART_HEIGHT}`}
+        className="w-full h-20"
+        preserveAspectRatio="none"
+      >
+        {neutralY >= 0 && neutralY <= MEASURE_CHART_HEIGHT && (
+          <line
+            x1={0}
+            x2={MEASURE_CHART_WIDTH}
+            y1={neutralY}
+            y2={neutralY}
+            stroke="rgba(255,255,255,0.2)"
+            strokeDasharray="2 3"
+            strokeWidth={1}
+          />
+        )}
+        {lines.map((line, i) => (
+          <path
+            key={line.key}
+            d={linePath(line.values, scaleX, scaleYFor(line))}
+            fill="none"
+            stroke={MEASURE_COLORS[i]}
+            strokeWidth={i === 0 ? 1.5 : 1.25}
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 mt-1 text-[10px] font-mono">
+        {lines.map((line, i) => (
+          <span key={line.key} style={{ color: MEASURE_COLORS[i] }}>
+            {line.label} {formatMeasureValue(latest.values[line.key], percent)}
+          </span>
+        ))}
+      </div>
     </div>
   )
 }
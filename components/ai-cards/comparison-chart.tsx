@@ -3,6 +3,7 @@
 import { cn } from '@/lib/utils'
 import { TrendingUp, TrendingDown, Minus, Pin, ArrowUpRight, ArrowDownRight } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { latestValue, linePath, overlayColor } from '@/lib/indicators'
 import type { CardProps, MarketDashboardData, PinConfig } from './types'
 
 interface ComparisonChartProps extends CardProps {
@@ -28,6 +29,16 @@ export function ComparisonChart({ data, onPin, className }: ComparisonChartProps
     return bVal - aVal
   })
 
+  const hasSeries = sorted.some((item) => item.series)
+  const overlayKeys = Array.from(
+    new Map(
+      sorted
+        .flatMap((item) => item.series?.indicators ?? [])
+        .filter((line) => line.pane === 'price')
+        .map((line) => [line.key, line.label])
+    )
+  )
+
   return (
     <div
       className={cn(
@@ -59,6 +70,7 @@ export function ComparisonChart({ data, onPin, className }: ComparisonChartProps
           <thead>
             <tr className="text-white/50 border-b border-white/5">
               <th className="text-left px-3 py-2 font-medium">Symbol</th>
+              {hasSeries && <th className="text-left px-3 py-2 font-medium">Trend</th>}
               <th className="text-right px-3 py-2 font-medium">Close</th>
               <th className="text-right px-3 py-2 font-medium">Days High</th>
               <th className="text-right px-3 py-2 font-medium">% From High</th>
@@ -76,7 +88,13 @@ export function ComparisonChart({ data, onPin, className }: ComparisonChartProps
                 >
                   <td className="px-3 py-2">
                     <span className="font-mono font-semibold text-white">{item.symbol}</span>
+                    {item.series && <OscillatorValues series={item.series} />}
                   </td>
+                  {hasSeries && (
+                    <td className="px-3 py-2">
+                      {item.series ? <IndicatorSparkline series={item.series} /> : <span className="text-white/30">—</span>}
+                    </td>
+                  )}
                   <td className="text-right px-3 py-2 font-mono text-white/80">
                     {item.close?.toLocaleString(undefined, { minimumFractionDigits: 2 }) ?? '—'}
                   </td>
@@ -101,6 +119,16 @@ export function ComparisonChart({ data, onPin, className }: ComparisonChartProps
 
       {/* Footer */}
       <div className="px-3 py-2 border-t border-white/5 bg-white/5">
+        {overlayKeys.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mb-1">
+            {overlayKeys.map(([key, label]) => (
+              <span key={key} className="flex items-center gap-1 text-[10px] text-white/50">
+                <span className="w-3 h-0.5 rounded" style={{ backgroundColor: overlayColor(key) }} />
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
         <p className="text-[10px] text-white/40 font-mono">
           {sorted.length} symbols | Sorted by extension from {data.lookback}d high
         </p>
@@ -109,6 +137,75 @@ export function ComparisonChart({ data, onPin, className }: ComparisonChartProps
   )
 }
 
+type SymbolSeries = NonNullable<MarketDashboardData['symbols'][number]['series']>
+
+function IndicatorSparkline({ series, width = 120, height = 32 }: { series: SymbolSeries; width?: number; height?: number }) {
+  const overlays = series.indicators.filter((line) => line.pane === 'price')
+  const values = [
+    ...series.closes,
+    ...overlays.flatMap((line) => line.values),
+  ].filter((v): v is number => v !== null)
+
+  if (series.closes.length < 2 || values.length === 0) {
+    return <span className="text-white/30">—</span>
+  }
+
+  const min = Math.min(...values)
+  const range = Math.max(...values) - min || 1
+  const scaleX = (i: number) => (i / (series.closes.length - 1)) * width
+  const scaleY = (v: number) => height - ((v - min) / range) * height
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      {overlays.map((line) => (
+        <path
+          key={line.key}
+          d={linePath(line.values, scaleX, scaleY)}
+          fill="none"
+          stroke={overlayColor(line.key)}
+          strokeWidth={1}
+          strokeOpacity={0.85}
+        />
+      ))}
+      <path
+        d={linePath(series.closes, scaleX, scaleY)}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        className="text-white/80"
+      />
+    </svg>
+  )
+}
+
+function OscillatorValues({ series }: { series: SymbolSeries }) {
+  const oscillators = series.indicators.filter(
+    (line) => line.pane === 'oscillator' && line.key !== 'macd_signal'
+  )
+  if (oscillators.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {oscillators.map((line) => {
+        const value = latestValue(line)
+        const tone =
+          line.indicator === 'rsi' && value !== null
+            ? value >= 70
+              ? 'text-red-400'
+              : value <= 30
+                ? 'text-emerald-400'
+                : 'text-white/60'
+            : 'text-white/60'
+        return (
+          <span key={line.key} className={cn('px-1 py-0.5 rounded bg-white/5 font-mono text-[10px]', tone)}>
+            {line.label} {value === null ? '—' : value.toFixed(line.indicator === 'days_since_high' ? 0 : 1)}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
 function DaysBadge({ days, lookback }: { days: number | null; lookback: number }) {
   if (days === null) return <span className="text-white/30">—</span>
 
@@ -0,0 +1,197 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import { AlertTriangle, Network, Pin } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { linePath } from '@/lib/indicators'
+import type { CardProps, CorrelationMatrixData, PinConfig } from './types'
+
+interface CorrelationMatrixCardProps extends CardProps {
+  data: CorrelationMatrixData
+}
+
+const HISTORY_CHART_WIDTH = 300
+const HISTORY_CHART_HEIGHT = 60
+
+/**
+ * Diverging fill: red for positive correlation, blue for negative, fading
+ * to transparent at zero.
+ */
+function correlationColor(value: number): string {
+  const alpha = Math.min(1, Math.abs(value)) * 0.85
+  return value >= 0 ? `rgba(239,68,68,${alpha})` : `rgba(59,130,246,${alpha})`
+}
+
+export function CorrelationMatrixCard({ data, onPin, className }: CorrelationMatrixCardProps) {
+  const handlePin = () => {
+    if (!onPin) return
+    const config: PinConfig = {
+      type: 'correlation_matrix',
+      title: `${data.set.label} Correlation`,
+      config: { set: data.set.id, symbols: data.symbols, window: data.options.window },
+      pinnedAt: new Date().toISOString(),
+    }
+    onPin(config)
+  }
+
+  const dense = data.symbols.length > 15
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border border-white/10 bg-black/40 backdrop-blur-sm overflow-hidden',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-white/5">
+        <div className="flex items-center gap-2">
+          <Network className="w-4 h-4 text-cyan-400" />
+          <span className="text-xs font-medium text-white">
+            {data.set.label} · {data.options.window}d Correlation
+          </span>
+          {data.asOf && <span className="text-[10px] text-white/40 font-mono">{data.asOf}</span>}
+        </div>
+        {onPin && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handlePin}
+            className="h-6 w-6 p-0 text-white/50 hover:text-white hover:bg-white/10"
+          >
+            <Pin className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {/* Shift alert */}
+      {data.activeShift && (
+        <div className="flex items-center gap-2 px-3 py-1.5 border-b border-red-500/20 bg-red-500/10 text-[10px] text-red-300">
+          <AlertTriangle className="w-3 h-3 shrink-0" />
+          <span>
+            Correlation spike on {data.activeShift.date}: average {data.activeShift.priorAverage.toFixed(2)} →{' '}
+            {data.activeShift.average.toFixed(2)} in {data.options.jumpDays} sessions
+          </span>
+        </div>
+      )}
+
+      {/* Clustered heatmap */}
+      <div className="overflow-x-auto px-3 py-2">
+        <table className="border-collapse mx-auto">
+          <thead>
+            <tr>
+              <th />
+              {data.symbols.map((symbol) => (
+                <th key={symbol} className="px-0.5 pb-1 align-bottom">
+                  <span
+                    className="block text-[9px] font-mono font-normal text-white/50 whitespace-nowrap"
+                    style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}
+                  >
+                    {symbol}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.symbols.map((row, i) => (
+              <tr key={row}>
+                <td className="pr-1.5 text-right text-[9px] font-mono text-white/50 whitespace-nowrap">{row}</td>
+                {data.matrix[i].map((value, j) => (
+                  <td
+                    key={data.symbols[j]}
+                    title={`${row} / ${data.symbols[j]}: ${value.toFixed(2)}`}
+                    className={cn(
+                      'border border-black/40 text-center font-mono text-white/90',
+                      dense ? 'w-3 h-3 text-[0px]' : 'w-8 h-6 text-[9px]'
+                    )}
+                    style={{ backgroundColor: correlationColor(value) }}
+                  >
+                    {i === j ? '' : value.toFixed(2)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <AverageHistory data={data} />
+
+      {data.failedSymbols.length > 0 && (
+        <p className="px-3 py-1.5 border-t border-white/5 text-[10px] text-white/40">
+          No data: {data.failedSymbols.join(', ')}
+        </p>
+      )}
+      {data.shortHistorySymbols.length > 0 && (
+        <p className="px-3 py-1.5 border-t border-white/5 text-[10px] text-white/40">
+          Less than {data.options.window}d of history, left out: {data.shortHistorySymbols.join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+function AverageHistory({ data }: { data: CorrelationMatrixData }) {
+  const { history, shifts } = data
+  if (history.length < 2) return null
+
+  const values = history.map((point) => point.average)
+  const min = Math.min(0, ...values)
+  const max = Math.max(...values)
+  const range = max - min || 1
+  const scaleX = (i: number) => (i / (history.length - 1)) * HISTORY_CHART_WIDTH
+  const scaleY = (v: number) => HISTORY_CHART_HEIGHT - ((v - min) / range) * HISTORY_CHART_HEIGHT
+  const indexByDate = new Map(history.map((point, i) => [point.date, i]))
+
+  return (
+    <div className="px-3 py-2 border-t border-white/5">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-[10px] text-white/40">
+          Avg pairwise correlation ({data.options.shiftWindow}d)
+        </span>
+        <span className="text-[10px] font-mono text-white/70">
+          {values[values.length - 1].toFixed(2)}
+          {shifts.length > 0 && <span className="text-red-400 ml-2">{shifts.length} spikes</span>}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${HISTORY_CHART_WIDTH} ${HISTORY_CHART_HEIGHT}`}
+        className="w-full h-16"
+        preserveAspectRatio="none"
+      >
+        {min < 0 && (
+          <line
+            x1={0}
+            x2={HISTORY_CHART_WIDTH}
+            y1={scaleY(0)}
+            y2={scaleY(0)}
+            stroke="rgba(255,255,255,0.2)"
+            strokeDasharray="2 3"
+            strokeWidth={1}
+          />
+        )}
+        {shifts.map((shift) => {
+          const i = indexByDate.get(shift.date)
+          if (i === undefined) return null
+          return (
+            <line
+              key={shift.date}
+              x1={scaleX(i)}
+              x2={scaleX(i)}
+              y1={0}
+              y2={HISTORY_CHART_HEIGHT}
+              stroke="rgba(239,68,68,0.5)"
+              strokeWidth={1}
+            />
+          )
+        })}
+        <path d={linePath(values, scaleX, scaleY)} fill="none" stroke="rgb(34 211 238)" strokeWidth={1.5} />
+      </svg>
+      <div className="flex justify-between mt-1 text-[9px] text-white/40 font-mono">
+        <span>{history[0].date}</span>
+        <span>{history[history.length - 1].date}</span>
+      </div>
+    </div>
+  )
+}
@@ -6,3 +6,9 @@ export { OptionsChainTable } from './options-chain-table'
 export { MarketPulseHUD } from './market-pulse-hud'
 export { HeatmapCard } from './heatmap-card'
 export { BreadthPanel } from './breadth-panel'
+export { SignalBacktestCard } from './signal-backtest-card'
+export { IvSurfaceCard } from './iv-surface-card'
+export { StrategyCard } from './strategy-card'
+export { UnusualOptionsCard } from './unusual-options-card'
+export { RrgCard } from './rrg-card'
+export { CorrelationMatrixCard } from './correlation-matrix-card'
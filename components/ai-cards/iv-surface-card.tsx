@@ -0,0 +1,194 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import { Layers, Pin } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { CardProps, IvSurfaceData, PinConfig } from './types'
+
+interface IvSurfaceCardProps extends CardProps {
+  data: IvSurfaceData
+}
+
+const SHAPE_STYLES = {
+  contango: 'bg-emerald-500/10 text-emerald-400',
+  backwardation: 'bg-red-500/10 text-red-400',
+  flat: 'bg-white/5 text-white/60',
+}
+
+export function IvSurfaceCard({ data, onPin, className }: IvSurfaceCardProps) {
+  const handlePin = () => {
+    if (!onPin) return
+    const config: PinConfig = {
+      type: 'iv_surface',
+      title: `${data.symbol} IV Surface`,
+      config: { symbol: data.symbol },
+      pinnedAt: new Date().toISOString(),
+    }
+    onPin(config)
+  }
+
+  const ivs = data.grid.flat().filter((v): v is number => v !== null)
+  const minIv = ivs.length > 0 ? Math.min(...ivs) : 0
+  const maxIv = ivs.length > 0 ? Math.max(...ivs) : 1
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border border-white/10 bg-black/40 backdrop-blur-sm overflow-hidden',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-white/5">
+        <div className="flex items-center gap-2">
+          <Layers className="w-4 h-4 text-purple-400" />
+          <span className="text-xs font-medium text-white">{data.symbol} IV Surface</span>
+          <span className="text-[10px] text-white/40 font-mono">spot ${data.spot.toFixed(2)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {data.shape && (
+            <span className={cn('px-2 py-0.5 rounded text-[10px] font-medium', SHAPE_STYLES[data.shape])}>
+              {data.shape}
+            </span>
+          )}
+          {onPin && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handlePin}
+              className="h-6 w-6 p-0 text-white/50 hover:text-white hover:bg-white/10"
+            >
+              <Pin className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Term Structure */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-white/40 border-b border-white/5">
+              <th className="text-left px-3 py-1.5 font-medium">Expiry</th>
+              <th className="text-right px-2 py-1.5 font-medium">DTE</th>
+              <th className="text-right px-2 py-1.5 font-medium">ATM IV</th>
+              <th className="text-right px-2 py-1.5 font-medium">25Δ Put</th>
+              <th className="text-right px-2 py-1.5 font-medium">25Δ Call</th>
+              <th className="text-right px-3 py-1.5 font-medium">Skew</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.termStructure.map((point) => (
+              <tr key={point.expiration} className="border-b border-white/5 last:border-0">
+                <td className="px-3 py-1 font-mono text-white/80">{point.expiration}</td>
+                <td className="text-right px-2 py-1 font-mono text-white/50">{point.dte}</td>
+                <td className="text-right px-2 py-1 font-mono text-white">{formatIv(point.atmIv)}</td>
+                <td className="text-right px-2 py-1 font-mono text-red-300/80">{formatIv(point.put25Iv)}</td>
+                <td className="text-right px-2 py-1 font-mono text-emerald-300/80">{formatIv(point.call25Iv)}</td>
+                <td className="text-right px-3 py-1">
+                  <SkewBadge skew={point.skew25} atmIv={point.atmIv} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Strike x Expiry Grid */}
+      {data.strikes.length > 0 && (
+        <div className="px-3 py-2 border-t border-white/5 overflow-x-auto">
+          <div
+            className="grid gap-px"
+            style={{ gridTemplateColumns: `4.5rem repeat(${data.strikes.length}, minmax(1.25rem, 1fr))` }}
+          >
+            <span />
+            {data.strikes.map((strike) => (
+              <span
+                key={strike}
+                className={cn(
+                  'text-[8px] font-mono text-center truncate',
+                  isAtm(strike, data) ? 'text-white' : 'text-white/40'
+                )}
+              >
+                {strike}
+              </span>
+            ))}
+            {data.expirations.map((expiration, row) => (
+              <ExpiryRow key={expiration} expiration={expiration} values={data.grid[row]} min={minIv} max={maxIv} />
+            ))}
+          </div>
+          <p className="text-[9px] text-white/40 mt-1.5">
+            OTM IV by strike (puts below spot, calls above) · {formatIv(minIv)} – {formatIv(maxIv)}
+          </p>
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="px-3 py-2 border-t border-white/5 bg-white/5">
+        <p className="text-[10px] text-white/40 font-mono">
+          {data.contracts} contracts | Skew = 25Δ put IV − 25Δ call IV
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function ExpiryRow({
+  expiration,
+  values,
+  min,
+  max,
+}: {
+  expiration: string
+  values: (number | null)[]
+  min: number
+  max: number
+}) {
+  return (
+    <>
+      <span className="text-[9px] font-mono text-white/50">{expiration.slice(5)}</span>
+      {values.map((iv, i) => (
+        <span
+          key={i}
+          className="h-4 rounded-sm"
+          style={{ backgroundColor: iv === null ? 'transparent' : ivColor(iv, min, max) }}
+          title={iv === null ? undefined : `${expiration}: ${formatIv(iv)}`}
+        />
+      ))}
+    </>
+  )
+}
+
+function SkewBadge({ skew, atmIv }: { skew: number | null; atmIv: number | null }) {
+  if (skew === null) return <span className="text-white/30">—</span>
+
+  // Skew relative to ATM: how much richer downside protection is
+  const ratio = atmIv ? skew / atmIv : 0
+  const color = ratio > 0.3 ? 'text-red-400' : ratio < 0 ? 'text-emerald-400' : 'text-white/70'
+
+  return (
+    <span className={cn('font-mono', color)}>
+      {skew >= 0 ? '+' : ''}
+      {(skew * 100).toFixed(1)}
+    </span>
+  )
+}
+
+function isAtm(strike: number, data: IvSurfaceData): boolean {
+  const nearest = data.strikes.reduce(
+    (best, k) => (Math.abs(k - data.spot) < Math.abs(best - data.spot) ? k : best),
+    data.strikes[0]
+  )
+  return strike === nearest
+}
+
+function ivColor(iv: number, min: number, max: number): string {
+  const t = max > min ? (iv - min) / (max - min) : 0.5
+  // Low IV = cool violet, high IV = hot amber
+  const hue = 270 - t * 230
+  return `hsla(${hue}, 70%, 55%, ${0.25 + t * 0.55})`
+}
+
+function formatIv(iv: number | null): string {
+  return iv === null ? '—' : `${(iv * 100).toFixed(1)}%`
+}
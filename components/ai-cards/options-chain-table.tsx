@@ -1,8 +1,11 @@
 'use client'
 
+import { useState } from 'react'
 import { cn } from '@/lib/utils'
-import { Activity, Pin, AlertCircle, TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { Activity, Pin, AlertCircle, TrendingUp, TrendingDown, Minus, Shapes, ChevronDown } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import type { OptionsAnalytics, StrategyContract, StrategyLeg } from '@/lib/options'
+import { StrategyBuilder } from './strategy-card'
 import type { CardProps, OptionsChainData, PinConfig } from './types'
 
 interface OptionsChainTableProps extends CardProps {
@@ -37,7 +40,7 @@ export function OptionsChainTable({ data, onPin, className }: OptionsChainTableP
     )
   }
 
-  const { putCallRatio, sentiment, topStrike, totalVolume, totalOpenInterest, avgIV, maxPainStrike, underlyingPrice, strikeDistance } = data.data
+  const { putCallRatio, sentiment, topStrike, totalVolume, totalOpenInterest, avgIV, maxPainStrike, underlyingPrice, strikeDistance, analytics, ivRank, contracts } = data.data
 
   const sentimentConfig = {
     Bullish: { color: 'text-emerald-400', bg: 'bg-emerald-500/10', icon: TrendingUp },
@@ -93,9 +96,50 @@ export function OptionsChainTable({ data, onPin, className }: OptionsChainTableP
         <MetricCell label="Top Strike" value={`$${topStrike.toFixed(0)}`} subtext={`${strikeDistance.toFixed(1)}% away`} />
         <MetricCell label="Avg IV" value={`${(avgIV * 100).toFixed(1)}%`} highlight={avgIV > 0.5} />
         <MetricCell label="Volume" value={formatNumber(totalVolume)} />
-        <MetricCell label="Open Interest" value={formatNumber(totalOpenInterest)} colSpan />
+        <MetricCell label="Open Interest" value={formatNumber(totalOpenInterest)} colSpan={!analytics && !ivRank} />
+        {ivRank && (
+          <MetricCell
+            label="IV Rank (52w)"
+            value={ivRank.rank !== null ? ivRank.rank.toFixed(0) : '—'}
+            subtext={
+              ivRank.percentile !== null
+                ? `${ivRank.percentile.toFixed(0)}th pct · 30d IV ${formatIv(ivRank.current)}`
+                : `Building history (${ivRank.samples} sessions)`
+            }
+            highlight={ivRank.bias === 'sell' || ivRank.bias === 'buy'}
+          />
+        )}
+        {analytics && (
+          <>
+            <MetricCell
+              label="Net GEX"
+              value={formatDollars(analytics.totalGex)}
+              subtext={analytics.totalGex >= 0 ? 'Dealers long gamma' : 'Dealers short gamma'}
+              highlight={analytics.totalGex < 0}
+            />
+            <MetricCell
+              label="Gamma Flip"
+              value={analytics.gammaFlip !== null ? `$${analytics.gammaFlip.toFixed(2)}` : '—'}
+              subtext={analytics.gammaFlip !== null ? `${pctFrom(analytics.gammaFlip, underlyingPrice)} from spot` : 'No flip within ±25%'}
+            />
+            <MetricCell
+              label="Call Wall"
+              value={analytics.callWalls[0] ? `$${analytics.callWalls[0].strike}` : '—'}
+              subtext={analytics.callWalls[0] ? `${formatNumber(analytics.callWalls[0].openInterest)} OI` : undefined}
+            />
+            <MetricCell
+              label="Put Wall"
+              value={analytics.putWalls[0] ? `$${analytics.putWalls[0].strike}` : '—'}
+              subtext={analytics.putWalls[0] ? `${formatNumber(analytics.putWalls[0].openInterest)} OI` : undefined}
+            />
+          </>
+        )}
       </div>
 
+      {analytics && analytics.profile.length > 0 && <StrikeProfile analytics={analytics} />}
+
+      {contracts && contracts.length > 0 && <StrategySection spot={underlyingPrice} contracts={contracts} />}
+
       {/* Analysis */}
       <div className="px-3 py-2 border-t border-white/5 bg-white/5">
         <p className="text-[10px] text-white/60 leading-relaxed">
@@ -135,6 +179,143 @@ function MetricCell({
   )
 }
 
+/**
+ * Collapsible builder: pick contracts from the chain into a multi-leg position.
+ */
+function StrategySection({ spot, contracts }: { spot: number; contracts: StrategyContract[] }) {
+  const [open, setOpen] = useState(false)
+  const [legs, setLegs] = useState<StrategyLeg[]>([])
+
+  return (
+    <div className="border-t border-white/5">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between px-3 py-1.5 text-[10px] text-white/60 hover:text-white"
+      >
+        <span className="flex items-center gap-1.5">
+          <Shapes className="w-3 h-3 text-purple-400" />
+          Build Strategy{legs.length > 0 ? ` (${legs.length} legs)` : ''}
+        </span>
+        <ChevronDown className={cn('w-3 h-3 transition-transform', open && 'rotate-180')} />
+      </button>
+      {open && <StrategyBuilder spot={spot} contracts={contracts} legs={legs} onLegsChange={setLegs} />}
+    </div>
+  )
+}
+
+// Strikes shown in the profile, nearest to spot
+const PROFILE_STRIKES = 21
+
+/**
+ * Strike profile: put OI left, call OI right, dealer net GEX beside it.
+ * Spot, max pain, gamma flip and the OI walls are marked on their strikes.
+ */
+function StrikeProfile({ analytics }: { analytics: OptionsAnalytics }) {
+  const { spot, maxPainStrike, maxPainExpiration, gammaFlip, callWalls, putWalls } = analytics
+
+  // Window of strikes centered on spot, kept ascending
+  const rows = [...analytics.profile]
+    .sort((a, b) => Math.abs(a.strike - spot) - Math.abs(b.strike - spot))
+    .slice(0, PROFILE_STRIKES)
+    .sort((a, b) => b.strike - a.strike)
+
+  const maxOI = Math.max(...rows.map((r) => Math.max(r.callOI, r.putOI)), 1)
+  const maxGex = Math.max(...rows.map((r) => Math.abs(r.netGex)), 1)
+  const nearest = (level: number | null) =>
+    level === null ? null : rows.reduce((best, r) => (Math.abs(r.strike - level) < Math.abs(best.strike - level) ? r : best), rows[0]).strike
+  const spotStrike = nearest(spot)
+  const flipStrike = nearest(gammaFlip)
+  const callWall = callWalls[0]?.strike
+  const putWall = putWalls[0]?.strike
+
+  return (
+    <div className="px-3 py-2 border-t border-white/5">
+      <div className="flex items-center justify-between text-[10px] text-white/40 mb-1">
+        <span>Put OI · Call OI</span>
+        <span>Net GEX</span>
+      </div>
+      <div className="space-y-px">
+        {rows.map((row) => {
+          const tags = [
+            row.strike === spotStrike && 'spot',
+            row.strike === maxPainStrike && 'max pain',
+            row.strike === flipStrike && 'flip',
+            row.strike === callWall && 'call wall',
+            row.strike === putWall && 'put wall',
+          ].filter(Boolean)
+          return (
+            <div
+              key={row.strike}
+              className={cn('grid grid-cols-[3rem_1fr_1fr_4rem] items-center gap-1 h-3', row.strike === spotStrike && 'bg-white/5')}
+              title={`$${row.strike}: ${formatNumber(row.callOI)} call / ${formatNumber(row.putOI)} put OI, net GEX ${formatDollars(row.netGex)}${tags.length ? ` (${tags.join(', ')})` : ''}`}
+            >
+              <span
+                className={cn(
+                  'font-mono text-[9px] text-right',
+                  row.strike === maxPainStrike ? 'text-purple-400' : tags.length ? 'text-white' : 'text-white/50'
+                )}
+              >
+                {row.strike}
+              </span>
+              <div className="flex justify-end h-2">
+                <div
+                  className={cn('h-full rounded-l', row.strike === putWall ? 'bg-red-400' : 'bg-red-500/50')}
+                  style={{ width: `${(row.putOI / maxOI) * 100}%` }}
+                />
+              </div>
+              <div className="flex h-2">
+                <div
+                  className={cn('h-full rounded-r', row.strike === callWall ? 'bg-emerald-400' : 'bg-emerald-500/50')}
+                  style={{ width: `${(row.callOI / maxOI) * 100}%` }}
+                />
+              </div>
+              <div className="relative h-2">
+                <div className="absolute inset-y-0 left-1/2 w-px bg-white/10" />
+                <div
+                  className={cn('absolute inset-y-0', row.netGex >= 0 ? 'left-1/2 bg-amber-400/70' : 'right-1/2 bg-sky-400/70')}
+                  style={{ width: `${(Math.abs(row.netGex) / maxGex) * 50}%` }}
+                />
+              </div>
+            </div>
+          )
+        })}
+      </div>
+      <div className="flex flex-wrap gap-x-3 mt-1.5 text-[9px] text-white/40">
+        <span>Spot ${spot.toFixed(2)}</span>
+        {maxPainStrike !== null && (
+          <span className="text-purple-400/80">
+            Max pain ${maxPainStrike}
+            {maxPainExpiration && ` (${maxPainExpiration})`}
+          </span>
+        )}
+        {gammaFlip !== null && <span>Flip ${gammaFlip.toFixed(2)}</span>}
+        <span className="text-amber-400/70">+GEX</span>
+        <span className="text-sky-400/70">−GEX</span>
+      </div>
+    </div>
+  )
+}
+
+function formatDollars(num: number): string {
+  const sign = num < 0 ? '-' : ''
+  const abs = Math.abs(num)
+  if (abs >= 1_000_000_000) return `${sign}$${(abs / 1_000_000_000).toFixed(2)}B`
+  if (abs >= 1_000_000) return `${sign}$${(abs / 1_000_000).toFixed(1)}M`
+  if (abs >= 1_000) return `${sign}$${(abs / 1_000).toFixed(1)}K`
+  return `${sign}$${abs.toFixed(0)}`
+}
+
+function pctFrom(level: number, spot: number): string {
+  if (!spot) return '—'
+  const pct = ((level - spot) / spot) * 100
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`
+}
+
+function formatIv(iv: number | null): string {
+  return iv === null ? '—' : `${(iv * 100).toFixed(1)}%`
+}
+
 function formatNumber(num: number): string {
   if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`
   if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`
@@ -160,6 +341,13 @@ function generateAnalysis(data: NonNullable<OptionsChainData['data']>): string {
     parts.push('low IV suggests complacency')
   }
 
+  // IV against its own history
+  if (data.ivRank?.bias === 'sell') {
+    parts.push('IV rank is high, which favors selling premium')
+  } else if (data.ivRank?.bias === 'buy') {
+    parts.push('IV rank is low, so premium is cheap to buy')
+  }
+
   // Strike distance
   if (data.strikeDistance < 2) {
     parts.push('activity concentrated near current price')
@@ -167,5 +355,19 @@ function generateAnalysis(data: NonNullable<OptionsChainData['data']>): string {
     parts.push(`traders targeting ${data.strikeDistance.toFixed(0)}% move`)
   }
 
+  // Dealer positioning
+  if (data.analytics) {
+    const { totalGex, gammaFlip } = data.analytics
+    const nearFlip =
+      gammaFlip !== null && data.underlyingPrice > 0 && Math.abs(gammaFlip - data.underlyingPrice) / data.underlyingPrice < 0.01
+    if (totalGex < 0) {
+      parts.push('dealers short gamma, so hedging can amplify moves')
+    } else if (nearFlip) {
+      parts.push('spot sitting on the gamma flip')
+    } else {
+      parts.push('dealers long gamma, which tends to dampen moves')
+    }
+  }
+
   return parts.join('; ') + '.'
 }
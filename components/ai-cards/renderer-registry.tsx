@@ -1,14 +1,21 @@
 'use client'
 
 import type { ReactNode } from 'react'
-import type { ResultEnvelope, PinConfig } from './types'
+import type { ResultEnvelope, PinConfig, BreadthData } from './types'
 import { ComparisonChart } from './comparison-chart'
 import { OptionsChainTable } from './options-chain-table'
 import { MarketPulseHUD } from './market-pulse-hud'
 import { HeatmapCard } from './heatmap-card'
 import { BreadthPanel } from './breadth-panel'
 import { ErrorCard } from './error-card'
+import { SignalBacktestCard } from './signal-backtest-card'
+import { IvSurfaceCard } from './iv-surface-card'
+import { StrategyCard } from './strategy-card'
+import { UnusualOptionsCard } from './unusual-options-card'
+import { RrgCard } from './rrg-card'
+import { CorrelationMatrixCard } from './correlation-matrix-card'
 import { BreadthReport } from '@/components/breadth-report'
+import type { BreadthEventReport } from '@/lib/breadth/events'
 
 // =============================================================================
 // Renderer Registry
@@ -53,6 +60,48 @@ const renderers: Record<string, RendererFn> = {
     />
   ),
 
+  signal_backtest: (data, onPin) => (
+    <SignalBacktestCard
+      data={data as ResultEnvelope & { type: 'signal_backtest' }}
+      onPin={onPin}
+    />
+  ),
+
+  iv_surface: (data, onPin) => (
+    <IvSurfaceCard
+      data={data as ResultEnvelope & { type: 'iv_surface' }}
+      onPin={onPin}
+    />
+  ),
+
+  options_strategy: (data, onPin) => (
+    <StrategyCard
+      data={data as ResultEnvelope & { type: 'options_strategy' }}
+      onPin={onPin}
+    />
+  ),
+
+  unusual_options: (data, onPin) => (
+    <UnusualOptionsCard
+      data={data as ResultEnvelope & { type: 'unusual_options' }}
+      onPin={onPin}
+    />
+  ),
+
+  sector_rotation: (data, onPin) => (
+    <RrgCard
+      data={data as ResultEnvelope & { type: 'sector_rotation' }}
+      onPin={onPin}
+    />
+  ),
+
+  correlation_matrix: (data, onPin) => (
+    <CorrelationMatrixCard
+      data={data as ResultEnvelope & { type: 'correlation_matrix' }}
+      onPin={onPin}
+    />
+  ),
+
   breadth_report: (data) => {
     // Type assertion for breadth report data from AI tool
     const reportData = data as unknown as {
@@ -62,6 +111,9 @@ const renderers: Record<string, RendererFn> = {
         label: string
         disclosureText: string
         etfProxy: string
+        custom?: boolean
+        pointInTime?: boolean
+        pointInTimeFrom?: string | null
       }
       params: {
         lookbackDays: number
@@ -71,6 +123,8 @@ const renderers: Record<string, RendererFn> = {
       }
       constituentsUsed: number
       failedTickers: string[]
+      flaggedTickers?: string[]
+      dataQualityWarnings?: string[]
       series: Array<{
         date: string
         pctNewLows: number
@@ -81,6 +135,8 @@ const renderers: Record<string, RendererFn> = {
         newLowSymbols: string[]
         newHighSymbols: string[]
       }>
+      breadth?: BreadthData | null // Present when a breadth measure was requested
+      events?: BreadthEventReport | null
       peak: {
         date: string
         value: number
@@ -107,19 +163,30 @@ const renderers: Record<string, RendererFn> = {
       asOf: string
     }
 
-    return (
+    const report = (
       <BreadthReport
         universe={reportData.universe}
         params={reportData.params}
         constituentsUsed={reportData.constituentsUsed}
         failedTickers={reportData.failedTickers}
+        flaggedTickers={reportData.flaggedTickers}
+        dataQualityWarnings={reportData.dataQualityWarnings}
         series={reportData.series}
         peak={reportData.peak}
         window={reportData.window}
         topPeaks={reportData.topPeaks}
+        events={reportData.events}
         asOf={reportData.asOf}
       />
     )
+
+    if (!reportData.breadth) return report
+    return (
+      <div className="space-y-3">
+        {report}
+        <BreadthPanel data={reportData.breadth} />
+      </div>
+    )
   },
 
   // Universe explanation (text response)
@@ -134,6 +201,7 @@ const renderers: Record<string, RendererFn> = {
         description: string
         disclosureText: string
         etfProxy: string
+        custom?: boolean
         symbolCount: number
         sampleSymbols: string[]
       }
@@ -153,7 +221,7 @@ const renderers: Record<string, RendererFn> = {
         <h4 className="font-semibold text-white mb-2">{u.label}</h4>
         <p className="text-white/70 mb-3">{u.description}</p>
         <div className="space-y-2 text-xs text-white/60">
-          <p><span className="text-white/40">ETF Proxy:</span> {u.etfProxy}</p>
+          <p><span className="text-white/40">ETF Proxy:</span> {u.etfProxy || (u.custom ? 'None (custom universe)' : '-')}</p>
           <p><span className="text-white/40">Constituents:</span> {u.symbolCount}</p>
           <p><span className="text-white/40">Sample:</span> {u.sampleSymbols.join(', ')}</p>
         </div>
@@ -171,6 +239,7 @@ const renderers: Record<string, RendererFn> = {
         label: string
         description: string
         etfProxy: string
+        custom?: boolean
         symbolCount: number
       }>
     }
@@ -185,6 +254,7 @@ const renderers: Record<string, RendererFn> = {
                 <span className="font-mono text-primary">{u.id}</span>
                 <span className="text-white/40 mx-2">→</span>
                 <span className="text-white/70">{u.label}</span>
+                {u.custom && <span className="ml-2 text-[10px] uppercase text-amber-400/80">custom</span>}
               </div>
               <span className="text-xs text-white/40">{u.symbolCount} symbols</span>
             </div>
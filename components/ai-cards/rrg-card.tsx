@@ -0,0 +1,183 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import { Orbit, Pin } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { RrgQuadrant } from '@/lib/rotation/rrg'
+import type { CardProps, PinConfig, SectorRotationData } from './types'
+
+interface RrgCardProps extends CardProps {
+  data: SectorRotationData
+}
+
+const CHART_SIZE = 300
+const PADDING = 0.5 // Axis units beyond the furthest point
+
+const QUADRANT_STYLES: Record<RrgQuadrant, { label: string; fill: string; text: string }> = {
+  leading: { label: 'Leading', fill: 'rgba(34,197,94,0.08)', text: 'text-emerald-400' },
+  weakening: { label: 'Weakening', fill: 'rgba(250,204,21,0.08)', text: 'text-yellow-400' },
+  lagging: { label: 'Lagging', fill: 'rgba(239,68,68,0.08)', text: 'text-red-400' },
+  improving: { label: 'Improving', fill: 'rgba(96,165,250,0.08)', text: 'text-blue-400' },
+}
+
+const TAIL_COLORS = [
+  'rgb(96 165 250)',
+  'rgb(250 204 21)',
+  'rgb(192 132 252)',
+  'rgb(52 211 153)',
+  'rgb(248 113 113)',
+  'rgb(251 146 60)',
+  'rgb(45 212 191)',
+  'rgb(244 114 182)',
+  'rgb(163 230 53)',
+  'rgb(129 140 248)',
+  'rgb(253 224 71)',
+  'rgb(148 163 184)',
+]
+
+export function RrgCard({ data, onPin, className }: RrgCardProps) {
+  const handlePin = () => {
+    if (!onPin) return
+    const config: PinConfig = {
+      type: 'sector_rotation',
+      title: `Sector Rotation vs ${data.benchmark}`,
+      config: { benchmark: data.benchmark, interval: data.options.interval },
+      pinnedAt: new Date().toISOString(),
+    }
+    onPin(config)
+  }
+
+  const tails = data.series
+    .map((series, i) => ({
+      ...series,
+      tail: series.points.slice(-data.options.tailLength),
+      color: TAIL_COLORS[i % TAIL_COLORS.length],
+    }))
+    .filter((series) => series.tail.length > 0)
+
+  // Square domain centered on 100 so the quadrants stay equal
+  const extent = Math.max(
+    1,
+    ...tails.flatMap((series) =>
+      series.tail.flatMap((p) => [Math.abs(p.rsRatio - 100), Math.abs(p.rsMomentum - 100)])
+    )
+  ) + PADDING
+  const scale = (v: number) => ((v - (100 - extent)) / (2 * extent)) * CHART_SIZE
+  const x = (ratio: number) => scale(ratio)
+  const y = (momentum: number) => CHART_SIZE - scale(momentum)
+  const mid = CHART_SIZE / 2
+
+  const sorted = [...tails].sort((a, b) => {
+    const last = (s: typeof a) => s.tail[s.tail.length - 1]
+    return last(b).rsRatio - last(a).rsRatio
+  })
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border border-white/10 bg-black/40 backdrop-blur-sm overflow-hidden',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-white/5">
+        <div className="flex items-center gap-2">
+          <Orbit className="w-4 h-4 text-blue-400" />
+          <span className="text-xs font-medium text-white">Sector Rotation vs {data.benchmark}</span>
+          <span className="text-[10px] text-white/40 font-mono">
+            {data.options.interval} · {data.asOf}
+          </span>
+        </div>
+        {onPin && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handlePin}
+            className="h-6 w-6 p-0 text-white/50 hover:text-white hover:bg-white/10"
+          >
+            <Pin className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {/* Scatter with tails */}
+      <div className="px-3 py-2">
+        <svg viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`} className="w-full max-w-sm mx-auto aspect-square">
+          <rect x={mid} y={0} width={mid} height={mid} fill={QUADRANT_STYLES.leading.fill} />
+          <rect x={mid} y={mid} width={mid} height={mid} fill={QUADRANT_STYLES.weakening.fill} />
+          <rect x={0} y={mid} width={mid} height={mid} fill={QUADRANT_STYLES.lagging.fill} />
+          <rect x={0} y={0} width={mid} height={mid} fill={QUADRANT_STYLES.improving.fill} />
+          <line x1={mid} x2={mid} y1={0} y2={CHART_SIZE} stroke="rgba(255,255,255,0.2)" strokeWidth={1} />
+          <line x1={0} x2={CHART_SIZE} y1={mid} y2={mid} stroke="rgba(255,255,255,0.2)" strokeWidth={1} />
+
+          {tails.map((series) => {
+            const head = series.tail[series.tail.length - 1]
+            return (
+              <g key={series.symbol}>
+                <polyline
+                  points={series.tail.map((p) => `${x(p.rsRatio)},${y(p.rsMomentum)}`).join(' ')}
+                  fill="none"
+                  stroke={series.color}
+                  strokeWidth={1.25}
+                  strokeOpacity={0.7}
+                />
+                {series.tail.slice(0, -1).map((p) => (
+                  <circle key={p.date} cx={x(p.rsRatio)} cy={y(p.rsMomentum)} r={1.5} fill={series.color} fillOpacity={0.5} />
+                ))}
+                <circle cx={x(head.rsRatio)} cy={y(head.rsMomentum)} r={3.5} fill={series.color} />
+                <text
+                  x={x(head.rsRatio) + 5}
+                  y={y(head.rsMomentum) - 4}
+                  fontSize={9}
+                  fill={series.color}
+                  className="font-mono"
+                >
+                  {series.symbol}
+                </text>
+              </g>
+            )
+          })}
+        </svg>
+        <div className="flex justify-between mt-1 text-[9px] text-white/40 font-mono">
+          <span>RS-Ratio → · RS-Momentum ↑</span>
+          <span>{data.options.tailLength}-point tails</span>
+        </div>
+      </div>
+
+      {/* Latest readings */}
+      <div className="border-t border-white/5">
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-white/40 border-b border-white/5">
+              <th className="text-left px-3 py-1.5 font-medium">Symbol</th>
+              <th className="text-left px-2 py-1.5 font-medium">Quadrant</th>
+              <th className="text-right px-2 py-1.5 font-medium">RS-Ratio</th>
+              <th className="text-right px-3 py-1.5 font-medium">RS-Mom</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((series) => {
+              const head = series.tail[series.tail.length - 1]
+              const quadrant = series.quadrant ? QUADRANT_STYLES[series.quadrant] : null
+              return (
+                <tr key={series.symbol} className="border-b border-white/5 last:border-0">
+                  <td className="px-3 py-1 font-mono text-white">
+                    <span className="inline-block w-1.5 h-1.5 rounded-full mr-1.5" style={{ backgroundColor: series.color }} />
+                    {series.symbol}
+                    {series.name !== series.symbol && <span className="text-white/40 ml-1.5">{series.name}</span>}
+                  </td>
+                  <td className={cn('px-2 py-1', quadrant?.text)}>{quadrant?.label ?? '—'}</td>
+                  <td className="px-2 py-1 text-right font-mono text-white/80">{head.rsRatio.toFixed(2)}</td>
+                  <td className="px-3 py-1 text-right font-mono text-white/80">{head.rsMomentum.toFixed(2)}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        {data.failedSymbols.length > 0 && (
+          <p className="px-3 py-1.5 text-[10px] text-white/40">No data: {data.failedSymbols.join(', ')}</p>
+        )}
+      </div>
+    </div>
+  )
+}
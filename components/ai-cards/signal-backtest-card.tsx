@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import { FlaskConical, Pin } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { CardProps, SignalBacktestData, PinConfig } from './types'
+
+interface SignalBacktestCardProps extends CardProps {
+  data: SignalBacktestData
+}
+
+export function SignalBacktestCard({ data, onPin, className }: SignalBacktestCardProps) {
+  const [horizon, setHorizon] = useState(data.horizons.includes(5) ? 5 : data.horizons[0])
+
+  const handlePin = () => {
+    if (!onPin) return
+    const config: PinConfig = {
+      type: 'signal_backtest',
+      title: 'Signal Backtest',
+      config: { symbols: data.symbols, lookback: data.lookback },
+      pinnedAt: new Date().toISOString(),
+    }
+    onPin(config)
+  }
+
+  const horizonIndex = data.horizons.indexOf(horizon)
+  const baseline = data.groups.find((g) => g.signal === 'baseline')
+  const baselineStats = baseline?.horizons[horizonIndex]
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border border-white/10 bg-black/40 backdrop-blur-sm overflow-hidden',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-white/5">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-violet-400" />
+          <span className="text-xs font-medium text-white">Signal Backtest</span>
+          <span className="text-[10px] text-white/40 font-mono">
+            {data.from} → {data.to}
+          </span>
+        </div>
+        {onPin && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handlePin}
+            className="h-6 w-6 p-0 text-white/50 hover:text-white hover:bg-white/10"
+          >
+            <Pin className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {/* Horizon Selector */}
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-white/5">
+        <span className="text-[10px] text-white/40 mr-1">Forward</span>
+        {data.horizons.map((days) => (
+          <button
+            key={days}
+            onClick={() => setHorizon(days)}
+            className={cn(
+              'px-2 py-0.5 rounded text-[10px] font-mono transition-colors',
+              days === horizon ? 'bg-violet-500/20 text-violet-300' : 'text-white/50 hover:text-white'
+            )}
+          >
+            {days}d
+          </button>
+        ))}
+      </div>
+
+      {/* Stats Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-white/40">
+              <th className="text-left px-3 py-1.5 font-medium">Signal</th>
+              <th className="text-right px-2 py-1.5 font-medium">n</th>
+              <th className="text-right px-2 py-1.5 font-medium">Avg</th>
+              <th className="text-right px-2 py-1.5 font-medium">Hit</th>
+              <th className="text-right px-3 py-1.5 font-medium">Avg DD</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.groups.map((group) => {
+              const stats = group.horizons[horizonIndex]
+              const isBaseline = group.signal === 'baseline'
+              const edge =
+                !isBaseline && baselineStats && stats.samples > 0
+                  ? stats.avgReturn - baselineStats.avgReturn
+                  : null
+
+              return (
+                <tr
+                  key={`${group.signal}:${group.variant}`}
+                  className={cn('border-t border-white/5', isBaseline && 'text-white/50')}
+                >
+                  <td className="px-3 py-1.5">
+                    <div className="flex items-center gap-1.5">
+                      <span
+                        className={cn(
+                          'w-1.5 h-1.5 rounded-full',
+                          isBaseline
+                            ? 'bg-white/30'
+                            : group.direction === 'bullish'
+                              ? 'bg-emerald-400'
+                              : 'bg-rose-400'
+                        )}
+                      />
+                      <span className={cn(!isBaseline && 'text-white')}>{group.label}</span>
+                    </div>
+                  </td>
+                  <td className="text-right px-2 py-1.5 font-mono text-white/60">{stats.samples}</td>
+                  <td className="text-right px-2 py-1.5 font-mono">
+                    <span className={stats.avgReturn >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                      {formatPct(stats.avgReturn)}
+                    </span>
+                    {edge !== null && (
+                      <span className="ml-1 text-white/30">({formatPct(edge)})</span>
+                    )}
+                  </td>
+                  <td className="text-right px-2 py-1.5 font-mono">
+                    <span className={cn(hitRateColor(stats.hitRate, stats.samples))}>
+                      {stats.samples > 0 ? `${Math.round(stats.hitRate * 100)}%` : '-'}
+                    </span>
+                  </td>
+                  <td className="text-right px-3 py-1.5 font-mono text-rose-300/80">
+                    {group.avgDrawdown.toFixed(1)}%
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Recent Events */}
+      {data.recentEvents.length > 0 && (
+        <div className="px-3 py-2 border-t border-white/10">
+          <span className="text-[10px] text-white/40">Recent signals</span>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {data.recentEvents.slice(0, 8).map((event, i) => (
+              <span
+                key={`${event.date}-${event.symbol}-${i}`}
+                className="px-1.5 py-0.5 rounded bg-white/5 text-[10px] font-mono text-white/70"
+                title={`${event.signal} (${event.variant})`}
+              >
+                {event.date.slice(5)} {event.symbol} {event.signal === 'rejection' ? event.variant : event.signal.slice(0, 4)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="px-3 py-2 border-t border-white/5 bg-white/5 text-[10px] text-white/40">
+        {data.symbols.join(', ')} · {data.lookback}d lookback · {data.sessions} sessions · hit = moved in signal direction
+        {data.failedSymbols.length > 0 && (
+          <span className="text-amber-400/80"> · failed: {data.failedSymbols.join(', ')}</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function formatPct(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+function hitRateColor(hitRate: number, samples: number): string {
+  if (samples === 0) return 'text-white/30'
+  if (hitRate >= 0.6) return 'text-emerald-400'
+  if (hitRate <= 0.4) return 'text-rose-400'
+  return 'text-white/70'
+}
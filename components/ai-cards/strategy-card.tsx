@@ -0,0 +1,414 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { Minus, Pin, Plus, Shapes, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  analyzeStrategy,
+  createLeg,
+  type LegSide,
+  type StrategyAnalysis,
+  type StrategyContract,
+  type StrategyLeg,
+} from '@/lib/options'
+import type { CardProps, OptionsStrategyData, PinConfig } from './types'
+
+interface StrategyCardProps extends CardProps {
+  data: OptionsStrategyData
+}
+
+export function StrategyCard({ data, onPin, className }: StrategyCardProps) {
+  const [legs, setLegs] = useState<StrategyLeg[]>(data.legs)
+  const edited = legs !== data.legs
+
+  const handlePin = () => {
+    if (!onPin) return
+    const config: PinConfig = {
+      type: 'options_strategy',
+      title: `${data.symbol} ${edited ? 'Custom Strategy' : data.label}`,
+      config: {
+        symbol: data.symbol,
+        template: edited ? 'custom' : data.template,
+        legs: legs.map((l) => ({ ticker: l.contract.ticker, side: l.side, quantity: l.quantity, premium: l.premium })),
+      },
+      pinnedAt: new Date().toISOString(),
+    }
+    onPin(config)
+  }
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border border-white/10 bg-black/40 backdrop-blur-sm overflow-hidden',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-white/5">
+        <div className="flex items-center gap-2">
+          <Shapes className="w-4 h-4 text-purple-400" />
+          <span className="text-xs font-medium text-white">
+            {data.symbol} {edited ? 'Custom Strategy' : data.label}
+          </span>
+          <span className="text-[10px] text-white/40 font-mono">spot ${data.spot.toFixed(2)}</span>
+        </div>
+        {onPin && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handlePin}
+            className="h-6 w-6 p-0 text-white/50 hover:text-white hover:bg-white/10"
+          >
+            <Pin className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      <StrategyBuilder spot={data.spot} contracts={data.contracts} legs={legs} onLegsChange={setLegs} />
+    </div>
+  )
+}
+
+// =============================================================================
+// Builder - legs, chain picker, risk metrics and payoff (shared with the chain card)
+// =============================================================================
+
+export function StrategyBuilder({
+  spot,
+  contracts,
+  legs,
+  onLegsChange,
+}: {
+  spot: number
+  contracts: StrategyContract[]
+  legs: StrategyLeg[]
+  onLegsChange: (legs: StrategyLeg[]) => void
+}) {
+  const analysis = useMemo(() => (legs.length > 0 ? analyzeStrategy(legs, spot) : null), [legs, spot])
+
+  const addLeg = (contract: StrategyContract, side: LegSide) => {
+    const existing = legs.findIndex((l) => l.contract.ticker === contract.ticker && l.side === side)
+    if (existing >= 0) {
+      onLegsChange(legs.map((l, i) => (i === existing ? { ...l, quantity: l.quantity + 1 } : l)))
+    } else {
+      onLegsChange([...legs, createLeg(contract, side)])
+    }
+  }
+
+  const updateLeg = (index: number, leg: StrategyLeg | null) => {
+    onLegsChange(
+      leg === null ? legs.filter((_, i) => i !== index) : legs.map((l, i) => (i === index ? leg : l))
+    )
+  }
+
+  return (
+    <>
+      {legs.length > 0 ? (
+        <LegTable legs={legs} onUpdate={updateLeg} />
+      ) : (
+        <p className="px-3 py-2 text-[10px] text-white/40">
+          Click a bid to sell or an ask to buy and build up to any multi-leg strategy.
+        </p>
+      )}
+
+      {analysis && (
+        <>
+          <RiskMetrics analysis={analysis} />
+          <PayoffChart analysis={analysis} spot={spot} />
+        </>
+      )}
+
+      {contracts.length > 0 && <ChainPicker contracts={contracts} spot={spot} legs={legs} onAdd={addLeg} />}
+    </>
+  )
+}
+
+function LegTable({
+  legs,
+  onUpdate,
+}: {
+  legs: StrategyLeg[]
+  onUpdate: (index: number, leg: StrategyLeg | null) => void
+}) {
+  return (
+    <table className="w-full text-[10px]">
+      <thead>
+        <tr className="text-white/40 border-b border-white/5">
+          <th className="text-left px-3 py-1.5 font-medium">Side</th>
+          <th className="text-right px-2 py-1.5 font-medium">Qty</th>
+          <th className="text-left px-2 py-1.5 font-medium">Contract</th>
+          <th className="text-right px-2 py-1.5 font-medium">Price</th>
+          <th className="text-right px-2 py-1.5 font-medium">IV</th>
+          <th className="px-3 py-1.5" />
+        </tr>
+      </thead>
+      <tbody>
+        {legs.map((leg, i) => (
+          <tr key={`${leg.contract.ticker}-${leg.side}`} className="border-b border-white/5 last:border-0">
+            <td className="px-3 py-1">
+              <button
+                type="button"
+                onClick={() => onUpdate(i, { ...leg, side: leg.side === 'buy' ? 'sell' : 'buy' })}
+                className={cn(
+                  'px-1.5 py-0.5 rounded font-medium uppercase',
+                  leg.side === 'buy' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'
+                )}
+              >
+                {leg.side}
+              </button>
+            </td>
+            <td className="px-2 py-1">
+              <div className="flex items-center justify-end gap-1 font-mono text-white">
+                <button
+                  type="button"
+                  onClick={() => leg.quantity > 1 && onUpdate(i, { ...leg, quantity: leg.quantity - 1 })}
+                  className="text-white/40 hover:text-white"
+                >
+                  <Minus className="w-2.5 h-2.5" />
+                </button>
+                {leg.quantity}
+                <button
+                  type="button"
+                  onClick={() => onUpdate(i, { ...leg, quantity: leg.quantity + 1 })}
+                  className="text-white/40 hover:text-white"
+                >
+                  <Plus className="w-2.5 h-2.5" />
+                </button>
+              </div>
+            </td>
+            <td className="px-2 py-1 font-mono text-white/80">
+              {leg.contract.expiration.slice(5)} {leg.contract.strike}
+              {leg.contract.contractType === 'call' ? 'C' : 'P'}
+            </td>
+            <td className="text-right px-2 py-1 font-mono text-white/70">{leg.premium.toFixed(2)}</td>
+            <td className="text-right px-2 py-1 font-mono text-white/50">
+              {(leg.contract.impliedVolatility * 100).toFixed(1)}%
+            </td>
+            <td className="px-3 py-1 text-right">
+              <button type="button" onClick={() => onUpdate(i, null)} className="text-white/30 hover:text-red-400">
+                <X className="w-3 h-3" />
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function RiskMetrics({ analysis }: { analysis: StrategyAnalysis }) {
+  const { netPremium, kind, maxProfit, maxLoss, breakevens, greeks } = analysis
+  return (
+    <div className="border-t border-white/5">
+      <div className="grid grid-cols-4 gap-px bg-white/5">
+        <Metric
+          label={kind === 'debit' ? 'Net Debit' : 'Net Credit'}
+          value={formatDollars(Math.abs(netPremium))}
+          className={kind === 'debit' ? 'text-red-300' : 'text-emerald-300'}
+        />
+        <Metric label="Max Profit" value={maxProfit === null ? 'Unlimited' : formatDollars(maxProfit)} className="text-emerald-400" />
+        <Metric label="Max Loss" value={maxLoss === null ? 'Unlimited' : formatDollars(maxLoss)} className="text-red-400" />
+        <Metric
+          label="Breakeven"
+          value={breakevens.length > 0 ? breakevens.map((b) => b.toFixed(2)).join(' / ') : '—'}
+        />
+      </div>
+      <div className="flex flex-wrap gap-x-3 px-3 py-1.5 text-[10px] font-mono text-white/60">
+        <span>Δ {greeks.delta.toFixed(1)}</span>
+        <span>Γ {greeks.gamma.toFixed(2)}</span>
+        <span>Θ {formatDollars(greeks.theta)}/day</span>
+        <span>Vega {formatDollars(greeks.vega)}</span>
+      </div>
+    </div>
+  )
+}
+
+function Metric({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="bg-black/20 px-3 py-2">
+      <p className="text-[10px] text-white/40 font-medium uppercase tracking-wide">{label}</p>
+      <p className={cn('text-xs font-mono font-semibold text-white truncate', className)}>{value}</p>
+    </div>
+  )
+}
+
+// =============================================================================
+// Payoff Chart - P/L at the first expiration (solid) and marked today (dashed)
+// =============================================================================
+
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 120
+
+function PayoffChart({ analysis, spot }: { analysis: StrategyAnalysis; spot: number }) {
+  const points = analysis.payoff
+  if (points.length < 2) return null
+
+  const minX = points[0].price
+  const maxX = points[points.length - 1].price
+  const values = points.flatMap((p) => [p.expiry, p.today])
+  const minY = Math.min(0, ...values)
+  const maxY = Math.max(0, ...values)
+  const scaleX = (x: number) => ((x - minX) / (maxX - minX || 1)) * CHART_WIDTH
+  const scaleY = (y: number) => CHART_HEIGHT - ((y - minY) / (maxY - minY || 1)) * CHART_HEIGHT
+
+  const path = (key: 'expiry' | 'today') =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${scaleX(p.price).toFixed(1)},${scaleY(p[key]).toFixed(1)}`).join(' ')
+
+  return (
+    <div className="px-3 py-2 border-t border-white/5">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-28" preserveAspectRatio="none">
+        <line x1={0} x2={CHART_WIDTH} y1={scaleY(0)} y2={scaleY(0)} stroke="rgba(255,255,255,0.2)" strokeWidth={1} />
+        {spot >= minX && spot <= maxX && (
+          <line
+            x1={scaleX(spot)}
+            x2={scaleX(spot)}
+            y1={0}
+            y2={CHART_HEIGHT}
+            stroke="rgba(255,255,255,0.3)"
+            strokeDasharray="2 3"
+            strokeWidth={1}
+          />
+        )}
+        {analysis.breakevens
+          .filter((b) => b >= minX && b <= maxX)
+          .map((b) => (
+            <circle key={b} cx={scaleX(b)} cy={scaleY(0)} r={2.5} fill="rgb(250 204 21)" />
+          ))}
+        <path d={path('today')} fill="none" stroke="rgb(96 165 250)" strokeWidth={1.25} strokeDasharray="4 3" />
+        <path d={path('expiry')} fill="none" stroke="rgb(192 132 252)" strokeWidth={1.75} />
+      </svg>
+      <div className="flex flex-wrap justify-between gap-x-3 mt-1 text-[9px] text-white/40 font-mono">
+        <span>${minX.toFixed(0)}</span>
+        <span className="text-purple-300/80">— at {analysis.evaluationDate}</span>
+        <span className="text-blue-300/80">- - today</span>
+        <span>spot ${spot.toFixed(2)}</span>
+        <span>${maxX.toFixed(0)}</span>
+      </div>
+    </div>
+  )
+}
+
+// =============================================================================
+// Chain Picker - bid sells, ask buys
+// =============================================================================
+
+function ChainPicker({
+  contracts,
+  spot,
+  legs,
+  onAdd,
+}: {
+  contracts: StrategyContract[]
+  spot: number
+  legs: StrategyLeg[]
+  onAdd: (contract: StrategyContract, side: LegSide) => void
+}) {
+  const expirations = useMemo(() => Array.from(new Set(contracts.map((c) => c.expiration))).sort(), [contracts])
+  const [expiration, setExpiration] = useState(legs[0]?.contract.expiration ?? expirations[0])
+
+  const rows = useMemo(() => {
+    const byStrike = new Map<number, { call?: StrategyContract; put?: StrategyContract }>()
+    for (const c of contracts) {
+      if (c.expiration !== expiration) continue
+      const row = byStrike.get(c.strike) ?? {}
+      row[c.contractType] = c
+      byStrike.set(c.strike, row)
+    }
+    return Array.from(byStrike.entries()).sort(([a], [b]) => a - b)
+  }, [contracts, expiration])
+
+  const inLegs = new Set(legs.map((l) => l.contract.ticker))
+
+  return (
+    <div className="border-t border-white/5">
+      <div className="flex items-center gap-1 px-3 py-1.5 overflow-x-auto">
+        {expirations.map((e) => (
+          <button
+            key={e}
+            type="button"
+            onClick={() => setExpiration(e)}
+            className={cn(
+              'px-1.5 py-0.5 rounded text-[10px] font-mono',
+              e === expiration ? 'bg-purple-500/20 text-purple-300' : 'text-white/40 hover:text-white'
+            )}
+          >
+            {e}
+          </button>
+        ))}
+      </div>
+      <div className="max-h-48 overflow-y-auto">
+        <table className="w-full text-[10px]">
+          <thead className="sticky top-0 bg-black/80">
+            <tr className="text-white/40">
+              <th className="text-right px-2 py-1 font-medium">Call Bid</th>
+              <th className="text-right px-2 py-1 font-medium">Ask</th>
+              <th className="text-center px-2 py-1 font-medium">Strike</th>
+              <th className="text-left px-2 py-1 font-medium">Put Bid</th>
+              <th className="text-left px-2 py-1 font-medium">Ask</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([strike, { call, put }]) => (
+              <tr key={strike} className="border-t border-white/5">
+                <QuoteCell contract={call} side="sell" onAdd={onAdd} align="right" active={!!call && inLegs.has(call.ticker)} />
+                <QuoteCell contract={call} side="buy" onAdd={onAdd} align="right" active={!!call && inLegs.has(call.ticker)} />
+                <td
+                  className={cn(
+                    'text-center px-2 py-0.5 font-mono',
+                    Math.abs(strike - spot) / spot < 0.005 ? 'text-white' : 'text-white/50'
+                  )}
+                >
+                  {strike}
+                </td>
+                <QuoteCell contract={put} side="sell" onAdd={onAdd} align="left" active={!!put && inLegs.has(put.ticker)} />
+                <QuoteCell contract={put} side="buy" onAdd={onAdd} align="left" active={!!put && inLegs.has(put.ticker)} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function QuoteCell({
+  contract,
+  side,
+  onAdd,
+  align,
+  active,
+}: {
+  contract: StrategyContract | undefined
+  side: LegSide
+  onAdd: (contract: StrategyContract, side: LegSide) => void
+  align: 'left' | 'right'
+  active: boolean
+}) {
+  if (!contract) return <td className="px-2 py-0.5 text-white/20">—</td>
+  const price = side === 'sell' ? contract.bid : contract.ask
+  return (
+    <td className={cn('px-2 py-0.5', align === 'right' ? 'text-right' : 'text-left')}>
+      <button
+        type="button"
+        onClick={() => onAdd(contract, side)}
+        title={`${side === 'sell' ? 'Sell' : 'Buy'} ${contract.strike}${contract.contractType === 'call' ? 'C' : 'P'}`}
+        className={cn(
+          'font-mono hover:underline',
+          side === 'sell' ? 'text-red-300/80' : 'text-emerald-300/80',
+          active && 'font-semibold'
+        )}
+      >
+        {price > 0 ? price.toFixed(2) : '—'}
+      </button>
+    </td>
+  )
+}
+
+function formatDollars(num: number): string {
+  const sign = num < 0 ? '-' : ''
+  const abs = Math.abs(num)
+  if (abs >= 1_000_000) return `${sign}$${(abs / 1_000_000).toFixed(1)}M`
+  if (abs >= 1_000) return `${sign}$${(abs / 1_000).toFixed(1)}K`
+  return `${sign}$${abs.toFixed(0)}`
+}
@@ -2,6 +2,22 @@
 // AI Card Types - Shared types for generative UI components
 // =============================================================================
 
+import type { IndicatorLine } from '@/lib/indicators'
+import type { BreadthMeasureDefinition, BreadthMeasureId, BreadthMeasurePoint } from '@/lib/breadth/measures'
+import type { SectorRotationResult } from '@/lib/rotation'
+import type { CorrelationRunResult } from '@/lib/correlation'
+import type {
+  IvRankStats,
+  IvSurface,
+  OptionsAnalytics,
+  StrategyAnalysis,
+  StrategyContract,
+  StrategyLeg,
+  StrategyTemplate,
+  UnusualContract,
+  UnusualOptionsCriteria,
+} from '@/lib/options'
+
 export interface PinConfig {
   type: string
   title: string
@@ -22,6 +38,12 @@ export type ResultType =
   | 'heatmap'
   | 'breadth'
   | 'pulse'
+  | 'signal_backtest'
+  | 'iv_surface'
+  | 'options_strategy'
+  | 'unusual_options'
+  | 'sector_rotation'
+  | 'correlation_matrix'
   | 'error'
 
 export interface MarketDashboardData {
@@ -36,6 +58,11 @@ export interface MarketDashboardData {
     close: number | null
     rollingHigh: number | null
     rollingLow: number | null
+    // Present when indicators were requested; closes and lines share one index
+    series?: {
+      closes: Array<number | null>
+      indicators: IndicatorLine[]
+    }
   }>
 }
 
@@ -53,6 +80,9 @@ export interface OptionsChainData {
     maxPainStrike: number
     underlyingPrice: number
     strikeDistance: number
+    analytics?: OptionsAnalytics // Strike profile, dealer GEX, gamma flip, OI walls
+    ivRank?: IvRankStats // 52-week rank of 30-day ATM IV from nightly snapshots
+    contracts?: StrategyContract[] // Near-the-money contracts for the strategy builder
   } | null
 }
 
@@ -99,6 +129,9 @@ export interface BreadthData {
   newLows: number
   upVolume: number
   downVolume: number
+  universe?: string // Universe label when computed from constituents
+  date?: string
+  measure?: BreadthMeasureDefinition & { id: BreadthMeasureId; series: BreadthMeasurePoint[] }
 }
 
 export interface MarketPulseData {
@@ -115,6 +148,75 @@ export interface MarketPulseData {
   lastUpdated: string
 }
 
+export interface SignalBacktestData {
+  type: 'signal_backtest'
+  symbols: string[]
+  lookback: number
+  horizons: number[]
+  from: string
+  to: string
+  sessions: number
+  groups: Array<{
+    signal: 'confirmation' | 'rejection' | 'divergence' | 'baseline'
+    variant: string
+    label: string
+    direction: 'bullish' | 'bearish'
+    count: number
+    horizons: Array<{
+      days: number
+      samples: number
+      avgReturn: number
+      medianReturn: number
+      hitRate: number
+    }>
+    avgDrawdown: number
+    worstDrawdown: number
+  }>
+  recentEvents: Array<{
+    date: string
+    symbol: string
+    signal: 'confirmation' | 'rejection' | 'divergence'
+    variant: string
+  }>
+  failedSymbols: string[]
+}
+
+export interface IvSurfaceData extends IvSurface {
+  type: 'iv_surface'
+  symbol: string
+  contracts: number
+}
+
+export interface OptionsStrategyData {
+  type: 'options_strategy'
+  symbol: string
+  template: StrategyTemplate
+  label: string
+  spot: number
+  legs: StrategyLeg[]
+  analysis: StrategyAnalysis
+  contracts: StrategyContract[] // Chain around the legs, for editing
+}
+
+export interface UnusualOptionsData {
+  type: 'unusual_options'
+  universe: { id: string; label: string }
+  date: string
+  results: UnusualContract[]
+  totalFlagged: number
+  scanned: string[]
+  failedSymbols: string[]
+  criteria: UnusualOptionsCriteria
+}
+
+export interface SectorRotationData extends SectorRotationResult {
+  type: 'sector_rotation'
+}
+
+export interface CorrelationMatrixData extends CorrelationRunResult {
+  type: 'correlation_matrix'
+}
+
 export interface ErrorData {
   type: 'error'
   title: string
@@ -129,4 +231,10 @@ export type ResultEnvelope =
   | HeatmapData
   | BreadthData
   | MarketPulseData
+  | SignalBacktestData
+  | IvSurfaceData
+  | OptionsStrategyData
+  | UnusualOptionsData
+  | SectorRotationData
+  | CorrelationMatrixData
   | ErrorData
@@ -0,0 +1,218 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { ArrowDown, ArrowUp, Pin, Radar } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { UnusualContract, UnusualReason } from '@/lib/options'
+import type { CardProps, PinConfig, UnusualOptionsData } from './types'
+
+interface UnusualOptionsCardProps extends CardProps {
+  data: UnusualOptionsData
+}
+
+type SortKey = 'contract' | 'dte' | 'otmPct' | 'volume' | 'openInterest' | 'volumeOiRatio' | 'volumeMultiple' | 'premium' | 'impliedVolatility'
+
+const COLUMNS: Array<{ key: SortKey; label: string; align: 'left' | 'right' }> = [
+  { key: 'contract', label: 'Contract', align: 'left' },
+  { key: 'dte', label: 'DTE', align: 'right' },
+  { key: 'otmPct', label: 'OTM', align: 'right' },
+  { key: 'volume', label: 'Vol', align: 'right' },
+  { key: 'openInterest', label: 'OI', align: 'right' },
+  { key: 'volumeOiRatio', label: 'Vol/OI', align: 'right' },
+  { key: 'volumeMultiple', label: '× Avg', align: 'right' },
+  { key: 'premium', label: 'Premium', align: 'right' },
+  { key: 'impliedVolatility', label: 'IV', align: 'right' },
+]
+
+const REASON_STYLES: Record<UnusualReason, { label: string; className: string }> = {
+  volume_oi: { label: 'V/OI', className: 'bg-sky-500/10 text-sky-400' },
+  volume_spike: { label: 'Spike', className: 'bg-amber-500/10 text-amber-400' },
+  large_premium: { label: 'Sweep', className: 'bg-purple-500/10 text-purple-400' },
+}
+
+// Rows rendered before "show all"
+const INITIAL_ROWS = 25
+
+export function UnusualOptionsCard({ data, onPin, className }: UnusualOptionsCardProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('premium')
+  const [descending, setDescending] = useState(true)
+  const [showAll, setShowAll] = useState(false)
+
+  const handlePin = () => {
+    if (!onPin) return
+    const config: PinConfig = {
+      type: 'unusual_options',
+      title: `Unusual Options: ${data.universe.label}`,
+      config: { universe: data.universe.id, criteria: data.criteria },
+      pinnedAt: new Date().toISOString(),
+    }
+    onPin(config)
+  }
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending)
+    } else {
+      setSortKey(key)
+      setDescending(key !== 'contract' && key !== 'dte')
+    }
+  }
+
+  const rows = useMemo(() => {
+    const sorted = [...data.results].sort((a, b) => compareRows(a, b, sortKey))
+    return descending ? sorted.reverse() : sorted
+  }, [data.results, sortKey, descending])
+
+  const visible = showAll ? rows : rows.slice(0, INITIAL_ROWS)
+  const callPremium = data.results.filter((r) => r.contractType === 'call').reduce((sum, r) => sum + r.premium, 0)
+  const putPremium = data.results.filter((r) => r.contractType === 'put').reduce((sum, r) => sum + r.premium, 0)
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border border-white/10 bg-black/40 backdrop-blur-sm overflow-hidden',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-white/5">
+        <div className="flex items-center gap-2">
+          <Radar className="w-4 h-4 text-purple-400" />
+          <span className="text-xs font-medium text-white">Unusual Options · {data.universe.label}</span>
+          <span className="text-[10px] text-white/40 font-mono">{data.date}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-mono text-emerald-400">C {formatDollars(callPremium)}</span>
+          <span className="text-[10px] font-mono text-red-400">P {formatDollars(putPremium)}</span>
+          {onPin && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handlePin}
+              className="h-6 w-6 p-0 text-white/50 hover:text-white hover:bg-white/10"
+            >
+              <Pin className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="px-3 py-4 text-xs text-white/50">No contracts met the unusual-activity criteria.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-white/40 border-b border-white/5">
+                {COLUMNS.map((col) => (
+                  <th
+                    key={col.key}
+                    className={cn(
+                      'px-2 py-1.5 font-medium first:pl-3 cursor-pointer select-none hover:text-white',
+                      col.align === 'right' ? 'text-right' : 'text-left'
+                    )}
+                    onClick={() => handleSort(col.key)}
+                  >
+                    <span className="inline-flex items-center gap-0.5">
+                      {col.label}
+                      {sortKey === col.key &&
+                        (descending ? <ArrowDown className="w-2.5 h-2.5" /> : <ArrowUp className="w-2.5 h-2.5" />)}
+                    </span>
+                  </th>
+                ))}
+                <th className="text-left px-3 py-1.5 font-medium">Flags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((row) => (
+                <tr key={row.ticker} className="border-b border-white/5 last:border-0">
+                  <td className="pl-3 pr-2 py-1 font-mono whitespace-nowrap">
+                    <span className="text-white">{row.underlying}</span>{' '}
+                    <span className="text-white/50">{row.expiration.slice(5)}</span>{' '}
+                    <span className={row.contractType === 'call' ? 'text-emerald-400' : 'text-red-400'}>
+                      {row.strike}
+                      {row.contractType === 'call' ? 'C' : 'P'}
+                    </span>
+                  </td>
+                  <td className="text-right px-2 py-1 font-mono text-white/60">{row.dte}</td>
+                  <td className={cn('text-right px-2 py-1 font-mono', row.otmPct > 0 ? 'text-white/70' : 'text-white/40')}>
+                    {row.otmPct > 0 ? '+' : ''}
+                    {row.otmPct.toFixed(1)}%
+                  </td>
+                  <td className="text-right px-2 py-1 font-mono text-white">{formatNumber(row.volume)}</td>
+                  <td className="text-right px-2 py-1 font-mono text-white/60">{formatNumber(row.openInterest)}</td>
+                  <td className="text-right px-2 py-1 font-mono text-white/80">
+                    {row.volumeOiRatio === null ? 'new' : `${row.volumeOiRatio.toFixed(1)}x`}
+                  </td>
+                  <td className="text-right px-2 py-1 font-mono text-white/80">
+                    {row.volumeMultiple === null ? '—' : `${row.volumeMultiple.toFixed(1)}x`}
+                  </td>
+                  <td className="text-right px-2 py-1 font-mono text-white">{formatDollars(row.premium)}</td>
+                  <td className="text-right px-2 py-1 font-mono text-white/60">
+                    {(row.impliedVolatility * 100).toFixed(0)}%
+                  </td>
+                  <td className="px-3 py-1">
+                    <div className="flex gap-1">
+                      {row.reasons.map((reason) => (
+                        <span
+                          key={reason}
+                          className={cn('px-1 rounded text-[9px] font-medium', REASON_STYLES[reason].className)}
+                        >
+                          {REASON_STYLES[reason].label}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > INITIAL_ROWS && (
+            <button
+              type="button"
+              onClick={() => setShowAll(!showAll)}
+              className="w-full py-1.5 text-[10px] text-white/50 hover:text-white border-t border-white/5"
+            >
+              {showAll ? 'Show fewer' : `Show all ${rows.length}`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="px-3 py-2 border-t border-white/5 bg-white/5">
+        <p className="text-[10px] text-white/40 font-mono">
+          {data.totalFlagged} flagged across {data.scanned.length} symbols
+          {data.failedSymbols.length > 0 && ` · ${data.failedSymbols.length} failed`} | Vol/OI ≥{' '}
+          {data.criteria.minVolumeOiRatio}x · Spike ≥ {data.criteria.spikeMultiple}x avg · Sweep ≥{' '}
+          {formatDollars(data.criteria.minPremium)} OTM ≤ {data.criteria.maxDte}d
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function compareRows(a: UnusualContract, b: UnusualContract, key: SortKey): number {
+  if (key === 'contract') {
+    return a.underlying.localeCompare(b.underlying) || a.expiration.localeCompare(b.expiration) || a.strike - b.strike
+  }
+  // No open interest means an unbounded Vol/OI; a missing average sorts last
+  const missing = key === 'volumeOiRatio' ? Number.POSITIVE_INFINITY : Number.NEGATIVE_INFINITY
+  const av = a[key] ?? missing
+  const bv = b[key] ?? missing
+  return av === bv ? 0 : av - bv
+}
+
+function formatDollars(num: number): string {
+  if (num >= 1_000_000_000) return `$${(num / 1_000_000_000).toFixed(2)}B`
+  if (num >= 1_000_000) return `$${(num / 1_000_000).toFixed(1)}M`
+  if (num >= 1_000) return `$${(num / 1_000).toFixed(0)}K`
+  return `$${num.toFixed(0)}`
+}
+
+function formatNumber(num: number): string {
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`
+  if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`
+  return num.toLocaleString()
+}
@@ -0,0 +1,430 @@
+'use client'
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { Bell, BellOff, Info, Loader2, Play, Plus, Trash2 } from 'lucide-react'
+import type { AlertRuleParams, AlertRuleRecord, AlertRuleType } from '@/lib/alerts/rules'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AlertRulesResponse {
+  rules: AlertRuleRecord[]
+  alertsEnabled: boolean
+  source: 'database' | 'none'
+}
+
+interface AlertEventItem {
+  id: string
+  ruleId: string
+  ruleName: string
+  ruleType: AlertRuleType
+  date: string
+  message: string
+  evidence: Record<string, unknown>
+  createdAt: string
+}
+
+interface DraftRule {
+  type: AlertRuleType
+  target: string
+  value: string
+}
+
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  extreme: 'Days since high',
+  rejection: 'Rejection',
+  breadth: 'Breadth % lows',
+  regime: 'Regime flip',
+}
+
+const TYPE_BADGE_CLASSES: Record<AlertRuleType, string> = {
+  extreme: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20',
+  rejection: 'bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20',
+  breadth: 'bg-rose-500/10 text-rose-600 dark:text-rose-400 border-rose-500/20',
+  regime: 'bg-sky-500/10 text-sky-600 dark:text-sky-400 border-sky-500/20',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json())
+
+/**
+ * Map the compact quick-add form onto a full rule definition.
+ * Less common parameters keep their schema defaults.
+ */
+function draftToRule(draft: DraftRule): AlertRuleParams | null {
+  const target = draft.target.trim()
+  const value = Number(draft.value)
+
+  switch (draft.type) {
+    case 'extreme':
+      if (!target || !Number.isFinite(value)) return null
+      return {
+        type: 'extreme',
+        symbol: target,
+        metric: 'daysSinceHigh',
+        operator: 'lte',
+        value,
+        basis: 'both',
+        lookback: 63,
+      }
+    case 'rejection':
+      if (!target) return null
+      return {
+        type: 'rejection',
+        symbol: target,
+        minSeverity: draft.value === 'strong' || draft.value === 'mild' ? draft.value : 'notable',
+        lookback: 63,
+      }
+    case 'breadth':
+      if (!target || !Number.isFinite(value)) return null
+      return { type: 'breadth', universe: target, metric: 'pctNewLows', threshold: value, lookback: 63 }
+    case 'regime':
+      return {
+        type: 'regime',
+        symbols: ['DJI', 'SPX', 'IXIC', 'NDX', 'RUT', 'SOX'],
+        to: draft.value === 'Risk-On' || draft.value === 'Narrow / Mixed' ? draft.value : 'Risk-Off',
+        lookback: 63,
+      }
+  }
+}
+
+function defaultDraftFor(type: AlertRuleType): DraftRule {
+  switch (type) {
+    case 'extreme':
+      return { type, target: 'SPX', value: '0' }
+    case 'rejection':
+      return { type, target: 'SOX', value: 'notable' }
+    case 'breadth':
+      return { type, target: 'soxx', value: '20' }
+    case 'regime':
+      return { type, target: '', value: 'Risk-Off' }
+  }
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// =============================================================================
+// Sub-Components
+// =============================================================================
+
+function RuleRow({
+  rule,
+  onToggle,
+  onDelete,
+}: {
+  rule: AlertRuleRecord
+  onToggle: (enabled: boolean) => void
+  onDelete: () => void
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2 px-2 sm:px-3 py-2 rounded-md border border-border bg-background">
+      <div className="flex items-center gap-2 min-w-0">
+        <Badge variant="outline" className={cn('text-[10px] shrink-0', TYPE_BADGE_CLASSES[rule.rule.type])}>
+          {RULE_TYPE_LABELS[rule.rule.type]}
+        </Badge>
+        <span className={cn('text-xs truncate', !rule.enabled && 'text-muted-foreground line-through')}>
+          {rule.name}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {rule.lastTriggeredAt && (
+          <span className="hidden sm:inline text-[10px] text-muted-foreground font-mono">
+            {formatTimestamp(rule.lastTriggeredAt)}
+          </span>
+        )}
+        <Switch checked={rule.enabled} onCheckedChange={onToggle} aria-label="Enable rule" />
+        <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onDelete}>
+          <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function DraftValueInput({
+  draft,
+  onChange,
+}: {
+  draft: DraftRule
+  onChange: (draft: DraftRule) => void
+}) {
+  if (draft.type === 'rejection' || draft.type === 'regime') {
+    const options =
+      draft.type === 'rejection'
+        ? ['mild', 'notable', 'strong']
+        : ['Risk-On', 'Narrow / Mixed', 'Risk-Off']
+
+    return (
+      <Select value={draft.value} onValueChange={(value) => onChange({ ...draft, value })}>
+        <SelectTrigger className="h-8 w-32 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {draft.type === 'rejection' ? `>= ${option}` : option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      value={draft.value}
+      onChange={(e) => onChange({ ...draft, value: e.target.value })}
+      className="h-8 w-20 text-xs font-mono"
+      placeholder={draft.type === 'breadth' ? '%' : 'days'}
+    />
+  )
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+export function AlertsPanel({ className }: { className?: string }) {
+  const { data, mutate } = useSWR<AlertRulesResponse>('/api/alerts', fetcher)
+  const { data: history, mutate: mutateHistory } = useSWR<{ events: AlertEventItem[] }>(
+    data?.source === 'database' ? '/api/alerts/history?limit=20' : null,
+    fetcher,
+    { refreshInterval: 60000 }
+  )
+
+  const [draft, setDraft] = useState<DraftRule>(() => defaultDraftFor('extreme'))
+  const [isSaving, setIsSaving] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Alerts need the database for rules and history
+  if (!data || data.source !== 'database') return null
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setError(null)
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(result.error || `HTTP ${response.status}`)
+    }
+    return result
+  }
+
+  const handleToggleAlerts = async (enabled: boolean) => {
+    try {
+      await request('/api/preferences', 'PATCH', { alertsEnabled: enabled })
+      mutate({ ...data, alertsEnabled: enabled }, { revalidate: true })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update alerts')
+    }
+  }
+
+  const handleAddRule = async () => {
+    const rule = draftToRule(draft)
+    if (!rule) {
+      setError('Fill in the rule target and value')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await request('/api/alerts', 'POST', { rule })
+      setDraft(defaultDraftFor(draft.type))
+      mutate()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleRule = async (id: string, enabled: boolean) => {
+    try {
+      await request(`/api/alerts/${id}`, 'PATCH', { enabled })
+      mutate()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rule')
+    }
+  }
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      await request(`/api/alerts/${id}`, 'DELETE')
+      mutate()
+      mutateHistory()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule')
+    }
+  }
+
+  const handleRunNow = async () => {
+    setIsRunning(true)
+    try {
+      await request('/api/alerts/evaluate', 'POST')
+      mutate()
+      mutateHistory()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Alert evaluation failed')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const events = history?.events ?? []
+
+  return (
+    <div className={cn('bg-card border border-border rounded-lg overflow-hidden', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 sm:py-3 border-b border-border bg-muted/30">
+        <div className="flex items-center gap-2">
+          {data.alertsEnabled ? (
+            <Bell className="w-4 h-4 text-primary" />
+          ) : (
+            <BellOff className="w-4 h-4 text-muted-foreground" />
+          )}
+          <h3 className="text-xs sm:text-sm font-semibold">Alerts</h3>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-xs">
+                <p className="font-medium">Server-side alerts</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Rules are checked on a schedule against the latest session. Each rule fires at
+                  most once per session.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={handleRunNow}
+            disabled={isRunning || !data.alertsEnabled || data.rules.length === 0}
+          >
+            {isRunning ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <Play className="w-3.5 h-3.5" />
+            )}
+            <span className="hidden sm:inline ml-1">Run now</span>
+          </Button>
+          <Switch
+            checked={data.alertsEnabled}
+            onCheckedChange={handleToggleAlerts}
+            aria-label="Enable alerts"
+          />
+        </div>
+      </div>
+
+      <div className="p-3 sm:p-4 space-y-3">
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {/* Quick add */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={draft.type}
+            onValueChange={(value: AlertRuleType) => setDraft(defaultDraftFor(value))}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_TYPE_LABELS) as AlertRuleType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {RULE_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {draft.type !== 'regime' && (
+            <Input
+              value={draft.target}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  target: draft.type === 'breadth' ? e.target.value.toLowerCase() : e.target.value.toUpperCase(),
+                })
+              }
+              placeholder={draft.type === 'breadth' ? 'universe' : 'symbol'}
+              className="h-8 w-24 text-xs font-mono"
+            />
+          )}
+          <DraftValueInput draft={draft} onChange={setDraft} />
+          <Button type="button" size="sm" className="h-8 px-2 text-xs" onClick={handleAddRule} disabled={isSaving}>
+            <Plus className="w-3.5 h-3.5 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {/* Rules */}
+        {data.rules.length > 0 ? (
+          <div className="space-y-1.5">
+            {data.rules.map((rule) => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+                onToggle={(enabled) => handleToggleRule(rule.id, enabled)}
+                onDelete={() => handleDeleteRule(rule.id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No rules yet. Add one above, e.g. SPX days since high at 0 on both bases.
+          </p>
+        )}
+
+        {/* History */}
+        {events.length > 0 && (
+          <div className="pt-2 border-t border-border">
+            <h4 className="text-xs font-medium text-muted-foreground mb-1.5">Recent triggers</h4>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {events.map((event) => (
+                <div key={event.id} className="flex items-start gap-2 text-xs">
+                  <span className="font-mono text-muted-foreground shrink-0">{event.date}</span>
+                  <span className="min-w-0">{event.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
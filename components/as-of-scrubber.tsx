@@ -0,0 +1,147 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ChevronLeft, ChevronRight, History } from "lucide-react"
+import { MIN_AS_OF, shiftWeekdays, todayIso } from "@/lib/as-of"
+import { cn } from "@/lib/utils"
+
+interface AsOfScrubberProps {
+  value?: string
+  onChange: (asOf: string | undefined) => void
+  disabled?: boolean
+  className?: string
+}
+
+// Slider span: one year of sessions back from today
+const SCRUB_SESSIONS = 252
+
+/**
+ * Date scrubber for replay mode. Steps and the slider move by weekdays; the
+ * server falls back to the prior session when a date was a holiday.
+ */
+export function AsOfScrubber({ value, onChange, disabled, className }: AsOfScrubberProps) {
+  const today = todayIso()
+  const latest = shiftWeekdays(today, -1)
+  const [sessionsBack, setSessionsBack] = useState(0)
+
+  // Keep the slider in sync with the selected date (approximate for old dates)
+  useEffect(() => {
+    if (!value) {
+      setSessionsBack(0)
+      return
+    }
+    let back = 0
+    let date = today
+    while (date > value && back < SCRUB_SESSIONS) {
+      date = shiftWeekdays(date, -1)
+      back++
+    }
+    setSessionsBack(back)
+  }, [value, today])
+
+  const select = (date: string | undefined) => {
+    if (!date || date >= today) onChange(undefined)
+    else onChange(date < MIN_AS_OF ? MIN_AS_OF : date)
+  }
+
+  const step = (sessions: number) => select(shiftWeekdays(value ?? today, sessions))
+
+  return (
+    <div className={cn("flex items-center", className)}>
+      {value && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-7 p-0"
+          onClick={() => step(-1)}
+          disabled={disabled}
+          title="Previous session"
+        >
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </Button>
+      )}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant={value ? "default" : "outline"}
+            size="sm"
+            className="h-8 px-2.5 text-xs font-mono gap-1.5"
+            disabled={disabled}
+          >
+            <History className="h-3.5 w-3.5" />
+            {value ?? "Live"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-3" align="start">
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium">Replay a past session</p>
+              <p className="text-xs text-muted-foreground">
+                Every panel is computed as of that day&apos;s close.
+              </p>
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>1y ago</span>
+                <span className="font-mono">{sessionsBack === 0 ? "today" : `${sessionsBack} sessions back`}</span>
+              </div>
+              <Slider
+                min={0}
+                max={SCRUB_SESSIONS}
+                step={1}
+                value={[SCRUB_SESSIONS - sessionsBack]}
+                onValueChange={([position]) => setSessionsBack(SCRUB_SESSIONS - position)}
+                onValueCommit={([position]) => {
+                  const back = SCRUB_SESSIONS - position
+                  select(back === 0 ? undefined : shiftWeekdays(today, -back))
+                }}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Date</Label>
+              <Input
+                type="date"
+                min={MIN_AS_OF}
+                max={latest}
+                value={value ?? ""}
+                onChange={(e) => select(e.target.value || undefined)}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-8 text-xs"
+              disabled={!value}
+              onClick={() => select(undefined)}
+            >
+              Back to live
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {value && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-7 p-0"
+          onClick={() => step(1)}
+          disabled={disabled}
+          title="Next session"
+        >
+          <ChevronRight className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  )
+}
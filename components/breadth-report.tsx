@@ -21,6 +21,7 @@ import {
 } from 'lucide-react'
 import type { BreadthEntry } from '@/lib/breadth/compute'
 import type { PeakResult, WindowResult } from '@/lib/breadth/extremes'
+import type { BreadthEventReport, BreadthEventType } from '@/lib/breadth/events'
 
 // =============================================================================
 // Types
@@ -32,6 +33,9 @@ interface BreadthReportProps {
     label: string
     disclosureText: string
     etfProxy: string
+    custom?: boolean
+    pointInTime?: boolean
+    pointInTimeFrom?: string | null
   }
   params: {
     lookbackDays: number
@@ -41,10 +45,13 @@ interface BreadthReportProps {
   }
   constituentsUsed: number
   failedTickers: string[]
+  flaggedTickers?: string[] // Gaps or unexplained jumps in their bars
+  dataQualityWarnings?: string[]
   series: BreadthEntry[]
   peak: PeakResult | null
   window: WindowResult | null
   topPeaks?: PeakResult[]
+  events?: BreadthEventReport | null
   asOf: string
 }
 
@@ -187,6 +194,55 @@ function TopContributors({
   )
 }
 
+const EVENT_LABELS: Record<BreadthEventType, string> = {
+  thrust: 'Thrust',
+  washout_recovery: 'Washout recovery',
+  positive_divergence: 'Positive divergence',
+}
+
+function EventHistory({ report }: { report: BreadthEventReport }) {
+  const horizon = report.config.horizons.findIndex(days => days === 21)
+  const shown = horizon >= 0 ? horizon : report.config.horizons.length - 1
+  const days = report.config.horizons[shown]
+
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground mb-2">
+        Breadth Events{report.proxy && ` (${days}d ${report.proxy} return)`}
+      </p>
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {report.summary.map(summary => {
+          const stats = summary.horizons[shown]
+          return (
+            <Badge key={summary.type} variant="outline" className="text-[10px] font-mono">
+              {EVENT_LABELS[summary.type]}: {summary.count}
+              {stats?.avgReturn != null && ` · avg ${stats.avgReturn.toFixed(1)}%`}
+            </Badge>
+          )
+        })}
+      </div>
+      <div className="space-y-1">
+        {report.events.slice(-5).reverse().map(event => {
+          const forward = event.forwardReturns[shown]?.returnPct
+          return (
+            <div key={`${event.type}-${event.date}`} className="flex items-center gap-2 text-xs">
+              <span className="font-mono text-muted-foreground">{event.date}</span>
+              <span className="truncate flex-1" title={event.description}>
+                {EVENT_LABELS[event.type]}
+              </span>
+              {forward != null && (
+                <span className={cn('font-mono', forward >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400')}>
+                  {forward >= 0 ? '+' : ''}{forward.toFixed(1)}%
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
 // =============================================================================
 // Main Component
 // =============================================================================
@@ -196,10 +252,13 @@ export function BreadthReport({
   params,
   constituentsUsed,
   failedTickers,
+  flaggedTickers = [],
+  dataQualityWarnings = [],
   series,
   peak,
   window,
   topPeaks,
+  events,
   asOf,
 }: BreadthReportProps) {
   const isNewLows = params.metric === 'new_lows'
@@ -330,6 +389,9 @@ export function BreadthReport({
           </div>
         )}
 
+        {/* Thrust / Washout / Divergence History */}
+        {events && events.events.length > 0 && <EventHistory report={events} />}
+
         {/* Failed Tickers Warning */}
         {failedTickers.length > 0 && (
           <div className="text-xs text-muted-foreground flex items-center gap-1.5">
@@ -340,11 +402,32 @@ export function BreadthReport({
             </span>
           </div>
         )}
+
+        {/* Data Quality Warning */}
+        {flaggedTickers.length > 0 && (
+          <div
+            className="text-xs text-muted-foreground flex items-center gap-1.5"
+            title={dataQualityWarnings.join('\n')}
+          >
+            <AlertTriangle className="w-3 h-3 text-amber-500" />
+            <span>
+              Data quality flagged: {flaggedTickers.slice(0, 5).join(', ')}
+              {flaggedTickers.length > 5 && ` +${flaggedTickers.length - 5} more`}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Footer */}
       <div className="px-4 py-2 border-t border-border bg-muted/30 text-xs text-muted-foreground flex items-center justify-between">
-        <span>Using {universe.etfProxy} ETF constituents as proxy</span>
+        <span>
+          {universe.custom
+            ? `Custom universe${universe.etfProxy ? ` vs ${universe.etfProxy}` : ''}`
+            : `Using ${universe.etfProxy} ETF constituents as proxy`}
+          {universe.pointInTime
+            ? ' (point-in-time membership)'
+            : universe.pointInTimeFrom && ` (point-in-time from ${universe.pointInTimeFrom})`}
+        </span>
         <span className="font-mono">{new Date(asOf).toLocaleTimeString()}</span>
       </div>
     </motion.div>
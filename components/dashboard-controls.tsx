@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import useSWR from "swr"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Input } from "@/components/ui/input"
@@ -10,6 +11,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { RefreshCw, Calendar, TrendingUp, TrendingDown, HelpCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { AsOfScrubber } from "@/components/as-of-scrubber"
 
 export interface DashboardConfig {
   universe: "core" | "custom"
@@ -19,6 +21,7 @@ export interface DashboardConfig {
   basis: "close" | "intraday"
   days: number
   sortBy: string
+  asOf?: string // Replay mode: compute as of this past session (YYYY-MM-DD)
 }
 
 interface DashboardControlsProps {
@@ -29,9 +32,23 @@ interface DashboardControlsProps {
   dataDateRange?: { from: string; to: string }
 }
 
+interface SavedUniverse {
+  id: string
+  label: string
+  symbols: string[]
+  custom: boolean
+}
+
 const CORE_INDICES = "DJI,SPX,IXIC,NDX,RUT,SOX"
 const DEBOUNCE_MS = 800
 
+const universesFetcher = async (url: string): Promise<SavedUniverse[]> => {
+  const res = await fetch(url)
+  if (!res.ok) return []
+  const data = await res.json()
+  return (data.universes as SavedUniverse[]).filter((u) => u.custom)
+}
+
 const LOOKBACK_PRESETS = [
   { value: 21, label: "21d", fullLabel: "1 Month" },
   { value: 63, label: "63d", fullLabel: "1 Quarter" },
@@ -48,6 +65,18 @@ export function DashboardControls({
 }: DashboardControlsProps) {
   const [localSymbols, setLocalSymbols] = useState(config.symbols)
   const [localLookback, setLocalLookback] = useState(config.lookback.toString())
+  const { data: savedUniverses } = useSWR("/api/universes", universesFetcher, {
+    revalidateOnFocus: false,
+  })
+
+  // Saved universe whose symbol list matches the current custom symbols, if any
+  const activeSaved = savedUniverses?.find((u) => u.symbols.join(",") === config.symbols)
+
+  const handleSavedUniverseChange = (id: string) => {
+    const saved = savedUniverses?.find((u) => u.id === id)
+    if (!saved) return
+    onConfigChange({ ...config, universe: "custom", symbols: saved.symbols.join(",") })
+  }
 
   // Sync local state when config changes externally
   useEffect(() => {
@@ -120,6 +149,26 @@ export function DashboardControls({
             </TabsList>
           </Tabs>
 
+          {/* Saved Universes */}
+          {config.universe === "custom" && savedUniverses && savedUniverses.length > 0 && (
+            <Select
+              value={activeSaved?.id ?? ""}
+              onValueChange={handleSavedUniverseChange}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-9 w-28 text-xs shrink-0">
+                <SelectValue placeholder="Saved" />
+              </SelectTrigger>
+              <SelectContent>
+                {savedUniverses.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           {/* Lookback */}
           <Popover>
             <PopoverTrigger asChild>
@@ -173,6 +222,14 @@ export function DashboardControls({
             </SelectContent>
           </Select>
 
+          {/* Replay Date */}
+          <AsOfScrubber
+            value={config.asOf}
+            onChange={(asOf) => onConfigChange({ ...config, asOf })}
+            disabled={disabled}
+            className="shrink-0"
+          />
+
           <div className="flex-1 min-w-2" />
 
           {/* Refresh */}
@@ -312,6 +369,26 @@ export function DashboardControls({
             />
           )}
 
+          {/* Saved Universes */}
+          {config.universe === "custom" && savedUniverses && savedUniverses.length > 0 && (
+            <Select
+              value={activeSaved?.id ?? ""}
+              onValueChange={handleSavedUniverseChange}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 w-36 text-xs">
+                <SelectValue placeholder="Saved universes" />
+              </SelectTrigger>
+              <SelectContent>
+                {savedUniverses.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           <div className="h-6 w-px bg-border" />
 
           {/* Lookback with Presets */}
@@ -410,6 +487,15 @@ export function DashboardControls({
             </Select>
           </div>
 
+          <div className="h-6 w-px bg-border" />
+
+          {/* Replay Date */}
+          <AsOfScrubber
+            value={config.asOf}
+            onChange={(asOf) => onConfigChange({ ...config, asOf })}
+            disabled={disabled}
+          />
+
           <div className="flex-1" />
 
           {/* Data Freshness */}
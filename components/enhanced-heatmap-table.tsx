@@ -38,6 +38,8 @@ interface EnhancedHeatmapTableProps {
   sanity?: {
     staleSymbols: string[]
     constantDays: string[]
+    flaggedSymbols?: string[]
+    dataQualityWarnings?: string[]
   }
 }
 
@@ -104,8 +106,35 @@ function ViewModeButton({
   )
 }
 
-function SanityBadge({ type, symbols }: { type: "stale" | "constant"; symbols: string[] }) {
+const SANITY_BADGES = {
+  stale: {
+    label: "Stale",
+    title: "Potentially Stale Data",
+    description: "These symbols have data more than 3 days old.",
+  },
+  constant: {
+    label: "Suspicious",
+    title: "Suspicious Constant Values",
+    description: "These symbols show constant daysSinceHigh values, which may indicate data issues.",
+  },
+  quality: {
+    label: "Flagged",
+    title: "Data Quality",
+    description: "These symbols have missing sessions or price jumps with no split or dividend on record.",
+  },
+}
+
+function SanityBadge({
+  type,
+  symbols,
+  details = [],
+}: {
+  type: keyof typeof SANITY_BADGES
+  symbols: string[]
+  details?: string[]
+}) {
   if (symbols.length === 0) return null
+  const badge = SANITY_BADGES[type]
 
   return (
     <TooltipProvider>
@@ -114,20 +143,19 @@ function SanityBadge({ type, symbols }: { type: "stale" | "constant"; symbols: s
           <div className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-500/15 text-amber-600 dark:text-amber-400">
             <AlertTriangle className="w-3 h-3" />
             <span>
-              {symbols.length} {type === "stale" ? "Stale" : "Suspicious"}
+              {symbols.length} {badge.label}
             </span>
           </div>
         </TooltipTrigger>
         <TooltipContent side="bottom" className="max-w-xs">
-          <p className="font-medium mb-1">
-            {type === "stale" ? "Potentially Stale Data" : "Suspicious Constant Values"}
-          </p>
-          <p className="text-xs text-muted-foreground mb-2">
-            {type === "stale"
-              ? "These symbols have data more than 3 days old."
-              : "These symbols show constant daysSinceHigh values, which may indicate data issues."}
-          </p>
+          <p className="font-medium mb-1">{badge.title}</p>
+          <p className="text-xs text-muted-foreground mb-2">{badge.description}</p>
           <p className="text-xs font-mono">{symbols.join(", ")}</p>
+          {details.slice(0, 5).map((detail) => (
+            <p key={detail} className="text-xs text-muted-foreground mt-1">
+              {detail}
+            </p>
+          ))}
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
@@ -559,6 +587,11 @@ export function EnhancedHeatmapTable({
               <div className="flex items-center gap-2">
                 <SanityBadge type="stale" symbols={sanity.staleSymbols} />
                 <SanityBadge type="constant" symbols={sanity.constantDays} />
+                <SanityBadge
+                  type="quality"
+                  symbols={sanity.flaggedSymbols ?? []}
+                  details={sanity.dataQualityWarnings}
+                />
               </div>
             )}
           </div>
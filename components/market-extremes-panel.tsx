@@ -27,6 +27,7 @@ import {
   X,
 } from 'lucide-react'
 import type { MarketExtremesResponse, DivergenceAlert } from '@/app/api/market-extremes/route'
+import { appendTraderConfigParams, type TraderConfigOverrides } from '@/lib/trader-config'
 
 // =============================================================================
 // Types
@@ -38,6 +39,8 @@ interface MarketExtremesPanelProps {
   symbols?: string
   lookback?: number
   days?: number
+  traderConfig?: TraderConfigOverrides | null // Per-request threshold overrides
+  asOf?: string // Replay as of a past session (YYYY-MM-DD)
   className?: string
 }
 
@@ -370,6 +373,8 @@ export function MarketExtremesPanel({
   symbols = 'DJI,SPX,IXIC,NDX,RUT,SOX',
   lookback = 63,
   days = 20,
+  traderConfig,
+  asOf,
   className,
 }: MarketExtremesPanelProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('split')
@@ -429,12 +434,14 @@ export function MarketExtremesPanel({
     lookback: lookback.toString(),
     days: days.toString(),
   })
+  appendTraderConfigParams(params, traderConfig)
+  if (asOf) params.set('asOf', asOf)
 
   const { data, error, isLoading, isValidating } = useSWR<MarketExtremesResponse>(
     `/api/market-extremes?${params}`,
     fetcher,
     {
-      refreshInterval: 60000, // 1 minute
+      refreshInterval: asOf ? 0 : 60000, // 1 minute; replayed sessions don't change
       keepPreviousData: true,
       revalidateOnFocus: false,
     }
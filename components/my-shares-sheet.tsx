@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Check, ExternalLink, Loader2, Pencil, Trash2, X } from 'lucide-react'
+import type { ShareKind } from '@/app/api/shares/route'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ShareItem {
+  kind: ShareKind
+  id: string
+  title: string | null
+  createdAt: string
+  viewCount: number
+  lastViewedAt: string | null
+}
+
+interface SharesResponse {
+  shares: ShareItem[]
+  source: 'database' | 'none'
+  error?: string
+}
+
+interface MySharesSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json())
+
+function shareUrl(share: ShareItem): string {
+  return share.kind === 'dashboard' ? `/d/${share.id}` : `/chat/${share.id}`
+}
+
+// =============================================================================
+// Row
+// =============================================================================
+
+function ShareRow({ share, onChanged }: { share: ShareItem; onChanged: () => void }) {
+  const [editing, setEditing] = useState(false)
+  const [title, setTitle] = useState(share.title ?? '')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = async (method: 'PATCH' | 'DELETE', body?: unknown) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/shares/${share.id}?kind=${share.kind}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Request failed')
+      }
+      setEditing(false)
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = () => {
+    if (confirm('Delete this share? The link will stop working.')) {
+      request('DELETE')
+    }
+  }
+
+  return (
+    <div className="py-2 border-b border-border/50 last:border-0">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="text-[10px] capitalize shrink-0">
+          {share.kind}
+        </Badge>
+
+        {editing ? (
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && title.trim() && request('PATCH', { title })}
+            className="h-7 text-xs"
+            autoFocus
+          />
+        ) : (
+          <a
+            href={shareUrl(share)}
+            target="_blank"
+            rel="noreferrer"
+            className="flex-1 min-w-0 truncate text-sm hover:underline"
+          >
+            {share.title || 'Untitled'}
+          </a>
+        )}
+
+        <div className="flex items-center gap-0.5 shrink-0">
+          {busy ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+          ) : editing ? (
+            <>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={!title.trim()} onClick={() => request('PATCH', { title })}>
+                <Check className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditing(false)}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Rename" onClick={() => setEditing(true)}>
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open" asChild>
+                <a href={shareUrl(share)} target="_blank" rel="noreferrer">
+                  <ExternalLink className="h-3.5 w-3.5" />
+                </a>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                title="Delete"
+                onClick={handleDelete}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-1 text-[10px] text-muted-foreground font-mono">
+        {new Date(share.createdAt).toLocaleDateString()} · {share.viewCount} views
+        {share.lastViewedAt && ` · last ${new Date(share.lastViewedAt).toLocaleDateString()}`}
+      </div>
+      {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
+
+// =============================================================================
+// Sheet
+// =============================================================================
+
+export function MySharesSheet({ open, onOpenChange }: MySharesSheetProps) {
+  const { data, isLoading, mutate } = useSWR<SharesResponse>(open ? '/api/shares' : null, fetcher)
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>My shares</SheetTitle>
+          <SheetDescription>Dashboards and chats you have shared.</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : data?.error ? (
+            <p className="text-sm text-muted-foreground">{data.error}</p>
+          ) : data?.source === 'none' ? (
+            <p className="text-sm text-muted-foreground">Sharing requires database configuration.</p>
+          ) : data?.shares.length ? (
+            data.shares.map((share) => (
+              <ShareRow key={`${share.kind}:${share.id}`} share={share} onChanged={() => mutate()} />
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing shared yet.</p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -28,6 +28,7 @@ import {
   detectRejections,
   type RejectionSignal,
   type RejectionSeverity,
+  type TraderConfig,
   TRADER_CONFIG,
 } from '@/lib/trader-signals'
 
@@ -42,6 +43,7 @@ interface RejectionDetectorProps {
   rawBars?: Record<string, DailyBar[]>
   onViewChart?: (symbol: string) => void
   onPin?: (symbol: string) => void
+  config?: TraderConfig // Resolved thresholds (defaults to TRADER_CONFIG)
 }
 
 // -----------------------------------------------------------------------------
@@ -192,6 +194,7 @@ export function RejectionDetector({
   rawBars,
   onViewChart,
   onPin,
+  config = TRADER_CONFIG,
 }: RejectionDetectorProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
@@ -214,16 +217,16 @@ export function RejectionDetector({
       }
     }
 
-    return detectRejections(highRow, closeRow, latestDate)
-  }, [basisHigh, basisClose, dates])
+    return detectRejections(highRow, closeRow, latestDate, config)
+  }, [basisHigh, basisClose, dates, config])
 
   // Get all recent rejections (excluding today to avoid duplicates when expanded)
   const recentRejections = useMemo(() => {
-    const all = getAllRecentRejections(basisHigh, basisClose, dates)
+    const all = getAllRecentRejections(basisHigh, basisClose, dates, config)
     // Filter out latest date since we show those separately
     const latestDate = dates[dates.length - 1]
     return all.filter((r) => r.date !== latestDate)
-  }, [basisHigh, basisClose, dates])
+  }, [basisHigh, basisClose, dates, config])
 
   // Stats
   const totalRecent = latestRejections.length + recentRejections.length
@@ -330,7 +333,7 @@ export function RejectionDetector({
               className="space-y-2 pt-2 border-t border-border/50"
             >
               <p className="text-[10px] text-muted-foreground uppercase tracking-wide font-medium px-1">
-                Previous {TRADER_CONFIG.RECENT_ROWS} Sessions
+                Previous {config.RECENT_ROWS} Sessions
               </p>
               {recentRejections.map((rejection) => (
                 <RejectionItem
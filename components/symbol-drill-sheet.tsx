@@ -1,6 +1,7 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
+import useSWR from 'swr'
 import { cn } from '@/lib/utils'
 import {
   Sheet,
@@ -26,9 +27,18 @@ import {
   Pin,
   ExternalLink,
   Activity,
+  Gauge,
 } from 'lucide-react'
 import type { DailyBar, HeatmapMetrics } from '@/lib/massive-api'
 import { getHeatStyle, type HeatMetric } from '@/lib/heat/colors'
+import {
+  CHART_OVERLAYS,
+  computeIndicators,
+  linePath,
+  overlayColor,
+  type IndicatorId,
+} from '@/lib/indicators'
+import type { IvRankStats } from '@/lib/options'
 
 // -----------------------------------------------------------------------------
 // Types
@@ -49,14 +59,25 @@ interface SymbolDrillSheetProps {
 // Mini Chart Component (SVG-based sparkline with rolling high)
 // -----------------------------------------------------------------------------
 
+const OVERLAY_LABELS: Record<string, string> = {
+  sma_20: 'SMA 20',
+  sma_50: 'SMA 50',
+  sma_200: 'SMA 200',
+  ema_21: 'EMA 21',
+  bollinger: 'BB',
+  vwap: 'VWAP',
+}
+
 function MiniChart({
   bars,
   lookback,
+  overlays = [],
   width = 400,
   height = 120,
 }: {
   bars: DailyBar[]
   lookback: number
+  overlays?: IndicatorId[]
   width?: number
   height?: number
 }) {
@@ -65,6 +86,15 @@ function MiniChart({
 
     // Use last 90 days or available
     const displayBars = bars.slice(-90)
+    const offset = bars.length - displayBars.length
+
+    // Indicators run on the full history so long averages are warm on screen
+    const overlayLines = computeIndicators(bars, overlays, { lookback })
+      .filter((line) => line.pane === 'price')
+      .map((line) => ({ ...line, values: line.values.slice(offset) }))
+    const overlayValues = overlayLines.flatMap((line) =>
+      line.values.filter((v): v is number => v !== null)
+    )
     const closes = displayBars.map((b) => b.close)
     const highs = displayBars.map((b) => b.high)
 
@@ -77,7 +107,7 @@ function MiniChart({
     }
 
     // Find min/max for scaling
-    const allValues = [...closes, ...rollingHighs]
+    const allValues = [...closes, ...rollingHighs, ...overlayValues]
     const min = Math.min(...allValues)
     const max = Math.max(...allValues)
     const range = max - min || 1
@@ -100,6 +130,12 @@ function MiniChart({
       .map((h, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(i)} ${scaleY(h)}`)
       .join(' ')
 
+    const overlayPaths = overlayLines.map((line) => ({
+      key: line.key,
+      color: overlayColor(line.key),
+      d: linePath(line.values, scaleX, scaleY),
+    }))
+
     // Find where close touched/exceeded rolling high (new high events)
     const newHighPoints: { x: number; y: number }[] = []
     for (let i = 1; i < displayBars.length; i++) {
@@ -111,6 +147,7 @@ function MiniChart({
     return {
       closePath,
       rollingHighPath,
+      overlayPaths,
       newHighPoints,
       currentClose: closes[closes.length - 1],
       currentRollingHigh: rollingHighs[rollingHighs.length - 1],
@@ -119,7 +156,7 @@ function MiniChart({
       lastDate: displayBars[displayBars.length - 1].date,
       firstDate: displayBars[0].date,
     }
-  }, [bars, lookback, width, height])
+  }, [bars, lookback, overlays, width, height])
 
   if (!chartData) {
     return (
@@ -141,6 +178,18 @@ function MiniChart({
         className="text-emerald-500/50"
       />
 
+      {/* Indicator overlays */}
+      {chartData.overlayPaths.map((path) => (
+        <path
+          key={path.key}
+          d={path.d}
+          fill="none"
+          stroke={path.color}
+          strokeWidth={1.25}
+          strokeOpacity={0.85}
+        />
+      ))}
+
       {/* Close price line */}
       <path
         d={chartData.closePath}
@@ -222,6 +271,70 @@ function MetricRow({
   )
 }
 
+// -----------------------------------------------------------------------------
+// IV Rank Panel (52-week rank of 30-day ATM IV from nightly snapshots)
+// -----------------------------------------------------------------------------
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json())
+
+const BIAS_COPY = {
+  sell: { label: 'Favor selling premium', className: 'text-amber-600 dark:text-amber-400' },
+  buy: { label: 'Favor buying premium', className: 'text-emerald-600 dark:text-emerald-400' },
+  neutral: { label: 'No premium edge', className: 'text-muted-foreground' },
+}
+
+function IvRankPanel({ symbol, enabled }: { symbol: string; enabled: boolean }) {
+  const { data } = useSWR<IvRankStats & { error?: string }>(
+    enabled ? `/api/options/iv-rank?symbol=${encodeURIComponent(symbol)}` : null,
+    fetcher
+  )
+
+  // Nothing stored for this symbol (indices, unsnapshotted tickers, no database)
+  if (!data || data.error || data.current === null) return null
+
+  const bias = data.bias ? BIAS_COPY[data.bias] : null
+
+  return (
+    <div className="space-y-1">
+      <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
+        <Gauge className="w-4 h-4" />
+        Implied Volatility (30d ATM)
+      </h4>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-muted/50 rounded p-2">
+          <p className="text-[10px] text-muted-foreground">Current</p>
+          <p className="font-mono text-sm">{(data.current * 100).toFixed(1)}%</p>
+        </div>
+        <div className="bg-muted/50 rounded p-2">
+          <p className="text-[10px] text-muted-foreground">IV Rank</p>
+          <p className="font-mono text-sm">{data.rank !== null ? data.rank.toFixed(0) : '—'}</p>
+        </div>
+        <div className="bg-muted/50 rounded p-2">
+          <p className="text-[10px] text-muted-foreground">IV Percentile</p>
+          <p className="font-mono text-sm">{data.percentile !== null ? data.percentile.toFixed(0) : '—'}</p>
+        </div>
+      </div>
+      {data.rank !== null && (
+        <div className="relative h-1.5 rounded-full bg-gradient-to-r from-emerald-500/40 via-muted to-amber-500/40 mt-2">
+          <div
+            className="absolute -top-0.5 h-2.5 w-0.5 rounded bg-foreground"
+            style={{ left: `${Math.min(100, Math.max(0, data.rank))}%` }}
+          />
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground pt-1">
+        52w range {data.low !== null ? (data.low * 100).toFixed(1) : '—'}% –{' '}
+        {data.high !== null ? (data.high * 100).toFixed(1) : '—'}% · {data.samples} sessions
+        {bias ? (
+          <span className={cn('ml-1 font-medium', bias.className)}>· {bias.label}</span>
+        ) : (
+          <span className="ml-1">· building history</span>
+        )}
+      </p>
+    </div>
+  )
+}
+
 // -----------------------------------------------------------------------------
 // Main Component
 // -----------------------------------------------------------------------------
@@ -236,6 +349,14 @@ export function SymbolDrillSheet({
   lookback,
   onPin,
 }: SymbolDrillSheetProps) {
+  const [overlays, setOverlays] = useState<IndicatorId[]>([])
+
+  const toggleOverlay = (id: IndicatorId) => {
+    setOverlays((current) =>
+      current.includes(id) ? current.filter((o) => o !== id) : [...current, id]
+    )
+  }
+
   // Get color styles for metrics
   const highStyle = metricsHigh
     ? getHeatStyle({ metric: 'daysSinceHigh' as HeatMetric, value: metricsHigh.daysSinceHigh, lookback })
@@ -327,7 +448,29 @@ export function SymbolDrillSheet({
                 </div>
               </div>
             </div>
-            <MiniChart bars={bars} lookback={lookback} />
+            <MiniChart bars={bars} lookback={lookback} overlays={overlays} />
+            <div className="flex flex-wrap gap-1 mt-3">
+              {CHART_OVERLAYS.map((id) => {
+                const active = overlays.includes(id)
+                const color = overlayColor(id === 'bollinger' ? 'bb_upper' : id)
+                return (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => toggleOverlay(id)}
+                    className={cn(
+                      'px-2 py-0.5 rounded border text-[10px] font-mono transition-colors',
+                      active
+                        ? 'border-transparent text-foreground'
+                        : 'border-border text-muted-foreground hover:text-foreground'
+                    )}
+                    style={active ? { backgroundColor: `${color}33`, borderColor: color } : undefined}
+                  >
+                    {OVERLAY_LABELS[id] ?? id}
+                  </button>
+                )
+              })}
+            </div>
           </div>
 
           {/* Metrics Grid */}
@@ -444,6 +587,8 @@ export function SymbolDrillSheet({
             </div>
           )}
 
+          <IvRankPanel symbol={symbol} enabled={open} />
+
           {/* External link placeholder */}
           <div className="pt-4 border-t border-border">
             <Button variant="outline" className="w-full gap-2" asChild>
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Loader2, RotateCcw, SlidersHorizontal } from 'lucide-react'
+import { TRADER_CONFIG, type TraderConfig } from '@/lib/trader-signals'
+import { TraderConfigOverridesSchema, type TraderConfigOverrides } from '@/lib/trader-config'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface TraderSettingsProps {
+  config: TraderConfig
+  persisted: boolean
+  onSave: (overrides: TraderConfigOverrides | null) => Promise<void>
+}
+
+const FIELDS: { key: keyof TraderConfig; label: string; hint: string; step: number }[] = [
+  { key: 'HOT_THRESHOLD', label: 'Hot', hint: 'days from high or fewer', step: 1 },
+  { key: 'COLD_THRESHOLD', label: 'Cold', hint: 'days from high or more', step: 1 },
+  { key: 'REGIME_MAJORITY', label: 'Regime majority', hint: 'share of indices (0.5-1)', step: 0.05 },
+  { key: 'REJECTION_MILD', label: 'Mild rejection', hint: 'max close-high gap (days)', step: 1 },
+  { key: 'REJECTION_NOTABLE', label: 'Notable rejection', hint: 'max gap before strong', step: 1 },
+  { key: 'RECENT_ROWS', label: 'Recent sessions', hint: 'rejection rate window', step: 1 },
+]
+
+type Draft = Record<keyof TraderConfig, string>
+
+function toDraft(config: TraderConfig): Draft {
+  return Object.fromEntries(FIELDS.map(({ key }) => [key, String(config[key])])) as Draft
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function TraderSettings({ config, persisted, onSave }: TraderSettingsProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<Draft>(() => toDraft(config))
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  // Re-seed the form from the active config each time it opens
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(config))
+      setError(null)
+    }
+  }, [open, config])
+
+  const save = async (overrides: TraderConfigOverrides | null) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await onSave(overrides)
+      setOpen(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save thresholds')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = () => {
+    // Validate the full set so threshold pairs are checked together
+    const values = Object.fromEntries(FIELDS.map(({ key }) => [key, Number(draft[key])]))
+    const parsed = TraderConfigOverridesSchema.safeParse(values)
+    if (!parsed.success) {
+      setError(parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; '))
+      return
+    }
+
+    // Only store values that differ from the defaults
+    const changed: TraderConfigOverrides = {}
+    for (const { key } of FIELDS) {
+      const value = parsed.data[key]
+      if (value !== undefined && value !== TRADER_CONFIG[key]) changed[key] = value
+    }
+
+    save(Object.keys(changed).length > 0 ? changed : null)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Signal thresholds">
+          <SlidersHorizontal className="h-4 w-4" />
+          <span className="sr-only">Signal thresholds</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium">Signal thresholds</p>
+            <p className="text-xs text-muted-foreground">
+              Regime, breadth and rejection rules. {persisted ? 'Saved to your preferences.' : 'Saved in this browser.'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {FIELDS.map(({ key, label, hint, step }) => (
+              <label key={key} className="flex items-center justify-between gap-3">
+                <span className="text-xs">
+                  {label}
+                  <span className="block text-[10px] text-muted-foreground">{hint}</span>
+                </span>
+                <Input
+                  type="number"
+                  step={step}
+                  value={draft[key]}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                  className="h-7 w-20 text-xs font-mono text-right"
+                />
+              </label>
+            ))}
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={saving}
+              onClick={() => save(null)}
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Defaults
+            </Button>
+            <Button size="sm" className="h-7 text-xs" disabled={saving} onClick={handleSave}>
+              {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
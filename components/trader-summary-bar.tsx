@@ -18,14 +18,17 @@ import {
   CheckCircle2,
   XCircle,
   Activity,
+  Clock,
 } from 'lucide-react'
-import type { HeatmapMetrics } from '@/lib/massive-api'
+import type { HeatmapMetrics, RiskRegime } from '@/lib/massive-api'
+import type { RegimeFactorId, RegimeState } from '@/lib/regime/model'
 import {
   computeSignalSummary,
   extractLatestRow,
   detectDivergences,
   type SignalSummary,
   type RegimeLabel,
+  type TraderConfig,
   TRADER_CONFIG,
 } from '@/lib/trader-signals'
 
@@ -40,13 +43,23 @@ interface TraderSummaryBarProps {
   lookback: number
   marketOpen?: boolean
   lastUpdated?: string
+  config?: TraderConfig // Resolved thresholds (defaults to TRADER_CONFIG)
+  riskRegime?: RegimeState | null // Multi-factor model state from /api/risk?history=
 }
 
 // -----------------------------------------------------------------------------
 // Sub-Components
 // -----------------------------------------------------------------------------
 
-function RegimeBadge({ label, confidence }: { label: RegimeLabel; confidence: string }) {
+function RegimeBadge({
+  label,
+  confidence,
+  traderConfig,
+}: {
+  label: RegimeLabel
+  confidence: string
+  traderConfig: TraderConfig
+}) {
   const config = {
     'Risk-On': {
       icon: TrendingUp,
@@ -66,6 +79,7 @@ function RegimeBadge({ label, confidence }: { label: RegimeLabel; confidence: st
   }
 
   const { icon: Icon, bgClass, textClass } = config[label]
+  const majorityPct = Math.round(traderConfig.REGIME_MAJORITY * 100)
 
   return (
     <TooltipProvider>
@@ -89,8 +103,8 @@ function RegimeBadge({ label, confidence }: { label: RegimeLabel; confidence: st
         <TooltipContent side="bottom" className="max-w-xs">
           <p className="font-medium">Market Regime: {label}</p>
           <p className="text-xs text-muted-foreground mt-1">
-            {label === 'Risk-On' && `60%+ of indices within ${TRADER_CONFIG.HOT_THRESHOLD} days of highs`}
-            {label === 'Risk-Off' && `60%+ of indices >${TRADER_CONFIG.COLD_THRESHOLD} days from highs`}
+            {label === 'Risk-On' && `${majorityPct}%+ of indices within ${traderConfig.HOT_THRESHOLD} days of highs`}
+            {label === 'Risk-Off' && `${majorityPct}%+ of indices ${traderConfig.COLD_THRESHOLD}+ days from highs`}
             {label === 'Narrow / Mixed' && 'Mixed signals - no clear directional bias'}
           </p>
           <p className="text-xs text-muted-foreground mt-1">
@@ -102,16 +116,79 @@ function RegimeBadge({ label, confidence }: { label: RegimeLabel; confidence: st
   )
 }
 
+function RegimeDuration({ state }: { state: RegimeState }) {
+  const labels: Record<RiskRegime, { label: string; textClass: string }> = {
+    risk_on: { label: 'Risk-On', textClass: 'text-emerald-600 dark:text-emerald-400' },
+    risk_off: { label: 'Risk-Off', textClass: 'text-red-600 dark:text-red-400' },
+    neutral: { label: 'Neutral', textClass: 'text-muted-foreground' },
+    mixed: { label: 'Mixed', textClass: 'text-amber-600 dark:text-amber-400' },
+  }
+  const factorLabels: Record<RegimeFactorId, string> = {
+    trend: 'Trend (SPY/QQQ/IWM)',
+    credit: 'Credit (HYG/LQD)',
+    rates: 'Rates (TLT)',
+    dollar: 'Dollar (UUP)',
+    breadth: 'Breadth',
+    volatility: 'VIX term structure',
+  }
+
+  const { label, textClass } = labels[state.regime]
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="inline-flex items-center gap-1 text-[10px] font-mono cursor-help">
+            <Clock className="w-3 h-3 text-muted-foreground" />
+            <span className={textClass}>{label}</span>
+            <span className="text-muted-foreground">
+              {state.sessions}
+              {state.truncated && '+'}d
+            </span>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="bottom" className="max-w-xs">
+          <p className="font-medium">Multi-Factor Regime: {label}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Since {state.since} ({state.sessions}
+            {state.truncated && '+'} sessions) · composite {state.composite.toFixed(2)}
+          </p>
+          <div className="text-xs text-muted-foreground mt-1 space-y-0.5 font-mono">
+            {(Object.keys(factorLabels) as RegimeFactorId[]).map((id) => {
+              const score = state.factors[id]
+              return (
+                <p key={id} className="flex justify-between gap-4">
+                  <span>{factorLabels[id]}</span>
+                  <span
+                    className={cn(
+                      score !== null && score > 0 && 'text-emerald-500',
+                      score !== null && score < 0 && 'text-red-500'
+                    )}
+                  >
+                    {score === null ? '—' : `${score > 0 ? '+' : ''}${score.toFixed(2)}`}
+                  </span>
+                </p>
+              )
+            })}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
 function BreadthIndicator({
   hotCount,
   coldCount,
   neutralCount,
   total,
+  traderConfig,
 }: {
   hotCount: number
   coldCount: number
   neutralCount: number
   total: number
+  traderConfig: TraderConfig
 }) {
   const hotPct = (hotCount / total) * 100
   const neutralPct = (neutralCount / total) * 100
@@ -159,7 +236,7 @@ function BreadthIndicator({
           <p className="font-medium">Market Breadth</p>
           <div className="text-xs text-muted-foreground mt-1 space-y-1">
             <p>
-              <span className="text-emerald-500 font-medium">Hot (≤{TRADER_CONFIG.HOT_THRESHOLD}d):</span>{' '}
+              <span className="text-emerald-500 font-medium">Hot (≤{traderConfig.HOT_THRESHOLD}d):</span>{' '}
               {hotCount} indices near highs
             </p>
             <p>
@@ -167,7 +244,7 @@ function BreadthIndicator({
               {neutralCount} indices in middle range
             </p>
             <p>
-              <span className="text-red-500 font-medium">Cold (≥{TRADER_CONFIG.COLD_THRESHOLD}d):</span>{' '}
+              <span className="text-red-500 font-medium">Cold (≥{traderConfig.COLD_THRESHOLD}d):</span>{' '}
               {coldCount} indices far from highs
             </p>
           </div>
@@ -295,11 +372,13 @@ export function TraderSummaryBar({
   lookback,
   marketOpen = false,
   lastUpdated,
+  config = TRADER_CONFIG,
+  riskRegime,
 }: TraderSummaryBarProps) {
   // Compute all signals
   const summary = useMemo(() => {
-    return computeSignalSummary(basisHigh, basisClose, dates)
-  }, [basisHigh, basisClose, dates])
+    return computeSignalSummary(basisHigh, basisClose, dates, config)
+  }, [basisHigh, basisClose, dates, config])
 
   if (!summary) {
     return null
@@ -336,7 +415,10 @@ export function TraderSummaryBar({
           <div className="h-4 w-px bg-border" />
 
           {/* Regime badge */}
-          <RegimeBadge label={regime.label} confidence={regime.confidence} />
+          <RegimeBadge label={regime.label} confidence={regime.confidence} traderConfig={config} />
+
+          {/* How long the multi-factor regime has held */}
+          {riskRegime && <RegimeDuration state={riskRegime} />}
 
           <div className="h-4 w-px bg-border hidden sm:block" />
 
@@ -347,6 +429,7 @@ export function TraderSummaryBar({
               coldCount={regime.breadth.coldCount}
               neutralCount={regime.breadth.neutralCount}
               total={regime.breadth.total}
+              traderConfig={config}
             />
           </div>
         </div>
@@ -367,6 +450,7 @@ export function TraderSummaryBar({
           coldCount={regime.breadth.coldCount}
           neutralCount={regime.breadth.neutralCount}
           total={regime.breadth.total}
+          traderConfig={config}
         />
       </div>
     </motion.div>
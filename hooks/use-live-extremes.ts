@@ -0,0 +1,79 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { KeyedMutator } from 'swr'
+import type { ExtremesResponse } from '@/app/api/extremes/route'
+import { applyLiveRow, type LiveRowUpdate, type LiveStreamStatus } from '@/lib/live/apply'
+
+interface LiveExtremesOptions {
+  symbols: string
+  lookback: number
+  basis: 'close' | 'intraday'
+  mutate: KeyedMutator<ExtremesResponse>
+  enabled?: boolean
+}
+
+/**
+ * Subscribe to /api/extremes/stream and patch the latest row of the SWR
+ * extremes data in place. When a quote opens a session the data doesn't have
+ * yet, the full window is refetched once for that date.
+ */
+export function useLiveExtremes(
+  data: ExtremesResponse | undefined,
+  { symbols, lookback, basis, mutate, enabled = true }: LiveExtremesOptions
+) {
+  const [status, setStatus] = useState<LiveStreamStatus | null>(null)
+  const [lastUpdate, setLastUpdate] = useState<number | null>(null)
+
+  const dataRef = useRef(data)
+  dataRef.current = data
+  const refetchedFor = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const params = new URLSearchParams({ symbols, lookback: lookback.toString() })
+    const source = new EventSource(`/api/extremes/stream?${params}`)
+
+    source.addEventListener('status', (event) => {
+      setStatus(JSON.parse((event as MessageEvent).data))
+    })
+
+    source.addEventListener('row', (event) => {
+      const row: LiveRowUpdate = JSON.parse((event as MessageEvent).data)
+      const current = dataRef.current
+      if (!current) return
+
+      const next = applyLiveRow(current, row, basis)
+      if (next === null) {
+        if (refetchedFor.current !== row.date) {
+          refetchedFor.current = row.date
+          mutate()
+        }
+        return
+      }
+      if (next !== current) {
+        dataRef.current = next
+        mutate(next, { revalidate: false })
+        setLastUpdate(row.timestamp)
+      }
+    })
+
+    // EventSource reconnects by itself; just reflect that we're not live meanwhile
+    source.onerror = () => {
+      setStatus((prev) => (prev?.live ? { ...prev, live: false } : prev))
+    }
+
+    return () => {
+      source.close()
+      setStatus(null)
+      setLastUpdate(null)
+    }
+  }, [symbols, lookback, basis, mutate, enabled])
+
+  return {
+    live: status?.live ?? false,
+    status,
+    lastUpdate,
+  }
+}
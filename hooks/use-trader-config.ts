@@ -0,0 +1,60 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import useSWR from 'swr'
+import { resolveTraderConfig, type TraderConfig } from '@/lib/trader-signals'
+import { parseTraderConfigOverrides, type TraderConfigOverrides } from '@/lib/trader-config'
+
+// Browser fallback when preferences can't be persisted server-side
+const STORAGE_KEY = 'trader-config-overrides'
+
+interface PreferencesResponse {
+  traderConfig: TraderConfigOverrides | null
+  source: 'database' | 'none'
+}
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json())
+
+export function useTraderConfig() {
+  const { data, mutate } = useSWR<PreferencesResponse>('/api/preferences', fetcher, {
+    revalidateOnFocus: false,
+  })
+  const [localOverrides, setLocalOverrides] = useState<TraderConfigOverrides | null>(null)
+
+  useEffect(() => {
+    setLocalOverrides(parseTraderConfigOverrides(localStorage.getItem(STORAGE_KEY)))
+  }, [])
+
+  const persisted = data?.source === 'database'
+  const overrides = persisted ? data.traderConfig : localOverrides
+
+  const config: TraderConfig = useMemo(() => resolveTraderConfig(overrides), [overrides])
+
+  const save = useCallback(
+    async (next: TraderConfigOverrides | null) => {
+      if (!persisted) {
+        if (next) {
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+        } else {
+          localStorage.removeItem(STORAGE_KEY)
+        }
+        setLocalOverrides(next)
+        return
+      }
+
+      const response = await fetch('/api/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ traderConfig: next }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save thresholds')
+      }
+      await mutate()
+    },
+    [persisted, mutate]
+  )
+
+  return { config, overrides, persisted, save }
+}
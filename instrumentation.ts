@@ -0,0 +1,14 @@
+// =============================================================================
+// Next.js instrumentation hook - runs once when the server process starts
+// =============================================================================
+
+export async function register() {
+  // Background jobs only run in the Node.js server runtime (not edge/middleware)
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startAlertScheduler } = await import('@/lib/alerts/scheduler')
+    startAlertScheduler()
+
+    const { startIvSnapshotScheduler } = await import('@/lib/options/iv-scheduler')
+    startIvSnapshotScheduler()
+  }
+}
@@ -0,0 +1,18 @@
+// =============================================================================
+// AI Model Selection
+// =============================================================================
+// Shared by the chat route and the natural-language planner.
+// =============================================================================
+
+import { anthropic } from '@ai-sdk/anthropic'
+import { openai } from '@ai-sdk/openai'
+
+export function getModel() {
+  // Prefer Anthropic for complex financial data analysis
+  if (process.env.ANTHROPIC_API_KEY) {
+    // Use Claude Sonnet 4 - latest stable model
+    return anthropic('claude-sonnet-4-20250514')
+  }
+  // Fallback to OpenAI
+  return openai('gpt-4-turbo')
+}
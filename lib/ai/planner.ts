@@ -0,0 +1,76 @@
+// =============================================================================
+// AI Query Planner - Natural Language to QueryPlan
+// =============================================================================
+// Turns a free-form question into the same QueryPlan the chat tools build, so
+// /api/nl-query and chat share one executor (lib/ai/query-plan).
+// =============================================================================
+
+import { generateObject } from 'ai'
+import { getModel } from './model'
+import { QueryPlanSchema, type QueryPlan } from './query-plan'
+
+const PLANNING_SYSTEM_PROMPT = `You are a query planner for a trading dashboard. Given a user's natural language query, create a structured QueryPlan.
+
+## Symbol Mapping Rules:
+- 'Semis' or 'Semiconductors' = SOX
+- 'Tech' or 'Tech sector' = NDX
+- 'Small caps' = RUT
+- 'Large caps' or 'S&P' = SPX
+- 'Dow' = DJI
+- 'Fear index' or 'VIX' = VIX
+- Common ETFs: SPY (tracks SPX), QQQ (tracks NDX), IWM (tracks RUT)
+- Options only exist on stocks and ETFs: use SPY/QQQ/IWM for index options
+
+## Datasets:
+- Price history, chart, trend, compare = aggregates
+- Current price, quote, how is X doing = snapshot
+- Options, put/call, gamma, IV, max pain = options_chain
+- Days since high, rolling high matrix = heatmap
+- Top gainers/losers = movers
+- Is the market open = market_status
+
+## Timeframe (timeframe.days in calendar days, or a start/end range):
+- 'today' = granularity 5m with days 1
+- 'this week' = 7, 'this month' = 30, 'quarter' = 90, 'year' = 365
+- Use granularity 1m/5m/15m/1h only for intraday questions; otherwise 1d
+
+## Indicators (computed on aggregates):
+- RSI, MACD, moving averages (SMA/EMA), Bollinger, VWAP, ATR = add to indicators
+- '50 day', '200 day' = sma_50, sma_200; 'moving averages' with no period = sma_20, sma_50
+- VWAP is most useful intraday; it resets each session
+
+Pick the visualization that fits: chart for aggregates, pulse for snapshots, heatmap for heatmap, options_chain for options, table for movers.`
+
+export interface PlanningMessage {
+  role: 'user' | 'assistant' | 'system'
+  content: string
+}
+
+export type PlanningResult = { success: true; plan: QueryPlan } | { success: false; error: string }
+
+/**
+ * Plan a data query from the conversation so far. Guardrails (symbol count,
+ * date ranges) are applied by executePlan.
+ */
+export async function planFromNaturalLanguage(messages: PlanningMessage[]): Promise<PlanningResult> {
+  try {
+    const result = await generateObject({
+      model: getModel(),
+      system: PLANNING_SYSTEM_PROMPT,
+      messages,
+      schema: QueryPlanSchema,
+    })
+
+    const parsed = QueryPlanSchema.safeParse(result.object)
+    if (!parsed.success) {
+      return { success: false, error: `Invalid plan generated: ${parsed.error.message}` }
+    }
+
+    return {
+      success: true,
+      plan: { ...parsed.data, symbols: parsed.data.symbols.map((s) => s.trim().toUpperCase()) },
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to generate plan' }
+  }
+}
@@ -2,35 +2,32 @@
 // AI Query Planner - Universal Data Query System
 // =============================================================================
 //
+// The single plan engine behind the chat tools and /api/nl-query.
 // This module provides:
 // 1. Structured QueryPlan schema for LLM-generated data requests
 // 2. ResultEnvelope schema for typed UI rendering
-// 3. Plan executor that routes to Massive API operations
+// 3. Plan executor over the lib/massive-api data layer
 // 4. Trader defaults and guardrails
 // =============================================================================
 
 import { z } from 'zod'
 import {
-  fetchAggregates,
-  fetchSnapshot,
-  fetchOptionsChain,
+  computeEnhancedMetrics,
+  fetchDailyBarsRange,
+  fetchIntradayBars,
   fetchMarketStatus,
-  fetchGainers,
-  fetchLosers,
-} from '@/lib/massive/client'
-import {
-  normalizeAggregates,
-  normalizeSnapshot,
-  normalizeOptionsChain,
-  normalizeMarketStatus,
-  normalizeSnapshotAll,
-  getEtfProxy,
-  isIndex,
-  type NormalizedBar,
-  type NormalizedSnapshot,
-  type NormalizedOptionsContract,
-} from '@/lib/massive/normalize'
-import { computeEnhancedMetrics, type HeatmapMetrics } from '@/lib/massive-api'
+  fetchMovers,
+  fetchOptionsChain,
+  fetchTickerSnapshot,
+  toOptionPositions,
+  type DailyBar,
+  type HeatmapMetrics,
+} from '@/lib/massive-api'
+import { getEtfProxy, isIndex } from '@/lib/massive/normalize'
+import type { PriceBar } from '@/lib/indicators/compute'
+import { sessionDate } from '@/lib/live/feed'
+import { INDICATOR_IDS, computeIndicators, indicatorWarmup } from '@/lib/indicators'
+import { analyzeOptionsChain } from '@/lib/options'
 
 // -----------------------------------------------------------------------------
 // QueryPlan Schema
@@ -91,6 +88,7 @@ export const QueryPlanSchema = z.object({
   // Display
   visualization: VisualizationSchema.default('dashboard'),
   lookback: z.number().int().min(5).max(504).default(63),
+  indicators: z.array(z.enum(INDICATOR_IDS)).optional(), // Computed on aggregates
 
   // Options-specific
   optionsExpiration: z.string().optional(), // YYYY-MM-DD or "this_friday"
@@ -107,6 +105,14 @@ export type QueryPlan = z.infer<typeof QueryPlanSchema>
 // ResultEnvelope Schema
 // -----------------------------------------------------------------------------
 
+export const IndicatorLineSchema = z.object({
+  key: z.string(),
+  indicator: z.enum(INDICATOR_IDS),
+  label: z.string(),
+  pane: z.enum(['price', 'oscillator']),
+  values: z.array(z.number().nullable()),
+})
+
 export const TimeseriesResultSchema = z.object({
   type: z.literal('timeseries'),
   title: z.string(),
@@ -120,6 +126,7 @@ export const TimeseriesResultSchema = z.object({
       confirmedBreakouts: z.array(z.string()).optional(),
       rejectedBreakouts: z.array(z.string()).optional(),
     }).optional(),
+    indicators: z.record(z.string(), z.array(IndicatorLineSchema)).optional(), // Per symbol, aligned to data rows
   }),
 })
 
@@ -138,6 +145,27 @@ export const SnapshotResultSchema = z.object({
   }),
 })
 
+const OIWallSchema = z.object({ strike: z.number(), openInterest: z.number() })
+
+export const OptionsAnalyticsSchema = z.object({
+  spot: z.number(),
+  maxPainStrike: z.number().nullable(),
+  maxPainExpiration: z.string().nullable(),
+  totalGex: z.number(),
+  gammaFlip: z.number().nullable(),
+  callWalls: z.array(OIWallSchema),
+  putWalls: z.array(OIWallSchema),
+  profile: z.array(z.object({
+    strike: z.number(),
+    callOI: z.number(),
+    putOI: z.number(),
+    callGex: z.number(),
+    putGex: z.number(),
+    netGex: z.number(),
+    payout: z.number(),
+  })),
+})
+
 export const OptionsChainResultSchema = z.object({
   type: z.literal('options_chain'),
   title: z.string(),
@@ -157,12 +185,14 @@ export const OptionsChainResultSchema = z.object({
     delta: z.number().nullable(),
     gamma: z.number().nullable(),
     theta: z.number().nullable(),
+    vega: z.number().nullable(),
   })),
   meta: z.object({
     putCallRatio: z.number(),
     maxPainStrike: z.number().nullable(),
     totalVolume: z.number(),
     avgIV: z.number(),
+    analytics: OptionsAnalyticsSchema.optional(), // Full chain, not just the listed contracts
   }),
 })
 
@@ -245,7 +275,8 @@ export type ResultEnvelope = z.infer<typeof ResultEnvelopeSchema>
 const GUARDRAILS = {
   maxSymbols: 12,
   maxDays: 2000,
-  maxIntradayDays: 30,
+  // Calendar days of intraday bars per granularity (Polygon includes extended hours)
+  maxIntradayDays: { '1m': 2, '5m': 7, '15m': 14, '1h': 30 } as const,
   maxConcurrency: 5,
   defaultBenchmark: 'SPY',
   defaultLookback: 63,
@@ -290,6 +321,9 @@ function formatUserFriendlyError(error: Error | string): string {
 // Trader defaults: always include context
 const CONTEXT_SYMBOLS = ['SPY', 'QQQ', 'IWM', 'DIA']
 
+// Polygon returns 250 contracts per page; enough for the full chain of the most liquid names
+const OPTIONS_CHAIN_MAX_PAGES = 60
+
 // -----------------------------------------------------------------------------
 // Plan Executor
 // -----------------------------------------------------------------------------
@@ -361,32 +395,75 @@ export async function executePlan(plan: QueryPlan): Promise<ResultEnvelope[]> {
 // Dataset Executors
 // -----------------------------------------------------------------------------
 
+// Bars keyed by date (daily) or ISO timestamp (intraday)
+interface SeriesBar extends PriceBar {
+  date: string
+}
+
+async function fetchSeries(
+  symbol: string,
+  granularity: QueryPlan['granularity'],
+  startDate: string,
+  endDate: string
+): Promise<{ bars: SeriesBar[]; sessions?: string[] }> {
+  if (granularity === '1d') {
+    const bars = await fetchDailyBarsRange(symbol, startDate, endDate).catch(() => [] as DailyBar[])
+    return { bars }
+  }
+
+  const response = await fetchIntradayBars(symbol, granularity, {
+    from: new Date(`${startDate}T00:00:00Z`),
+    to: new Date(`${endDate}T00:00:00Z`),
+    limit: 50000,
+  })
+  const bars = response.results.map((bar) => ({ ...bar, date: bar.timestamp }))
+  // Intraday VWAP resets at each New York session
+  return { bars, sessions: bars.map((bar) => sessionDate(Date.parse(bar.date))) }
+}
+
 async function executeAggregates(
   symbols: string[],
   startDate: string,
   endDate: string,
   plan: QueryPlan
 ): Promise<ResultEnvelope> {
-  const timespan = plan.granularity === '1d' ? 'day' :
-    plan.granularity === '1h' ? 'hour' : 'minute'
-  const multiplier = plan.granularity === '5m' ? 5 :
-    plan.granularity === '15m' ? 15 : 1
-
   const data: Array<Record<string, string | number>> = []
   const symbolList: string[] = []
 
+  const intraday = plan.granularity !== '1d'
+  const indicatorIds = plan.indicators ?? []
+
+  // Daily indicators need history before startDate to warm up; intraday ones
+  // warm up inside the (short) intraday window
+  const fetchStart = (() => {
+    if (intraday) {
+      const earliest = new Date(`${endDate}T00:00:00Z`)
+      earliest.setUTCDate(earliest.getUTCDate() - GUARDRAILS.maxIntradayDays[plan.granularity as '1m'])
+      const floor = earliest.toISOString().split('T')[0]
+      return startDate > floor ? startDate : floor
+    }
+    const warmup = indicatorWarmup(indicatorIds, plan.lookback)
+    if (warmup === 0) return startDate
+    const start = new Date(`${startDate}T00:00:00Z`)
+    start.setUTCDate(start.getUTCDate() - Math.ceil(warmup * 1.5)) // sessions -> calendar days
+    return start.toISOString().split('T')[0]
+  })()
+  const displayStart = intraday ? fetchStart : startDate
+
   // Fetch data for each symbol
   const fetchPromises = symbols.map(async (symbol) => {
     // Use ETF proxy for indices if needed
     const fetchSymbol = isIndex(symbol) ? getEtfProxy(symbol) : symbol
 
-    const response = await fetchAggregates(fetchSymbol, multiplier, timespan as 'day', startDate, endDate)
-
-    if (response.success && response.data) {
-      const bars = normalizeAggregates(response.data)
-      return { symbol, bars }
+    const { bars: allBars, sessions } = await fetchSeries(fetchSymbol, plan.granularity, fetchStart, endDate)
+    const lines = computeIndicators(allBars, indicatorIds, { lookback: plan.lookback, sessions })
+    const first = allBars.findIndex((b) => b.date >= displayStart)
+    const offset = first === -1 ? allBars.length : first
+    return {
+      symbol,
+      bars: allBars.slice(offset),
+      lines: lines.map((line) => ({ ...line, values: line.values.slice(offset) })),
     }
-    return { symbol, bars: [] as NormalizedBar[] }
   })
 
   const results = await Promise.all(fetchPromises)
@@ -407,15 +484,30 @@ async function executeAggregates(
     data.push(row)
   }
 
+  // Re-align indicator lines to the unified rows
+  const indicators = indicatorIds.length > 0
+    ? Object.fromEntries(results.map(({ symbol, bars, lines }) => {
+        const indexByDate = new Map(bars.map((b, i) => [b.date, i]))
+        return [symbol, lines.map((line) => ({
+          ...line,
+          values: dates.map((date) => {
+            const i = indexByDate.get(date)
+            return i === undefined ? null : line.values[i]
+          }),
+        }))]
+      }))
+    : undefined
+
   return {
     type: 'timeseries',
-    title: `Price Comparison: ${symbolList.join(', ')}`,
+    title: `Price Comparison: ${symbolList.join(', ')}${intraday ? ` (${plan.granularity})` : ''}`,
     symbols: symbolList,
     data,
     meta: {
       lookback: plan.lookback,
       basis: plan.basis,
       benchmark: plan.benchmark,
+      indicators,
     },
   }
 }
@@ -436,22 +528,11 @@ async function executeSnapshots(
   // Fetch snapshots in parallel
   const fetchPromises = symbols.map(async (symbol) => {
     const fetchSymbol = isIndex(symbol) ? getEtfProxy(symbol) : symbol
-    const response = await fetchSnapshot(fetchSymbol)
-
-    if (response.success && response.data) {
-      const snapshot = normalizeSnapshot(response.data, symbol)
-      return { symbol, snapshot }
-    }
-    return { symbol, snapshot: null }
+    const response = await fetchTickerSnapshot(fetchSymbol)
+    return { symbol, snapshot: response.ticker }
   })
 
-  const results = await Promise.all(fetchPromises)
-
-  // Get market status
-  const statusResponse = await fetchMarketStatus()
-  const marketStatus = statusResponse.success && statusResponse.data
-    ? normalizeMarketStatus(statusResponse.data)
-    : { isOpen: false, phase: 'closed' as const, serverTime: new Date().toISOString(), exchanges: { nyse: 'closed', nasdaq: 'closed' } }
+  const [results, statusResponse] = await Promise.all([Promise.all(fetchPromises), fetchMarketStatus()])
 
   for (const { symbol, snapshot } of results) {
     if (snapshot) {
@@ -475,9 +556,9 @@ async function executeSnapshots(
     type: 'pulse',
     title: 'Market Pulse',
     symbols: pulseSymbols,
-    marketStatus: marketStatus.phase,
+    marketStatus: statusResponse.status?.exchanges.nyse ?? 'closed',
     meta: {
-      lastUpdated: marketStatus.serverTime,
+      lastUpdated: statusResponse.status?.server_time ?? new Date().toISOString(),
       riskRegime: determineRiskRegime(pulseSymbols),
     },
   }
@@ -507,23 +588,25 @@ async function executeOptionsChain(
     options.contract_type = plan.optionsContractType
   }
 
+  // Page through the whole chain: walls and GEX are wrong from a truncated page
   options.limit = 250
+  options.maxPages = OPTIONS_CHAIN_MAX_PAGES
 
   const response = await fetchOptionsChain(fetchSymbol, options)
 
-  if (!response.success || !response.data) {
+  if (!response.success) {
     return {
       type: 'error',
       title: `Options Chain: ${symbol}`,
       message: response.error?.message || 'Failed to fetch options chain',
       meta: {
-        code: response.error?.code || 'FETCH_ERROR',
+        code: response.error?.code || 'FETCH_FAILED',
         recoverable: true,
       },
     }
   }
 
-  const contracts = normalizeOptionsChain(response.data)
+  const contracts = response.results
 
   // Calculate metrics
   const calls = contracts.filter((c) => c.contractType === 'call')
@@ -537,41 +620,46 @@ async function executeOptionsChain(
     ? contracts.reduce((sum, c) => sum + c.impliedVolatility, 0) / contracts.length
     : 0
 
-  // Max pain calculation (simplified)
-  const strikeOI: Record<number, number> = {}
-  contracts.forEach((c) => {
-    strikeOI[c.strike] = (strikeOI[c.strike] || 0) + c.openInterest
-  })
-  const maxPainStrike = Object.entries(strikeOI).reduce(
-    (max, [strike, oi]) => (oi > max.oi ? { strike: Number(strike), oi } : max),
-    { strike: 0, oi: 0 }
-  ).strike
+  const underlyingPrice = response.underlying_price
+  // Max pain for the requested expiration, else the nearest one
+  const analytics = analyzeOptionsChain(
+    toOptionPositions(contracts),
+    underlyingPrice,
+    new Date(),
+    options.expiration_date ?? null
+  )
 
   return {
     type: 'options_chain',
     title: `Options Chain: ${symbol}`,
     underlying: symbol,
-    underlyingPrice: contracts[0]?.underlyingPrice || 0,
-    contracts: contracts.slice(0, 50).map((c) => ({
-      ticker: c.ticker,
-      contractType: c.contractType,
-      strike: c.strike,
-      expiration: c.expiration,
-      bid: c.bid,
-      ask: c.ask,
-      last: c.last,
-      volume: c.volume,
-      openInterest: c.openInterest,
-      impliedVolatility: c.impliedVolatility,
-      delta: c.delta,
-      gamma: c.gamma,
-      theta: c.theta,
-    })),
+    underlyingPrice,
+    // Nearest the money first so the listed contracts are the tradeable ones
+    contracts: [...contracts]
+      .sort((a, b) => Math.abs(a.strike - underlyingPrice) - Math.abs(b.strike - underlyingPrice))
+      .slice(0, 50)
+      .map((c) => ({
+        ticker: c.ticker,
+        contractType: c.contractType,
+        strike: c.strike,
+        expiration: c.expiration,
+        bid: c.bid,
+        ask: c.ask,
+        last: c.last,
+        volume: c.volume,
+        openInterest: c.openInterest,
+        impliedVolatility: c.impliedVolatility,
+        delta: c.delta,
+        gamma: c.gamma,
+        theta: c.theta,
+        vega: c.vega,
+      })),
     meta: {
       putCallRatio,
-      maxPainStrike: maxPainStrike || null,
+      maxPainStrike: analytics.maxPainStrike,
       totalVolume,
       avgIV,
+      analytics,
     },
   }
 }
@@ -593,30 +681,13 @@ async function executeHeatmap(
     return start.toISOString().split('T')[0]
   })()
 
-  const allBars: Record<string, NormalizedBar[]> = {}
-  const allMetrics: Record<string, HeatmapMetrics[]> = {}
-
   const fetchPromises = symbols.map(async (symbol) => {
     const fetchSymbol = isIndex(symbol) ? getEtfProxy(symbol) : symbol
-    const response = await fetchAggregates(fetchSymbol, 1, 'day', startDate, endDate)
-
-    if (response.success && response.data) {
-      const bars = normalizeAggregates(response.data)
-      // Convert to DailyBar format for computeEnhancedMetrics
-      const dailyBars = bars.map((b) => ({
-        date: b.date,
-        open: b.open,
-        high: b.high,
-        low: b.low,
-        close: b.close,
-        volume: b.volume,
-      }))
-
-      const metrics = computeEnhancedMetrics(dailyBars, lookback, plan.basis === 'close' ? 'close' : 'intraday')
-
-      return { symbol, bars, metrics }
-    }
-    return { symbol, bars: [] as NormalizedBar[], metrics: [] as HeatmapMetrics[] }
+    const bars = await fetchDailyBarsRange(fetchSymbol, startDate, endDate).catch(() => [] as DailyBar[])
+    const metrics: HeatmapMetrics[] = bars.length > 0
+      ? computeEnhancedMetrics(bars, lookback, plan.basis === 'close' ? 'close' : 'intraday')
+      : []
+    return { symbol, bars, metrics }
   })
 
   const results = await Promise.all(fetchPromises)
@@ -674,8 +745,8 @@ async function executeHeatmap(
 
 async function executeMovers(_plan: QueryPlan): Promise<ResultEnvelope> {
   const [gainersRes, losersRes] = await Promise.all([
-    fetchGainers(),
-    fetchLosers(),
+    fetchMovers('gainers'),
+    fetchMovers('losers'),
   ])
 
   const rows: Array<{
@@ -685,29 +756,23 @@ async function executeMovers(_plan: QueryPlan): Promise<ResultEnvelope> {
     signal?: 'bullish' | 'bearish' | 'neutral'
   }> = []
 
-  if (gainersRes.success && gainersRes.data) {
-    const gainers = normalizeSnapshotAll(gainersRes.data).slice(0, 5)
-    gainers.forEach((g) => {
-      rows.push({
-        label: `📈 ${g.symbol}`,
-        value: `$${g.price.toFixed(2)}`,
-        changePct: g.changePercent,
-        signal: 'bullish',
-      })
+  gainersRes.gainers.slice(0, 5).forEach((g) => {
+    rows.push({
+      label: `📈 ${g.ticker}`,
+      value: `$${g.price.toFixed(2)}`,
+      changePct: g.changePercent,
+      signal: 'bullish',
     })
-  }
+  })
 
-  if (losersRes.success && losersRes.data) {
-    const losers = normalizeSnapshotAll(losersRes.data).slice(0, 5)
-    losers.forEach((l) => {
-      rows.push({
-        label: `📉 ${l.symbol}`,
-        value: `$${l.price.toFixed(2)}`,
-        changePct: l.changePercent,
-        signal: 'bearish',
-      })
+  losersRes.losers.slice(0, 5).forEach((l) => {
+    rows.push({
+      label: `📉 ${l.ticker}`,
+      value: `$${l.price.toFixed(2)}`,
+      changePct: l.changePercent,
+      signal: 'bearish',
     })
-  }
+  })
 
   return {
     type: 'snapshot',
@@ -722,31 +787,31 @@ async function executeMovers(_plan: QueryPlan): Promise<ResultEnvelope> {
 async function executeMarketStatus(_plan: QueryPlan): Promise<ResultEnvelope> {
   const response = await fetchMarketStatus()
 
-  if (!response.success || !response.data) {
+  if (!response.success || !response.status) {
     return {
       type: 'error',
       title: 'Market Status',
-      message: 'Failed to fetch market status',
+      message: response.error?.message || 'Failed to fetch market status',
       meta: {
-        code: 'FETCH_ERROR',
+        code: response.error?.code || 'FETCH_FAILED',
         recoverable: true,
       },
     }
   }
 
-  const status = normalizeMarketStatus(response.data)
+  const status = response.status
 
   return {
     type: 'snapshot',
     title: 'Market Status',
     rows: [
-      { label: 'Status', value: status.phase },
+      { label: 'Status', value: status.exchanges.nyse },
       { label: 'NYSE', value: status.exchanges.nyse },
       { label: 'NASDAQ', value: status.exchanges.nasdaq },
-      { label: 'Server Time', value: status.serverTime },
+      { label: 'Server Time', value: status.server_time },
     ],
     meta: {
-      lastUpdated: status.serverTime,
+      lastUpdated: status.server_time,
     },
   }
 }
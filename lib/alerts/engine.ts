@@ -0,0 +1,223 @@
+// =============================================================================
+// Alert Engine - loads rules, gathers market data, records triggers
+// =============================================================================
+// Only users with UserPreferences.alertsEnabled are evaluated. Market data is
+// memoized per run so several rules on the same symbol or universe share a
+// single fetch. A rule fires at most once per session: AlertEvent is unique on
+// (ruleId, date), so re-running the evaluator during the day is idempotent.
+// Rejection and regime rules use each user's saved trader thresholds.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+import { getDailyBars } from '@/lib/bars/store'
+import { computeUniverseBreadth } from '@/lib/breadth/universe-series'
+import type { BreadthSeries } from '@/lib/breadth/compute'
+import { loadUniverse } from '@/lib/universes'
+import { logger } from '@/lib/logger'
+import { resolveTraderConfig, type TraderConfig } from '@/lib/trader-signals'
+import { parseTraderConfigOverrides } from '@/lib/trader-config'
+import { alertRuleFromRow, type AlertRuleParams } from './rules'
+import {
+  evaluateExtremeRule,
+  evaluateRejectionRule,
+  evaluateBreadthRule,
+  evaluateRegimeRule,
+  type AlertTrigger,
+} from './evaluate'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AlertEvaluationSummary {
+  users: number
+  rulesEvaluated: number
+  triggered: number
+  errors: number
+  durationMs: number
+}
+
+interface DataLoaders {
+  bars: (symbol: string, lookback: number) => Promise<DailyBar[] | null>
+  breadth: (universeId: string, lookback: number) => Promise<BreadthSeries | null>
+}
+
+// Sessions of breadth history computed for breadth rules (washed-out stats window)
+const BREADTH_SEARCH_DAYS = 21
+
+// =============================================================================
+// Data Loading
+// =============================================================================
+
+function createLoaders(): DataLoaders {
+  const barsCache = new Map<string, Promise<DailyBar[] | null>>()
+  const breadthCache = new Map<string, Promise<BreadthSeries | null>>()
+
+  return {
+    bars(symbol, lookback) {
+      const days = Math.max(lookback + 30, 252)
+      const key = `${symbol}:${days}`
+      let pending = barsCache.get(key)
+      if (!pending) {
+        pending = getDailyBars(symbol, days).catch((error) => {
+          logger.warn('Alert data fetch failed', {
+            symbol,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          })
+          return null
+        })
+        barsCache.set(key, pending)
+      }
+      return pending
+    },
+
+    breadth(universeId, lookback) {
+      const key = `${universeId}:${lookback}`
+      let pending = breadthCache.get(key)
+      if (!pending) {
+        pending = (async () => {
+          const universe = await loadUniverse(universeId)
+          if (!universe) return null
+          const result = await computeUniverseBreadth(universe, lookback, BREADTH_SEARCH_DAYS)
+          return result?.series ?? null
+        })()
+        breadthCache.set(key, pending)
+      }
+      return pending
+    },
+  }
+}
+
+async function evaluateRule(
+  rule: AlertRuleParams,
+  loaders: DataLoaders,
+  config: TraderConfig
+): Promise<AlertTrigger | null> {
+  switch (rule.type) {
+    case 'extreme': {
+      const bars = await loaders.bars(rule.symbol, rule.lookback)
+      return bars ? evaluateExtremeRule(rule, bars) : null
+    }
+    case 'rejection': {
+      const bars = await loaders.bars(rule.symbol, rule.lookback)
+      return bars ? evaluateRejectionRule(rule, bars, config) : null
+    }
+    case 'breadth': {
+      const series = await loaders.breadth(rule.universe, rule.lookback)
+      return series ? evaluateBreadthRule(rule, series) : null
+    }
+    case 'regime': {
+      const barsBySymbol: Record<string, DailyBar[]> = {}
+      for (const symbol of rule.symbols) {
+        const bars = await loaders.bars(symbol, rule.lookback)
+        if (bars) barsBySymbol[symbol] = bars
+      }
+      return evaluateRegimeRule(rule, barsBySymbol, config)
+    }
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Evaluate every enabled rule for users who have alerts turned on.
+ * Pass `userId` to restrict the run to a single user.
+ */
+export async function runAlertEvaluation(userId?: string): Promise<AlertEvaluationSummary> {
+  const startTime = Date.now()
+  const summary: AlertEvaluationSummary = {
+    users: 0,
+    rulesEvaluated: 0,
+    triggered: 0,
+    errors: 0,
+    durationMs: 0,
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return summary
+  }
+
+  const { prisma } = await import('@/lib/prisma')
+
+  const enabledUsers = await prisma.userPreferences.findMany({
+    where: { alertsEnabled: true, ...(userId && { userId }) },
+    select: { userId: true, traderConfig: true },
+  })
+  summary.users = enabledUsers.length
+  if (enabledUsers.length === 0) {
+    summary.durationMs = Date.now() - startTime
+    return summary
+  }
+
+  const rows = await prisma.alertRule.findMany({
+    where: {
+      enabled: true,
+      userId: { in: enabledUsers.map((u: { userId: string }) => u.userId) },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const configByUser = new Map<string, TraderConfig>(
+    enabledUsers.map((u: { userId: string; traderConfig: string | null }) => [
+      u.userId,
+      resolveTraderConfig(parseTraderConfigOverrides(u.traderConfig)),
+    ])
+  )
+  const loaders = createLoaders()
+
+  for (const row of rows) {
+    const record = alertRuleFromRow(row)
+    if (!record) {
+      logger.warn('Skipping alert rule with invalid params', { ruleId: row.id })
+      summary.errors++
+      continue
+    }
+
+    try {
+      const config = configByUser.get(record.userId) ?? resolveTraderConfig()
+      const trigger = await evaluateRule(record.rule, loaders, config)
+      summary.rulesEvaluated++
+
+      let fired = false
+      if (trigger) {
+        const { count } = await prisma.alertEvent.createMany({
+          data: [
+            {
+              ruleId: record.id,
+              userId: record.userId,
+              date: trigger.date,
+              message: trigger.message,
+              evidence: JSON.stringify(trigger.evidence),
+            },
+          ],
+          skipDuplicates: true,
+        })
+        fired = count > 0
+      }
+
+      await prisma.alertRule.update({
+        where: { id: record.id },
+        data: {
+          lastEvaluatedAt: new Date(),
+          ...(fired && { lastTriggeredAt: new Date() }),
+        },
+      })
+
+      if (fired) {
+        summary.triggered++
+        logger.info('Alert triggered', { ruleId: record.id, userId: record.userId, message: trigger?.message })
+      }
+    } catch (error) {
+      summary.errors++
+      logger.error('Alert rule evaluation failed', {
+        ruleId: record.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  summary.durationMs = Date.now() - startTime
+  return summary
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateExtremeRule,
+  evaluateRejectionRule,
+  evaluateBreadthRule,
+  evaluateRegimeRule,
+} from './evaluate'
+import { AlertRuleParamsSchema, type ExtremeRule, type RejectionRule, type RegimeRule } from './rules'
+import type { BreadthSeries } from '@/lib/breadth/compute'
+import type { DailyBar } from '@/lib/massive-api'
+
+function makeBars(closes: number[], highs?: number[]): DailyBar[] {
+  return closes.map((close, i) => {
+    const day = String(i + 1).padStart(2, '0')
+    return {
+      date: `2024-01-${day}`,
+      open: close,
+      high: highs?.[i] ?? close,
+      low: close,
+      close,
+      volume: 0,
+    }
+  })
+}
+
+const rising = [10, 11, 12, 13, 14, 15]
+
+describe('evaluateExtremeRule', () => {
+  const rule = AlertRuleParamsSchema.parse({
+    type: 'extreme',
+    symbol: 'spx',
+    metric: 'daysSinceHigh',
+    value: 0,
+    basis: 'both',
+    lookback: 5,
+  }) as ExtremeRule
+
+  it('fires when every basis meets the threshold', () => {
+    const trigger = evaluateExtremeRule(rule, makeBars(rising))
+    expect(trigger?.date).toBe('2024-01-06')
+    expect(trigger?.evidence.values).toEqual({ close: 0, intraday: 0 })
+  })
+
+  it('requires both bases when basis is both', () => {
+    // Close at a new high, but an earlier intraday spike is still higher
+    const bars = makeBars(rising, [10, 11, 20, 13, 14, 15])
+    expect(evaluateExtremeRule(rule, bars)).toBeNull()
+    expect(evaluateExtremeRule({ ...rule, basis: 'close' }, bars)).not.toBeNull()
+  })
+})
+
+describe('evaluateRejectionRule', () => {
+  const rule: RejectionRule = { type: 'rejection', symbol: 'SOX', minSeverity: 'notable', lookback: 5 }
+
+  it('fires on an unconfirmed intraday high at or above the severity', () => {
+    // Close peaked on day 2; today tags a new intraday high but closes lower
+    const bars = makeBars([10, 16, 15, 14, 13, 12], [10, 16, 15, 14, 13, 17])
+    const trigger = evaluateRejectionRule(rule, bars)
+    expect(trigger?.evidence.severity).toBe('notable')
+    expect(trigger?.evidence.closeDays).toBe(4)
+  })
+
+  it('ignores rejections below the minimum severity', () => {
+    const bars = makeBars([10, 11, 12, 13, 15, 14], [10, 11, 12, 13, 15, 16])
+    expect(evaluateRejectionRule(rule, bars)).toBeNull()
+  })
+})
+
+describe('evaluateBreadthRule', () => {
+  const series: BreadthSeries = {
+    lookbackDays: 5,
+    totalSymbols: 10,
+    symbolsCovered: 10,
+    entries: [
+      {
+        date: '2024-01-05',
+        pctNewLows: 10,
+        pctNewHighs: 0,
+        countNewLows: 1,
+        countNewHighs: 0,
+        countValid: 10,
+        newLowSymbols: ['AAA'],
+        newHighSymbols: [],
+      },
+      {
+        date: '2024-01-08',
+        pctNewLows: 30,
+        pctNewHighs: 0,
+        countNewLows: 3,
+        countNewHighs: 0,
+        countValid: 10,
+        newLowSymbols: ['AAA', 'BBB', 'CCC'],
+        newHighSymbols: [],
+      },
+    ],
+  }
+
+  it('fires when the latest session is washed out', () => {
+    const trigger = evaluateBreadthRule(
+      { type: 'breadth', universe: 'soxx', metric: 'pctNewLows', threshold: 20, lookback: 5 },
+      series
+    )
+    expect(trigger?.date).toBe('2024-01-08')
+    expect(trigger?.evidence.daysAboveThreshold).toBe(1)
+  })
+
+  it('stays quiet below the threshold', () => {
+    expect(
+      evaluateBreadthRule(
+        { type: 'breadth', universe: 'soxx', metric: 'pctNewLows', threshold: 40, lookback: 5 },
+        series
+      )
+    ).toBeNull()
+  })
+})
+
+describe('evaluateRegimeRule', () => {
+  const rule: RegimeRule = { type: 'regime', symbols: ['AAA', 'BBB'], to: 'Risk-On', lookback: 20 }
+  const decline = Array.from({ length: 24 }, (_, i) => 100 - i)
+
+  it('fires only on the session the label changes', () => {
+    // Both symbols slid for weeks (cold), then print new highs on the last session
+    const flipped = {
+      AAA: makeBars([...decline, 120]),
+      BBB: makeBars([...decline, 120]),
+    }
+    const trigger = evaluateRegimeRule(rule, flipped)
+    expect(trigger?.evidence.from).toBe('Risk-Off')
+    expect(trigger?.evidence.to).toBe('Risk-On')
+
+    // Still sliding: regime is Risk-Off on both sessions
+    const stillOff = { AAA: makeBars(decline), BBB: makeBars(decline) }
+    expect(evaluateRegimeRule(rule, stillOff)).toBeNull()
+    expect(evaluateRegimeRule({ ...rule, to: 'Risk-Off' }, stillOff)).toBeNull()
+  })
+})
@@ -0,0 +1,206 @@
+// =============================================================================
+// Alert Rule Evaluation
+// =============================================================================
+// Pure evaluators: given a rule and the market data it refers to, decide
+// whether the rule fires on the latest session and capture the evidence.
+// Data loading and persistence live in ./engine.ts.
+// =============================================================================
+
+import { computeEnhancedMetrics, type DailyBar } from '@/lib/massive-api'
+import {
+  computeBreadth,
+  computeRegime,
+  detectRejections,
+  TRADER_CONFIG,
+  type RejectionSeverity,
+  type TraderConfig,
+} from '@/lib/trader-signals'
+import { analyzeWashedOut } from '@/lib/breadth/extremes'
+import type { BreadthSeries } from '@/lib/breadth/compute'
+import type { ExtremeRule, RejectionRule, BreadthRule, RegimeRule } from './rules'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AlertTrigger {
+  date: string
+  message: string
+  evidence: Record<string, unknown>
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SEVERITY_RANK: Record<RejectionSeverity, number> = {
+  mild: 0,
+  notable: 1,
+  strong: 2,
+}
+
+function latestMetrics(bars: DailyBar[], lookback: number, basis: 'close' | 'intraday') {
+  const metrics = computeEnhancedMetrics(bars, lookback, basis)
+  return metrics[metrics.length - 1]
+}
+
+// =============================================================================
+// Evaluators
+// =============================================================================
+
+/**
+ * Days-since-high/low threshold on one or both bases.
+ * With basis 'both' every basis must satisfy the condition.
+ */
+export function evaluateExtremeRule(rule: ExtremeRule, bars: DailyBar[]): AlertTrigger | null {
+  if (bars.length < rule.lookback) return null
+
+  const bases: ('close' | 'intraday')[] = rule.basis === 'both' ? ['close', 'intraday'] : [rule.basis]
+  const values: Record<string, number> = {}
+
+  for (const basis of bases) {
+    const value = latestMetrics(bars, rule.lookback, basis)[rule.metric]
+    const passes = rule.operator === 'lte' ? value <= rule.value : value >= rule.value
+    if (!passes) return null
+    values[basis] = value
+  }
+
+  const date = bars[bars.length - 1].date
+  const label = rule.metric === 'daysSinceHigh' ? 'days since high' : 'days since low'
+  const detail = bases.map((basis) => `${basis} ${values[basis]}`).join(', ')
+
+  return {
+    date,
+    message: `${rule.symbol} ${label} ${rule.operator === 'lte' ? '<=' : '>='} ${rule.value} (${detail})`,
+    evidence: {
+      symbol: rule.symbol,
+      metric: rule.metric,
+      lookback: rule.lookback,
+      values,
+      close: bars[bars.length - 1].close,
+    },
+  }
+}
+
+/**
+ * Intraday new high that failed to confirm at the close, at or above a severity.
+ */
+export function evaluateRejectionRule(
+  rule: RejectionRule,
+  bars: DailyBar[],
+  config: TraderConfig = TRADER_CONFIG
+): AlertTrigger | null {
+  if (bars.length < rule.lookback) return null
+
+  const date = bars[bars.length - 1].date
+  const highRow = { [rule.symbol]: latestMetrics(bars, rule.lookback, 'intraday').daysSinceHigh }
+  const closeRow = { [rule.symbol]: latestMetrics(bars, rule.lookback, 'close').daysSinceHigh }
+
+  const rejection = detectRejections(highRow, closeRow, date, config).find(
+    (r) => SEVERITY_RANK[r.severity] >= SEVERITY_RANK[rule.minSeverity]
+  )
+  if (!rejection) return null
+
+  return {
+    date,
+    message: `${rule.symbol} ${rejection.severity} rejection: new intraday high, close ${rejection.closeDays}d from high`,
+    evidence: {
+      symbol: rule.symbol,
+      severity: rejection.severity,
+      highDays: rejection.highDays,
+      closeDays: rejection.closeDays,
+      delta: rejection.delta,
+      lookback: rule.lookback,
+    },
+  }
+}
+
+/**
+ * Share of a universe at new lows (washed out) or new highs above a threshold.
+ */
+export function evaluateBreadthRule(rule: BreadthRule, series: BreadthSeries): AlertTrigger | null {
+  const latest = series.entries[series.entries.length - 1]
+  if (!latest) return null
+
+  const universe = rule.universe.toUpperCase()
+
+  if (rule.metric === 'pctNewLows') {
+    const washedOut = analyzeWashedOut(series, rule.threshold)
+    if (!washedOut.isWashedOut) return null
+
+    return {
+      date: latest.date,
+      message: `${universe} washed out: ${washedOut.currentValue.toFixed(1)}% at new lows (threshold ${rule.threshold}%)`,
+      evidence: {
+        universe: rule.universe,
+        metric: rule.metric,
+        value: washedOut.currentValue,
+        count: latest.countNewLows,
+        countValid: latest.countValid,
+        daysAboveThreshold: washedOut.daysAboveThreshold,
+        peakValue: washedOut.peakValue,
+        peakDate: washedOut.peakDate,
+        symbols: latest.newLowSymbols,
+      },
+    }
+  }
+
+  if (latest.pctNewHighs < rule.threshold) return null
+
+  return {
+    date: latest.date,
+    message: `${universe} breadth thrust: ${latest.pctNewHighs.toFixed(1)}% at new highs (threshold ${rule.threshold}%)`,
+    evidence: {
+      universe: rule.universe,
+      metric: rule.metric,
+      value: latest.pctNewHighs,
+      count: latest.countNewHighs,
+      countValid: latest.countValid,
+      symbols: latest.newHighSymbols,
+    },
+  }
+}
+
+/**
+ * Regime label changes into `rule.to` on the latest session.
+ * Uses the close basis, like computeSignalSummary.
+ */
+export function evaluateRegimeRule(
+  rule: RegimeRule,
+  barsBySymbol: Record<string, DailyBar[]>,
+  config: TraderConfig = TRADER_CONFIG
+): AlertTrigger | null {
+  const latestRow: Record<string, number> = {}
+  const previousRow: Record<string, number> = {}
+  let date = ''
+
+  for (const [symbol, bars] of Object.entries(barsBySymbol)) {
+    if (bars.length < rule.lookback + 1) continue
+
+    const metrics = computeEnhancedMetrics(bars, rule.lookback, 'close')
+    latestRow[symbol] = metrics[metrics.length - 1].daysSinceHigh
+    previousRow[symbol] = metrics[metrics.length - 2].daysSinceHigh
+
+    const lastDate = bars[bars.length - 1].date
+    if (lastDate > date) date = lastDate
+  }
+
+  if (Object.keys(latestRow).length < 2) return null
+
+  const current = computeRegime(computeBreadth(latestRow, config), config)
+  const previous = computeRegime(computeBreadth(previousRow, config), config)
+
+  if (current.label !== rule.to || previous.label === rule.to) return null
+
+  return {
+    date,
+    message: `Regime flipped ${previous.label} -> ${current.label} (${current.breadth.hotCount} hot, ${current.breadth.coldCount} cold of ${current.breadth.total})`,
+    evidence: {
+      from: previous.label,
+      to: current.label,
+      confidence: current.confidence,
+      breadth: current.breadth,
+      daysSinceHigh: latestRow,
+    },
+  }
+}
@@ -0,0 +1,8 @@
+// =============================================================================
+// Alerts Module - Public Exports
+// =============================================================================
+
+export * from './rules'
+export * from './evaluate'
+export * from './engine'
+export * from './scheduler'
@@ -0,0 +1,147 @@
+// =============================================================================
+// Alert Rule Definitions
+// =============================================================================
+// Each rule kind maps onto one of the existing signal computations:
+//   extreme   -> computeEnhancedMetrics (days since high/low per basis)
+//   rejection -> detectRejections (intraday high not confirmed at the close)
+//   breadth   -> analyzeWashedOut / BreadthSeries (% of a universe at extremes)
+//   regime    -> computeRegime (label flips between sessions)
+// =============================================================================
+
+import { z } from 'zod'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const symbolSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(10)
+  .transform((s) => s.toUpperCase())
+
+const lookbackSchema = z.number().int().min(5).max(504).default(63)
+
+export const ExtremeRuleSchema = z.object({
+  type: z.literal('extreme'),
+  symbol: symbolSchema,
+  metric: z.enum(['daysSinceHigh', 'daysSinceLow']),
+  operator: z.enum(['lte', 'gte']).default('lte'),
+  value: z.number().int().min(0).max(504),
+  basis: z.enum(['close', 'intraday', 'both']).default('close'),
+  lookback: lookbackSchema,
+})
+
+export const RejectionRuleSchema = z.object({
+  type: z.literal('rejection'),
+  symbol: symbolSchema,
+  minSeverity: z.enum(['mild', 'notable', 'strong']).default('notable'),
+  lookback: lookbackSchema,
+})
+
+export const BreadthRuleSchema = z.object({
+  type: z.literal('breadth'),
+  universe: z.string().trim().min(1).transform((s) => s.toLowerCase()),
+  metric: z.enum(['pctNewLows', 'pctNewHighs']).default('pctNewLows'),
+  threshold: z.number().min(0).max(100),
+  lookback: lookbackSchema,
+})
+
+export const RegimeRuleSchema = z.object({
+  type: z.literal('regime'),
+  symbols: z.array(symbolSchema).min(2).max(30).default(['DJI', 'SPX', 'IXIC', 'NDX', 'RUT', 'SOX']),
+  to: z.enum(['Risk-On', 'Narrow / Mixed', 'Risk-Off']),
+  lookback: lookbackSchema,
+})
+
+export const AlertRuleParamsSchema = z.discriminatedUnion('type', [
+  ExtremeRuleSchema,
+  RejectionRuleSchema,
+  BreadthRuleSchema,
+  RegimeRuleSchema,
+])
+
+export const AlertRuleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  enabled: z.boolean().default(true),
+  rule: AlertRuleParamsSchema,
+})
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExtremeRule = z.infer<typeof ExtremeRuleSchema>
+export type RejectionRule = z.infer<typeof RejectionRuleSchema>
+export type BreadthRule = z.infer<typeof BreadthRuleSchema>
+export type RegimeRule = z.infer<typeof RegimeRuleSchema>
+export type AlertRuleParams = z.infer<typeof AlertRuleParamsSchema>
+export type AlertRuleType = AlertRuleParams['type']
+
+export interface AlertRuleRecord {
+  id: string
+  userId: string
+  name: string
+  enabled: boolean
+  rule: AlertRuleParams
+  lastEvaluatedAt: string | null
+  lastTriggeredAt: string | null
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const METRIC_LABELS = {
+  daysSinceHigh: 'days since high',
+  daysSinceLow: 'days since low',
+  pctNewLows: '% new lows',
+  pctNewHighs: '% new highs',
+} as const
+
+/**
+ * Default display name for a rule, e.g. "SPX days since high <= 0 (both bases)".
+ */
+export function describeRule(rule: AlertRuleParams): string {
+  switch (rule.type) {
+    case 'extreme': {
+      const op = rule.operator === 'lte' ? '<=' : '>='
+      const basis = rule.basis === 'both' ? 'both bases' : `${rule.basis} basis`
+      return `${rule.symbol} ${METRIC_LABELS[rule.metric]} ${op} ${rule.value} (${basis})`
+    }
+    case 'rejection':
+      return `${rule.symbol} rejection severity >= ${rule.minSeverity}`
+    case 'breadth':
+      return `${rule.universe.toUpperCase()} ${METRIC_LABELS[rule.metric]} >= ${rule.threshold}%`
+    case 'regime':
+      return `Regime flips to ${rule.to}`
+  }
+}
+
+/**
+ * Convert a stored AlertRule row into its API shape.
+ * Rows whose params no longer validate are returned as null.
+ */
+export function alertRuleFromRow(row: {
+  id: string
+  userId: string
+  name: string
+  enabled: boolean
+  params: string
+  lastEvaluatedAt: Date | null
+  lastTriggeredAt: Date | null
+}): AlertRuleRecord | null {
+  const parsed = AlertRuleParamsSchema.safeParse(JSON.parse(row.params))
+  if (!parsed.success) return null
+
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    enabled: row.enabled,
+    rule: parsed.data,
+    lastEvaluatedAt: row.lastEvaluatedAt?.toISOString() ?? null,
+    lastTriggeredAt: row.lastTriggeredAt?.toISOString() ?? null,
+  }
+}
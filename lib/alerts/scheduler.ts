@@ -0,0 +1,61 @@
+// =============================================================================
+// Alert Scheduler - in-process interval runner
+// =============================================================================
+// Started once per server process from instrumentation.ts. The interval is
+// configurable via ALERTS_INTERVAL_MINUTES (0 disables the scheduler, e.g.
+// when an external cron calls POST /api/alerts/evaluate instead).
+// =============================================================================
+
+import { requireMarketData } from '@/lib/env'
+import { logger } from '@/lib/logger'
+import { withUpstreamPriority } from '@/lib/massive/scheduler'
+import { runAlertEvaluation } from './engine'
+
+const DEFAULT_INTERVAL_MINUTES = 15
+
+// Survives module reloads in dev so we never stack intervals
+const globalForAlerts = globalThis as unknown as {
+  alertScheduler: ReturnType<typeof setInterval> | undefined
+}
+
+let running = false
+
+async function tick(): Promise<void> {
+  // Skip if the previous run is still going (slow universe fetches)
+  if (running) return
+  running = true
+
+  try {
+    const summary = await withUpstreamPriority('background', () => runAlertEvaluation())
+    if (summary.rulesEvaluated > 0 || summary.errors > 0) {
+      logger.info('Alert evaluation complete', { ...summary })
+    }
+  } catch (error) {
+    logger.error('Alert evaluation run failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  } finally {
+    running = false
+  }
+}
+
+/**
+ * Start the periodic evaluator. Returns false when alerts cannot run
+ * (no database or market data key) or the scheduler is disabled.
+ */
+export function startAlertScheduler(): boolean {
+  if (!process.env.DATABASE_URL || !requireMarketData().isValid) return false
+
+  const minutes = Number(process.env.ALERTS_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)
+  if (!Number.isFinite(minutes) || minutes <= 0) return false
+
+  if (globalForAlerts.alertScheduler) return true
+
+  const handle = setInterval(tick, minutes * 60 * 1000)
+  // Don't keep the process alive just for alerts
+  handle.unref?.()
+  globalForAlerts.alertScheduler = handle
+
+  logger.info('Alert scheduler started', { intervalMinutes: minutes })
+  return true
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { asOfFromSearchParams, calendarDaysSince, isTradingDay, shiftWeekdays, truncateBarsAsOf } from './as-of'
+
+describe('asOfFromSearchParams', () => {
+  it('accepts past dates and treats missing or future dates as live', () => {
+    expect(asOfFromSearchParams(new URLSearchParams('asOf=2024-03-15'))).toEqual({ asOf: '2024-03-15' })
+    expect(asOfFromSearchParams(new URLSearchParams(''))).toEqual({ asOf: null })
+    expect(asOfFromSearchParams(new URLSearchParams('asOf=2999-01-01'))).toEqual({ asOf: null })
+  })
+
+  it('rejects malformed or too-early dates', () => {
+    expect(asOfFromSearchParams(new URLSearchParams('asOf=03/15/2024')).error).toMatch(/YYYY-MM-DD/)
+    expect(asOfFromSearchParams(new URLSearchParams('asOf=1990-01-01')).error).toMatch(/on or after/)
+  })
+})
+
+describe('truncateBarsAsOf', () => {
+  const bars = [{ date: '2024-03-13' }, { date: '2024-03-14' }, { date: '2024-03-15' }, { date: '2024-03-18' }]
+
+  it('drops bars after the as-of date, keeping it inclusive', () => {
+    expect(truncateBarsAsOf(bars, '2024-03-15').map((b) => b.date)).toEqual(['2024-03-13', '2024-03-14', '2024-03-15'])
+    // A holiday/weekend falls back to the prior session
+    expect(truncateBarsAsOf(bars, '2024-03-16').at(-1)?.date).toBe('2024-03-15')
+    expect(truncateBarsAsOf(bars, null)).toBe(bars)
+  })
+})
+
+describe('date helpers', () => {
+  it('steps over weekends', () => {
+    expect(shiftWeekdays('2024-03-15', 1)).toBe('2024-03-18')
+    expect(shiftWeekdays('2024-03-18', -1)).toBe('2024-03-15')
+    expect(shiftWeekdays('2024-03-18', -5)).toBe('2024-03-11')
+  })
+
+  it('counts calendar days back to the as-of date', () => {
+    const now = new Date('2024-03-18T15:00:00Z')
+    expect(calendarDaysSince('2024-03-15', now)).toBe(3)
+    expect(calendarDaysSince(null, now)).toBe(0)
+  })
+})
+
+describe('isTradingDay', () => {
+  it('skips weekends and NYSE holidays', () => {
+    expect(isTradingDay('2024-03-15')).toBe(true)
+    expect(isTradingDay('2024-03-16')).toBe(false)
+    // Good Friday, Juneteenth, Thanksgiving
+    expect(isTradingDay('2024-03-29')).toBe(false)
+    expect(isTradingDay('2024-06-19')).toBe(false)
+    expect(isTradingDay('2024-11-28')).toBe(false)
+    expect(isTradingDay('2024-11-29')).toBe(true)
+  })
+
+  it('observes weekend holidays on the nearest weekday', () => {
+    // July 4th 2026 is a Saturday, Christmas 2022 a Sunday
+    expect(isTradingDay('2026-07-03')).toBe(false)
+    expect(isTradingDay('2022-12-26')).toBe(false)
+    // New Year's Day on a Saturday is not made up on the Friday before
+    expect(isTradingDay('2021-12-31')).toBe(true)
+  })
+})
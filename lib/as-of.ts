@@ -0,0 +1,158 @@
+// =============================================================================
+// As-Of Dates (replay mode)
+// =============================================================================
+// `asOf=YYYY-MM-DD` asks a route to compute everything as it stood after that
+// session's close: bars after the date are dropped before any metric runs, so
+// "the last bar" is the as-of session. Shared by API routes and the dashboard
+// date scrubber.
+// =============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Past sessions don't change; let shared caches keep replayed responses
+export const AS_OF_CACHE_CONTROL = 'public, s-maxage=86400, stale-while-revalidate=3600'
+
+// Earliest date the scrubber and routes accept (Polygon daily history)
+export const MIN_AS_OF = '2004-01-01'
+
+/**
+ * Today's date (UTC), the upper bound for asOf.
+ */
+export function todayIso(now: Date = new Date()): string {
+  return now.toISOString().split('T')[0]
+}
+
+/**
+ * Read `asOf` from query params. Returns `asOf: null` when absent or when it
+ * is today or later (i.e. the normal live view).
+ */
+export function asOfFromSearchParams(searchParams: URLSearchParams): { asOf: string | null; error?: string } {
+  const value = searchParams.get('asOf')
+  if (!value) return { asOf: null }
+
+  if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00Z`))) {
+    return { asOf: null, error: 'asOf must be a date in YYYY-MM-DD format' }
+  }
+  if (value < MIN_AS_OF) {
+    return { asOf: null, error: `asOf must be on or after ${MIN_AS_OF}` }
+  }
+  return { asOf: value >= todayIso() ? null : value }
+}
+
+/**
+ * Drop bars dated after `asOf` (bars are ascending). No-op without asOf.
+ */
+export function truncateBarsAsOf<T extends { date: string }>(bars: T[], asOf: string | null | undefined): T[] {
+  if (!asOf) return bars
+  let end = bars.length
+  while (end > 0 && bars[end - 1].date > asOf) end--
+  return end === bars.length ? bars : bars.slice(0, end)
+}
+
+/**
+ * Calendar days from `asOf` to today - an upper bound on the sessions that
+ * have to be fetched on top of a lookback to reach back to the as-of date.
+ */
+export function calendarDaysSince(asOf: string | null | undefined, now: Date = new Date()): number {
+  if (!asOf) return 0
+  const ms = Date.parse(`${todayIso(now)}T00:00:00Z`) - Date.parse(`${asOf}T00:00:00Z`)
+  return Math.max(0, Math.ceil(ms / 86_400_000))
+}
+
+/**
+ * Step a date by `sessions` weekdays (holidays are not skipped; routes fall
+ * back to the prior session when the date has no bar).
+ */
+export function shiftWeekdays(date: string, sessions: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  const step = sessions < 0 ? -1 : 1
+  let remaining = Math.abs(sessions)
+  while (remaining > 0) {
+    d.setUTCDate(d.getUTCDate() + step)
+    const day = d.getUTCDay()
+    if (day !== 0 && day !== 6) remaining--
+  }
+  return todayIso(d)
+}
+
+// =============================================================================
+// Market Calendar
+// =============================================================================
+// NYSE full-day holidays by rule. A holiday on a Saturday is observed the
+// Friday before and one on a Sunday the Monday after, except New Year's Day
+// on a Saturday, which is not made up. Unscheduled closures (national days of
+// mourning, weather) are not known here.
+// =============================================================================
+
+const holidaysByYear = new Map<number, Set<string>>()
+
+function isoDate(year: number, month: number, day: number): string {
+  return todayIso(new Date(Date.UTC(year, month - 1, day)))
+}
+
+// nth (1-based) weekday of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month, 0))
+    const back = (last.getUTCDay() - weekday + 7) % 7
+    return isoDate(year, month, last.getUTCDate() - back)
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+  return isoDate(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7)
+}
+
+function observed(year: number, month: number, day: number): string {
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  if (weekday === 6) return isoDate(year, month, day - 1)
+  if (weekday === 0) return isoDate(year, month, day + 1)
+  return isoDate(year, month, day)
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): { month: number; day: number } {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  return { month, day: ((h + l - 7 * m + 114) % 31) + 1 }
+}
+
+function marketHolidays(year: number): Set<string> {
+  const cached = holidaysByYear.get(year)
+  if (cached) return cached
+
+  const easter = easterSunday(year)
+  const holidays = new Set([
+    nthWeekday(year, 1, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 2, 1, 3), // Washington's Birthday
+    isoDate(year, easter.month, easter.day - 2), // Good Friday
+    nthWeekday(year, 5, 1, -1), // Memorial Day
+    observed(year, 7, 4),
+    nthWeekday(year, 9, 1, 1), // Labor Day
+    nthWeekday(year, 11, 4, 4), // Thanksgiving
+    observed(year, 12, 25),
+  ])
+  if (new Date(Date.UTC(year, 0, 1)).getUTCDay() !== 6) holidays.add(observed(year, 1, 1))
+  if (year >= 2022) holidays.add(observed(year, 6, 19)) // Juneteenth
+
+  holidaysByYear.set(year, holidays)
+  return holidays
+}
+
+/**
+ * Whether the NYSE holds a regular session on a YYYY-MM-DD date.
+ */
+export function isTradingDay(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay()
+  if (day === 0 || day === 6) return false
+  return !marketHolidays(Number(date.slice(0, 4))).has(date)
+}
@@ -0,0 +1,137 @@
+// =============================================================================
+// Auth Storage Adapter
+// =============================================================================
+// Everything the auth layer persists goes through AuthAdapter so the storage
+// can be swapped (tests, an external identity store) without touching the
+// providers or routes. The default local adapter uses the app's own Postgres
+// tables: User, Session and VerificationToken.
+// =============================================================================
+
+export interface AuthUser {
+  id: string
+  email: string
+  name: string | null
+  passwordHash: string | null
+  emailVerifiedAt: Date | null
+}
+
+export interface AuthAdapter {
+  getUserByEmail(email: string): Promise<AuthUser | null>
+  getUserById(id: string): Promise<AuthUser | null>
+  createUser(data: { email: string; name?: string | null; passwordHash?: string | null; emailVerifiedAt?: Date | null }): Promise<AuthUser>
+  // Also drops the password and every session: until the owner proves the
+  // address, anyone could have registered it
+  markEmailVerified(userId: string): Promise<AuthUser>
+
+  createSession(data: { userId: string; tokenHash: string; expiresAt: Date }): Promise<void>
+  // Returns the owning user when the session exists and has not expired
+  getSessionUser(tokenHash: string): Promise<AuthUser | null>
+  deleteSession(tokenHash: string): Promise<void>
+
+  createVerificationToken(data: { email: string; tokenHash: string; expiresAt: Date }): Promise<void>
+  // Single use: deletes the token and returns its email if still valid
+  consumeVerificationToken(tokenHash: string): Promise<string | null>
+}
+
+interface UserRow {
+  id: string
+  email: string
+  name: string | null
+  passwordHash: string | null
+  emailVerifiedAt: Date | null
+}
+
+function toAuthUser(row: UserRow): AuthUser {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    passwordHash: row.passwordHash,
+    emailVerifiedAt: row.emailVerifiedAt,
+  }
+}
+
+/**
+ * Local adapter backed by the app database.
+ */
+export const prismaAuthAdapter: AuthAdapter = {
+  async getUserByEmail(email) {
+    const { prisma } = await import('@/lib/prisma')
+    const row = await prisma.user.findUnique({ where: { email } })
+    return row ? toAuthUser(row) : null
+  },
+
+  async getUserById(id) {
+    const { prisma } = await import('@/lib/prisma')
+    const row = await prisma.user.findUnique({ where: { id } })
+    return row ? toAuthUser(row) : null
+  },
+
+  async createUser(data) {
+    const { prisma } = await import('@/lib/prisma')
+    const row = await prisma.user.create({ data })
+    return toAuthUser(row)
+  },
+
+  async markEmailVerified(userId) {
+    const { prisma } = await import('@/lib/prisma')
+    const [row] = await prisma.$transaction([
+      prisma.user.update({ where: { id: userId }, data: { emailVerifiedAt: new Date(), passwordHash: null } }),
+      prisma.session.deleteMany({ where: { userId } }),
+    ])
+    return toAuthUser(row)
+  },
+
+  async createSession(data) {
+    const { prisma } = await import('@/lib/prisma')
+    await prisma.session.create({ data })
+  },
+
+  async getSessionUser(tokenHash) {
+    const { prisma } = await import('@/lib/prisma')
+    const session = await prisma.session.findUnique({
+      where: { tokenHash },
+      include: { user: true },
+    })
+    if (!session) return null
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await prisma.session.deleteMany({ where: { tokenHash } })
+      return null
+    }
+    return toAuthUser(session.user)
+  },
+
+  async deleteSession(tokenHash) {
+    const { prisma } = await import('@/lib/prisma')
+    await prisma.session.deleteMany({ where: { tokenHash } })
+  },
+
+  async createVerificationToken(data) {
+    const { prisma } = await import('@/lib/prisma')
+    await prisma.verificationToken.create({ data })
+  },
+
+  async consumeVerificationToken(tokenHash) {
+    const { prisma } = await import('@/lib/prisma')
+    const token = await prisma.verificationToken.findUnique({ where: { tokenHash } })
+    if (!token) return null
+
+    // deleteMany makes a concurrent second use a no-op (count 0)
+    const { count } = await prisma.verificationToken.deleteMany({ where: { tokenHash } })
+    if (count === 0 || token.expiresAt.getTime() <= Date.now()) return null
+    return token.email
+  },
+}
+
+let activeAdapter: AuthAdapter = prismaAuthAdapter
+
+export function getAuthAdapter(): AuthAdapter {
+  return activeAdapter
+}
+
+/**
+ * Replace the storage adapter (e.g. an in-memory adapter in tests).
+ */
+export function setAuthAdapter(adapter: AuthAdapter): void {
+  activeAdapter = adapter
+}
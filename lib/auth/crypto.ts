@@ -0,0 +1,55 @@
+// =============================================================================
+// Auth Crypto Helpers
+// =============================================================================
+// Opaque tokens for sessions and magic links (only their SHA-256 is stored)
+// and scrypt password hashing for the credentials provider.
+// =============================================================================
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+
+const SCRYPT_KEY_LENGTH = 64
+const SCRYPT_SALT_BYTES = 16
+
+/**
+ * Random URL-safe token for cookies and emailed links.
+ */
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString('base64url')
+}
+
+/**
+ * Hash a token for storage and lookup.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+/**
+ * Hash a password as `scrypt$<salt>$<key>` (base64url parts).
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SCRYPT_SALT_BYTES)
+  const key = await deriveKey(password, salt)
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`
+}
+
+/**
+ * Constant-time check of a password against a stored hash.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !key) return false
+
+  const expected = Buffer.from(key, 'base64url')
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64url'))
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,8 @@
+// =============================================================================
+// Auth Module - Public Exports
+// =============================================================================
+
+export * from './adapter'
+export * from './crypto'
+export * from './providers'
+export * from './session'
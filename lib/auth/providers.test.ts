@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { getAuthAdapter, setAuthAdapter, prismaAuthAdapter, type AuthAdapter, type AuthUser } from './adapter'
+import { hashPassword, verifyPassword } from './crypto'
+import {
+  registerWithPassword,
+  requestMagicLink,
+  setMagicLinkSender,
+  signInWithPassword,
+  verifyMagicLink,
+  type MagicLinkMessage,
+} from './providers'
+
+function createMemoryAdapter(): AuthAdapter {
+  const users: AuthUser[] = []
+  const tokens = new Map<string, { email: string; expiresAt: Date }>()
+  const sessions = new Map<string, string>() // tokenHash -> userId
+
+  return {
+    async getUserByEmail(email) {
+      return users.find((u) => u.email === email) ?? null
+    },
+    async getUserById(id) {
+      return users.find((u) => u.id === id) ?? null
+    },
+    async createUser(data) {
+      const user: AuthUser = {
+        id: `user-${users.length + 1}`,
+        email: data.email,
+        name: data.name ?? null,
+        passwordHash: data.passwordHash ?? null,
+        emailVerifiedAt: data.emailVerifiedAt ?? null,
+      }
+      users.push(user)
+      return user
+    },
+    async markEmailVerified(userId) {
+      const user = users.find((u) => u.id === userId)!
+      user.emailVerifiedAt = new Date()
+      user.passwordHash = null
+      for (const [tokenHash, owner] of sessions) {
+        if (owner === userId) sessions.delete(tokenHash)
+      }
+      return user
+    },
+    async createSession({ userId, tokenHash }) {
+      sessions.set(tokenHash, userId)
+    },
+    async getSessionUser(tokenHash) {
+      return users.find((u) => u.id === sessions.get(tokenHash)) ?? null
+    },
+    async deleteSession(tokenHash) {
+      sessions.delete(tokenHash)
+    },
+    async createVerificationToken({ email, tokenHash, expiresAt }) {
+      tokens.set(tokenHash, { email, expiresAt })
+    },
+    async consumeVerificationToken(tokenHash) {
+      const token = tokens.get(tokenHash)
+      tokens.delete(tokenHash)
+      return token && token.expiresAt.getTime() > Date.now() ? token.email : null
+    },
+  }
+}
+
+const ENV_KEYS = ['DATABASE_URL', 'AUTH_PROVIDERS'] as const
+const savedEnv: Record<string, string | undefined> = {}
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) savedEnv[key] = process.env[key]
+  process.env.DATABASE_URL = 'postgres://test'
+  process.env.AUTH_PROVIDERS = 'credentials,magic-link'
+  setAuthAdapter(createMemoryAdapter())
+})
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key]
+    else process.env[key] = savedEnv[key]
+  }
+  setAuthAdapter(prismaAuthAdapter)
+  setMagicLinkSender(null)
+})
+
+describe('password hashing', () => {
+  it('verifies the original password only', async () => {
+    const stored = await hashPassword('correct horse')
+    expect(await verifyPassword('correct horse', stored)).toBe(true)
+    expect(await verifyPassword('wrong horse', stored)).toBe(false)
+    expect(await verifyPassword('correct horse', 'plain')).toBe(false)
+  })
+})
+
+describe('credentials provider', () => {
+  it('registers, rejects duplicates and signs in case-insensitively', async () => {
+    const registered = await registerWithPassword({ email: 'Trader@Example.com', password: 'longenough' })
+    expect(registered.success && registered.user.email).toBe('trader@example.com')
+
+    // Same answer as any other rejected registration, so it doesn't confirm the account
+    const duplicate = await registerWithPassword({ email: 'trader@example.com', password: 'longenough' })
+    expect(duplicate).toMatchObject({ success: false, status: 400 })
+    expect(duplicate.success || duplicate.error).not.toMatch(/exists/)
+
+    expect((await signInWithPassword({ email: 'TRADER@example.com', password: 'longenough' })).success).toBe(true)
+    expect(await signInWithPassword({ email: 'trader@example.com', password: 'nope-nope' })).toMatchObject({
+      success: false,
+      status: 401,
+    })
+  })
+
+  it('is unavailable when not listed in AUTH_PROVIDERS', async () => {
+    process.env.AUTH_PROVIDERS = 'magic-link'
+    expect(await signInWithPassword({ email: 'a@b.co', password: 'whatever1' })).toMatchObject({ status: 404 })
+  })
+})
+
+describe('magic-link provider', () => {
+  it('issues a single-use link that creates a verified user', async () => {
+    const sent: MagicLinkMessage[] = []
+    setMagicLinkSender(async (message) => {
+      sent.push(message)
+    })
+
+    expect(await requestMagicLink('new@example.com', 'http://localhost:3000')).toEqual({ success: true })
+    expect(sent).toHaveLength(1)
+
+    const token = new URL(sent[0].url).searchParams.get('token')!
+    const first = await verifyMagicLink(token)
+    expect(first.success && first.user.emailVerifiedAt).toBeInstanceOf(Date)
+
+    expect(await verifyMagicLink(token)).toMatchObject({ success: false, status: 401 })
+  })
+
+  it("takes an unverified account back from whoever registered the owner's email", async () => {
+    const sent: MagicLinkMessage[] = []
+    setMagicLinkSender(async (message) => {
+      sent.push(message)
+    })
+    const adapter = getAuthAdapter()
+
+    // Someone else registers the address with a password and signs in
+    const squatted = await registerWithPassword({ email: 'owner@example.com', password: 'attacker-pw' })
+    if (!squatted.success) throw new Error(squatted.error)
+    await adapter.createSession({ userId: squatted.user.id, tokenHash: 'attacker-session', expiresAt: new Date() })
+
+    // The owner follows a magic link
+    await requestMagicLink('owner@example.com', 'http://localhost:3000')
+    const verified = await verifyMagicLink(new URL(sent[0].url).searchParams.get('token')!)
+
+    expect(verified.success && verified.user).toMatchObject({ id: squatted.user.id, passwordHash: null })
+    expect(await adapter.getSessionUser('attacker-session')).toBeNull()
+    expect(await signInWithPassword({ email: 'owner@example.com', password: 'attacker-pw' })).toMatchObject({
+      success: false,
+      status: 401,
+    })
+  })
+})
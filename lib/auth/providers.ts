@@ -0,0 +1,200 @@
+// =============================================================================
+// Auth Providers
+// =============================================================================
+// AUTH_PROVIDERS selects the sign-in methods (comma separated):
+//   credentials -> email + password (scrypt hash on User)
+//   magic-link  -> emailed single-use link (VerificationToken)
+// Auth is disabled when AUTH_PROVIDERS is empty or there is no database; every
+// request then acts as the single local user, as before.
+//
+// Magic links are handed to a MagicLinkSender. The local sender logs the link
+// (development); AUTH_EMAIL_WEBHOOK_URL posts { to, subject, text, url } to a
+// mail relay instead.
+// =============================================================================
+
+import { logger } from '@/lib/logger'
+import { getAuthAdapter, type AuthUser } from './adapter'
+import { generateToken, hashPassword, hashToken, verifyPassword } from './crypto'
+
+export type AuthProviderId = 'credentials' | 'magic-link'
+
+const KNOWN_PROVIDERS: AuthProviderId[] = ['credentials', 'magic-link']
+
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000
+export const MIN_PASSWORD_LENGTH = 8
+
+export interface AuthFailure {
+  success: false
+  error: string
+  status: number // HTTP status for the route to return
+}
+
+export type AuthResult = { success: true; user: AuthUser } | AuthFailure
+
+function failure(error: string, status = 400): AuthFailure {
+  return { success: false, error, status }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export function getEnabledProviders(): AuthProviderId[] {
+  const raw = process.env.AUTH_PROVIDERS ?? ''
+  return raw
+    .split(',')
+    .map((p) => p.trim().toLowerCase())
+    .filter((p): p is AuthProviderId => KNOWN_PROVIDERS.includes(p as AuthProviderId))
+}
+
+export function isAuthEnabled(): boolean {
+  return !!process.env.DATABASE_URL && getEnabledProviders().length > 0
+}
+
+export function isProviderEnabled(provider: AuthProviderId): boolean {
+  return isAuthEnabled() && getEnabledProviders().includes(provider)
+}
+
+function disabled(provider: AuthProviderId): AuthFailure {
+  return failure(`Sign-in method "${provider}" is not enabled`, 404)
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// =============================================================================
+// Credentials
+// =============================================================================
+
+export async function registerWithPassword(input: {
+  email: string
+  password: string
+  name?: string
+}): Promise<AuthResult> {
+  if (!isProviderEnabled('credentials')) return disabled('credentials')
+  const adapter = getAuthAdapter()
+  const email = normalizeEmail(input.email)
+
+  if (input.password.length < MIN_PASSWORD_LENGTH) {
+    return failure(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+  // Deliberately vague so registration can't be used to probe for accounts
+  if (await adapter.getUserByEmail(email)) {
+    return failure('Unable to register with these details. If you already have an account, sign in instead.')
+  }
+
+  const user = await adapter.createUser({
+    email,
+    name: input.name?.trim() || null,
+    passwordHash: await hashPassword(input.password),
+  })
+  return { success: true, user }
+}
+
+export async function signInWithPassword(input: { email: string; password: string }): Promise<AuthResult> {
+  if (!isProviderEnabled('credentials')) return disabled('credentials')
+  const user = await getAuthAdapter().getUserByEmail(normalizeEmail(input.email))
+
+  // Same error for unknown email and wrong password
+  if (!user?.passwordHash || !(await verifyPassword(input.password, user.passwordHash))) {
+    return failure('Invalid email or password', 401)
+  }
+  return { success: true, user }
+}
+
+// =============================================================================
+// Magic Link
+// =============================================================================
+
+export interface MagicLinkMessage {
+  to: string
+  subject: string
+  text: string
+  url: string
+}
+
+export type MagicLinkSender = (message: MagicLinkMessage) => Promise<void>
+
+const localSender: MagicLinkSender = async (message) => {
+  logger.info('Magic link (local sender)', { email: message.to, url: message.url })
+}
+
+const webhookSender =
+  (endpoint: string): MagicLinkSender =>
+  async (message) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    })
+    if (!response.ok) {
+      throw new Error(`Email webhook returned ${response.status}`)
+    }
+  }
+
+let customSender: MagicLinkSender | null = null
+
+/**
+ * Override how magic links are delivered (takes precedence over env config).
+ */
+export function setMagicLinkSender(sender: MagicLinkSender | null): void {
+  customSender = sender
+}
+
+function getMagicLinkSender(): MagicLinkSender {
+  if (customSender) return customSender
+  const webhook = process.env.AUTH_EMAIL_WEBHOOK_URL
+  return webhook ? webhookSender(webhook) : localSender
+}
+
+/**
+ * Create a single-use link and hand it to the sender. The verify URL is
+ * built from `origin` (the request origin or NEXT_PUBLIC_APP_URL).
+ */
+export async function requestMagicLink(
+  emailInput: string,
+  origin: string
+): Promise<{ success: true } | AuthFailure> {
+  if (!isProviderEnabled('magic-link')) return disabled('magic-link')
+  const email = normalizeEmail(emailInput)
+  const token = generateToken()
+
+  await getAuthAdapter().createVerificationToken({
+    email,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS),
+  })
+
+  const url = `${origin}/api/auth/magic-link?token=${encodeURIComponent(token)}`
+  await getMagicLinkSender()({
+    to: email,
+    subject: 'Sign in to Tucson Trader',
+    text: `Use this link to sign in. It expires in ${MAGIC_LINK_TTL_MS / 60000} minutes.\n\n${url}`,
+    url,
+  })
+  return { success: true }
+}
+
+/**
+ * Exchange a magic-link token for its user, creating the account on first use.
+ * The first link into an account registered with a password but never
+ * verified clears that password and its sessions, so whoever registered the
+ * address first can't keep a way in.
+ */
+export async function verifyMagicLink(token: string): Promise<AuthResult> {
+  if (!isProviderEnabled('magic-link')) return disabled('magic-link')
+  const adapter = getAuthAdapter()
+
+  const email = await adapter.consumeVerificationToken(hashToken(token))
+  if (!email) {
+    return failure('This sign-in link is invalid or has expired', 401)
+  }
+
+  const existing = await adapter.getUserByEmail(email)
+  if (existing) {
+    const user = existing.emailVerifiedAt ? existing : await adapter.markEmailVerified(existing.id)
+    return { success: true, user }
+  }
+  return { success: true, user: await adapter.createUser({ email, emailVerifiedAt: new Date() }) }
+}
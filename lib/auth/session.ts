@@ -0,0 +1,102 @@
+// =============================================================================
+// Sessions and Request Identity
+// =============================================================================
+// Sessions are opaque random tokens in an httpOnly cookie; only their hash is
+// stored. Routes resolve the acting user with getRequestUserId():
+//   auth disabled          -> DEFAULT_USER_ID ("local"), the pre-auth behavior
+//   auth enabled + session -> User.id
+//   auth enabled, no login -> null (route decides: empty result or 401)
+// =============================================================================
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { DEFAULT_USER_ID } from '@/lib/preferences'
+import { getAuthAdapter, type AuthUser } from './adapter'
+import { generateToken, hashToken } from './crypto'
+import { isAuthEnabled } from './providers'
+
+export const SESSION_COOKIE = 'tt_session'
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+
+export interface SessionUser {
+  id: string
+  email: string
+  name: string | null
+}
+
+function toSessionUser(user: AuthUser): SessionUser {
+  return { id: user.id, email: user.email, name: user.name }
+}
+
+// =============================================================================
+// Session Lifecycle
+// =============================================================================
+
+/**
+ * Start a session for `user` and set the cookie on `response`.
+ */
+export async function startSession<T extends NextResponse>(response: T, user: AuthUser): Promise<T> {
+  const token = generateToken()
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  await getAuthAdapter().createSession({ userId: user.id, tokenHash: hashToken(token), expiresAt })
+
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+  return response
+}
+
+/**
+ * Delete the request's session (if any) and clear the cookie on `response`.
+ */
+export async function endSession<T extends NextResponse>(request: NextRequest, response: T): Promise<T> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (token && isAuthEnabled()) {
+    await getAuthAdapter().deleteSession(hashToken(token))
+  }
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
+
+// =============================================================================
+// Request Identity
+// =============================================================================
+
+/**
+ * Signed-in user for the request, or null (also null when auth is disabled).
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  if (!isAuthEnabled()) return null
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (!token) return null
+
+  const user = await getAuthAdapter().getSessionUser(hashToken(token))
+  return user ? toSessionUser(user) : null
+}
+
+/**
+ * Owner id for data scoped to the acting user. See the header for semantics.
+ */
+export async function getRequestUserId(request: NextRequest): Promise<string | null> {
+  if (!isAuthEnabled()) return DEFAULT_USER_ID
+  const user = await getSessionUser(request)
+  return user?.id ?? null
+}
+
+/**
+ * Like getRequestUserId, but yields a 401 response for anonymous requests.
+ */
+export async function requireUserId(
+  request: NextRequest
+): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const userId = await getRequestUserId(request)
+  if (!userId) {
+    return { response: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) }
+  }
+  return { userId }
+}
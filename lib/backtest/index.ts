@@ -0,0 +1,6 @@
+// =============================================================================
+// Backtest Module - Public Exports
+// =============================================================================
+
+export * from './signals'
+export * from './run'
@@ -0,0 +1,55 @@
+// =============================================================================
+// Signal Backtest Runner
+// =============================================================================
+// Loads history from the bar store and runs the signal backtest. Shared by
+// /api/backtest and the backtest_signals chat tool.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+import { getDailyBars } from '@/lib/bars/store'
+import { runSignalBacktest, type SignalBacktestOptions, type SignalBacktestResult } from './signals'
+
+export const DEFAULT_BACKTEST_SYMBOLS = ['DJI', 'SPX', 'IXIC', 'NDX', 'RUT', 'SOX']
+
+// Trading sessions per year
+const SESSIONS_PER_YEAR = 252
+
+export interface BacktestRunResult extends SignalBacktestResult {
+  failedSymbols: string[]
+}
+
+/**
+ * Backtest the trader signals over `years` of history for `symbols`.
+ *
+ * @returns null when no symbol returned enough data
+ */
+export async function backtestSymbols(
+  symbols: string[],
+  years: number,
+  options: SignalBacktestOptions = {}
+): Promise<BacktestRunResult | null> {
+  const lookback = options.lookback ?? 63
+  const days = Math.round(years * SESSIONS_PER_YEAR) + lookback
+
+  const results = await Promise.allSettled(symbols.map((symbol) => getDailyBars(symbol, days)))
+
+  const barsBySymbol: Record<string, DailyBar[]> = {}
+  const failedSymbols: string[] = []
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value.length > lookback) {
+      barsBySymbol[symbols[index]] = result.value
+    } else {
+      failedSymbols.push(symbols[index])
+    }
+  })
+
+  if (Object.keys(barsBySymbol).length === 0) {
+    return null
+  }
+
+  return {
+    ...runSignalBacktest(barsBySymbol, options),
+    failedSymbols,
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { runSignalBacktest } from './signals'
+import type { DailyBar } from '@/lib/massive-api'
+
+function makeBars(closes: number[], highs?: number[]): DailyBar[] {
+  const start = new Date('2024-01-01')
+  return closes.map((close, i) => {
+    const date = new Date(start)
+    date.setDate(date.getDate() + i)
+    return {
+      date: date.toISOString().split('T')[0],
+      open: close,
+      high: highs?.[i] ?? close,
+      low: close,
+      close,
+      volume: 0,
+    }
+  })
+}
+
+describe('runSignalBacktest', () => {
+  it('scores confirmed breakouts in a steady uptrend', () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 100 + i)
+    const result = runSignalBacktest({ AAA: makeBars(closes) }, { lookback: 5, horizons: [1, 5] })
+
+    const confirmations = result.groups.find((g) => g.signal === 'confirmation')
+    // Every session after warm-up is a new high on both bases
+    expect(confirmations?.count).toBe(36)
+    expect(confirmations?.horizons[0].hitRate).toBe(1)
+    expect(confirmations?.horizons[1].samples).toBe(31)
+    expect(confirmations?.avgDrawdown).toBe(0)
+    expect(result.groups.some((g) => g.signal === 'rejection')).toBe(false)
+  })
+
+  it('records rejections by severity with bearish hit rates', () => {
+    // Close peaks early, then a late intraday spike above it fails to hold
+    const closes = [100, 110, 108, 106, 104, 102, 101, 100, 99, 98, 97, 96]
+    const highs = [...closes]
+    highs[6] = 115
+    const result = runSignalBacktest({ AAA: makeBars(closes, highs) }, { lookback: 6, horizons: [1, 5] })
+
+    const rejection = result.groups.find((g) => g.signal === 'rejection')
+    expect(rejection?.variant).toBe('notable')
+    expect(rejection?.count).toBe(1)
+    expect(rejection?.horizons[0].avgReturn).toBeLessThan(0)
+    expect(rejection?.horizons[0].hitRate).toBe(1)
+    expect(result.recentEvents[0]).toMatchObject({ symbol: 'AAA', signal: 'rejection' })
+  })
+
+  it('always reports an unconditional baseline', () => {
+    const result = runSignalBacktest(
+      { AAA: makeBars(Array.from({ length: 30 }, (_, i) => 100 + (i % 3))) },
+      { lookback: 5 }
+    )
+    const baseline = result.groups.find((g) => g.signal === 'baseline')
+    expect(baseline?.count).toBe(26)
+    expect(result.horizons).toEqual([1, 5, 10, 21])
+  })
+})
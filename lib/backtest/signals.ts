@@ -0,0 +1,320 @@
+// =============================================================================
+// Trader Signal Backtest
+// =============================================================================
+// Replays detectConfirmations / detectRejections / detectDivergences over
+// historical daily bars and measures what happened next. Every session is
+// evaluated exactly as the dashboard would have seen it that day, using only
+// bars up to and including the signal date.
+//
+// Forward returns are close-to-close. Drawdown is the worst low within the
+// longest horizon relative to the signal-day close. Divergences are scored
+// on the leader - the index at highs whose move the divergence questions.
+// =============================================================================
+
+import { computeEnhancedMetrics, type DailyBar, type HeatmapMetrics } from '@/lib/massive-api'
+import {
+  detectConfirmations,
+  detectRejections,
+  detectDivergences,
+  TRADER_CONFIG,
+  type DivergenceType,
+  type TraderConfig,
+} from '@/lib/trader-signals'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BacktestSignal = 'confirmation' | 'rejection' | 'divergence' | 'baseline'
+export type SignalDirection = 'bullish' | 'bearish'
+
+export interface HorizonStats {
+  days: number
+  samples: number
+  avgReturn: number // Percent
+  medianReturn: number // Percent
+  hitRate: number // Share of samples that moved in the signal's direction (0-1)
+}
+
+export interface SignalGroupStats {
+  signal: BacktestSignal
+  variant: string // Severity for rejections, divergence type, or 'all'
+  label: string
+  direction: SignalDirection
+  count: number
+  horizons: HorizonStats[]
+  avgDrawdown: number // Percent (negative)
+  worstDrawdown: number // Percent (negative)
+}
+
+export interface BacktestEvent {
+  date: string
+  symbol: string
+  signal: Exclude<BacktestSignal, 'baseline'>
+  variant: string
+}
+
+export interface SignalBacktestResult {
+  symbols: string[]
+  lookback: number
+  horizons: number[]
+  from: string
+  to: string
+  sessions: number
+  config: TraderConfig
+  groups: SignalGroupStats[]
+  recentEvents: BacktestEvent[]
+}
+
+export interface SignalBacktestOptions {
+  lookback?: number
+  horizons?: number[]
+  config?: TraderConfig
+  recentEventLimit?: number
+}
+
+interface SymbolSeries {
+  bars: DailyBar[]
+  high: HeatmapMetrics[]
+  close: HeatmapMetrics[]
+  indexByDate: Map<string, number>
+}
+
+interface Sample {
+  returns: (number | null)[] // Aligned with horizons
+  drawdown: number | null
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_HORIZONS = [1, 5, 10, 21]
+
+// What each divergence implies for the leader going forward
+const DIVERGENCE_DIRECTION: Record<DivergenceType, SignalDirection> = {
+  'small-caps-lagging': 'bearish',
+  'semis-leading': 'bullish',
+  'growth-leading': 'bullish',
+  'dow-leading': 'bearish',
+  'vix-elevated': 'bearish',
+  'breadth-divergence': 'bearish',
+}
+
+const SEVERITY_LABELS: Record<string, string> = {
+  mild: 'Rejection (mild)',
+  notable: 'Rejection (notable)',
+  strong: 'Rejection (strong)',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+/**
+ * Forward close-to-close returns and max adverse excursion from bar `i`.
+ */
+function measureForward(bars: DailyBar[], i: number, horizons: number[]): Sample {
+  const entry = bars[i].close
+  const returns = horizons.map((h) =>
+    i + h < bars.length ? ((bars[i + h].close - entry) / entry) * 100 : null
+  )
+
+  const maxHorizon = Math.max(...horizons)
+  if (i + maxHorizon >= bars.length) {
+    return { returns, drawdown: null }
+  }
+
+  let minLow = entry
+  for (let j = i + 1; j <= i + maxHorizon; j++) {
+    minLow = Math.min(minLow, bars[j].low)
+  }
+
+  return { returns, drawdown: ((minLow - entry) / entry) * 100 }
+}
+
+function summarize(
+  signal: BacktestSignal,
+  variant: string,
+  label: string,
+  direction: SignalDirection,
+  samples: Sample[],
+  horizons: number[]
+): SignalGroupStats {
+  const horizonStats = horizons.map((days, h) => {
+    const values = samples.map((s) => s.returns[h]).filter((r): r is number => r !== null)
+    const hits = values.filter((r) => (direction === 'bullish' ? r > 0 : r < 0)).length
+
+    return {
+      days,
+      samples: values.length,
+      avgReturn: values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length) : 0,
+      medianReturn: round(median(values)),
+      hitRate: values.length > 0 ? round(hits / values.length, 3) : 0,
+    }
+  })
+
+  const drawdowns = samples.map((s) => s.drawdown).filter((d): d is number => d !== null)
+
+  return {
+    signal,
+    variant,
+    label,
+    direction,
+    count: samples.length,
+    horizons: horizonStats,
+    avgDrawdown: drawdowns.length > 0 ? round(drawdowns.reduce((a, b) => a + b, 0) / drawdowns.length) : 0,
+    worstDrawdown: drawdowns.length > 0 ? round(Math.min(...drawdowns)) : 0,
+  }
+}
+
+// =============================================================================
+// Backtest
+// =============================================================================
+
+/**
+ * Replay the trader signals over each symbol's history.
+ *
+ * @param barsBySymbol - Ascending daily bars per symbol (years of history)
+ * @returns Per signal/severity stats plus the most recent events
+ */
+export function runSignalBacktest(
+  barsBySymbol: Record<string, DailyBar[]>,
+  options: SignalBacktestOptions = {}
+): SignalBacktestResult {
+  const lookback = options.lookback ?? 63
+  const horizons = options.horizons ?? DEFAULT_HORIZONS
+  const config = options.config ?? TRADER_CONFIG
+  const recentEventLimit = options.recentEventLimit ?? 20
+
+  // Precompute metrics for both bases once per symbol
+  const series: Record<string, SymbolSeries> = {}
+  for (const [symbol, bars] of Object.entries(barsBySymbol)) {
+    if (bars.length <= lookback) continue
+    series[symbol] = {
+      bars,
+      high: computeEnhancedMetrics(bars, lookback, 'intraday'),
+      close: computeEnhancedMetrics(bars, lookback, 'close'),
+      indexByDate: new Map(bars.map((bar, i) => [bar.date, i])),
+    }
+  }
+
+  const symbols = Object.keys(series)
+  const dateSet = new Set<string>()
+  for (const symbol of symbols) {
+    // Skip the warm-up period where the rolling window is only partly filled
+    for (const bar of series[symbol].bars.slice(lookback - 1)) {
+      dateSet.add(bar.date)
+    }
+  }
+  const dates = Array.from(dateSet).sort()
+
+  const groups = new Map<string, { signal: BacktestSignal; variant: string; label: string; direction: SignalDirection; samples: Sample[] }>()
+  const events: BacktestEvent[] = []
+
+  const record = (
+    signal: BacktestSignal,
+    variant: string,
+    label: string,
+    direction: SignalDirection,
+    symbol: string,
+    date: string
+  ) => {
+    const s = series[symbol]
+    const i = s?.indexByDate.get(date)
+    if (i === undefined) return
+
+    const key = `${signal}:${variant}`
+    let group = groups.get(key)
+    if (!group) {
+      group = { signal, variant, label, direction, samples: [] }
+      groups.set(key, group)
+    }
+    group.samples.push(measureForward(s.bars, i, horizons))
+
+    if (signal !== 'baseline') {
+      events.push({ date, symbol, signal, variant })
+    }
+  }
+
+  for (const date of dates) {
+    const highRow: Record<string, number> = {}
+    const closeRow: Record<string, number> = {}
+
+    for (const symbol of symbols) {
+      const i = series[symbol].indexByDate.get(date)
+      if (i === undefined || i < lookback - 1) continue
+      highRow[symbol] = series[symbol].high[i].daysSinceHigh
+      closeRow[symbol] = series[symbol].close[i].daysSinceHigh
+
+      // Unconditional reference: every symbol-session
+      record('baseline', 'all', 'Baseline (any day)', 'bullish', symbol, date)
+    }
+
+    for (const confirmation of detectConfirmations(highRow, closeRow, date)) {
+      record('confirmation', 'all', 'Confirmed breakout', 'bullish', confirmation.symbol, date)
+    }
+
+    for (const rejection of detectRejections(highRow, closeRow, date, config)) {
+      record(
+        'rejection',
+        rejection.severity,
+        SEVERITY_LABELS[rejection.severity],
+        'bearish',
+        rejection.symbol,
+        date
+      )
+    }
+
+    for (const divergence of detectDivergences(closeRow, Number.POSITIVE_INFINITY)) {
+      record(
+        'divergence',
+        divergence.type,
+        divergence.title,
+        DIVERGENCE_DIRECTION[divergence.type],
+        divergence.symbols.leader,
+        date
+      )
+    }
+  }
+
+  const signalOrder: Record<BacktestSignal, number> = {
+    confirmation: 0,
+    rejection: 1,
+    divergence: 2,
+    baseline: 3,
+  }
+  const severityOrder: Record<string, number> = { mild: 0, notable: 1, strong: 2 }
+
+  const groupStats = Array.from(groups.values())
+    .map((g) => summarize(g.signal, g.variant, g.label, g.direction, g.samples, horizons))
+    .sort((a, b) => {
+      const bySignal = signalOrder[a.signal] - signalOrder[b.signal]
+      if (bySignal !== 0) return bySignal
+      return (severityOrder[a.variant] ?? 0) - (severityOrder[b.variant] ?? 0) || a.variant.localeCompare(b.variant)
+    })
+
+  return {
+    symbols,
+    lookback,
+    horizons,
+    from: dates[0] ?? '',
+    to: dates[dates.length - 1] ?? '',
+    sessions: dates.length,
+    config,
+    groups: groupStats,
+    recentEvents: events.slice(-recentEventLimit).reverse(),
+  }
+}
@@ -0,0 +1,72 @@
+// =============================================================================
+// Corporate Actions Store - splits and dividends behind the bar store
+// =============================================================================
+// Actions are kept per symbol in Postgres and refreshed from Polygon at most
+// once per ACTIONS_TTL_MS (tracked on the symbol's DailyBarSync row). When
+// the refresh fails, the stored actions are served as-is. Requires
+// DATABASE_URL; the bar store only calls this on its database path.
+// =============================================================================
+
+import { fetchCorporateActions, type CorporateAction } from '@/lib/massive-api'
+import { logger } from '@/lib/logger'
+
+const ACTIONS_TTL_MS = 24 * 60 * 60 * 1000
+
+interface CorporateActionRow {
+  symbol: string
+  type: string
+  exDate: string
+  ratio: number | null
+  cashAmount: number | null
+  dividendType: string | null
+}
+
+async function refreshActions(symbol: string): Promise<void> {
+  const { prisma } = await import('@/lib/prisma')
+
+  const response = await fetchCorporateActions(symbol)
+  if (!response.success) {
+    logger.warn('Corporate actions refresh failed, using stored actions', {
+      symbol,
+      error: response.error?.message,
+    })
+    return
+  }
+
+  await prisma.$transaction([
+    prisma.corporateAction.createMany({
+      data: response.actions.map((action) => ({ ...action, symbol })),
+      skipDuplicates: true,
+    }),
+    // No-op until the bar store has written the symbol's sync row
+    prisma.dailyBarSync.updateMany({ where: { symbol }, data: { actionsSyncedAt: new Date() } }),
+  ])
+}
+
+/**
+ * Every stored split and dividend for `symbol` (as keyed in the bar store),
+ * oldest first, refreshing from Polygon when the last refresh is stale.
+ */
+export async function getStoredCorporateActions(symbol: string): Promise<CorporateAction[]> {
+  const { prisma } = await import('@/lib/prisma')
+
+  const sync = await prisma.dailyBarSync.findUnique({ where: { symbol } })
+  const syncedAt: Date | null = sync?.actionsSyncedAt ?? null
+  if (!syncedAt || Date.now() - syncedAt.getTime() > ACTIONS_TTL_MS) {
+    await refreshActions(symbol)
+  }
+
+  const rows: CorporateActionRow[] = await prisma.corporateAction.findMany({
+    where: { symbol },
+    orderBy: { exDate: 'asc' },
+  })
+
+  return rows.map((row) => ({
+    symbol: row.symbol,
+    type: row.type === 'split' ? 'split' : 'dividend',
+    exDate: row.exDate,
+    ratio: row.ratio,
+    cashAmount: row.cashAmount,
+    dividendType: row.dividendType,
+  }))
+}
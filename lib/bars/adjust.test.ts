@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import type { CorporateAction, DailyBar } from '@/lib/massive-api'
+import { adjustBars, assessBarQuality } from './adjust'
+
+function bar(date: string, close: number, volume = 100): DailyBar {
+  return { date, open: close, high: close, low: close, close, volume }
+}
+
+function split(exDate: string, ratio: number): CorporateAction {
+  return { symbol: 'AAA', type: 'split', exDate, ratio, cashAmount: null, dividendType: null }
+}
+
+function dividend(exDate: string, cashAmount: number, dividendType = 'CD'): CorporateAction {
+  return { symbol: 'AAA', type: 'dividend', exDate, ratio: null, cashAmount, dividendType }
+}
+
+const RAW = [bar('2024-06-05', 400), bar('2024-06-06', 404), bar('2024-06-07', 101), bar('2024-06-10', 102)]
+
+describe('adjustBars', () => {
+  it('rescales prices and volume before a split', () => {
+    const adjusted = adjustBars(RAW, [split('2024-06-07', 4)])
+    expect(adjusted.map((b) => b.close)).toEqual([100, 101, 101, 102])
+    expect(adjusted.map((b) => b.volume)).toEqual([400, 400, 100, 100])
+  })
+
+  it('backs out special dividends but leaves regular ones and future actions alone', () => {
+    const bars = [bar('2024-03-01', 50), bar('2024-03-04', 40), bar('2024-03-05', 40)]
+    const actions = [
+      dividend('2024-03-04', 10, 'SC'),
+      dividend('2024-03-05', 0.2),
+      split('2024-09-01', 2), // Declared, not yet effective
+    ]
+    expect(adjustBars(bars, actions).map((b) => b.close)).toEqual([40, 40, 40])
+  })
+})
+
+describe('assessBarQuality', () => {
+  it('flags unexplained jumps and missing sessions', () => {
+    const issues = assessBarQuality([...RAW, bar('2024-06-20', 103)])
+    expect(issues).toEqual([
+      { kind: 'jump', date: '2024-06-07', detail: '-75% move with no split or dividend on record' },
+      { kind: 'gap', date: '2024-06-20', detail: 'No sessions for 10 days after 2024-06-10' },
+    ])
+  })
+
+  it('accepts a jump on a corporate action ex-date', () => {
+    expect(assessBarQuality(RAW, [split('2024-06-07', 4)])).toEqual([])
+  })
+})
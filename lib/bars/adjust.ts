@@ -0,0 +1,131 @@
+// =============================================================================
+// Corporate Action Adjustment & Data Quality
+// =============================================================================
+// The bar store keeps unadjusted prices; adjustBars turns them into a series
+// whose rolling highs and lows are comparable across a split or a large cash
+// payout. Splits rescale earlier prices and volumes. Regular dividends stay
+// in the prices, as in Polygon's adjusted bars; special dividends (and any
+// payout of at least SPECIAL_DIVIDEND_MIN_YIELD) are backed out, because they
+// gap the price the way a split does.
+//
+// assessBarQuality flags what adjustment cannot fix: sessions missing from
+// the history, and moves too large to be trading with no action on record.
+// =============================================================================
+
+import type { CorporateAction, DailyBar } from '@/lib/massive-api'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const SPECIAL_DIVIDEND_MIN_YIELD = 0.05
+const MAX_SESSION_GAP_DAYS = 5 // Longer than any holiday weekend
+const UNEXPLAINED_JUMP = 0.4 // 40% close-to-close
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BarQualityIssue {
+  kind: 'gap' | 'jump'
+  date: string // Session after the gap, or the session that jumped
+  detail: string
+}
+
+// =============================================================================
+// Adjustment
+// =============================================================================
+
+/**
+ * Price factor for `action`, given the unadjusted close of the session
+ * before its ex-date. 1 means the action does not move earlier prices.
+ */
+function priceFactor(action: CorporateAction, previousClose: number): number {
+  if (action.type === 'split') {
+    return action.ratio && action.ratio > 0 ? 1 / action.ratio : 1
+  }
+
+  const cash = action.cashAmount ?? 0
+  if (cash <= 0 || previousClose <= 0 || cash >= previousClose) return 1
+  const special = action.dividendType === 'SC' || cash / previousClose >= SPECIAL_DIVIDEND_MIN_YIELD
+  return special ? 1 - cash / previousClose : 1
+}
+
+/**
+ * Back-adjust unadjusted bars (ascending) for the actions inside their range.
+ * Actions dated after the last bar have not happened yet and are ignored.
+ */
+export function adjustBars(bars: DailyBar[], actions: CorporateAction[]): DailyBar[] {
+  if (bars.length === 0) return bars
+
+  const lastDate = bars[bars.length - 1].date
+  const pending = actions
+    .filter((action) => action.exDate <= lastDate)
+    .sort((a, b) => b.exDate.localeCompare(a.exDate))
+
+  let price = 1
+  let volume = 1
+  let next = 0
+  const adjusted: DailyBar[] = new Array(bars.length)
+
+  // Walk back in time; every action dated after a bar scales that bar
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i]
+    while (next < pending.length && pending[next].exDate > bar.date) {
+      const action = pending[next++]
+      const factor = priceFactor(action, bar.close)
+      price *= factor
+      if (action.type === 'split') volume /= factor
+    }
+
+    adjusted[i] =
+      price === 1 && volume === 1
+        ? bar
+        : {
+            ...bar,
+            open: bar.open * price,
+            high: bar.high * price,
+            low: bar.low * price,
+            close: bar.close * price,
+            volume: bar.volume * volume,
+          }
+  }
+
+  return adjusted
+}
+
+// =============================================================================
+// Data Quality
+// =============================================================================
+
+/**
+ * Gaps and unexplained jumps in an ascending series. A jump on an action's
+ * ex-date counts as explained (it is expected in unadjusted bars).
+ */
+export function assessBarQuality(bars: DailyBar[], actions: CorporateAction[] = []): BarQualityIssue[] {
+  const actionDates = new Set(actions.map((action) => action.exDate))
+  const issues: BarQualityIssue[] = []
+
+  for (let i = 1; i < bars.length; i++) {
+    const previous = bars[i - 1]
+    const bar = bars[i]
+
+    const gapDays = (Date.parse(bar.date) - Date.parse(previous.date)) / 86_400_000
+    if (gapDays > MAX_SESSION_GAP_DAYS) {
+      issues.push({ kind: 'gap', date: bar.date, detail: `No sessions for ${gapDays} days after ${previous.date}` })
+    }
+
+    if (previous.close > 0 && !actionDates.has(bar.date)) {
+      const move = bar.close / previous.close - 1
+      if (Math.abs(move) >= UNEXPLAINED_JUMP) {
+        issues.push({
+          kind: 'jump',
+          date: bar.date,
+          detail: `${(move * 100).toFixed(0)}% move with no split or dividend on record`,
+        })
+      }
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,6 @@
+// =============================================================================
+// Daily Bar Store Module
+// =============================================================================
+
+export * from './store'
+export * from './adjust'
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import type { DailyBar } from '@/lib/massive-api'
+
+const prisma = vi.hoisted(() => ({
+  dailyBarSync: { findUnique: vi.fn(), upsert: vi.fn() },
+  dailyBar: { findMany: vi.fn(), createMany: vi.fn(), update: vi.fn() },
+  $transaction: vi.fn(),
+}))
+const api = vi.hoisted(() => ({
+  fetchDailyBars: vi.fn(),
+  fetchDailyBarsRange: vi.fn(),
+  getCacheRevalidation: vi.fn(),
+}))
+vi.mock('@/lib/prisma', () => ({ prisma }))
+vi.mock('@/lib/massive-api', () => api)
+vi.mock('./actions', () => ({ getStoredCorporateActions: vi.fn(async () => []) }))
+
+import { getDailyBars } from './store'
+
+const NOW = new Date('2024-03-15T22:00:00Z')
+
+function bar(date: string, close: number): DailyBar {
+  return { date, open: close, high: close, low: close, close, volume: 100 }
+}
+
+const CACHED = [bar('2024-03-11', 100), bar('2024-03-12', 101), bar('2024-03-13', 102)]
+
+function synced(overrides: { coveredFrom?: string; ageMs?: number; unadjusted?: boolean } = {}) {
+  return {
+    symbol: 'SPY',
+    coveredFrom: overrides.coveredFrom ?? '2024-01-01',
+    lastSyncedAt: new Date(NOW.getTime() - (overrides.ageMs ?? 0)),
+    unadjusted: overrides.unadjusted ?? true,
+  }
+}
+
+// The earliest date the store asked its cache for
+function requiredFrom(): string {
+  return prisma.dailyBar.findMany.mock.calls[0][0].where.date.gte
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+  vi.stubEnv('DATABASE_URL', 'postgres://test')
+
+  for (const model of [prisma.dailyBarSync, prisma.dailyBar]) {
+    for (const fn of Object.values(model)) fn.mockReset()
+  }
+  for (const fn of Object.values(api)) fn.mockReset()
+  prisma.$transaction.mockReset().mockImplementation(async (operations: unknown[]) => operations)
+  prisma.dailyBar.findMany.mockResolvedValue(CACHED)
+  api.getCacheRevalidation.mockReturnValue(300)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+})
+
+describe('getDailyBars', () => {
+  it('serves a fresh cache without going upstream', async () => {
+    prisma.dailyBarSync.findUnique.mockResolvedValue(synced({ ageMs: 60_000 }))
+
+    expect(await getDailyBars('spy', 2)).toEqual(CACHED.slice(-2))
+    expect(prisma.dailyBarSync.findUnique).toHaveBeenCalledWith({ where: { symbol: 'SPY' } })
+    expect(api.fetchDailyBarsRange).not.toHaveBeenCalled()
+    expect(prisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('refetches only the tail once the TTL has passed, writing back new and changed sessions', async () => {
+    prisma.dailyBarSync.findUnique.mockResolvedValue(synced({ ageMs: 3_600_000 }))
+    // The 13th was stored mid-session and has since closed higher
+    api.fetchDailyBarsRange.mockResolvedValue([bar('2024-03-13', 103), bar('2024-03-14', 104)])
+
+    const bars = await getDailyBars('SPY', 3)
+
+    expect(api.fetchDailyBarsRange).toHaveBeenCalledWith('SPY', '2024-03-13', '2024-03-15', { adjusted: false })
+    expect(bars).toEqual([bar('2024-03-12', 101), bar('2024-03-13', 103), bar('2024-03-14', 104)])
+
+    expect(prisma.dailyBar.createMany).toHaveBeenCalledWith({
+      data: [{ symbol: 'SPY', ...bar('2024-03-14', 104) }],
+      skipDuplicates: true,
+    })
+    expect(prisma.dailyBar.update).toHaveBeenCalledTimes(1)
+    expect(prisma.dailyBar.update.mock.calls[0][0]).toMatchObject({
+      where: { symbol_date: { symbol: 'SPY', date: '2024-03-13' } },
+      data: { close: 103 },
+    })
+    expect(prisma.dailyBarSync.upsert.mock.calls[0][0].update).toMatchObject({
+      coveredFrom: '2024-01-01',
+      unadjusted: true,
+    })
+  })
+
+  it('backfills only the history older than what is stored', async () => {
+    prisma.dailyBarSync.findUnique.mockResolvedValue(synced({ coveredFrom: '2024-03-11', ageMs: 60_000 }))
+    api.fetchDailyBarsRange.mockResolvedValue([bar('2024-03-08', 99)])
+
+    const bars = await getDailyBars('SPY', 20)
+
+    expect(api.fetchDailyBarsRange).toHaveBeenCalledTimes(1)
+    expect(api.fetchDailyBarsRange).toHaveBeenCalledWith('SPY', requiredFrom(), '2024-03-10', { adjusted: false })
+    expect(bars).toEqual([bar('2024-03-08', 99), ...CACHED])
+    expect(prisma.dailyBar.createMany.mock.calls[0][0].data).toEqual([{ symbol: 'SPY', ...bar('2024-03-08', 99) }])
+    expect(prisma.dailyBar.update).not.toHaveBeenCalled()
+    expect(prisma.dailyBarSync.upsert.mock.calls[0][0].update.coveredFrom).toBe(requiredFrom())
+  })
+
+  it('backfills the head and refetches a stale tail separately', async () => {
+    prisma.dailyBarSync.findUnique.mockResolvedValue(synced({ coveredFrom: '2024-03-11', ageMs: 3_600_000 }))
+    api.fetchDailyBarsRange.mockImplementation(async (_symbol: string, from: string) =>
+      from === '2024-03-13' ? [bar('2024-03-13', 102), bar('2024-03-14', 104)] : [bar('2024-03-08', 99)]
+    )
+
+    const bars = await getDailyBars('SPY', 20)
+
+    expect(api.fetchDailyBarsRange.mock.calls.map((call) => call.slice(1, 3))).toEqual([
+      [requiredFrom(), '2024-03-10'],
+      ['2024-03-13', '2024-03-15'],
+    ])
+    expect(bars.map((b) => b.date)).toEqual(['2024-03-08', '2024-03-11', '2024-03-12', '2024-03-13', '2024-03-14'])
+    // Unchanged sessions are not rewritten
+    expect(prisma.dailyBar.update).not.toHaveBeenCalled()
+  })
+
+  it('refetches everything unadjusted for a symbol cached before actions were tracked', async () => {
+    // Fresh, fully covered, but split-adjusted
+    prisma.dailyBarSync.findUnique.mockResolvedValue(synced({ ageMs: 60_000, unadjusted: false }))
+    api.fetchDailyBarsRange.mockResolvedValue([bar('2024-03-11', 200), bar('2024-03-12', 202), bar('2024-03-13', 204)])
+
+    const bars = await getDailyBars('SPY', 3)
+
+    expect(api.fetchDailyBarsRange).toHaveBeenCalledWith('SPY', requiredFrom(), '2024-03-15', { adjusted: false })
+    expect(bars.map((b) => b.close)).toEqual([200, 202, 204])
+    expect(prisma.dailyBar.update).toHaveBeenCalledTimes(3)
+    // Coverage restarts from this fetch, not the old adjusted backfill
+    expect(prisma.dailyBarSync.upsert.mock.calls[0][0].update).toMatchObject({
+      coveredFrom: requiredFrom(),
+      unadjusted: true,
+    })
+  })
+
+  it('still serves fetched bars when the write-back fails', async () => {
+    prisma.dailyBarSync.findUnique.mockResolvedValue(null)
+    prisma.dailyBar.findMany.mockResolvedValue([])
+    prisma.$transaction.mockRejectedValue(new Error('connection reset'))
+    api.fetchDailyBarsRange.mockResolvedValue(CACHED)
+
+    expect(await getDailyBars('SPY', 3)).toEqual(CACHED)
+    expect(prisma.dailyBarSync.upsert.mock.calls[0][0].create).toMatchObject({
+      symbol: 'SPY',
+      coveredFrom: requiredFrom(),
+      unadjusted: true,
+    })
+  })
+
+  it('falls through to the provider without a database', async () => {
+    vi.stubEnv('DATABASE_URL', '')
+    api.fetchDailyBars.mockResolvedValue(CACHED)
+
+    expect(await getDailyBars('SPY', 3, '2024-03-13', { adjusted: false })).toEqual(CACHED)
+    expect(api.fetchDailyBars).toHaveBeenCalledWith('SPY', 3, '2024-03-13', { adjusted: false })
+    expect(prisma.dailyBarSync.findUnique).not.toHaveBeenCalled()
+  })
+})
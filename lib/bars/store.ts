@@ -0,0 +1,276 @@
+// =============================================================================
+// Daily Bar Store - Postgres cache in front of Polygon daily aggregates
+// =============================================================================
+// Bars are cached unadjusted per symbol and date. A request only goes
+// upstream for the part of history the store has never seen (backfill) or
+// for the tail since the last sync once the market-hours TTL has elapsed.
+// Stored splits and dividends are applied when the cached bars are served,
+// so a split after caching never leaves stale prices behind. Without
+// DATABASE_URL, or if the database is unreachable, calls fall straight
+// through to Polygon (whose adjusted bars cover splits only).
+// =============================================================================
+
+import {
+  fetchDailyBars,
+  fetchDailyBarsRange,
+  getCacheRevalidation,
+  type CorporateAction,
+  type DailyBar,
+  type DailyBarsOptions,
+} from '@/lib/massive-api'
+import { logger } from '@/lib/logger'
+import { calendarDaysSince, truncateBarsAsOf } from '@/lib/as-of'
+import { getStoredCorporateActions } from './actions'
+import { adjustBars, assessBarQuality, type BarQualityIssue } from './adjust'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DailyBarHistory {
+  bars: DailyBar[]
+  issues: BarQualityIssue[] // Gaps and unexplained jumps in `bars`
+}
+
+interface FetchRange {
+  from: string
+  to: string
+}
+
+interface SyncPlan {
+  cached: DailyBar[]
+  coveredFrom: string | null
+  fetches: FetchRange[] // Upstream ranges still needed, oldest first
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Earliest calendar date needed to cover `days` trading sessions.
+ * Mirrors the 1.5x calendar padding used by fetchDailyBars.
+ */
+function requiredFromDate(days: number): string {
+  const fromDate = new Date()
+  fromDate.setDate(fromDate.getDate() - days * 1.5)
+  return formatDate(fromDate)
+}
+
+function dayBefore(date: string): string {
+  const previous = new Date(`${date}T00:00:00Z`)
+  previous.setUTCDate(previous.getUTCDate() - 1)
+  return formatDate(previous)
+}
+
+function barsEqual(a: DailyBar, b: DailyBar): boolean {
+  return (
+    a.open === b.open &&
+    a.high === b.high &&
+    a.low === b.low &&
+    a.close === b.close &&
+    a.volume === b.volume
+  )
+}
+
+// =============================================================================
+// Sync Planning
+// =============================================================================
+
+async function planSync(symbol: string, requiredFrom: string): Promise<SyncPlan> {
+  const { prisma } = await import('@/lib/prisma')
+
+  const [sync, rows] = await Promise.all([
+    prisma.dailyBarSync.findUnique({ where: { symbol } }),
+    prisma.dailyBar.findMany({
+      where: { symbol, date: { gte: requiredFrom } },
+      orderBy: { date: 'asc' },
+    }),
+  ])
+
+  const cached: DailyBar[] = rows.map((row: DailyBar) => ({
+    date: row.date,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+  }))
+
+  const today = formatDate(new Date())
+
+  // Never synced, or cached split-adjusted before actions were tracked: start over unadjusted
+  if (!sync || !sync.unadjusted) {
+    return { cached, coveredFrom: null, fetches: [{ from: requiredFrom, to: today }] }
+  }
+
+  const fetches: FetchRange[] = []
+
+  // Asked for older history than we've backfilled: fetch only the missing head
+  if (sync.coveredFrom > requiredFrom) {
+    fetches.push({ from: requiredFrom, to: dayBefore(sync.coveredFrom) })
+  }
+
+  // Once the tail is stale for the current market phase, refetch from the
+  // last stored session so a partial intraday bar is replaced
+  const ageMs = Date.now() - sync.lastSyncedAt.getTime()
+  if (ageMs >= getCacheRevalidation() * 1000) {
+    const coveredStart = sync.coveredFrom > requiredFrom ? sync.coveredFrom : requiredFrom
+    const lastDate = cached.length > 0 ? cached[cached.length - 1].date : coveredStart
+    fetches.push({ from: lastDate, to: today })
+  }
+
+  return { cached, coveredFrom: sync.coveredFrom, fetches }
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+async function saveBars(
+  symbol: string,
+  fetched: DailyBar[],
+  cached: DailyBar[],
+  coveredFrom: string
+): Promise<void> {
+  const { prisma } = await import('@/lib/prisma')
+
+  const cachedByDate = new Map(cached.map((bar) => [bar.date, bar]))
+  const inserts = fetched.filter((bar) => !cachedByDate.has(bar.date))
+  // Only rewrite sessions whose values changed (partial day, restated history)
+  const updates = fetched.filter((bar) => {
+    const existing = cachedByDate.get(bar.date)
+    return existing !== undefined && !barsEqual(existing, bar)
+  })
+
+  await prisma.$transaction([
+    prisma.dailyBar.createMany({
+      data: inserts.map((bar) => ({ symbol, ...bar })),
+      skipDuplicates: true,
+    }),
+    ...updates.map((bar) =>
+      prisma.dailyBar.update({
+        where: { symbol_date: { symbol, date: bar.date } },
+        data: {
+          open: bar.open,
+          high: bar.high,
+          low: bar.low,
+          close: bar.close,
+          volume: bar.volume,
+        },
+      })
+    ),
+    prisma.dailyBarSync.upsert({
+      where: { symbol },
+      create: { symbol, coveredFrom, lastSyncedAt: new Date(), unadjusted: true },
+      update: { coveredFrom, lastSyncedAt: new Date(), unadjusted: true },
+    }),
+  ])
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Most recent `days` bars in ascending order (oldest first), with data-quality
+ * issues found in them. Bars are adjusted for splits and special dividends
+ * unless `options.adjusted` is false. Throws when no data exists for the
+ * symbol, exactly like fetchDailyBars. With `asOf`, "most recent" means on or
+ * before that date.
+ */
+export async function getDailyBarHistory(
+  symbol: string,
+  days = 252,
+  asOf?: string | null,
+  options?: DailyBarsOptions
+): Promise<DailyBarHistory> {
+  const adjusted = options?.adjusted ?? true
+
+  if (!process.env.DATABASE_URL) {
+    const bars = await fetchDailyBars(symbol, days, asOf, { adjusted })
+    return { bars, issues: assessBarQuality(bars) }
+  }
+
+  const key = symbol.toUpperCase().trim()
+  // The store syncs through today, so reach back past the as-of date as well
+  const requiredFrom = requiredFromDate(days + calendarDaysSince(asOf))
+
+  let plan: SyncPlan
+  try {
+    plan = await planSync(key, requiredFrom)
+  } catch (error) {
+    logger.warn('Bar store unavailable, fetching from Polygon', {
+      symbol: key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    const bars = await fetchDailyBars(symbol, days, asOf, { adjusted })
+    return { bars, issues: assessBarQuality(bars) }
+  }
+
+  let bars = plan.cached
+
+  if (plan.fetches.length > 0) {
+    const fetched = (
+      await Promise.all(plan.fetches.map(({ from, to }) => fetchDailyBarsRange(key, from, to, { adjusted: false })))
+    ).flat()
+
+    const merged = new Map(plan.cached.map((bar) => [bar.date, bar]))
+    for (const bar of fetched) {
+      merged.set(bar.date, bar)
+    }
+    bars = Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date))
+
+    const fetchedFrom = plan.fetches[0].from
+    const coveredFrom = plan.coveredFrom && plan.coveredFrom < fetchedFrom ? plan.coveredFrom : fetchedFrom
+
+    try {
+      await saveBars(key, fetched, plan.cached, coveredFrom)
+    } catch (error) {
+      logger.warn('Failed to persist daily bars', {
+        symbol: key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  let actions: CorporateAction[] = []
+  try {
+    actions = await getStoredCorporateActions(key)
+  } catch (error) {
+    logger.warn('Corporate actions unavailable, serving bars unadjusted', {
+      symbol: key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+
+  // Adjust over the whole cached range so dividend factors see the prior close
+  if (adjusted) {
+    bars = adjustBars(bars, actions)
+  }
+
+  bars = truncateBarsAsOf(bars, asOf)
+  if (bars.length === 0) {
+    throw new Error(`No data returned for ${symbol}`)
+  }
+
+  bars = bars.slice(-days)
+  return { bars, issues: assessBarQuality(bars, actions) }
+}
+
+/**
+ * Drop-in replacement for fetchDailyBars that serves from the bar store.
+ * See getDailyBarHistory for adjustment and as-of behavior.
+ */
+export async function getDailyBars(
+  symbol: string,
+  days = 252,
+  asOf?: string | null,
+  options?: DailyBarsOptions
+): Promise<DailyBar[]> {
+  return (await getDailyBarHistory(symbol, days, asOf, options)).bars
+}
@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { DailyBar } from '@/lib/massive-api'
+import { createMembershipLookup, type MembershipTimeline } from './membership'
 
 // =============================================================================
 // Types
@@ -40,14 +41,18 @@ export interface BreadthSeries {
  * @param barsBySymbol - Object mapping symbol -> array of DailyBar (must be date-aligned)
  * @param dates - Array of dates in ascending order
  * @param lookbackDays - Number of trading days for rolling window (default: 100)
+ * @param membership - Optional point-in-time constituents; when given, a symbol
+ *   only counts on dates it was a member of the universe
  */
 export function computeBreadthSeries(
   barsBySymbol: Record<string, (DailyBar | null)[]>,
   dates: string[],
-  lookbackDays: number = 100
+  lookbackDays: number = 100,
+  membership?: MembershipTimeline
 ): BreadthSeries {
   const symbols = Object.keys(barsBySymbol)
   const entries: BreadthEntry[] = []
+  const isMember = membership ? createMembershipLookup(membership) : null
 
   // We need at least lookbackDays of data before we can compute
   const startIndex = lookbackDays
@@ -67,6 +72,9 @@ export function computeBreadthSeries(
       // Skip if no data for this date
       if (!currentBar) continue
 
+      // Skip if not a constituent on this date
+      if (isMember && !isMember(symbol, date)) continue
+
       // Get lookback window closes
       const windowCloses: number[] = []
       for (let j = i - lookbackDays; j < i; j++) {
@@ -129,9 +137,10 @@ export function computeBreadthSeries(
 export function computeBreadthFromAlignedBars(
   alignedBars: Record<string, (DailyBar | null)[]>,
   dates: string[],
-  lookbackDays: number = 100
+  lookbackDays: number = 100,
+  membership?: MembershipTimeline
 ): BreadthSeries {
-  return computeBreadthSeries(alignedBars, dates, lookbackDays)
+  return computeBreadthSeries(alignedBars, dates, lookbackDays, membership)
 }
 
 // =============================================================================
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import type { DailyBar } from '@/lib/massive-api'
+import type { BreadthEntry, BreadthSeries } from './compute'
+import type { BreadthMeasureEntry } from './measures'
+import { detectBreadthEvents } from './events'
+
+const DATES = Array.from({ length: 40 }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10))
+
+function series(pctNewLows: number[], pctNewHighs: number[] = []): BreadthSeries {
+  const entries: BreadthEntry[] = pctNewLows.map((lows, i) => ({
+    date: DATES[i],
+    pctNewLows: lows,
+    pctNewHighs: pctNewHighs[i] ?? 0,
+    countNewLows: lows,
+    countNewHighs: pctNewHighs[i] ?? 0,
+    countValid: 100,
+    newLowSymbols: [],
+    newHighSymbols: [],
+  }))
+  return { entries, lookbackDays: 20, totalSymbols: 100, symbolsCovered: 100 }
+}
+
+function measures(advances: number[]): BreadthMeasureEntry[] {
+  return advances.map((a, i) => ({
+    date: DATES[i],
+    pctAbove20: null,
+    pctAbove50: null,
+    pctAbove200: null,
+    advances: a,
+    declines: 100 - a,
+    unchanged: 0,
+    netAdvances: 2 * a - 100,
+    cumulativeAD: 0,
+    mcclellanOscillator: 0,
+    mcclellanSummation: 0,
+    upVolume: 0,
+    downVolume: 0,
+    upDownVolumeRatio: null,
+    netNewHighs: 0,
+  }))
+}
+
+function proxyBars(closes: number[]): DailyBar[] {
+  return closes.map((close, i) => ({ date: DATES[i], open: close, high: close, low: close, close, volume: 0 }))
+}
+
+describe('detectBreadthEvents', () => {
+  it('finds a Zweig-style thrust and scores it against the proxy', () => {
+    const advances = [...Array(10).fill(30), ...Array(10).fill(90), ...Array(20).fill(50)]
+    const report = detectBreadthEvents(
+      {
+        series: series(Array(40).fill(0)),
+        measures: measures(advances),
+        proxy: { symbol: 'SPY', bars: proxyBars(DATES.map((_, i) => 100 + i)) },
+      },
+      { thrust: { smoothing: 1 }, horizons: [5, 50] }
+    )
+
+    expect(report.events).toHaveLength(1)
+    expect(report.events[0]).toMatchObject({
+      type: 'thrust',
+      date: DATES[10],
+      startDate: DATES[9],
+      proxyClose: 110,
+      forwardReturns: [
+        { days: 5, returnPct: 4.55 },
+        { days: 50, returnPct: null },
+      ],
+    })
+    expect(report.summary.find((s) => s.type === 'thrust')?.horizons[0]).toEqual({
+      days: 5,
+      samples: 1,
+      avgReturn: 4.55,
+      hitRate: 1,
+    })
+  })
+
+  it('needs the recovery to arrive in time after a washout', () => {
+    const lows = [0, 25, 30, 15, 4, 0, 22, ...Array(33).fill(10)]
+    const report = detectBreadthEvents({ series: series(lows) }, { washout: { withinDays: 5 } })
+
+    expect(report.events).toEqual([
+      expect.objectContaining({
+        type: 'washout_recovery',
+        date: DATES[4],
+        startDate: DATES[1],
+        evidence: { peakDate: DATES[2], peakPctNewLows: 30, pctNewLows: 4, sessionsToRecover: 2 },
+        forwardReturns: expect.any(Array),
+      }),
+    ])
+  })
+
+  it('flags a lower low in price with fewer new lows', () => {
+    const closes = [100, 95, 90, 94, 97, 96, 93, 89, ...Array(32).fill(92)]
+    const lows = [0, 10, 30, 5, 0, 0, 5, 8, ...Array(32).fill(0)]
+    const report = detectBreadthEvents({
+      series: series(lows),
+      proxy: { symbol: 'SOXX', bars: proxyBars(closes) },
+    })
+
+    const divergences = report.events.filter((e) => e.type === 'positive_divergence')
+    expect(divergences).toHaveLength(1)
+    expect(divergences[0]).toMatchObject({
+      date: DATES[7],
+      startDate: DATES[2],
+      evidence: { priorClose: 90, close: 89, priorPctNewLows: 30, pctNewLows: 8 },
+    })
+  })
+})
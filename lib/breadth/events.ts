@@ -0,0 +1,381 @@
+// =============================================================================
+// Breadth Event Detector
+// =============================================================================
+// Scans a breadth series for the classic setups and reports every occurrence
+// with its evidence and the universe's ETF proxy returns that followed:
+//
+// - thrust: breadth (by default a 10-day EMA of advances / (advances +
+//   declines), as in Zweig's breadth thrust) climbs from below `from`% to
+//   above `to`% within `withinDays` sessions
+// - washout_recovery: % at new lows reaches `above`%, then falls back to
+//   `recoveryBelow`% within `withinDays` sessions of the last washed-out day
+// - positive_divergence: the proxy closes below its prior swing low while
+//   fewer members make new lows than did at that low
+//
+// Of events of the same type closer than `cooldownDays`, only the first is kept.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+import type { BreadthEntry, BreadthSeries } from './compute'
+import type { BreadthMeasureEntry } from './measures'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BreadthEventType = 'thrust' | 'washout_recovery' | 'positive_divergence'
+
+export interface BreadthEventConfig {
+  thrust: {
+    metric: 'advance_ratio' | 'pct_new_highs'
+    smoothing: number // EMA period applied to the metric (1 = raw)
+    from: number // Percent
+    to: number // Percent
+    withinDays: number
+  }
+  washout: {
+    above: number // % at new lows
+    recoveryBelow: number
+    withinDays: number
+  }
+  divergence: {
+    lookbackDays: number // How far back to look for the prior low
+    minSeparation: number // Sessions between the two lows
+    minPriorLows: number // % at new lows needed at the prior low
+    maxLowsRatio: number // New lows now must be at most this share of the prior reading
+  }
+  horizons: number[] // Forward return horizons in sessions
+  cooldownDays: number
+}
+
+export interface BreadthEventForwardReturn {
+  days: number
+  returnPct: number | null // null when the horizon runs past the data
+}
+
+export interface BreadthEvent {
+  type: BreadthEventType
+  date: string // Session the setup completed
+  startDate: string // Session the setup began (below `from`, washout, prior low)
+  description: string
+  evidence: Record<string, number | string>
+  proxyClose: number | null
+  forwardReturns: BreadthEventForwardReturn[]
+}
+
+export interface BreadthEventHorizonStats {
+  days: number
+  samples: number // Events with data at this horizon
+  avgReturn: number | null // Percent
+  hitRate: number | null // Share of samples with a positive return (0-1)
+}
+
+export interface BreadthEventSummary {
+  type: BreadthEventType
+  count: number
+  horizons: BreadthEventHorizonStats[]
+}
+
+export interface BreadthEventReport {
+  proxy: string | null
+  config: BreadthEventConfig
+  events: BreadthEvent[]
+  summary: BreadthEventSummary[]
+}
+
+export interface BreadthEventInput {
+  series: BreadthSeries
+  measures?: BreadthMeasureEntry[] // Needed for the advance_ratio thrust metric
+  proxy?: { symbol: string; bars: DailyBar[] } | null
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_BREADTH_EVENT_CONFIG: BreadthEventConfig = {
+  thrust: { metric: 'advance_ratio', smoothing: 10, from: 40, to: 61.5, withinDays: 10 },
+  washout: { above: 20, recoveryBelow: 5, withinDays: 30 },
+  divergence: { lookbackDays: 63, minSeparation: 5, minPriorLows: 10, maxLowsRatio: 0.5 },
+  horizons: [5, 10, 21, 63],
+  cooldownDays: 10,
+}
+
+export interface BreadthEventConfigOverrides {
+  thrust?: Partial<BreadthEventConfig['thrust']>
+  washout?: Partial<BreadthEventConfig['washout']>
+  divergence?: Partial<BreadthEventConfig['divergence']>
+  horizons?: number[]
+  cooldownDays?: number
+}
+
+// Overrides come straight from optional query and tool params
+function definedOnly<T extends object>(values: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(values ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>
+}
+
+export function resolveBreadthEventConfig(overrides: BreadthEventConfigOverrides = {}): BreadthEventConfig {
+  const base = DEFAULT_BREADTH_EVENT_CONFIG
+  return {
+    thrust: { ...base.thrust, ...definedOnly(overrides.thrust) },
+    washout: { ...base.washout, ...definedOnly(overrides.washout) },
+    divergence: { ...base.divergence, ...definedOnly(overrides.divergence) },
+    horizons: overrides.horizons ?? base.horizons,
+    cooldownDays: overrides.cooldownDays ?? base.cooldownDays,
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Thrust metric per series entry, smoothed. null where it cannot be computed
+ * (no measures, or no advancing/declining members yet).
+ */
+function thrustValues(
+  entries: BreadthEntry[],
+  measures: BreadthMeasureEntry[] | undefined,
+  config: BreadthEventConfig['thrust']
+): (number | null)[] {
+  const measuresByDate = new Map((measures ?? []).map((m) => [m.date, m]))
+  const alpha = 2 / (Math.max(1, config.smoothing) + 1)
+  let ema: number | null = null
+
+  return entries.map((entry) => {
+    let raw: number | null = null
+    if (config.metric === 'pct_new_highs') {
+      raw = entry.pctNewHighs
+    } else {
+      const m = measuresByDate.get(entry.date)
+      if (m && m.advances + m.declines > 0) raw = (m.advances / (m.advances + m.declines)) * 100
+    }
+    if (raw === null) return ema
+    ema = ema === null ? raw : ema + alpha * (raw - ema)
+    return ema
+  })
+}
+
+// =============================================================================
+// Detectors
+// =============================================================================
+
+type RawEvent = Omit<BreadthEvent, 'proxyClose' | 'forwardReturns'>
+
+function detectThrusts(
+  entries: BreadthEntry[],
+  values: (number | null)[],
+  config: BreadthEventConfig['thrust']
+): RawEvent[] {
+  const events: RawEvent[] = []
+  let lastBelow: number | null = null
+  let low = Infinity
+
+  for (let i = 0; i < entries.length; i++) {
+    const value = values[i]
+    if (value === null) continue
+
+    if (value < config.from) {
+      const continuing = lastBelow !== null && i - lastBelow <= config.withinDays
+      low = continuing ? Math.min(low, value) : value
+      lastBelow = i
+      continue
+    }
+
+    if (lastBelow !== null && value > config.to && i - lastBelow <= config.withinDays) {
+      events.push({
+        type: 'thrust',
+        date: entries[i].date,
+        startDate: entries[lastBelow].date,
+        description: `Breadth thrust: ${config.metric} from ${round(low, 1)}% to ${round(value, 1)}% in ${i - lastBelow} sessions`,
+        evidence: {
+          metric: config.metric,
+          low: round(low),
+          value: round(value),
+          sessions: i - lastBelow,
+        },
+      })
+      lastBelow = null
+    }
+  }
+
+  return events
+}
+
+function detectWashoutRecoveries(entries: BreadthEntry[], config: BreadthEventConfig['washout']): RawEvent[] {
+  const events: RawEvent[] = []
+  let start: number | null = null
+  let lastWashedOut = 0
+  let peak = 0
+
+  for (let i = 0; i < entries.length; i++) {
+    const pct = entries[i].pctNewLows
+
+    if (pct >= config.above) {
+      if (start === null) {
+        start = i
+        peak = i
+      }
+      lastWashedOut = i
+      if (pct > entries[peak].pctNewLows) peak = i
+      continue
+    }
+
+    if (start === null) continue
+
+    if (i - lastWashedOut > config.withinDays) {
+      start = null // Never recovered in time
+    } else if (pct <= config.recoveryBelow) {
+      events.push({
+        type: 'washout_recovery',
+        date: entries[i].date,
+        startDate: entries[start].date,
+        description: `Washout to recovery: ${round(entries[peak].pctNewLows, 1)}% at new lows on ${entries[peak].date}, down to ${round(pct, 1)}%`,
+        evidence: {
+          peakDate: entries[peak].date,
+          peakPctNewLows: round(entries[peak].pctNewLows),
+          pctNewLows: round(pct),
+          sessionsToRecover: i - lastWashedOut,
+        },
+      })
+      start = null
+    }
+  }
+
+  return events
+}
+
+function detectPositiveDivergences(
+  entries: BreadthEntry[],
+  closes: (number | null)[],
+  config: BreadthEventConfig['divergence']
+): RawEvent[] {
+  const events: RawEvent[] = []
+
+  for (let i = config.minSeparation; i < entries.length; i++) {
+    const close = closes[i]
+    if (close === null) continue
+
+    // The prior low: lowest close of the lookback, far enough back to be a separate low
+    let prior: number | null = null
+    for (let j = Math.max(0, i - config.lookbackDays); j < i; j++) {
+      const c = closes[j]
+      if (c !== null && (prior === null || c < (closes[prior] as number))) prior = j
+    }
+    if (prior === null || i - prior < config.minSeparation) continue
+
+    const priorClose = closes[prior] as number
+    if (close >= priorClose) continue
+
+    const priorLows = entries[prior].pctNewLows
+    const lows = entries[i].pctNewLows
+    if (priorLows < config.minPriorLows || lows > priorLows * config.maxLowsRatio) continue
+
+    events.push({
+      type: 'positive_divergence',
+      date: entries[i].date,
+      startDate: entries[prior].date,
+      description: `Lower low in price (${round(close)} < ${round(priorClose)}) with fewer new lows (${round(lows, 1)}% vs ${round(priorLows, 1)}%)`,
+      evidence: {
+        priorClose: round(priorClose),
+        close: round(close),
+        priorPctNewLows: round(priorLows),
+        pctNewLows: round(lows),
+      },
+    })
+  }
+
+  return events
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+function applyCooldown(events: RawEvent[], dateIndex: Map<string, number>, cooldownDays: number): RawEvent[] {
+  const lastByType = new Map<BreadthEventType, number>()
+  return events.filter((event) => {
+    const i = dateIndex.get(event.date) ?? 0
+    const last = lastByType.get(event.type)
+    if (last !== undefined && i - last < cooldownDays) return false
+    lastByType.set(event.type, i)
+    return true
+  })
+}
+
+function summarize(events: BreadthEvent[], horizons: number[]): BreadthEventSummary[] {
+  const types: BreadthEventType[] = ['thrust', 'washout_recovery', 'positive_divergence']
+  return types.map((type) => {
+    const ofType = events.filter((event) => event.type === type)
+
+    const stats = horizons.map((days, h): BreadthEventHorizonStats => {
+      const returns = ofType
+        .map((event) => event.forwardReturns[h].returnPct)
+        .filter((r): r is number => r !== null)
+      if (returns.length === 0) return { days, samples: 0, avgReturn: null, hitRate: null }
+      return {
+        days,
+        samples: returns.length,
+        avgReturn: round(returns.reduce((a, b) => a + b, 0) / returns.length),
+        hitRate: round(returns.filter((r) => r > 0).length / returns.length),
+      }
+    })
+
+    return { type, count: ofType.length, horizons: stats }
+  })
+}
+
+/**
+ * Detect thrusts, washout recoveries and positive divergences over the whole
+ * series, oldest first. Divergences and forward returns need the proxy's
+ * bars; without them only the breadth-only setups are reported.
+ */
+export function detectBreadthEvents(
+  input: BreadthEventInput,
+  overrides: BreadthEventConfigOverrides = {}
+): BreadthEventReport {
+  const config = resolveBreadthEventConfig(overrides)
+  const entries = input.series.entries
+  const proxyBars = input.proxy?.bars ?? []
+
+  const proxyIndex = new Map(proxyBars.map((bar, i) => [bar.date, i]))
+  const closes = entries.map((entry) => {
+    const i = proxyIndex.get(entry.date)
+    return i === undefined ? null : proxyBars[i].close
+  })
+
+  const raw = [
+    ...detectThrusts(entries, thrustValues(entries, input.measures, config.thrust), config.thrust),
+    ...detectWashoutRecoveries(entries, config.washout),
+    ...(proxyBars.length > 0 ? detectPositiveDivergences(entries, closes, config.divergence) : []),
+  ].sort((a, b) => a.date.localeCompare(b.date))
+
+  const dateIndex = new Map(entries.map((entry, i) => [entry.date, i]))
+  const events = applyCooldown(raw, dateIndex, config.cooldownDays).map((event): BreadthEvent => {
+    const i = proxyIndex.get(event.date)
+    const entry = i === undefined ? null : proxyBars[i].close
+    return {
+      ...event,
+      proxyClose: entry,
+      forwardReturns: config.horizons.map((days) => ({
+        days,
+        returnPct:
+          i !== undefined && entry && i + days < proxyBars.length
+            ? round(((proxyBars[i + days].close - entry) / entry) * 100)
+            : null,
+      })),
+    }
+  })
+
+  return {
+    proxy: input.proxy?.symbol ?? null,
+    config,
+    events,
+    summary: summarize(events, config.horizons),
+  }
+}
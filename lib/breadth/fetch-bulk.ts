@@ -1,8 +1,14 @@
 // =============================================================================
-// Bulk Daily Bars Fetcher with Concurrency Control
+// Bulk Daily Bars Fetcher
+// =============================================================================
+// Runs at background priority: the upstream scheduler paces the calls and
+// lets interactive dashboard requests go first.
 // =============================================================================
 
-import { fetchDailyBars, type DailyBar } from '@/lib/massive-api'
+import type { DailyBar } from '@/lib/massive-api'
+import { getDailyBarHistory } from '@/lib/bars/store'
+import type { BarQualityIssue } from '@/lib/bars/adjust'
+import { withUpstreamPriority } from '@/lib/massive/scheduler'
 
 // =============================================================================
 // Types
@@ -12,6 +18,8 @@ export interface BulkFetchResult {
   barsBySymbol: Record<string, DailyBar[]>
   succeeded: string[]
   failed: string[]
+  flagged: string[] // Fetched, but with gaps or unexplained jumps
+  qualityIssues: Record<string, BarQualityIssue[]>
   rateLimited: boolean
   fetchTimeMs: number
 }
@@ -31,24 +39,31 @@ export type ProgressCallback = (progress: FetchProgress) => void
 // Configuration
 // =============================================================================
 
-const CONCURRENCY_LIMIT = 5 // Max concurrent requests to Polygon
+const BATCH_SIZE = 10 // Symbols per progress update
 const RETRY_ATTEMPTS = 2
 const RETRY_DELAY_MS = 500
-const BATCH_DELAY_MS = 100 // Delay between batches to avoid rate limits
 
 // =============================================================================
 // Core Fetcher
 // =============================================================================
 
+interface FetchOutcome {
+  symbol: string
+  bars: DailyBar[]
+  issues: BarQualityIssue[]
+  error?: string
+}
+
 async function fetchWithRetry(
   symbol: string,
   days: number,
+  asOf: string | null,
   attempts: number = RETRY_ATTEMPTS
-): Promise<{ symbol: string; bars: DailyBar[]; error?: string }> {
+): Promise<FetchOutcome> {
   for (let attempt = 0; attempt <= attempts; attempt++) {
     try {
-      const bars = await fetchDailyBars(symbol, days)
-      return { symbol, bars }
+      const { bars, issues } = await getDailyBarHistory(symbol, days, asOf)
+      return { symbol, bars, issues }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error'
 
@@ -61,7 +76,7 @@ async function fetchWithRetry(
 
       // Last attempt - return error
       if (attempt === attempts) {
-        return { symbol, bars: [], error: message }
+        return { symbol, bars: [], issues: [], error: message }
       }
 
       // Wait before retry
@@ -69,7 +84,7 @@ async function fetchWithRetry(
     }
   }
 
-  return { symbol, bars: [], error: 'Max retries exceeded' }
+  return { symbol, bars: [], issues: [], error: 'Max retries exceeded' }
 }
 
 function sleep(ms: number): Promise<void> {
@@ -77,15 +92,16 @@ function sleep(ms: number): Promise<void> {
 }
 
 // =============================================================================
-// Batch Processing with Concurrency Limit
+// Batch Processing
 // =============================================================================
 
 async function processBatch(
   symbols: string[],
-  days: number
-): Promise<{ symbol: string; bars: DailyBar[]; error?: string }[]> {
-  return Promise.all(
-    symbols.map(symbol => fetchWithRetry(symbol, days))
+  days: number,
+  asOf: string | null
+): Promise<FetchOutcome[]> {
+  return withUpstreamPriority('background', () =>
+    Promise.all(symbols.map(symbol => fetchWithRetry(symbol, days, asOf)))
   )
 }
 
@@ -93,22 +109,28 @@ async function processBatch(
 // Main Bulk Fetch Function
 // =============================================================================
 
+/**
+ * Fetch `days` bars for every symbol, ending on `asOf` when given.
+ */
 export async function fetchBulkDailyBars(
   symbols: string[],
   days: number,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  asOf: string | null = null
 ): Promise<BulkFetchResult> {
   const startTime = Date.now()
 
   const barsBySymbol: Record<string, DailyBar[]> = {}
   const succeeded: string[] = []
   const failed: string[] = []
+  const flagged: string[] = []
+  const qualityIssues: Record<string, BarQualityIssue[]> = {}
   let rateLimited = false
 
   // Split symbols into batches
   const batches: string[][] = []
-  for (let i = 0; i < symbols.length; i += CONCURRENCY_LIMIT) {
-    batches.push(symbols.slice(i, i + CONCURRENCY_LIMIT))
+  for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
+    batches.push(symbols.slice(i, i + BATCH_SIZE))
   }
 
   // Process batches sequentially (each batch has concurrent requests)
@@ -130,13 +152,17 @@ export async function fetchBulkDailyBars(
     }
 
     // Process batch concurrently
-    const results = await processBatch(batch, days)
+    const results = await processBatch(batch, days, asOf)
 
     // Collect results
     for (const result of results) {
       if (result.bars.length > 0) {
         barsBySymbol[result.symbol] = result.bars
         succeeded.push(result.symbol)
+        if (result.issues.length > 0) {
+          flagged.push(result.symbol)
+          qualityIssues[result.symbol] = result.issues
+        }
       } else {
         failed.push(result.symbol)
         if (result.error?.includes('429')) {
@@ -145,11 +171,6 @@ export async function fetchBulkDailyBars(
       }
       completed++
     }
-
-    // Small delay between batches to avoid overwhelming the API
-    if (batchIndex < batches.length - 1) {
-      await sleep(BATCH_DELAY_MS)
-    }
   }
 
   // Final progress update
@@ -168,6 +189,8 @@ export async function fetchBulkDailyBars(
     barsBySymbol,
     succeeded,
     failed,
+    flagged,
+    qualityIssues,
     rateLimited,
     fetchTimeMs: Date.now() - startTime,
   }
@@ -177,8 +200,16 @@ export async function fetchBulkDailyBars(
 // Utility: Align Bars by Date
 // =============================================================================
 
+/**
+ * Align per-symbol bars onto a shared, ascending date axis.
+ *
+ * @param minCoverage - Fraction of dates a symbol must have bars for to be
+ *   kept (default: 0.5). Point-in-time universes pass 0 so constituents that
+ *   joined or left mid-range are not dropped.
+ */
 export function alignBarsByDate(
-  barsBySymbol: Record<string, DailyBar[]>
+  barsBySymbol: Record<string, DailyBar[]>,
+  minCoverage: number = 0.5
 ): {
   dates: string[]
   alignedBars: Record<string, (DailyBar | null)[]>
@@ -211,9 +242,9 @@ export function alignBarsByDate(
       }
     }
 
-    // Only include symbols with sufficient data coverage (>50% of dates)
+    // Only include symbols with sufficient data coverage
     const validCount = aligned.filter(b => b !== null).length
-    if (validCount > dates.length * 0.5) {
+    if (validCount > dates.length * minCoverage) {
       alignedBars[symbol] = aligned
       validSymbols.push(symbol)
     }
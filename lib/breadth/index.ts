@@ -4,4 +4,8 @@
 
 export * from './fetch-bulk'
 export * from './compute'
+export * from './measures'
 export * from './extremes'
+export * from './events'
+export * from './membership'
+export * from './universe-series'
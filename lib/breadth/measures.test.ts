@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import type { DailyBar } from '@/lib/massive-api'
+import { computeBreadthSeries } from './compute'
+import { buildMembershipTimeline } from './membership'
+import { computeBreadthMeasures, selectBreadthMeasure } from './measures'
+
+function bar(date: string, close: number, volume = 100): DailyBar {
+  return { date, open: close, high: close, low: close, close, volume }
+}
+
+const DATES = Array.from({ length: 30 }, (_, i) => `2024-01-${String(i + 1).padStart(2, '0')}`)
+
+// UP rises every day, DOWN falls every day, FLAT never moves
+const BARS: Record<string, (DailyBar | null)[]> = {
+  UP: DATES.map((date, i) => bar(date, 100 + i, 300)),
+  DOWN: DATES.map((date, i) => bar(date, 100 - i, 100)),
+  FLAT: DATES.map((date) => bar(date, 50)),
+}
+
+describe('computeBreadthMeasures', () => {
+  it('counts advances, volume and net new highs on the breadth series dates', () => {
+    const series = computeBreadthSeries(BARS, DATES, 10)
+    const entries = computeBreadthMeasures(BARS, DATES, series)
+
+    expect(entries.map((e) => e.date)).toEqual(series.entries.map((e) => e.date))
+
+    const last = entries[entries.length - 1]
+    expect(last).toMatchObject({
+      advances: 1,
+      declines: 1,
+      unchanged: 1,
+      netAdvances: 0,
+      upVolume: 300,
+      downVolume: 100,
+      upDownVolumeRatio: 3,
+      // FLAT sits at both its high and its low, so it cancels out
+      netNewHighs: 0,
+      pctAbove20: (1 / 3) * 100,
+      pctAbove200: null,
+    })
+  })
+
+  it('only counts members on each date', () => {
+    const timeline = buildMembershipTimeline('test', [
+      { effectiveDate: '2024-01-01', symbols: ['UP', 'FLAT'] },
+      { effectiveDate: '2024-01-20', symbols: ['DOWN', 'FLAT'] },
+    ])
+    const series = computeBreadthSeries(BARS, DATES, 10, timeline)
+    const entries = computeBreadthMeasures(BARS, DATES, series, timeline)
+
+    const before = entries.find((e) => e.date === '2024-01-15')
+    const after = entries.find((e) => e.date === '2024-01-25')
+    expect(before?.netAdvances).toBe(1)
+    expect(after?.netAdvances).toBe(-1)
+
+    // The cumulative line and the McClellan oscillator turn with membership
+    expect(after!.cumulativeAD).toBeLessThan(entries.find((e) => e.date === '2024-01-19')!.cumulativeAD)
+    expect(after!.mcclellanOscillator).toBeLessThan(0)
+  })
+
+  it('projects one measure for charting', () => {
+    const series = computeBreadthSeries(BARS, DATES, 10)
+    const points = selectBreadthMeasure(computeBreadthMeasures(BARS, DATES, series), 'mcclellan')
+
+    expect(Object.keys(points[0].values)).toEqual(['mcclellanOscillator', 'mcclellanSummation'])
+  })
+})
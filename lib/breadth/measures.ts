@@ -0,0 +1,251 @@
+// =============================================================================
+// Breadth Measures
+// =============================================================================
+// Participation measures computed over the same aligned bars as the new
+// high / new low series: % of members above their 20/50/200-day moving
+// averages, the advance/decline line, the McClellan oscillator and summation
+// index, up/down volume, and net new highs.
+//
+// The McClellan oscillator uses ratio-adjusted net advances
+// ((A - D) / (A + D) * 1000), so readings stay comparable when point-in-time
+// membership changes the size of the universe.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+import type { BreadthSeries } from './compute'
+import { createMembershipLookup, type MembershipTimeline } from './membership'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const MOVING_AVERAGE_PERIODS = [20, 50, 200] as const
+
+/** Sessions of history a 200-day average needs before the first entry */
+export const MEASURES_WARMUP_DAYS = 200
+
+const MCCLELLAN_FAST = 19
+const MCCLELLAN_SLOW = 39
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BreadthMeasureEntry {
+  date: string
+  pctAbove20: number | null // null until some member has enough history
+  pctAbove50: number | null
+  pctAbove200: number | null
+  advances: number
+  declines: number
+  unchanged: number
+  netAdvances: number // A/D line: advances - declines on the day
+  cumulativeAD: number // Running total of netAdvances
+  mcclellanOscillator: number
+  mcclellanSummation: number
+  upVolume: number
+  downVolume: number
+  upDownVolumeRatio: number | null // null when nothing declined
+  netNewHighs: number // New highs - new lows over the breadth lookback
+}
+
+export const BREADTH_MEASURE_IDS = [
+  'pct_above_ma',
+  'advance_decline',
+  'mcclellan',
+  'up_down_volume',
+  'net_new_highs',
+] as const
+
+export type BreadthMeasureId = (typeof BREADTH_MEASURE_IDS)[number]
+
+export type BreadthMeasureField = Exclude<keyof BreadthMeasureEntry, 'date'>
+
+export interface BreadthMeasureDefinition {
+  label: string
+  fields: Array<{ key: BreadthMeasureField; label: string }>
+}
+
+export interface BreadthMeasurePoint {
+  date: string
+  values: Partial<Record<BreadthMeasureField, number | null>>
+}
+
+// =============================================================================
+// Measure Catalog
+// =============================================================================
+
+export const BREADTH_MEASURES: Record<BreadthMeasureId, BreadthMeasureDefinition> = {
+  pct_above_ma: {
+    label: '% above moving average',
+    fields: [
+      { key: 'pctAbove20', label: '20-day' },
+      { key: 'pctAbove50', label: '50-day' },
+      { key: 'pctAbove200', label: '200-day' },
+    ],
+  },
+  advance_decline: {
+    label: 'Advance/decline line',
+    fields: [
+      { key: 'netAdvances', label: 'Net advances' },
+      { key: 'cumulativeAD', label: 'Cumulative A/D' },
+    ],
+  },
+  mcclellan: {
+    label: 'McClellan',
+    fields: [
+      { key: 'mcclellanOscillator', label: 'Oscillator' },
+      { key: 'mcclellanSummation', label: 'Summation index' },
+    ],
+  },
+  up_down_volume: {
+    label: 'Up/down volume',
+    fields: [{ key: 'upDownVolumeRatio', label: 'Up/down ratio' }],
+  },
+  net_new_highs: {
+    label: 'Net new highs',
+    fields: [{ key: 'netNewHighs', label: 'Highs - lows' }],
+  },
+}
+
+export function isBreadthMeasureId(value: string): value is BreadthMeasureId {
+  return (BREADTH_MEASURE_IDS as readonly string[]).includes(value)
+}
+
+// =============================================================================
+// Computation
+// =============================================================================
+
+function emaStep(previous: number | null, value: number, period: number): number {
+  const alpha = 2 / (period + 1)
+  return previous === null ? value : previous + alpha * (value - previous)
+}
+
+/**
+ * Compute every breadth measure for the dates in `series`.
+ *
+ * Moving averages, the A/D line and the McClellan EMAs run over all of
+ * `dates`, so passing MEASURES_WARMUP_DAYS of history before the series
+ * starts gives fully formed readings on its first date. A symbol's average
+ * counts once at least half its window has bars (as in computeBreadthSeries).
+ *
+ * @param barsBySymbol - Object mapping symbol -> array of DailyBar (date-aligned with `dates`)
+ * @param dates - Array of dates in ascending order
+ * @param series - New high / new low series over a suffix of `dates`
+ * @param membership - Optional point-in-time constituents
+ */
+export function computeBreadthMeasures(
+  barsBySymbol: Record<string, (DailyBar | null)[]>,
+  dates: string[],
+  series: BreadthSeries,
+  membership?: MembershipTimeline
+): BreadthMeasureEntry[] {
+  const symbols = Object.keys(barsBySymbol)
+  const isMember = membership ? createMembershipLookup(membership) : null
+  const breadthByDate = new Map(series.entries.map((entry) => [entry.date, entry]))
+
+  // Rolling close sums and bar counts per symbol and period
+  const sums = symbols.map(() => MOVING_AVERAGE_PERIODS.map(() => 0))
+  const counts = symbols.map(() => MOVING_AVERAGE_PERIODS.map(() => 0))
+
+  const entries: BreadthMeasureEntry[] = []
+  let cumulativeAD = 0
+  let fastEma: number | null = null
+  let slowEma: number | null = null
+  let summation = 0
+
+  for (let i = 0; i < dates.length; i++) {
+    const date = dates[i]
+    const above = MOVING_AVERAGE_PERIODS.map(() => 0)
+    const withAverage = MOVING_AVERAGE_PERIODS.map(() => 0)
+    let advances = 0
+    let declines = 0
+    let unchanged = 0
+    let upVolume = 0
+    let downVolume = 0
+
+    for (let s = 0; s < symbols.length; s++) {
+      const bars = barsBySymbol[symbols[s]]
+      const bar = bars[i]
+
+      // Keep the rolling windows current whether or not the symbol counts today
+      MOVING_AVERAGE_PERIODS.forEach((period, p) => {
+        if (bar) {
+          sums[s][p] += bar.close
+          counts[s][p]++
+        }
+        const dropped = i >= period ? bars[i - period] : null
+        if (dropped) {
+          sums[s][p] -= dropped.close
+          counts[s][p]--
+        }
+      })
+
+      if (!bar) continue
+      if (isMember && !isMember(symbols[s], date)) continue
+
+      MOVING_AVERAGE_PERIODS.forEach((period, p) => {
+        if (counts[s][p] < period * 0.5) return
+        withAverage[p]++
+        if (bar.close > sums[s][p] / counts[s][p]) above[p]++
+      })
+
+      const previous = i > 0 ? bars[i - 1] : null
+      if (!previous) continue
+      if (bar.close > previous.close) {
+        advances++
+        upVolume += bar.volume
+      } else if (bar.close < previous.close) {
+        declines++
+        downVolume += bar.volume
+      } else {
+        unchanged++
+      }
+    }
+
+    const netAdvances = advances - declines
+    cumulativeAD += netAdvances
+
+    const ratioAdjusted = advances + declines > 0 ? (netAdvances / (advances + declines)) * 1000 : 0
+    fastEma = emaStep(fastEma, ratioAdjusted, MCCLELLAN_FAST)
+    slowEma = emaStep(slowEma, ratioAdjusted, MCCLELLAN_SLOW)
+    const oscillator = fastEma - slowEma
+    summation += oscillator
+
+    const breadth = breadthByDate.get(date)
+    if (!breadth) continue
+
+    const pctAbove = withAverage.map((n, p) => (n > 0 ? (above[p] / n) * 100 : null))
+
+    entries.push({
+      date,
+      pctAbove20: pctAbove[0],
+      pctAbove50: pctAbove[1],
+      pctAbove200: pctAbove[2],
+      advances,
+      declines,
+      unchanged,
+      netAdvances,
+      cumulativeAD,
+      mcclellanOscillator: oscillator,
+      mcclellanSummation: summation,
+      upVolume,
+      downVolume,
+      upDownVolumeRatio: downVolume > 0 ? upVolume / downVolume : null,
+      netNewHighs: breadth.countNewHighs - breadth.countNewLows,
+    })
+  }
+
+  return entries
+}
+
+/**
+ * Project entries onto the fields of one measure, for charts and tool output.
+ */
+export function selectBreadthMeasure(entries: BreadthMeasureEntry[], measure: BreadthMeasureId): BreadthMeasurePoint[] {
+  const { fields } = BREADTH_MEASURES[measure]
+  return entries.map((entry) => ({
+    date: entry.date,
+    values: Object.fromEntries(fields.map(({ key }) => [key, entry[key]])),
+  }))
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildMembershipTimeline,
+  getSnapshotOn,
+  getAllMembers,
+  parseHoldingsCsv,
+} from './membership'
+import { computeBreadthSeries } from './compute'
+import type { DailyBar } from '@/lib/massive-api'
+
+function bar(date: string, close: number): DailyBar {
+  return { date, open: close, high: close, low: close, close, volume: 0 }
+}
+
+describe('parseHoldingsCsv', () => {
+  it('groups rows into one snapshot per date', () => {
+    const csv = 'date,symbol,weight\n2024-01-02,aapl,7.1\n2024-01-02,MSFT,6.9\n2024-04-01,AAPL,7.0\n'
+    const snapshots = parseHoldingsCsv(csv)
+
+    expect(snapshots).toEqual([
+      { effectiveDate: '2024-01-02', symbols: ['AAPL', 'MSFT'] },
+      { effectiveDate: '2024-04-01', symbols: ['AAPL'] },
+    ])
+  })
+
+  it('accepts headerless input and reports the bad line', () => {
+    expect(parseHoldingsCsv('2024-01-02,NVDA')).toHaveLength(1)
+    expect(() => parseHoldingsCsv('2024-01-02,NVDA\n01/03/2024,AMD')).toThrow('Line 2')
+  })
+})
+
+describe('membership timeline', () => {
+  const timeline = buildMembershipTimeline('spy', [
+    { effectiveDate: '2024-06-01', symbols: ['AAA', 'CCC'] },
+    { effectiveDate: '2024-01-01', symbols: ['AAA', 'BBB'] },
+  ])
+
+  it('resolves the snapshot in effect on a date', () => {
+    expect(getSnapshotOn(timeline, '2024-03-15')?.symbols).toEqual(['AAA', 'BBB'])
+    expect(getSnapshotOn(timeline, '2024-06-01')?.symbols).toEqual(['AAA', 'CCC'])
+    // Membership before the first snapshot is unknown
+    expect(getSnapshotOn(timeline, '2023-12-01')).toBeNull()
+  })
+
+  it('collects every member since a start date', () => {
+    expect(getAllMembers(timeline)).toEqual(['AAA', 'BBB', 'CCC'])
+    expect(getAllMembers(timeline, '2024-07-01')).toEqual(['AAA', 'CCC'])
+    expect(getAllMembers(timeline, '2024-02-01', '2024-03-01')).toEqual(['AAA', 'BBB'])
+    expect(getAllMembers(timeline, undefined, '2023-06-01')).toEqual([])
+  })
+})
+
+describe('computeBreadthSeries with membership', () => {
+  it('only counts symbols that were members on each date', () => {
+    const dates = ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04']
+    // Both symbols make a new low on every date after the first
+    const bars = {
+      AAA: dates.map((d, i) => bar(d, 100 - i)),
+      BBB: dates.map((d, i) => bar(d, 50 - i)),
+    }
+    const timeline = buildMembershipTimeline('test', [
+      { effectiveDate: '2024-01-01', symbols: ['AAA', 'BBB'] },
+      { effectiveDate: '2024-01-04', symbols: ['AAA'] },
+    ])
+
+    const series = computeBreadthSeries(bars, dates, 2, timeline)
+    const [jan3, jan4] = series.entries
+
+    expect(jan3.countValid).toBe(2)
+    expect(jan3.newLowSymbols).toEqual(['AAA', 'BBB'])
+    expect(jan4.countValid).toBe(1)
+    expect(jan4.newLowSymbols).toEqual(['AAA'])
+  })
+
+  it('uses the static list before the first snapshot, not the earliest one', () => {
+    const dates = ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04']
+    const bars = {
+      AAA: dates.map((d, i) => bar(d, 100 - i)),
+      BBB: dates.map((d, i) => bar(d, 50 - i)),
+    }
+    // BBB was only added on Jan 4; the static list predates it
+    const timeline = {
+      ...buildMembershipTimeline('test', [{ effectiveDate: '2024-01-04', symbols: ['AAA', 'BBB'] }]),
+      fallbackSymbols: ['AAA'],
+    }
+
+    const [jan3, jan4] = computeBreadthSeries(bars, dates, 2, timeline).entries
+
+    expect(jan3.newLowSymbols).toEqual(['AAA'])
+    expect(jan4.newLowSymbols).toEqual(['AAA', 'BBB'])
+  })
+})
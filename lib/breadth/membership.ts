@@ -0,0 +1,260 @@
+// =============================================================================
+// Point-in-Time Universe Membership
+// =============================================================================
+// Dated constituent snapshots for a universe. Breadth on a given date only
+// counts the symbols that were members on that date, which keeps today's
+// winners from leaking into historical readings (survivorship bias). Dates
+// before the first snapshot have no known membership: they fall back to the
+// universe's static list when one is given, and are not point-in-time.
+// =============================================================================
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MembershipSnapshot {
+  effectiveDate: string // YYYY-MM-DD, first session the list applies to
+  symbols: string[]
+}
+
+export interface MembershipTimeline {
+  universeId: string
+  snapshots: MembershipSnapshot[] // Ascending by effectiveDate
+  fallbackSymbols?: string[] // Counted before the first snapshot; every symbol when absent
+}
+
+// =============================================================================
+// Timeline Lookups
+// =============================================================================
+
+/**
+ * Build a timeline from unordered snapshots. Duplicate dates are merged.
+ */
+export function buildMembershipTimeline(
+  universeId: string,
+  snapshots: MembershipSnapshot[]
+): MembershipTimeline {
+  const byDate = new Map<string, Set<string>>()
+
+  for (const snapshot of snapshots) {
+    const members = byDate.get(snapshot.effectiveDate) ?? new Set<string>()
+    for (const symbol of snapshot.symbols) {
+      members.add(symbol.toUpperCase())
+    }
+    byDate.set(snapshot.effectiveDate, members)
+  }
+
+  return {
+    universeId,
+    snapshots: Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([effectiveDate, members]) => ({
+        effectiveDate,
+        symbols: Array.from(members).sort(),
+      })),
+  }
+}
+
+/**
+ * Find the snapshot in effect on a date.
+ * Returns null before the first snapshot: the earliest list is not evidence
+ * of who was a member earlier.
+ */
+export function getSnapshotOn(
+  timeline: MembershipTimeline,
+  date: string
+): MembershipSnapshot | null {
+  const { snapshots } = timeline
+  if (snapshots.length === 0) return null
+
+  let lo = 0
+  let hi = snapshots.length - 1
+  let match = -1
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (snapshots[mid].effectiveDate <= date) {
+      match = mid
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+
+  return match === -1 ? null : snapshots[match]
+}
+
+/**
+ * Create a fast membership check for repeated per-date lookups. Before the
+ * first snapshot a symbol counts if it is in `fallbackSymbols` (or always,
+ * without one).
+ */
+export function createMembershipLookup(
+  timeline: MembershipTimeline
+): (symbol: string, date: string) => boolean {
+  const sets = new Map<string, Set<string>>()
+  const fallback = timeline.fallbackSymbols ? new Set(timeline.fallbackSymbols) : null
+
+  return (symbol, date) => {
+    const snapshot = getSnapshotOn(timeline, date)
+    if (!snapshot) return fallback ? fallback.has(symbol) : true
+
+    let members = sets.get(snapshot.effectiveDate)
+    if (!members) {
+      members = new Set(snapshot.symbols)
+      sets.set(snapshot.effectiveDate, members)
+    }
+    return members.has(symbol)
+  }
+}
+
+/**
+ * Every symbol that was a member at any point on or after `fromDate` (and on
+ * or before `toDate`, when given). This is the set of tickers that must be
+ * fetched to replay the timeline.
+ */
+export function getAllMembers(timeline: MembershipTimeline, fromDate?: string, toDate?: string): string[] {
+  const all = new Set<string>()
+  const { snapshots } = timeline
+
+  for (let i = 0; i < snapshots.length; i++) {
+    const next = snapshots[i + 1]
+    // Skip snapshots fully superseded before the requested start
+    if (fromDate && next && next.effectiveDate <= fromDate) continue
+    // ...or not yet in effect by the requested end
+    if (toDate && snapshots[i].effectiveDate > toDate) continue
+    for (const symbol of snapshots[i].symbols) {
+      all.add(symbol)
+    }
+  }
+
+  return Array.from(all).sort()
+}
+
+// =============================================================================
+// CSV Import
+// =============================================================================
+
+const DATE_HEADERS = ['date', 'as_of', 'asof', 'effective_date']
+const SYMBOL_HEADERS = ['symbol', 'ticker']
+
+/**
+ * Parse a holdings CSV into dated snapshots.
+ *
+ * Expected columns: `date,symbol` (header optional, extra columns such as
+ * weight are ignored). Each distinct date becomes one snapshot containing
+ * every symbol listed for it.
+ *
+ * @throws Error with the offending line number on malformed rows
+ */
+export function parseHoldingsCsv(csv: string): MembershipSnapshot[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0)
+  if (lines.length === 0) return []
+
+  let dateCol = 0
+  let symbolCol = 1
+  let startLine = 0
+
+  const header = lines[0].toLowerCase().split(',').map(cell => cell.trim())
+  const headerDateCol = header.findIndex(cell => DATE_HEADERS.includes(cell))
+  const headerSymbolCol = header.findIndex(cell => SYMBOL_HEADERS.includes(cell))
+
+  if (headerDateCol !== -1 && headerSymbolCol !== -1) {
+    dateCol = headerDateCol
+    symbolCol = headerSymbolCol
+    startLine = 1
+  }
+
+  const byDate = new Map<string, string[]>()
+
+  for (let i = startLine; i < lines.length; i++) {
+    const cells = lines[i].split(',').map(cell => cell.trim().replace(/^"|"$/g, ''))
+    const date = cells[dateCol]
+    const symbol = cells[symbolCol]?.toUpperCase()
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`Line ${i + 1}: invalid date "${date ?? ''}" (expected YYYY-MM-DD)`)
+    }
+    if (!symbol || !/^[A-Z0-9.^-]{1,10}$/.test(symbol)) {
+      throw new Error(`Line ${i + 1}: invalid symbol "${cells[symbolCol] ?? ''}"`)
+    }
+
+    const symbols = byDate.get(date) ?? []
+    symbols.push(symbol)
+    byDate.set(date, symbols)
+  }
+
+  return Array.from(byDate.entries()).map(([effectiveDate, symbols]) => ({
+    effectiveDate,
+    symbols,
+  }))
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Load the stored membership timeline for a universe.
+ * Returns null when the database is not configured or nothing was imported.
+ */
+export async function loadMembershipTimeline(
+  universeId: string
+): Promise<MembershipTimeline | null> {
+  if (!process.env.DATABASE_URL) return null
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+    const rows = await prisma.universeMembership.findMany({
+      where: { universeId },
+      orderBy: { effectiveDate: 'asc' },
+    })
+
+    if (rows.length === 0) return null
+
+    return buildMembershipTimeline(
+      universeId,
+      rows.map((row: { effectiveDate: string; symbols: string }) => ({
+        effectiveDate: row.effectiveDate,
+        symbols: JSON.parse(row.symbols) as string[],
+      }))
+    )
+  } catch (error) {
+    console.error('[Membership] Failed to load timeline:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * Upsert snapshots for a universe (one row per effective date).
+ */
+export async function saveMembershipSnapshots(
+  universeId: string,
+  snapshots: MembershipSnapshot[],
+  source?: string
+): Promise<number> {
+  const { prisma } = await import('@/lib/prisma')
+  const timeline = buildMembershipTimeline(universeId, snapshots)
+
+  await prisma.$transaction(
+    timeline.snapshots.map((snapshot) =>
+      prisma.universeMembership.upsert({
+        where: {
+          universeId_effectiveDate: { universeId, effectiveDate: snapshot.effectiveDate },
+        },
+        create: {
+          universeId,
+          effectiveDate: snapshot.effectiveDate,
+          symbols: JSON.stringify(snapshot.symbols),
+          source,
+        },
+        update: {
+          symbols: JSON.stringify(snapshot.symbols),
+          source,
+        },
+      })
+    )
+  )
+
+  return timeline.snapshots.length
+}
@@ -0,0 +1,164 @@
+// =============================================================================
+// Universe Breadth Runner
+// =============================================================================
+// Fetches, aligns and computes the breadth series for a universe. Shared by
+// /api/breadth and the compute_breadth_extremes chat tool so both honor
+// point-in-time membership the same way. When the participation measures are
+// requested, history reaches back far enough for their 200-day averages.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+import type { Universe } from '@/lib/universes'
+import { getDailyBars } from '@/lib/bars/store'
+import { logger } from '@/lib/logger'
+import { fetchBulkDailyBars, alignBarsByDate } from './fetch-bulk'
+import { computeBreadthSeries, type BreadthSeries } from './compute'
+import { computeBreadthMeasures, MEASURES_WARMUP_DAYS, type BreadthMeasureEntry } from './measures'
+import { loadMembershipTimeline, getAllMembers } from './membership'
+import { detectBreadthEvents, type BreadthEventConfigOverrides, type BreadthEventReport } from './events'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UniverseBreadthResult {
+  series: BreadthSeries
+  measures: BreadthMeasureEntry[] // Same dates as series.entries; empty unless requested
+  constituentsUsed: number
+  failedTickers: string[]
+  flaggedTickers: string[] // Used, but with gaps or unexplained jumps in their bars
+  dataQualityWarnings: string[]
+  fetchTimeMs: number
+  pointInTime: boolean // Membership known for every reported date
+  pointInTimeFrom: string | null // First imported snapshot, when any
+  membershipSnapshots: number
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/**
+ * Compute the breadth series for a universe over `searchDays` sessions.
+ *
+ * When dated constituent lists have been imported for the universe, every
+ * symbol that was a member during the range is fetched and each date only
+ * counts its own members. Otherwise the static symbol list is used, as it is
+ * for dates before the first snapshot - a range reaching back that far is
+ * reported as not point-in-time.
+ *
+ * With `asOf` the series ends on that session (replay mode). The measures
+ * (and the 200-session warmup they need) are only computed with
+ * `withMeasures`, since most callers just want the series.
+ *
+ * @returns null when no symbol in the universe returned data
+ */
+export async function computeUniverseBreadth(
+  universe: Universe,
+  lookbackDays: number,
+  searchDays: number,
+  asOf: string | null = null,
+  withMeasures = false
+): Promise<UniverseBreadthResult | null> {
+  // Need extra days for the lookback window, and the longest moving average if measured
+  const historyDays = searchDays + Math.max(lookbackDays, withMeasures ? MEASURES_WARMUP_DAYS : 0)
+  const fetchDays = historyDays + 30
+
+  const stored = await loadMembershipTimeline(universe.id)
+  const timeline = stored && { ...stored, fallbackSymbols: universe.symbols }
+
+  let symbols = universe.symbols
+  if (timeline) {
+    const fromDate = asOf ? new Date(`${asOf}T00:00:00Z`) : new Date()
+    fromDate.setDate(fromDate.getDate() - fetchDays * 1.5)
+    const from = fromDate.toISOString().split('T')[0]
+    symbols = getAllMembers(timeline, from, asOf ?? undefined)
+    if (from < timeline.snapshots[0].effectiveDate) {
+      symbols = Array.from(new Set([...symbols, ...universe.symbols]))
+    }
+  }
+
+  const fetchResult = await fetchBulkDailyBars(symbols, fetchDays, undefined, asOf)
+
+  if (fetchResult.succeeded.length === 0) {
+    return null
+  }
+
+  // Align bars by date
+  const { dates, alignedBars, validSymbols } = alignBarsByDate(
+    fetchResult.barsBySymbol,
+    timeline ? 0 : 0.5
+  )
+
+  // Slice to the measures' history, then to the search window for new highs/lows
+  const historyDates = dates.slice(-historyDays)
+  const historyBars: Record<string, (typeof alignedBars)[string]> = {}
+  const slicedAlignedBars: Record<string, (typeof alignedBars)[string]> = {}
+  for (const symbol of validSymbols) {
+    historyBars[symbol] = alignedBars[symbol].slice(-historyDays)
+    slicedAlignedBars[symbol] = alignedBars[symbol].slice(-searchDays - lookbackDays)
+  }
+  const slicedDates = dates.slice(-searchDays - lookbackDays)
+
+  const series = computeBreadthSeries(
+    slicedAlignedBars,
+    slicedDates,
+    lookbackDays,
+    timeline ?? undefined
+  )
+  const measures = withMeasures
+    ? computeBreadthMeasures(historyBars, historyDates, series, timeline ?? undefined)
+    : []
+
+  const pointInTimeFrom = timeline?.snapshots[0]?.effectiveDate ?? null
+
+  return {
+    series,
+    measures,
+    constituentsUsed: validSymbols.length,
+    failedTickers: fetchResult.failed,
+    flaggedTickers: fetchResult.flagged,
+    dataQualityWarnings: fetchResult.flagged.flatMap((symbol) =>
+      fetchResult.qualityIssues[symbol].map((issue) => `${symbol} ${issue.date}: ${issue.detail}`)
+    ),
+    fetchTimeMs: fetchResult.fetchTimeMs,
+    pointInTime: pointInTimeFrom !== null && (series.entries[0]?.date ?? '') >= pointInTimeFrom,
+    pointInTimeFrom,
+    membershipSnapshots: timeline?.snapshots.length ?? 0,
+  }
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+/**
+ * Thrust, washout-recovery and divergence events over a computed universe
+ * series, with forward returns of the universe's ETF proxy. Without proxy
+ * bars (no proxy, or the fetch failed) only the breadth-only setups are
+ * reported. The default advance_ratio thrust needs a result computed
+ * `withMeasures`.
+ */
+export async function detectUniverseBreadthEvents(
+  universe: Universe,
+  result: UniverseBreadthResult,
+  asOf: string | null = null,
+  overrides: BreadthEventConfigOverrides = {}
+): Promise<BreadthEventReport> {
+  let proxy: { symbol: string; bars: DailyBar[] } | null = null
+
+  if (universe.etfProxy) {
+    try {
+      const bars = await getDailyBars(universe.etfProxy, result.series.entries.length + 5, asOf)
+      proxy = { symbol: universe.etfProxy, bars }
+    } catch (error) {
+      logger.warn('Proxy bars unavailable, reporting breadth-only events', {
+        universe: universe.id,
+        proxy: universe.etfProxy,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return detectBreadthEvents({ series: result.series, measures: result.measures, proxy }, overrides)
+}
@@ -0,0 +1,6 @@
+// =============================================================================
+// Correlation Module - Public Exports
+// =============================================================================
+
+export * from './matrix'
+export * from './run'
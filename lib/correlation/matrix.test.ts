@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import type { DailyBar } from '@/lib/massive-api'
+import { buildCorrelationReport, clusterOrder } from './matrix'
+
+const DATES = Array.from({ length: 121 }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10))
+
+// Deterministic noise in [-0.01, 0.01)
+function noise(seed: number, length: number): number[] {
+  let state = seed
+  return Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31
+    return (state / 2 ** 31 - 0.5) * 0.02
+  })
+}
+
+function barsFromReturns(returns: number[]): DailyBar[] {
+  let close = 100
+  return [0, ...returns].map((r, i) => {
+    close *= 1 + r
+    return { date: DATES[i], open: close, high: close, low: close, close, volume: 0 }
+  })
+}
+
+describe('clusterOrder', () => {
+  it('keeps highly correlated symbols adjacent', () => {
+    // 0 and 2 move together, as do 1 and 3
+    const matrix = [
+      [1, 0, 0.9, 0.1],
+      [0, 1, 0.1, 0.8],
+      [0.9, 0.1, 1, 0],
+      [0.1, 0.8, 0, 1],
+    ]
+    const order = clusterOrder(matrix)
+
+    expect(order).toHaveLength(4)
+    expect(Math.abs(order.indexOf(0) - order.indexOf(2))).toBe(1)
+    expect(Math.abs(order.indexOf(1) - order.indexOf(3))).toBe(1)
+  })
+})
+
+describe('buildCorrelationReport', () => {
+  it('reports the matrix in clustered order', () => {
+    const base = noise(1, 120)
+    const report = buildCorrelationReport(
+      {
+        A: barsFromReturns(base),
+        X: barsFromReturns(noise(2, 120)),
+        B: barsFromReturns(base.map((r) => r * 2)),
+        INV: barsFromReturns(base.map((r) => -r)),
+      },
+      { window: 60, shiftWindow: 20, historyDays: 50 }
+    )
+
+    const at = (a: string, b: string) => report.matrix[report.symbols.indexOf(a)][report.symbols.indexOf(b)]
+    expect(at('A', 'B')).toBe(1)
+    expect(at('A', 'INV')).toBe(-1)
+    expect(Math.abs(report.symbols.indexOf('A') - report.symbols.indexOf('B'))).toBe(1)
+    expect(report.asOf).toBe(DATES[120])
+    expect(report.startDate).toBe(DATES[61])
+    expect(report.history).toHaveLength(50)
+  })
+
+  it('flags a jump in average correlation', () => {
+    // Independent for 90 sessions, then every symbol moves together
+    const common = noise(9, 30)
+    const symbols = [3, 4, 5, 6].map((seed) => [...noise(seed, 90), ...common])
+    const report = buildCorrelationReport(
+      Object.fromEntries(symbols.map((returns, i) => [`S${i}`, barsFromReturns(returns)])),
+      { shiftWindow: 20, jumpDays: 10, jumpThreshold: 0.3, historyDays: 60 }
+    )
+
+    expect(report.shifts).toHaveLength(1)
+    expect(report.shifts[0].date > DATES[90]).toBe(true)
+    expect(report.shifts[0].change).toBeGreaterThanOrEqual(0.3)
+    expect(report.history[report.history.length - 1].average).toBe(1)
+    expect(report.activeShift).toBeNull()
+  })
+
+  it('leaves out symbols with less history than the window instead of truncating the rest', () => {
+    const base = noise(1, 120)
+    const report = buildCorrelationReport(
+      {
+        A: barsFromReturns(base),
+        B: barsFromReturns(base.map((r) => r * 2)),
+        // Listed 30 sessions ago
+        IPO: barsFromReturns(noise(7, 120)).slice(-30),
+      },
+      { window: 60, shiftWindow: 20, historyDays: 50 }
+    )
+
+    expect(report.shortHistorySymbols).toEqual(['IPO'])
+    expect(report.symbols).toEqual(expect.arrayContaining(['A', 'B']))
+    expect(report.symbols).toHaveLength(2)
+    expect(report.startDate).toBe(DATES[61])
+    expect(report.history).toHaveLength(50)
+  })
+})
@@ -0,0 +1,272 @@
+// =============================================================================
+// Rolling Correlation Matrix
+// =============================================================================
+// Pairwise Pearson correlation of daily returns across a symbol set, ordered
+// by average-linkage clustering so related symbols sit next to each other in
+// the heatmap.
+//
+// Alongside the matrix, the average pairwise correlation is tracked over a
+// shorter rolling window. When it jumps - everything starts moving together -
+// a correlation shift is flagged. Those spikes tend to lead risk-off moves,
+// as diversification disappears when selling becomes indiscriminate.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CorrelationOptions {
+  window: number // Sessions of returns behind the matrix
+  shiftWindow: number // Sessions behind each average-correlation reading
+  jumpDays: number // Sessions the average is compared across
+  jumpThreshold: number // Rise in average correlation that flags a shift
+  historyDays: number // Sessions of average-correlation history returned
+}
+
+export interface CorrelationPoint {
+  date: string
+  average: number // Mean of the off-diagonal correlations
+}
+
+export interface CorrelationShift {
+  date: string
+  average: number
+  priorAverage: number // `jumpDays` sessions earlier
+  change: number
+}
+
+export interface CorrelationReport {
+  symbols: string[] // Clustered order; rows and columns of `matrix`
+  matrix: number[][]
+  options: CorrelationOptions
+  asOf: string | null
+  startDate: string | null // First return date inside the matrix window
+  averageCorrelation: number | null
+  history: CorrelationPoint[] // Ascending
+  shifts: CorrelationShift[] // Ascending
+  activeShift: CorrelationShift | null // A shift within the last `jumpDays` sessions
+  shortHistorySymbols: string[] // Fewer than `window` sessions of returns; left out of the report
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_CORRELATION_OPTIONS: CorrelationOptions = {
+  window: 63,
+  shiftWindow: 21,
+  jumpDays: 10,
+  jumpThreshold: 0.2,
+  historyDays: 252,
+}
+
+/**
+ * Defaults with `overrides` applied; undefined overrides (unset query or
+ * tool params) keep the default.
+ */
+export function resolveCorrelationOptions(overrides: Partial<CorrelationOptions> = {}): CorrelationOptions {
+  const set = Object.entries(overrides).filter(([, value]) => value !== undefined)
+  return { ...DEFAULT_CORRELATION_OPTIONS, ...Object.fromEntries(set) }
+}
+
+/**
+ * Daily sessions of bars needed for `options`.
+ */
+export function correlationHistoryDays(options: CorrelationOptions): number {
+  return Math.max(options.window, options.historyDays + options.shiftWindow + options.jumpDays) + 1
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function round(value: number, decimals = 3): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Daily returns per symbol over the dates every symbol has a bar for.
+ * `dates[i]` is the session `returns[symbol][i]` ends on.
+ */
+export function alignReturns(barsBySymbol: Record<string, DailyBar[]>): {
+  dates: string[]
+  returns: Record<string, number[]>
+} {
+  const symbols = Object.keys(barsBySymbol)
+  if (symbols.length === 0) return { dates: [], returns: {} }
+
+  const closes = symbols.map((symbol) => new Map(barsBySymbol[symbol].map((bar) => [bar.date, bar.close])))
+  const common = barsBySymbol[symbols[0]]
+    .map((bar) => bar.date)
+    .filter((date) => closes.every((byDate) => (byDate.get(date) ?? 0) > 0))
+
+  const returns: Record<string, number[]> = {}
+  symbols.forEach((symbol, s) => {
+    returns[symbol] = common.slice(1).map((date, i) => {
+      const prev = closes[s].get(common[i]) as number
+      return (closes[s].get(date) as number) / prev - 1
+    })
+  })
+
+  return { dates: common.slice(1), returns }
+}
+
+/**
+ * Pearson correlation of two equal-length series; 0 when either is flat.
+ */
+export function pearson(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length)
+  if (n < 2) return 0
+
+  let xMean = 0
+  let yMean = 0
+  for (let i = 0; i < n; i++) {
+    xMean += x[i]
+    yMean += y[i]
+  }
+  xMean /= n
+  yMean /= n
+
+  let covariance = 0
+  let xVar = 0
+  let yVar = 0
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - xMean
+    const dy = y[i] - yMean
+    covariance += dx * dy
+    xVar += dx * dx
+    yVar += dy * dy
+  }
+
+  const denominator = Math.sqrt(xVar * yVar)
+  return denominator === 0 ? 0 : covariance / denominator
+}
+
+function matrixOver(series: number[][], start: number, end: number): number[][] {
+  const slices = series.map((values) => values.slice(start, end))
+  return slices.map((x, i) => slices.map((y, j) => (i === j ? 1 : pearson(x, y))))
+}
+
+function averageOffDiagonal(matrix: number[][]): number | null {
+  let sum = 0
+  let count = 0
+  for (let i = 0; i < matrix.length; i++) {
+    for (let j = i + 1; j < matrix.length; j++) {
+      sum += matrix[i][j]
+      count++
+    }
+  }
+  return count > 0 ? sum / count : null
+}
+
+/**
+ * Leaf order from average-linkage hierarchical clustering on 1 - correlation.
+ * Merged clusters keep their members adjacent, so blocks of highly correlated
+ * symbols line up along the diagonal.
+ */
+export function clusterOrder(matrix: number[][]): number[] {
+  const clusters = matrix.map((_, i) => [i])
+  const distance = (a: number[], b: number[]) => {
+    let sum = 0
+    for (const i of a) for (const j of b) sum += 1 - matrix[i][j]
+    return sum / (a.length * b.length)
+  }
+
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, distance: Infinity }
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const d = distance(clusters[a], clusters[b])
+        if (d < best.distance) best = { a, b, distance: d }
+      }
+    }
+    const merged = [...clusters[best.a], ...clusters[best.b]]
+    clusters.splice(best.b, 1)
+    clusters[best.a] = merged
+  }
+
+  return clusters[0] ?? []
+}
+
+// =============================================================================
+// Computation
+// =============================================================================
+
+/**
+ * Correlation matrix, average-correlation history and shift flags for every
+ * symbol in `barsBySymbol`, over the dates they all share.
+ *
+ * Symbols without `window` sessions of returns (e.g. a recent IPO) are left
+ * out and listed in `shortHistorySymbols`; aligning on them would cut the
+ * matrix and history for every other symbol down to their span.
+ */
+export function buildCorrelationReport(
+  barsBySymbol: Record<string, DailyBar[]>,
+  overrides: Partial<CorrelationOptions> = {}
+): CorrelationReport {
+  const options = resolveCorrelationOptions(overrides)
+  const shortHistorySymbols = Object.keys(barsBySymbol).filter(
+    (symbol) => barsBySymbol[symbol].length < options.window + 1
+  )
+  const { dates, returns } = alignReturns(
+    Object.fromEntries(Object.entries(barsBySymbol).filter(([symbol]) => !shortHistorySymbols.includes(symbol)))
+  )
+  const symbols = Object.keys(returns)
+  const series = symbols.map((symbol) => returns[symbol])
+
+  const matrixStart = Math.max(0, dates.length - options.window)
+  const raw = matrixOver(series, matrixStart, dates.length)
+  const order = clusterOrder(raw)
+
+  // Rolling average pairwise correlation
+  const history: CorrelationPoint[] = []
+  const firstEnd = Math.max(options.shiftWindow, dates.length - options.historyDays - options.jumpDays)
+  for (let end = firstEnd; end <= dates.length; end++) {
+    const average = averageOffDiagonal(matrixOver(series, end - options.shiftWindow, end))
+    if (average !== null) history.push({ date: dates[end - 1], average: round(average) })
+  }
+
+  // A shift needs the average to rise by the threshold across jumpDays. One
+  // flag per episode: the rise has to drop back under the threshold before
+  // another can fire
+  const shifts: CorrelationShift[] = []
+  let lastShift = -Infinity
+  let armed = true
+  for (let i = options.jumpDays; i < history.length; i++) {
+    const prior = history[i - options.jumpDays]
+    const change = history[i].average - prior.average
+    if (change < options.jumpThreshold) {
+      armed = true
+    } else if (armed) {
+      shifts.push({
+        date: history[i].date,
+        average: history[i].average,
+        priorAverage: prior.average,
+        change: round(change),
+      })
+      lastShift = i
+      armed = false
+    }
+  }
+
+  const latestShift = shifts[shifts.length - 1]
+  const activeShift = latestShift && history.length - 1 - lastShift < options.jumpDays ? latestShift : null
+  const visible = history.slice(-options.historyDays)
+  const average = averageOffDiagonal(raw)
+
+  return {
+    symbols: order.map((i) => symbols[i]),
+    matrix: order.map((i) => order.map((j) => round(raw[i][j]))),
+    options,
+    asOf: dates[dates.length - 1] ?? null,
+    startDate: dates[matrixStart] ?? null,
+    averageCorrelation: average === null ? null : round(average),
+    history: visible,
+    shifts: shifts.filter((shift) => shift.date >= (visible[0]?.date ?? '')),
+    activeShift,
+    shortHistorySymbols,
+  }
+}
@@ -0,0 +1,91 @@
+// =============================================================================
+// Correlation Runner
+// =============================================================================
+// Resolves a symbol set, loads history from the bar store and builds the
+// correlation report. Shared by /api/correlation and the
+// show_correlation_matrix chat tool.
+// =============================================================================
+
+import { SECTOR_ETFS, type DailyBar } from '@/lib/massive-api'
+import { getDailyBars } from '@/lib/bars/store'
+import { loadUniverse } from '@/lib/universes'
+import { DEFAULT_BACKTEST_SYMBOLS } from '@/lib/backtest/run'
+import {
+  buildCorrelationReport,
+  correlationHistoryDays,
+  resolveCorrelationOptions,
+  type CorrelationOptions,
+  type CorrelationReport,
+} from './matrix'
+
+export const MAX_CORRELATION_SYMBOLS = 50
+
+export interface CorrelationSet {
+  id: string
+  label: string
+  symbols: string[]
+}
+
+export interface CorrelationRunResult extends CorrelationReport {
+  set: { id: string; label: string }
+  failedSymbols: string[]
+}
+
+/**
+ * Symbols for a set id: `core` (the dashboard indices), `sectors` (the
+ * sector ETFs) or any universe id. Universes larger than
+ * MAX_CORRELATION_SYMBOLS keep their leading (largest) holdings.
+ *
+ * @returns null for an unknown id
+ */
+export async function resolveCorrelationSet(setId: string): Promise<CorrelationSet | null> {
+  const id = setId.toLowerCase().trim()
+  if (id === 'core') {
+    return { id, label: 'Core Indices', symbols: DEFAULT_BACKTEST_SYMBOLS }
+  }
+  if (id === 'sectors') {
+    return { id, label: 'Sector ETFs', symbols: Object.keys(SECTOR_ETFS) }
+  }
+
+  const universe = await loadUniverse(id)
+  if (!universe) return null
+  return { id: universe.id, label: universe.label, symbols: universe.symbols.slice(0, MAX_CORRELATION_SYMBOLS) }
+}
+
+/**
+ * Correlation report for `set`, ending on `asOf` when given.
+ *
+ * @returns null when fewer than two symbols have `window` sessions of data
+ */
+export async function computeCorrelationSet(
+  set: CorrelationSet,
+  overrides: Partial<CorrelationOptions> = {},
+  asOf: string | null = null
+): Promise<CorrelationRunResult | null> {
+  const options = resolveCorrelationOptions(overrides)
+  const days = correlationHistoryDays(options)
+  const symbols = Array.from(new Set(set.symbols.map((s) => s.toUpperCase().trim()).filter(Boolean)))
+
+  const results = await Promise.allSettled(symbols.map((symbol) => getDailyBars(symbol, days, asOf)))
+
+  const barsBySymbol: Record<string, DailyBar[]> = {}
+  const failedSymbols: string[] = []
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value.length > 1) {
+      barsBySymbol[symbols[index]] = result.value
+    } else {
+      failedSymbols.push(symbols[index])
+    }
+  })
+
+  const report = buildCorrelationReport(barsBySymbol, options)
+  if (report.symbols.length < 2) {
+    return null
+  }
+
+  return {
+    ...report,
+    set: { id: set.id, label: set.label },
+    failedSymbols,
+  }
+}
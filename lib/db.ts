@@ -78,7 +78,7 @@ export async function cleanupRateLimits(): Promise<number> {
 
   const result = await prisma.rateLimitEntry.deleteMany({
     where: {
-      windowStart: {
+      hitAt: {
         lt: oneHourAgo,
       },
     },
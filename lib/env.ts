@@ -5,8 +5,14 @@ import { z } from 'zod'
 // =============================================================================
 
 const envSchema = z.object({
-  // Required - Core API
-  MASSIVE_API_KEY: z.string().min(1, 'Polygon.io API key is required'),
+  // Required - Core API (unless MARKET_DATA_PROVIDER=fixture)
+  MASSIVE_API_KEY: z.string().min(1, 'Polygon.io API key is required').optional(),
+
+  // Optional - Market data source: "polygon" (default), "fixture" (offline,
+  // reads MARKET_DATA_FIXTURES_DIR) or "record" (Polygon, saving every
+  // response into MARKET_DATA_FIXTURES_DIR). Default dir: fixtures/market-data
+  MARKET_DATA_PROVIDER: z.enum(['polygon', 'fixture', 'record']).optional(),
+  MARKET_DATA_FIXTURES_DIR: z.string().optional(),
 
   // Required - Database (optional, enables sharing/pinning features)
   DATABASE_URL: z.string().url().optional(),
@@ -15,6 +21,29 @@ const envSchema = z.object({
   ANTHROPIC_API_KEY: z.string().optional(),
   OPENAI_API_KEY: z.string().optional(),
 
+  // Optional - Auth (requires DATABASE_URL): "credentials", "magic-link" or both
+  AUTH_PROVIDERS: z.string().optional(),
+  AUTH_EMAIL_WEBHOOK_URL: z.string().url().optional(),
+
+  // Optional - Live heatmap feed: "polling" (default), "polygon-ws" or "replay"
+  LIVE_FEED: z.enum(['polling', 'polygon-ws', 'replay']).optional(),
+  LIVE_POLL_SECONDS: z.coerce.number().positive().optional(),
+  LIVE_REPLAY_FILE: z.string().optional(),
+  POLYGON_WS_URL: z.string().url().optional(),
+
+  // Optional - Nightly IV snapshots (requires DATABASE_URL): New York hour
+  // to snapshot after (default 17, "off" disables) and comma-separated symbols
+  IV_SNAPSHOT_HOUR: z.string().optional(),
+  IV_SNAPSHOT_SYMBOLS: z.string().optional(),
+
+  // Optional - Weighted Polygon calls per minute shared by the whole process
+  // (default 600; lower it for entitlement plans with a tighter cap)
+  POLYGON_CALLS_PER_MINUTE: z.coerce.number().positive().optional(),
+
+  // Optional - Rate limit tiers for API key callers (x-api-key header):
+  // comma-separated "tier:key" entries, tier is "pro" or "internal"
+  RATE_LIMIT_API_KEYS: z.string().optional(),
+
   // Optional - App config
   NEXT_PUBLIC_APP_URL: z.string().url().optional(),
   NODE_ENV: z
@@ -45,6 +74,23 @@ export function requireMassiveApiKey(): EnvCheck {
   }
 }
 
+/**
+ * Check if market data is available: a Polygon key, or the offline fixture
+ * provider (MARKET_DATA_PROVIDER=fixture), which needs none.
+ * Use this at the start of API routes that require market data.
+ */
+export function requireMarketData(): EnvCheck {
+  const provider = (process.env.MARKET_DATA_PROVIDER ?? '').trim().toLowerCase()
+  if (provider === 'fixture') {
+    return { isValid: true, missing: [] }
+  }
+  const key = process.env.MASSIVE_API_KEY || process.env.POLYGON_API_KEY
+  return {
+    isValid: !!key,
+    missing: !key ? ['MASSIVE_API_KEY'] : [],
+  }
+}
+
 /**
  * Check if DATABASE_URL is configured.
  * Use this at the start of API routes that require database access.
@@ -91,6 +137,11 @@ export function validateEnv(): { isValid: boolean; errors: string[] } {
 
   // Additional business rules
   if (result.success) {
+    // Market data requires a key unless it comes from offline fixtures
+    if (!result.data.MASSIVE_API_KEY && result.data.MARKET_DATA_PROVIDER !== 'fixture') {
+      errors.push('Market data requires MASSIVE_API_KEY (or MARKET_DATA_PROVIDER=fixture)')
+    }
+
     // AI chat requires at least one AI provider
     if (!result.data.ANTHROPIC_API_KEY && !result.data.OPENAI_API_KEY) {
       errors.push(
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { atr, bollinger, daysSinceHigh, ema, macd, pctFromHigh, rollingHigh, rsi, sma, vwap } from './compute'
+import { computeIndicators, indicatorWarmup, latestValue } from './series'
+import { linePath } from './overlays'
+
+const bar = (close: number, high = close, low = close, volume = 100) => ({ open: close, high, low, close, volume })
+
+describe('moving averages', () => {
+  it('computes SMA with a null warm-up', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4])
+  })
+
+  it('seeds EMA with the SMA and then smooths', () => {
+    const out = ema([1, 2, 3, 4], 3)
+    expect(out.slice(0, 3)).toEqual([null, null, 2])
+    expect(out[3]).toBeCloseTo(3) // 2 + 0.5 * (4 - 2)
+  })
+})
+
+describe('oscillators', () => {
+  it('pins RSI to 100 in a straight rally and 50 on a flat line', () => {
+    const rally = Array.from({ length: 20 }, (_, i) => 100 + i)
+    expect(rsi(rally)[13]).toBeNull()
+    expect(rsi(rally)[14]).toBe(100)
+    expect(rsi(new Array(20).fill(100)).at(-1)).toBe(50)
+  })
+
+  it('matches a hand-checked RSI value', () => {
+    // 14 alternating +1/-1 changes -> avg gain 0.5, avg loss 0.5, then a +1 day
+    const values = [10]
+    for (let i = 0; i < 14; i++) values.push(values[i] + (i % 2 === 0 ? 1 : -1))
+    values.push(values[14] + 1)
+    const out = rsi(values)
+    expect(out[14]).toBeCloseTo(50)
+    // avgGain = (0.5*13 + 1)/14, avgLoss = 0.5*13/14
+    expect(out[15]).toBeCloseTo(100 - 100 / (1 + 7.5 / 6.5))
+  })
+
+  it('returns a flat MACD for a flat series', () => {
+    const { macd: line, signal, histogram } = macd(new Array(40).fill(50))
+    expect(line[24]).toBeNull()
+    expect(line[25]).toBe(0)
+    expect(signal[32]).toBeNull()
+    expect(signal[33]).toBe(0)
+    expect(histogram.at(-1)).toBe(0)
+  })
+})
+
+describe('bands and volatility', () => {
+  it('centers Bollinger bands on the SMA', () => {
+    const { upper, middle, lower } = bollinger([1, 3, 1, 3], 2, 2)
+    expect(middle).toEqual([null, 2, 2, 2])
+    expect(upper[1]).toBe(4) // sd = 1
+    expect(lower[1]).toBe(0)
+  })
+
+  it('uses the prior close for true range', () => {
+    const bars = [bar(10, 11, 9), bar(14, 15, 13), bar(14, 15, 13)]
+    // TR: 2, max(2, |15-10|, |13-10|) = 5, 2 -> seed (2+5)/2 = 3.5, then 3.5 + (2-3.5)/2
+    expect(atr(bars, 2)).toEqual([null, 3.5, 2.75])
+  })
+
+  it('resets VWAP at each session', () => {
+    const bars = [bar(10, 10, 10, 100), bar(20, 20, 20, 300), bar(30, 30, 30, 100)]
+    expect(vwap(bars)).toEqual([10, 17.5, 20])
+    expect(vwap(bars, ['2024-03-14', '2024-03-14', '2024-03-15'])).toEqual([10, 17.5, 30])
+  })
+})
+
+describe('rolling extremes', () => {
+  it('tracks the trailing high, drawdown and its age', () => {
+    const values = [10, 12, 11, 9, 12]
+    expect(rollingHigh(values, 3)).toEqual([null, null, 12, 12, 12])
+    expect(pctFromHigh(values, 3)[3]).toBeCloseTo(25)
+    // Ties resolve to the latest occurrence
+    expect(daysSinceHigh(values, 3)).toEqual([null, null, 1, 2, 0])
+  })
+})
+
+describe('computeIndicators', () => {
+  const bars = Array.from({ length: 60 }, (_, i) => bar(100 + Math.sin(i / 3) * 5, 106 + i * 0.1, 94))
+
+  it('expands multi-line indicators aligned to the bars', () => {
+    const lines = computeIndicators(bars, ['sma_20', 'macd', 'bollinger', 'sma_20'])
+    expect(lines.map((l) => l.key)).toEqual([
+      'sma_20',
+      'macd',
+      'macd_signal',
+      'macd_histogram',
+      'bb_upper',
+      'bb_middle',
+      'bb_lower',
+    ])
+    expect(lines.every((l) => l.values.length === bars.length)).toBe(true)
+    expect(lines.find((l) => l.key === 'macd')?.pane).toBe('oscillator')
+    expect(lines.find((l) => l.key === 'bb_upper')?.pane).toBe('price')
+  })
+
+  it('uses the lookback for rolling indicators', () => {
+    const [high] = computeIndicators(bars, ['rolling_high'], { lookback: 10 })
+    expect(high.label).toBe('10d High')
+    expect(high.values[8]).toBeNull()
+    expect(latestValue(high)).toBeCloseTo(106 + 59 * 0.1)
+  })
+
+  it('sizes the warm-up for the slowest indicator', () => {
+    expect(indicatorWarmup(['ema_9', 'sma_200'])).toBe(200)
+    expect(indicatorWarmup(['rsi', 'days_since_high'], 21)).toBe(21)
+    expect(indicatorWarmup([])).toBe(0)
+  })
+})
+
+describe('linePath', () => {
+  it('lifts the pen over warm-up gaps', () => {
+    const path = linePath([null, 1, 2, null, 3], (i) => i, (v) => v * 10)
+    expect(path).toBe('M 1 10 L 2 20 M 4 30')
+  })
+})
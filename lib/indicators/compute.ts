@@ -0,0 +1,260 @@
+// =============================================================================
+// Technical Indicators - Pure Series Math
+// =============================================================================
+// Every function takes an ascending series (oldest first) and returns an
+// array of the same length. Points inside the warm-up window are null so the
+// output can be zipped straight back onto the bars for charting.
+// =============================================================================
+
+export type IndicatorValue = number | null
+
+/**
+ * Minimal OHLCV shape shared by DailyBar, IntradayBar and NormalizedBar.
+ */
+export interface PriceBar {
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+// =============================================================================
+// Moving Averages
+// =============================================================================
+
+/**
+ * Simple moving average over `period` values.
+ */
+export function sma(values: number[], period: number): IndicatorValue[] {
+  const out: IndicatorValue[] = new Array(values.length).fill(null)
+  let sum = 0
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i]
+    if (i >= period) sum -= values[i - period]
+    if (i >= period - 1) out[i] = sum / period
+  }
+  return out
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values.
+ */
+export function ema(values: number[], period: number): IndicatorValue[] {
+  return emaFrom(values, period, 2 / (period + 1))
+}
+
+// Shared by EMA (alpha = 2/(n+1)) and Wilder smoothing (alpha = 1/n)
+function emaFrom(values: IndicatorValue[], period: number, alpha: number): IndicatorValue[] {
+  const out: IndicatorValue[] = new Array(values.length).fill(null)
+  let seedSum = 0
+  let seedCount = 0
+  let prev: number | null = null
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (value === null) continue
+
+    if (prev === null) {
+      seedSum += value
+      seedCount++
+      if (seedCount === period) {
+        prev = seedSum / period
+        out[i] = prev
+      }
+      continue
+    }
+
+    prev = prev + alpha * (value - prev)
+    out[i] = prev
+  }
+  return out
+}
+
+// =============================================================================
+// Oscillators
+// =============================================================================
+
+/**
+ * Wilder's RSI (0-100). The first value lands on index `period`.
+ */
+export function rsi(values: number[], period = 14): IndicatorValue[] {
+  const out: IndicatorValue[] = new Array(values.length).fill(null)
+  if (values.length <= period) return out
+
+  let avgGain = 0
+  let avgLoss = 0
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1]
+    if (change > 0) avgGain += change
+    else avgLoss -= change
+  }
+  avgGain /= period
+  avgLoss /= period
+  out[period] = toRsi(avgGain, avgLoss)
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1]
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period
+    out[i] = toRsi(avgGain, avgLoss)
+  }
+  return out
+}
+
+function toRsi(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100
+  return 100 - 100 / (1 + avgGain / avgLoss)
+}
+
+export interface MacdSeries {
+  macd: IndicatorValue[]
+  signal: IndicatorValue[]
+  histogram: IndicatorValue[]
+}
+
+/**
+ * MACD line (fast EMA - slow EMA), its signal EMA and the histogram.
+ */
+export function macd(values: number[], fast = 12, slow = 26, signalPeriod = 9): MacdSeries {
+  const fastEma = ema(values, fast)
+  const slowEma = ema(values, slow)
+  const line = values.map((_, i) => {
+    const f = fastEma[i]
+    const s = slowEma[i]
+    return f === null || s === null ? null : f - s
+  })
+  const signal = emaFrom(line, signalPeriod, 2 / (signalPeriod + 1))
+  const histogram = line.map((m, i) => {
+    const s = signal[i]
+    return m === null || s === null ? null : m - s
+  })
+  return { macd: line, signal, histogram }
+}
+
+// =============================================================================
+// Bands and Volatility
+// =============================================================================
+
+export interface BollingerSeries {
+  upper: IndicatorValue[]
+  middle: IndicatorValue[]
+  lower: IndicatorValue[]
+}
+
+/**
+ * Bollinger Bands: SMA ± `multiplier` population standard deviations.
+ */
+export function bollinger(values: number[], period = 20, multiplier = 2): BollingerSeries {
+  const middle = sma(values, period)
+  const upper: IndicatorValue[] = new Array(values.length).fill(null)
+  const lower: IndicatorValue[] = new Array(values.length).fill(null)
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i] as number
+    let variance = 0
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += (values[j] - mean) ** 2
+    }
+    const sd = Math.sqrt(variance / period)
+    upper[i] = mean + multiplier * sd
+    lower[i] = mean - multiplier * sd
+  }
+  return { upper, middle, lower }
+}
+
+/**
+ * Wilder's Average True Range. The first bar has no prior close, so its true
+ * range is high - low; the first value lands on index `period - 1`.
+ */
+export function atr(bars: PriceBar[], period = 14): IndicatorValue[] {
+  const trueRanges = bars.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low
+    const prevClose = bars[i - 1].close
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose))
+  })
+  return emaFrom(trueRanges, period, 1 / period)
+}
+
+/**
+ * Volume-weighted average price of the typical price (H+L+C)/3.
+ *
+ * Accumulates across the whole series unless `sessions` is given, in which
+ * case it resets whenever the session key changes (intraday VWAP).
+ */
+export function vwap(bars: PriceBar[], sessions?: string[]): IndicatorValue[] {
+  const out: IndicatorValue[] = new Array(bars.length).fill(null)
+  let pv = 0
+  let volume = 0
+
+  for (let i = 0; i < bars.length; i++) {
+    if (sessions && i > 0 && sessions[i] !== sessions[i - 1]) {
+      pv = 0
+      volume = 0
+    }
+    const bar = bars[i]
+    pv += ((bar.high + bar.low + bar.close) / 3) * bar.volume
+    volume += bar.volume
+    out[i] = volume > 0 ? pv / volume : null
+  }
+  return out
+}
+
+// =============================================================================
+// Rolling Extremes
+// =============================================================================
+
+/**
+ * Highest value over the trailing `window` points (including the current one).
+ */
+export function rollingHigh(values: number[], window: number): IndicatorValue[] {
+  return rollingExtreme(values, window, (a, b) => a >= b)
+}
+
+/**
+ * Lowest value over the trailing `window` points (including the current one).
+ */
+export function rollingLow(values: number[], window: number): IndicatorValue[] {
+  return rollingExtreme(values, window, (a, b) => a <= b)
+}
+
+function rollingExtreme(
+  values: number[],
+  window: number,
+  beats: (a: number, b: number) => boolean
+): IndicatorValue[] {
+  return values.map((_, i) => {
+    if (i < window - 1) return null
+    let best = values[i - window + 1]
+    for (let j = i - window + 2; j <= i; j++) {
+      if (beats(values[j], best)) best = values[j]
+    }
+    return best
+  })
+}
+
+/**
+ * Percent below the trailing `window` high (0 = at the high).
+ */
+export function pctFromHigh(values: number[], window: number): IndicatorValue[] {
+  const highs = rollingHigh(values, window)
+  return values.map((value, i) => {
+    const high = highs[i]
+    return high === null || high === 0 ? null : ((high - value) / high) * 100
+  })
+}
+
+/**
+ * Points since the trailing `window` high was set (0 = at the high). Ties
+ * resolve to the most recent occurrence.
+ */
+export function daysSinceHigh(values: number[], window: number): IndicatorValue[] {
+  return values.map((_, i) => {
+    if (i < window - 1) return null
+    let highIndex = i - window + 1
+    for (let j = highIndex + 1; j <= i; j++) {
+      if (values[j] >= values[highIndex]) highIndex = j
+    }
+    return i - highIndex
+  })
+}
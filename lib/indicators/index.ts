@@ -0,0 +1,7 @@
+// =============================================================================
+// Indicators Module - Public Exports
+// =============================================================================
+
+export * from './compute'
+export * from './series'
+export * from './overlays'
@@ -0,0 +1,56 @@
+// =============================================================================
+// Indicator Overlays - Chart Helpers
+// =============================================================================
+// Shared by the SVG charts that draw price-pane indicator lines on top of the
+// close (symbol drill sheet, AI comparison card).
+// =============================================================================
+
+import type { IndicatorValue } from './compute'
+import type { IndicatorId } from './series'
+
+// Overlays offered as toggles on price charts
+export const CHART_OVERLAYS: IndicatorId[] = ['sma_20', 'sma_50', 'sma_200', 'ema_21', 'bollinger', 'vwap']
+
+// Line colors keyed by IndicatorLine.key
+const OVERLAY_COLORS: Record<string, string> = {
+  sma_20: '#38bdf8', // sky-400
+  sma_50: '#a78bfa', // violet-400
+  sma_200: '#f97316', // orange-500
+  ema_9: '#22d3ee', // cyan-400
+  ema_21: '#e879f9', // fuchsia-400
+  bb_upper: '#94a3b8', // slate-400
+  bb_middle: '#64748b', // slate-500
+  bb_lower: '#94a3b8',
+  vwap: '#facc15', // yellow-400
+  rolling_high: '#10b981', // emerald-500
+  rolling_low: '#ef4444', // red-500
+}
+
+/**
+ * Stroke color for an overlay line.
+ */
+export function overlayColor(key: string): string {
+  return OVERLAY_COLORS[key] ?? '#94a3b8'
+}
+
+/**
+ * SVG path for a series with warm-up gaps: nulls lift the pen instead of
+ * dropping the line to zero.
+ */
+export function linePath(
+  values: IndicatorValue[],
+  scaleX: (i: number) => number,
+  scaleY: (v: number) => number
+): string {
+  let penDown = false
+  const parts: string[] = []
+  values.forEach((value, i) => {
+    if (value === null) {
+      penDown = false
+      return
+    }
+    parts.push(`${penDown ? 'L' : 'M'} ${scaleX(i)} ${scaleY(value)}`)
+    penDown = true
+  })
+  return parts.join(' ')
+}
@@ -0,0 +1,169 @@
+// =============================================================================
+// Indicator Registry
+// =============================================================================
+// Maps the indicator ids a QueryPlan can ask for to computed lines. Each id
+// expands to one or more lines (MACD -> line/signal/histogram, Bollinger ->
+// three bands) tagged with the pane they belong to: `price` lines share the
+// price axis and are drawn as chart overlays, `oscillator` lines have their
+// own scale and are shown as values.
+// =============================================================================
+
+import {
+  atr,
+  bollinger,
+  daysSinceHigh,
+  ema,
+  macd,
+  pctFromHigh,
+  rollingHigh,
+  rollingLow,
+  rsi,
+  sma,
+  vwap,
+  type IndicatorValue,
+  type PriceBar,
+} from './compute'
+
+export const INDICATOR_IDS = [
+  'sma_20',
+  'sma_50',
+  'sma_200',
+  'ema_9',
+  'ema_21',
+  'rsi',
+  'macd',
+  'bollinger',
+  'vwap',
+  'atr',
+  'rolling_high',
+  'rolling_low',
+  'pct_from_high',
+  'days_since_high',
+] as const
+
+export type IndicatorId = (typeof INDICATOR_IDS)[number]
+
+export type IndicatorPane = 'price' | 'oscillator'
+
+export interface IndicatorLine {
+  key: string // e.g. 'sma_20', 'macd_signal', 'bb_upper'
+  indicator: IndicatorId
+  label: string
+  pane: IndicatorPane
+  values: IndicatorValue[] // Aligned 1:1 with the input bars
+}
+
+export interface IndicatorOptions {
+  lookback?: number // Window for rolling_high/low, pct_from_high, days_since_high (default 63)
+  sessions?: string[] // Per-bar session keys; resets VWAP at each new session
+}
+
+// Bars needed before each indicator's first value; rolling ids use the lookback
+const WARMUP: Partial<Record<IndicatorId, number>> = {
+  sma_20: 20,
+  sma_50: 50,
+  sma_200: 200,
+  ema_9: 9,
+  ema_21: 21,
+  rsi: 15,
+  macd: 34,
+  bollinger: 20,
+  vwap: 0,
+  atr: 14,
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Number of extra bars to fetch so every requested indicator is warmed up by
+ * the first bar on display.
+ */
+export function indicatorWarmup(indicators: readonly IndicatorId[], lookback = 63): number {
+  return indicators.reduce((max, id) => Math.max(max, WARMUP[id] ?? lookback), 0)
+}
+
+/**
+ * Compute the requested indicators over ascending bars. Unknown or duplicate
+ * ids are ignored; lines come back in request order.
+ */
+export function computeIndicators(
+  bars: PriceBar[],
+  indicators: readonly IndicatorId[],
+  options: IndicatorOptions = {}
+): IndicatorLine[] {
+  const lookback = options.lookback ?? 63
+  const closes = bars.map((b) => b.close)
+  const lines: IndicatorLine[] = []
+
+  const push = (indicator: IndicatorId, key: string, label: string, pane: IndicatorPane, values: IndicatorValue[]) => {
+    lines.push({ key, indicator, label, pane, values })
+  }
+
+  for (const id of new Set(indicators)) {
+    switch (id) {
+      case 'sma_20':
+      case 'sma_50':
+      case 'sma_200': {
+        const period = Number(id.split('_')[1])
+        push(id, id, `SMA ${period}`, 'price', sma(closes, period))
+        break
+      }
+      case 'ema_9':
+      case 'ema_21': {
+        const period = Number(id.split('_')[1])
+        push(id, id, `EMA ${period}`, 'price', ema(closes, period))
+        break
+      }
+      case 'rsi':
+        push(id, id, 'RSI 14', 'oscillator', rsi(closes))
+        break
+      case 'macd': {
+        const series = macd(closes)
+        push(id, 'macd', 'MACD', 'oscillator', series.macd)
+        push(id, 'macd_signal', 'MACD Signal', 'oscillator', series.signal)
+        push(id, 'macd_histogram', 'MACD Hist', 'oscillator', series.histogram)
+        break
+      }
+      case 'bollinger': {
+        const bands = bollinger(closes)
+        push(id, 'bb_upper', 'BB Upper', 'price', bands.upper)
+        push(id, 'bb_middle', 'BB Mid', 'price', bands.middle)
+        push(id, 'bb_lower', 'BB Lower', 'price', bands.lower)
+        break
+      }
+      case 'vwap':
+        push(id, id, 'VWAP', 'price', vwap(bars, options.sessions))
+        break
+      case 'atr':
+        push(id, id, 'ATR 14', 'oscillator', atr(bars))
+        break
+      case 'rolling_high':
+        push(id, id, `${lookback}d High`, 'price', rollingHigh(bars.map((b) => b.high), lookback))
+        break
+      case 'rolling_low':
+        push(id, id, `${lookback}d Low`, 'price', rollingLow(bars.map((b) => b.low), lookback))
+        break
+      case 'pct_from_high':
+        push(id, id, `% From ${lookback}d High`, 'oscillator', pctFromHigh(closes, lookback))
+        break
+      case 'days_since_high':
+        push(id, id, `Days Since ${lookback}d High`, 'oscillator', daysSinceHigh(closes, lookback))
+        break
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Most recent non-null value of a line, or null when it never warmed up.
+ */
+export function latestValue(line: IndicatorLine): number | null {
+  for (let i = line.values.length - 1; i >= 0; i--) {
+    const value = line.values[i]
+    if (value !== null) return value
+  }
+  return null
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// Live Row Updates - client-side patching of extremes data
+// =============================================================================
+// Safe to import from client components (type-only server imports).
+// =============================================================================
+
+import type { ExtremesResponse } from '@/app/api/extremes/route'
+import type { DailyBar, HeatmapMetrics } from '@/lib/massive-api'
+
+/**
+ * Latest-row payload of the `row` event on /api/extremes/stream.
+ */
+export interface LiveRowUpdate {
+  symbol: string
+  date: string
+  bar: DailyBar
+  high: HeatmapMetrics // Intraday (high/low) basis
+  close: HeatmapMetrics // Close basis
+  timestamp: number
+}
+
+/**
+ * Status payload of the `status` event on /api/extremes/stream.
+ */
+export interface LiveStreamStatus {
+  live: boolean
+  feed?: string
+  reason?: 'market-closed' | 'unavailable'
+}
+
+function replaceLast<T>(items: T[], item: T): T[] {
+  return [...items.slice(0, -1), item]
+}
+
+/**
+ * Patch the latest row of `data` for `row.symbol`.
+ *
+ * Returns `data` unchanged when the update is stale or the symbol is not
+ * shown, and null when the update starts a session the data doesn't have yet
+ * (the caller should refetch the full window).
+ */
+export function applyLiveRow(
+  data: ExtremesResponse,
+  row: LiveRowUpdate,
+  basis: 'close' | 'intraday'
+): ExtremesResponse | null {
+  const lastDate = data.dates[data.dates.length - 1]
+  if (!lastDate) return data
+  if (row.date > lastDate) return null
+
+  const bars = data.rawBars[row.symbol]
+  if (!bars?.length || bars[bars.length - 1].date !== row.date) return data
+
+  return {
+    ...data,
+    basisHigh: { ...data.basisHigh, [row.symbol]: replaceLast(data.basisHigh[row.symbol], row.high) },
+    basisClose: { ...data.basisClose, [row.symbol]: replaceLast(data.basisClose[row.symbol], row.close) },
+    data: {
+      ...data.data,
+      [row.symbol]: replaceLast(data.data[row.symbol], basis === 'intraday' ? row.high : row.close),
+    },
+    rawBars: { ...data.rawBars, [row.symbol]: replaceLast(bars, row.bar) },
+  }
+}
@@ -0,0 +1,93 @@
+// =============================================================================
+// Live Feeds - pluggable sources of intraday session updates
+// =============================================================================
+// A feed turns some upstream source into LiveQuote updates for the current
+// session bar of each subscribed symbol. LIVE_FEED selects the source:
+//   polling    -> snapshot endpoints every LIVE_POLL_SECONDS (default)
+//   polygon-ws -> Polygon per-minute aggregates over websocket
+//   replay     -> scripted quotes from LIVE_REPLAY_FILE (local testing)
+// =============================================================================
+
+export type LiveFeedId = 'polling' | 'polygon-ws' | 'replay'
+
+const KNOWN_FEEDS: LiveFeedId[] = ['polling', 'polygon-ws', 'replay']
+
+/**
+ * Session-to-date bar for one symbol. Feeds may emit partial views (e.g. one
+ * minute aggregate); consumers merge high/low into the bar they already hold.
+ */
+export interface LiveQuote {
+  symbol: string // As subscribed (SPX, not I:SPX)
+  date: string // Session date, YYYY-MM-DD in New York time
+  open: number
+  high: number
+  low: number
+  close: number // Last price
+  volume: number
+  timestamp: number // ms since epoch
+}
+
+export type LiveQuoteListener = (quote: LiveQuote) => void
+
+export interface LiveFeed {
+  readonly id: LiveFeedId
+  /** Start streaming `symbols`; returns a function that stops the stream. */
+  subscribe(symbols: string[], onQuote: LiveQuoteListener): () => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const sessionFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+})
+
+/**
+ * Trading session date (New York) for a timestamp.
+ */
+export function sessionDate(timestamp: number = Date.now()): string {
+  return sessionFormatter.format(new Date(timestamp))
+}
+
+/**
+ * Normalize Polygon timestamps (seconds, ms or ns) to milliseconds.
+ */
+export function toMillis(timestamp: number): number {
+  if (timestamp > 1e15) return Math.floor(timestamp / 1e6)
+  if (timestamp > 1e12) return timestamp
+  return timestamp * 1000
+}
+
+export function getLiveFeedId(): LiveFeedId {
+  const raw = (process.env.LIVE_FEED ?? '').trim().toLowerCase()
+  return KNOWN_FEEDS.includes(raw as LiveFeedId) ? (raw as LiveFeedId) : 'polling'
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Build the feed selected by LIVE_FEED.
+ */
+export async function createLiveFeed(id: LiveFeedId = getLiveFeedId()): Promise<LiveFeed> {
+  switch (id) {
+    case 'polygon-ws': {
+      const { createPolygonWsFeed } = await import('./feeds/polygon-ws')
+      return createPolygonWsFeed()
+    }
+    case 'replay': {
+      const { createReplayFeed, loadReplayQuotes } = await import('./feeds/replay')
+      const file = process.env.LIVE_REPLAY_FILE
+      return createReplayFeed({ quotes: file ? await loadReplayQuotes(file) : [] })
+    }
+    case 'polling': {
+      const { createPollingFeed } = await import('./feeds/polling')
+      return createPollingFeed()
+    }
+  }
+}
@@ -0,0 +1,101 @@
+// =============================================================================
+// Polling Feed - periodic snapshot requests
+// =============================================================================
+// Indices go through the indices snapshot, everything else through the
+// universal snapshot. Only symbols whose session bar changed are emitted.
+// =============================================================================
+
+import {
+  fetchIndexSnapshot,
+  fetchUniversalSnapshot,
+  normalizeSymbol,
+} from '@/lib/massive-api'
+import { logger } from '@/lib/logger'
+import { sessionDate, toMillis, type LiveFeed, type LiveQuote } from '../feed'
+
+const DEFAULT_POLL_SECONDS = 15
+
+export function createPollingFeed(
+  intervalMs = Number(process.env.LIVE_POLL_SECONDS ?? DEFAULT_POLL_SECONDS) * 1000
+): LiveFeed {
+  return {
+    id: 'polling',
+
+    subscribe(symbols, onQuote) {
+      // Snapshot tickers come back normalized (I:SPX); map them to the request
+      const byTicker = new Map(symbols.map((s) => [normalizeSymbol(s), s]))
+      const indices = symbols.filter((s) => normalizeSymbol(s).startsWith('I:'))
+      const stocks = symbols.filter((s) => !normalizeSymbol(s).startsWith('I:'))
+
+      const lastSeen = new Map<string, string>()
+      let inFlight = false
+
+      const emit = (quote: LiveQuote) => {
+        const key = `${quote.date}:${quote.high}:${quote.low}:${quote.close}`
+        if (lastSeen.get(quote.symbol) === key) return
+        lastSeen.set(quote.symbol, key)
+        onQuote(quote)
+      }
+
+      const poll = async () => {
+        if (inFlight) return
+        inFlight = true
+        try {
+          const [indexSnapshot, stockSnapshot] = await Promise.all([
+            indices.length > 0 ? fetchIndexSnapshot(indices) : null,
+            stocks.length > 0 ? fetchUniversalSnapshot({ symbols: stocks }) : null,
+          ])
+
+          for (const item of indexSnapshot?.results ?? []) {
+            const symbol = byTicker.get(item.ticker)
+            if (!symbol || !item.value) continue
+            const timestamp = toMillis(item.last_updated)
+            emit({
+              symbol,
+              date: sessionDate(timestamp),
+              open: item.session.open || item.value,
+              high: Math.max(item.session.high, item.value),
+              low: Math.min(item.session.low || item.value, item.value),
+              close: item.value,
+              volume: 0,
+              timestamp,
+            })
+          }
+
+          for (const item of stockSnapshot?.results ?? []) {
+            const symbol = byTicker.get(item.ticker)
+            const session = item.session
+            if (!symbol || !session?.close) continue
+            const price = item.last_trade?.price || session.close
+            const timestamp = item.last_trade?.timestamp ? toMillis(item.last_trade.timestamp) : Date.now()
+            emit({
+              symbol,
+              date: sessionDate(timestamp),
+              open: session.open || price,
+              high: Math.max(session.high, price),
+              low: Math.min(session.low || price, price),
+              close: price,
+              volume: session.volume,
+              timestamp,
+            })
+          }
+
+          const failure = indexSnapshot?.error ?? stockSnapshot?.error
+          if (failure) {
+            logger.warn('Live snapshot poll failed', { error: failure.message })
+          }
+        } catch (error) {
+          logger.warn('Live snapshot poll failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          })
+        } finally {
+          inFlight = false
+        }
+      }
+
+      poll()
+      const handle = setInterval(poll, intervalMs)
+      return () => clearInterval(handle)
+    },
+  }
+}
@@ -0,0 +1,169 @@
+// =============================================================================
+// Polygon Websocket Feed - per-minute aggregates
+// =============================================================================
+// Opens one socket per cluster (stocks, indices) and subscribes to AM.*
+// aggregates. Minute bars are folded into a running session bar per symbol,
+// so high/low cover the time since subscribing; the stream route merges them
+// with the daily bar it already holds. POLYGON_WS_URL defaults to the delayed
+// endpoint; point it at wss://socket.polygon.io for real-time plans.
+// Requires a global WebSocket (Node 22+).
+// =============================================================================
+
+import { normalizeSymbol } from '@/lib/massive-api'
+import { logger } from '@/lib/logger'
+import { sessionDate, type LiveFeed, type LiveQuote, type LiveQuoteListener } from '../feed'
+
+const DEFAULT_WS_URL = 'wss://delayed.polygon.io'
+const MAX_BACKOFF_MS = 60_000
+
+type Cluster = 'stocks' | 'indices'
+
+interface PolygonMessage {
+  ev: string
+  status?: string
+  message?: string
+  sym?: string
+  o?: number
+  op?: number // Official open (stocks)
+  h?: number
+  l?: number
+  c?: number
+  v?: number
+  av?: number // Accumulated session volume (stocks)
+  s?: number // Window start, ms
+}
+
+function connectCluster(
+  baseUrl: string,
+  apiKey: string,
+  cluster: Cluster,
+  symbols: string[],
+  onQuote: LiveQuoteListener
+): () => void {
+  const byTicker = new Map(symbols.map((s) => [normalizeSymbol(s), s]))
+  const sessions = new Map<string, LiveQuote>()
+  let socket: WebSocket | null = null
+  let reconnect: ReturnType<typeof setTimeout> | null = null
+  let backoff = 1000
+  let stopped = false
+
+  const handleAggregate = (message: PolygonMessage) => {
+    const symbol = message.sym ? byTicker.get(message.sym) : undefined
+    if (!symbol || message.c === undefined) return
+
+    const timestamp = message.s ?? Date.now()
+    const date = sessionDate(timestamp)
+    const previous = sessions.get(symbol)
+    const high = message.h ?? message.c
+    const low = message.l ?? message.c
+
+    const quote: LiveQuote =
+      previous && previous.date === date
+        ? {
+            ...previous,
+            high: Math.max(previous.high, high),
+            low: Math.min(previous.low, low),
+            close: message.c,
+            volume: message.av ?? previous.volume + (message.v ?? 0),
+            timestamp,
+          }
+        : {
+            symbol,
+            date,
+            open: message.op ?? message.o ?? message.c,
+            high,
+            low,
+            close: message.c,
+            volume: message.av ?? message.v ?? 0,
+            timestamp,
+          }
+
+    sessions.set(symbol, quote)
+    onQuote(quote)
+  }
+
+  const connect = () => {
+    if (stopped) return
+    const ws = new WebSocket(`${baseUrl}/${cluster}`)
+    socket = ws
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ action: 'auth', params: apiKey }))
+    }
+
+    ws.onmessage = (event) => {
+      let messages: PolygonMessage[]
+      try {
+        messages = JSON.parse(String(event.data))
+      } catch {
+        return
+      }
+
+      for (const message of messages) {
+        if (message.ev === 'AM') {
+          handleAggregate(message)
+        } else if (message.ev === 'status' && message.status === 'auth_success') {
+          backoff = 1000
+          const params = [...byTicker.keys()].map((ticker) => `AM.${ticker}`).join(',')
+          ws.send(JSON.stringify({ action: 'subscribe', params }))
+        } else if (message.ev === 'status' && message.status === 'auth_failed') {
+          logger.error('Polygon websocket auth failed', { cluster, message: message.message })
+          stopped = true
+          ws.close()
+        }
+      }
+    }
+
+    ws.onerror = () => {
+      logger.warn('Polygon websocket error', { cluster })
+    }
+
+    ws.onclose = () => {
+      socket = null
+      if (stopped) return
+      reconnect = setTimeout(connect, backoff)
+      backoff = Math.min(backoff * 2, MAX_BACKOFF_MS)
+    }
+  }
+
+  connect()
+
+  return () => {
+    stopped = true
+    if (reconnect) clearTimeout(reconnect)
+    socket?.close()
+  }
+}
+
+export function createPolygonWsFeed(
+  options: { url?: string; apiKey?: string } = {}
+): LiveFeed {
+  const baseUrl = options.url ?? process.env.POLYGON_WS_URL ?? DEFAULT_WS_URL
+  const apiKey = options.apiKey ?? process.env.MASSIVE_API_KEY ?? process.env.POLYGON_API_KEY ?? ''
+
+  return {
+    id: 'polygon-ws',
+
+    subscribe(symbols, onQuote) {
+      if (typeof WebSocket === 'undefined') {
+        logger.error('Polygon websocket feed needs a global WebSocket (Node 22+)')
+        return () => {}
+      }
+      if (!apiKey) {
+        logger.error('Polygon websocket feed needs MASSIVE_API_KEY')
+        return () => {}
+      }
+
+      const clusters: Record<Cluster, string[]> = { stocks: [], indices: [] }
+      for (const symbol of symbols) {
+        clusters[normalizeSymbol(symbol).startsWith('I:') ? 'indices' : 'stocks'].push(symbol)
+      }
+
+      const stops = (Object.keys(clusters) as Cluster[])
+        .filter((cluster) => clusters[cluster].length > 0)
+        .map((cluster) => connectCluster(baseUrl, apiKey, cluster, clusters[cluster], onQuote))
+
+      return () => stops.forEach((stop) => stop())
+    },
+  }
+}
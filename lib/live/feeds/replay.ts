@@ -0,0 +1,82 @@
+// =============================================================================
+// Replay Feed - scripted quotes for local testing
+// =============================================================================
+// Plays a list of quotes one step at a time, looping by default. The script is
+// a JSON array (or JSON lines) of LiveQuote objects; `date` and `timestamp`
+// may be omitted, in which case the current session is used. Set the dates to
+// the latest bar in the data when testing outside market hours.
+// =============================================================================
+
+import { readFile } from 'fs/promises'
+import { logger } from '@/lib/logger'
+import { sessionDate, type LiveFeed, type LiveQuote } from '../feed'
+
+const DEFAULT_STEP_MS = 1000
+
+export type ReplayQuote = Omit<LiveQuote, 'date' | 'timestamp' | 'volume'> &
+  Partial<Pick<LiveQuote, 'date' | 'timestamp' | 'volume'>>
+
+/**
+ * Read a replay script. Invalid entries are skipped.
+ */
+export async function loadReplayQuotes(path: string): Promise<ReplayQuote[]> {
+  try {
+    const text = (await readFile(path, 'utf8')).trim()
+    const entries: unknown[] = text.startsWith('[')
+      ? JSON.parse(text)
+      : text.split('\n').filter(Boolean).map((line) => JSON.parse(line))
+
+    return entries.filter((entry): entry is ReplayQuote => {
+      const q = entry as ReplayQuote
+      return (
+        typeof q?.symbol === 'string' &&
+        [q.open, q.high, q.low, q.close].every((n) => typeof n === 'number' && Number.isFinite(n))
+      )
+    })
+  } catch (error) {
+    logger.error('Failed to load live replay script', {
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return []
+  }
+}
+
+export function createReplayFeed(options: {
+  quotes: ReplayQuote[]
+  stepMs?: number
+  loop?: boolean
+}): LiveFeed {
+  const { quotes, stepMs = DEFAULT_STEP_MS, loop = true } = options
+
+  return {
+    id: 'replay',
+
+    subscribe(symbols, onQuote) {
+      const wanted = new Set(symbols)
+      const script = quotes.filter((q) => wanted.has(q.symbol))
+      if (script.length === 0) return () => {}
+
+      let index = 0
+      const handle = setInterval(() => {
+        if (index >= script.length) {
+          if (!loop) {
+            clearInterval(handle)
+            return
+          }
+          index = 0
+        }
+        const quote = script[index++]
+        const timestamp = quote.timestamp ?? Date.now()
+        onQuote({
+          ...quote,
+          date: quote.date ?? sessionDate(timestamp),
+          volume: quote.volume ?? 0,
+          timestamp,
+        })
+      }, stepMs)
+
+      return () => clearInterval(handle)
+    },
+  }
+}
@@ -0,0 +1,96 @@
+// =============================================================================
+// Live Hub - one upstream feed shared by every stream client
+// =============================================================================
+// Stream routes register a listener with the symbols they care about. The hub
+// keeps a single feed subscription for the union of those symbols and fans
+// quotes out, so ten open dashboards cost one upstream connection. The union
+// is resubscribed when it changes and torn down when the last client leaves.
+// =============================================================================
+
+import { logger } from '@/lib/logger'
+import { createLiveFeed, type LiveFeed, type LiveQuote, type LiveQuoteListener } from './feed'
+
+interface HubState {
+  feed: Promise<LiveFeed> | null
+  listeners: Map<LiveQuoteListener, Set<string>>
+  symbolsKey: string
+  stop: (() => void) | null
+  // Bumped on every resubscribe so a slow feed load can't attach stale symbols
+  generation: number
+}
+
+// Survives module reloads in dev so we never leak upstream connections
+const globalForLive = globalThis as unknown as { liveHub: HubState | undefined }
+
+function getHub(): HubState {
+  if (!globalForLive.liveHub) {
+    globalForLive.liveHub = {
+      feed: null,
+      listeners: new Map(),
+      symbolsKey: '',
+      stop: null,
+      generation: 0,
+    }
+  }
+  return globalForLive.liveHub
+}
+
+function dispatch(hub: HubState, quote: LiveQuote): void {
+  for (const [listener, symbols] of hub.listeners) {
+    if (!symbols.has(quote.symbol)) continue
+    try {
+      listener(quote)
+    } catch (error) {
+      logger.warn('Live listener failed', {
+        symbol: quote.symbol,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+}
+
+function resubscribe(hub: HubState): void {
+  const union = new Set<string>()
+  for (const symbols of hub.listeners.values()) {
+    symbols.forEach((s) => union.add(s))
+  }
+  const symbols = [...union].sort()
+  const key = symbols.join(',')
+  if (key === hub.symbolsKey) return
+
+  hub.stop?.()
+  hub.stop = null
+  hub.symbolsKey = key
+  const generation = ++hub.generation
+  if (symbols.length === 0) return
+
+  hub.feed ??= createLiveFeed()
+  hub.feed
+    .then((feed) => {
+      if (generation !== hub.generation) return
+      hub.stop = feed.subscribe(symbols, (quote) => dispatch(hub, quote))
+    })
+    .catch((error) => {
+      hub.feed = null
+      logger.error('Failed to start live feed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    })
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Receive quotes for `symbols` until the returned function is called.
+ */
+export function subscribeLiveQuotes(symbols: string[], listener: LiveQuoteListener): () => void {
+  const hub = getHub()
+  hub.listeners.set(listener, new Set(symbols))
+  resubscribe(hub)
+
+  return () => {
+    if (hub.listeners.delete(listener)) resubscribe(hub)
+  }
+}
@@ -0,0 +1,8 @@
+// =============================================================================
+// Live Module - Public Exports
+// =============================================================================
+
+export * from './feed'
+export * from './hub'
+export * from './rows'
+export * from './apply'
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { computeEnhancedMetrics, type DailyBar } from '@/lib/massive-api'
+import type { ExtremesResponse } from '@/app/api/extremes/route'
+import { mergeQuote, buildLiveRow } from './rows'
+import { applyLiveRow } from './apply'
+import { createReplayFeed } from './feeds/replay'
+import type { LiveQuote } from './feed'
+
+function makeBars(closes: number[]): DailyBar[] {
+  const start = new Date('2024-01-01')
+  return closes.map((close, i) => {
+    const date = new Date(start)
+    date.setDate(date.getDate() + i)
+    return {
+      date: date.toISOString().split('T')[0],
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 100,
+    }
+  })
+}
+
+function quote(overrides: Partial<LiveQuote>): LiveQuote {
+  return {
+    symbol: 'AAA',
+    date: '2024-01-10',
+    open: 109,
+    high: 110,
+    low: 108,
+    close: 109,
+    volume: 0,
+    timestamp: 0,
+    ...overrides,
+  }
+}
+
+describe('mergeQuote', () => {
+  const bars = makeBars([100, 101, 102, 103, 104, 105, 106, 107, 108, 109])
+
+  it('widens the session bar and takes the last price', () => {
+    const merged = mergeQuote(bars, quote({ high: 115, low: 109, close: 114, volume: 500 }))
+    expect(merged).toHaveLength(bars.length)
+    expect(merged?.at(-1)).toMatchObject({ open: 109, high: 115, low: 108, close: 114, volume: 500 })
+  })
+
+  it('appends a bar for a new session and ignores stale or unchanged quotes', () => {
+    expect(mergeQuote(bars, quote({ date: '2024-01-11' }))?.at(-1)?.date).toBe('2024-01-11')
+    expect(mergeQuote(bars, quote({ date: '2024-01-09' }))).toBeNull()
+    expect(mergeQuote(bars, quote({}))).toBeNull()
+  })
+})
+
+describe('buildLiveRow', () => {
+  it('matches the last row of a full recompute', () => {
+    const bars = makeBars([100, 104, 102, 99, 101, 103, 98, 97, 105, 100, 96, 99])
+    const row = buildLiveRow('AAA', bars, 5, 1)
+
+    expect(row.high).toEqual(computeEnhancedMetrics(bars, 5, 'intraday').at(-1))
+    expect(row.close).toEqual(computeEnhancedMetrics(bars, 5, 'close').at(-1))
+    expect(row.date).toBe(bars.at(-1)?.date)
+  })
+})
+
+describe('applyLiveRow', () => {
+  const bars = makeBars([100, 101, 102, 103, 104])
+  const high = computeEnhancedMetrics(bars, 3, 'intraday')
+  const close = computeEnhancedMetrics(bars, 3, 'close')
+  const data = {
+    dates: bars.map((b) => b.date),
+    symbols: ['AAA'],
+    basisHigh: { AAA: high },
+    basisClose: { AAA: close },
+    data: { AAA: close },
+    rawBars: { AAA: bars },
+  } as unknown as ExtremesResponse
+
+  it('replaces the latest row for the symbol on every view', () => {
+    const merged = mergeQuote(bars, quote({ date: bars[4].date, high: 110, low: 90, close: 95 }))!
+    const row = buildLiveRow('AAA', merged, 3, 1)
+    const next = applyLiveRow(data, row, 'intraday')!
+
+    expect(next.rawBars.AAA.at(-1)?.close).toBe(95)
+    expect(next.basisClose.AAA.at(-1)).toEqual(row.close)
+    expect(next.data.AAA.at(-1)).toEqual(row.high)
+    expect(next.basisHigh.AAA.slice(0, -1)).toEqual(high.slice(0, -1))
+    expect(data.rawBars.AAA.at(-1)?.close).toBe(104)
+  })
+
+  it('asks for a refetch when the row opens a newer session', () => {
+    const merged = mergeQuote(bars, quote({ date: '2024-02-01' }))!
+    expect(applyLiveRow(data, buildLiveRow('AAA', merged, 3, 1), 'close')).toBeNull()
+  })
+
+  it('ignores symbols that are not shown', () => {
+    const row = { ...buildLiveRow('AAA', bars, 3, 1), symbol: 'ZZZ' }
+    expect(applyLiveRow(data, row, 'close')).toBe(data)
+  })
+})
+
+describe('createReplayFeed', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('plays subscribed quotes in order and stops on unsubscribe', () => {
+    vi.useFakeTimers()
+    const feed = createReplayFeed({
+      quotes: [
+        { symbol: 'AAA', open: 1, high: 2, low: 1, close: 2 },
+        { symbol: 'BBB', open: 5, high: 5, low: 5, close: 5 },
+        { symbol: 'AAA', open: 1, high: 3, low: 1, close: 3 },
+      ],
+      stepMs: 100,
+      loop: false,
+    })
+
+    const received: LiveQuote[] = []
+    const stop = feed.subscribe(['AAA'], (q) => received.push(q))
+    vi.advanceTimersByTime(100)
+    expect(received.map((q) => q.close)).toEqual([2])
+
+    stop()
+    vi.advanceTimersByTime(1000)
+    expect(received).toHaveLength(1)
+    expect(received[0].date).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+  })
+})
@@ -0,0 +1,69 @@
+// =============================================================================
+// Live Rows - fold quotes into daily bars and recompute the latest metrics
+// =============================================================================
+
+import { computeEnhancedMetrics, type DailyBar } from '@/lib/massive-api'
+import type { LiveQuote } from './feed'
+import type { LiveRowUpdate } from './apply'
+
+/**
+ * Merge a quote into the session bar. The latest bar is updated in place
+ * (high/low only widen) or a new bar is appended when the quote opens a new
+ * session. Returns null for quotes older than the latest bar or when nothing
+ * changed.
+ */
+export function mergeQuote(bars: DailyBar[], quote: LiveQuote): DailyBar[] | null {
+  const last = bars[bars.length - 1]
+  if (!last || quote.date < last.date) return null
+
+  if (quote.date > last.date) {
+    return [
+      ...bars,
+      {
+        date: quote.date,
+        open: quote.open,
+        high: quote.high,
+        low: quote.low,
+        close: quote.close,
+        volume: quote.volume,
+      },
+    ]
+  }
+
+  const merged: DailyBar = {
+    ...last,
+    high: Math.max(last.high, quote.high),
+    low: Math.min(last.low, quote.low),
+    close: quote.close,
+    volume: Math.max(last.volume, quote.volume),
+  }
+  if (merged.high === last.high && merged.low === last.low && merged.close === last.close) {
+    return null
+  }
+  return [...bars.slice(0, -1), merged]
+}
+
+/**
+ * Metrics for the latest bar on both bases. Only the trailing `lookback` bars
+ * affect the last row, so that's all we recompute.
+ */
+export function buildLiveRow(
+  symbol: string,
+  bars: DailyBar[],
+  lookback: number,
+  timestamp: number
+): LiveRowUpdate {
+  const window = bars.slice(-lookback)
+  const high = computeEnhancedMetrics(window, lookback, 'intraday')
+  const close = computeEnhancedMetrics(window, lookback, 'close')
+  const bar = bars[bars.length - 1]
+
+  return {
+    symbol,
+    date: bar.date,
+    bar,
+    high: high[high.length - 1],
+    close: close[close.length - 1],
+    timestamp,
+  }
+}
@@ -0,0 +1,73 @@
+// =============================================================================
+// Market Data Fixtures - on-disk layout shared by fixture and record modes
+// =============================================================================
+// Fixtures hold already-normalized data (the shapes lib/massive-api returns),
+// one JSON file per symbol and dataset:
+//   daily/SPX.json            DailyBar[] (split-adjusted)
+//   daily-raw/AAPL.json       DailyBar[] (unadjusted)
+//   intraday/SPY_5m.json      IntradayBar[]
+//   snapshots/AAPL.json       NormalizedSnapshot
+//   universal/AAPL.json       UniversalSnapshotItem
+//   indices/SPX.json          IndexSnapshotItem
+//   options/SPY.json          NormalizedOptionsContract[]
+//   movers/gainers.json       Mover[]
+//   actions/AAPL.json         CorporateAction[]
+//   market-status.json        MarketStatus
+// Index prefixes are dropped from file names, so SPX and I:SPX share a file.
+// =============================================================================
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { logger } from '@/lib/logger'
+import type { IntradayInterval } from '@/lib/massive-api'
+
+export function fixtureKey(symbol: string): string {
+  return symbol
+    .trim()
+    .replace(/^I:/i, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9._-]/g, '_')
+}
+
+export const fixturePaths = {
+  daily: (dir: string, symbol: string, adjusted = true) =>
+    join(dir, adjusted ? 'daily' : 'daily-raw', `${fixtureKey(symbol)}.json`),
+  intraday: (dir: string, symbol: string, interval: IntradayInterval) =>
+    join(dir, 'intraday', `${fixtureKey(symbol)}_${interval}.json`),
+  snapshot: (dir: string, symbol: string) => join(dir, 'snapshots', `${fixtureKey(symbol)}.json`),
+  universal: (dir: string, symbol: string) => join(dir, 'universal', `${fixtureKey(symbol)}.json`),
+  index: (dir: string, symbol: string) => join(dir, 'indices', `${fixtureKey(symbol)}.json`),
+  options: (dir: string, underlying: string) => join(dir, 'options', `${fixtureKey(underlying)}.json`),
+  movers: (dir: string, direction: 'gainers' | 'losers') => join(dir, 'movers', `${direction}.json`),
+  actions: (dir: string, symbol: string) => join(dir, 'actions', `${fixtureKey(symbol)}.json`),
+  marketStatus: (dir: string) => join(dir, 'market-status.json'),
+}
+
+/**
+ * Read a fixture file. Missing files are null; unreadable ones are logged
+ * and treated as missing.
+ */
+export async function readFixture<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Failed to read market data fixture', {
+        path,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+    return null
+  }
+}
+
+/**
+ * Write a fixture file, creating its directory. Readers never see a partial
+ * file: the JSON is written next to it and renamed into place.
+ */
+export async function writeFixture(path: string, data: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  const temp = `${path}.${process.pid}.tmp`
+  await writeFile(temp, `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+  await rename(temp, path)
+}
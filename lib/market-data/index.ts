@@ -0,0 +1,6 @@
+// =============================================================================
+// Market Data Module - Public Exports
+// =============================================================================
+
+export * from './provider'
+export * from './fixtures'
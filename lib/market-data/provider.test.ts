@@ -0,0 +1,137 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { fetchDailyBarsRange, fetchMarketStatus, isMarketOpen, type DailyBar } from '@/lib/massive-api'
+import type { NormalizedOptionsContract } from '@/lib/massive/normalize'
+import { getMarketDataProvider, setMarketDataProvider, type MarketDataProvider } from './provider'
+import { fixturePaths, writeFixture } from './fixtures'
+import { createFixtureProvider } from './providers/fixture'
+import { createRecordingProvider } from './providers/record'
+
+function bar(date: string, close: number): DailyBar {
+  return { date, open: close, high: close + 1, low: close - 1, close, volume: 100 }
+}
+
+function contract(overrides: Partial<NormalizedOptionsContract>): NormalizedOptionsContract {
+  return {
+    ticker: 'O:SPY240119C00470000',
+    underlying: 'SPY',
+    contractType: 'call',
+    strike: 470,
+    expiration: '2024-01-19',
+    bid: 1,
+    ask: 1.2,
+    mid: 1.1,
+    last: 1.1,
+    volume: 10,
+    openInterest: 100,
+    impliedVolatility: 0.2,
+    delta: 0.5,
+    gamma: null,
+    theta: null,
+    vega: null,
+    breakEven: null,
+    underlyingPrice: 470,
+    sharesPerContract: 100,
+    ...overrides,
+  }
+}
+
+let dir: string | null = null
+
+async function tempDir(): Promise<string> {
+  dir = await mkdtemp(join(tmpdir(), 'market-data-'))
+  return dir
+}
+
+afterEach(async () => {
+  setMarketDataProvider(null)
+  if (dir) await rm(dir, { recursive: true, force: true })
+  dir = null
+})
+
+describe('recording provider', () => {
+  it('merges recorded bars so the fixture provider can replay them offline', async () => {
+    const root = await tempDir()
+    const upstream: Record<string, DailyBar[]> = {
+      '2024-01-02': [bar('2024-01-02', 100), bar('2024-01-03', 101)],
+      '2024-01-03': [bar('2024-01-03', 102), bar('2024-01-04', 103)],
+    }
+    const inner = {
+      id: 'polygon',
+      getDailyBars: async (_symbol: string, from: string) => upstream[from] ?? [],
+    } as unknown as MarketDataProvider
+
+    const recorder = createRecordingProvider(inner, { dir: root })
+    await recorder.getDailyBars('I:SPX', '2024-01-02', '2024-01-03')
+    await recorder.getDailyBars('SPX', '2024-01-03', '2024-01-04')
+
+    const fixtures = createFixtureProvider({ dir: root })
+    expect((await fixtures.getDailyBars('SPX', '2024-01-01', '2024-12-31')).map((b) => b.close)).toEqual([
+      100, 102, 103,
+    ])
+    expect(await fixtures.getDailyBars('SPX', '2024-01-03', '2024-01-03')).toEqual([bar('2024-01-03', 102)])
+    expect(await fixtures.getDailyBars('QQQ', '2024-01-01', '2024-12-31')).toEqual([])
+  })
+})
+
+describe('fixture provider', () => {
+  it('filters options chains the way the upstream query would', async () => {
+    const root = await tempDir()
+    await writeFixture(fixturePaths.options(root, 'SPY'), [
+      contract({}),
+      contract({ ticker: 'O:SPY240119P00460000', contractType: 'put', strike: 460 }),
+      contract({ ticker: 'O:SPY240216C00480000', strike: 480, expiration: '2024-02-16' }),
+    ])
+
+    const fixtures = createFixtureProvider({ dir: root })
+    const calls = await fixtures.getOptionsChain('SPY', { contract_type: 'call', expiration_date_lte: '2024-01-31' })
+    expect(calls.results.map((c) => c.ticker)).toEqual(['O:SPY240119C00470000'])
+    expect(calls.underlying_price).toBe(470)
+
+    const missing = await fixtures.getOptionsChain('QQQ')
+    expect(missing.success).toBe(false)
+    expect(missing.error?.code).toBe('NOT_FOUND')
+  })
+
+  it('backs the massive-api fetch functions when installed', async () => {
+    const root = await tempDir()
+    await writeFixture(fixturePaths.daily(root, 'SPY'), [bar('2024-01-02', 470)])
+    await writeFixture(fixturePaths.marketStatus(root), {
+      market: 'stocks',
+      server_time: new Date().toISOString(),
+      exchanges: { nyse: 'open', nasdaq: 'open' },
+      early_close: false,
+      next_open: '',
+      next_close: '',
+    })
+    setMarketDataProvider(createFixtureProvider({ dir: root }))
+
+    expect(await fetchDailyBarsRange('SPY', '2024-01-01', '2024-01-31')).toEqual([bar('2024-01-02', 470)])
+    expect((await fetchMarketStatus()).success).toBe(true)
+    expect(isMarketOpen()).toBe(true)
+  })
+})
+
+describe('getMarketDataProvider', () => {
+  afterEach(() => {
+    vi.doUnmock('./providers/fixture')
+    vi.unstubAllEnvs()
+  })
+
+  it('rebuilds the provider after a failed build instead of caching the rejection', async () => {
+    vi.stubEnv('MARKET_DATA_PROVIDER', 'fixture')
+    const createFixture = vi
+      .fn()
+      .mockImplementationOnce(() => {
+        throw new Error('fixtures unreadable')
+      })
+      .mockImplementation(() => ({ id: 'fixture' }))
+    vi.doMock('./providers/fixture', () => ({ createFixtureProvider: createFixture }))
+
+    await expect(getMarketDataProvider()).rejects.toThrow('fixtures unreadable')
+    expect((await getMarketDataProvider()).id).toBe('fixture')
+    expect(createFixture).toHaveBeenCalledTimes(2)
+  })
+})
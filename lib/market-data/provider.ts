@@ -0,0 +1,120 @@
+// =============================================================================
+// Market Data Providers - pluggable sources behind lib/massive-api
+// =============================================================================
+// Every fetch function in lib/massive-api delegates to one provider, chosen
+// by MARKET_DATA_PROVIDER:
+//   polygon -> live Polygon REST calls (default)
+//   fixture -> JSON files under MARKET_DATA_FIXTURES_DIR, no network at all
+//   record  -> Polygon, saving every successful response as a fixture
+// Providers return the same response shapes as the Polygon implementation,
+// so callers never know which one served them.
+// =============================================================================
+
+import type {
+  CorporateActionsResponse,
+  DailyBar,
+  DailyBarsOptions,
+  IndexSnapshotResponse,
+  IntradayBarsOptions,
+  IntradayBarsResponse,
+  IntradayInterval,
+  MarketStatusResponse,
+  MoversResponse,
+  OptionsChainOptions,
+  OptionsChainResponse,
+  SnapshotResponse,
+  UniversalSnapshotOptions,
+  UniversalSnapshotResponse,
+} from '@/lib/massive-api'
+
+export type MarketDataProviderId = 'polygon' | 'fixture' | 'record'
+
+const KNOWN_PROVIDERS: MarketDataProviderId[] = ['polygon', 'fixture', 'record']
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/market-data'
+
+export interface MarketDataProvider {
+  readonly id: MarketDataProviderId
+  /** Daily bars in [from, to] (YYYY-MM-DD), ascending; [] when none. Throws on failure. */
+  getDailyBars(symbol: string, from: string, to: string, options?: DailyBarsOptions): Promise<DailyBar[]>
+  getIntradayBars(
+    symbol: string,
+    interval: IntradayInterval,
+    options?: IntradayBarsOptions
+  ): Promise<IntradayBarsResponse>
+  getTickerSnapshot(symbol: string): Promise<SnapshotResponse>
+  getUniversalSnapshot(options: UniversalSnapshotOptions): Promise<UniversalSnapshotResponse>
+  getIndexSnapshot(symbols: string[]): Promise<IndexSnapshotResponse>
+  getOptionsChain(symbol: string, options?: OptionsChainOptions): Promise<OptionsChainResponse>
+  getMarketStatus(): Promise<MarketStatusResponse>
+  getMovers(direction: 'gainers' | 'losers'): Promise<MoversResponse>
+  /** Splits and cash dividends with an ex-date on or after `from`, oldest first */
+  getCorporateActions(symbol: string, from?: string): Promise<CorporateActionsResponse>
+}
+
+export function getMarketDataProviderId(): MarketDataProviderId {
+  const raw = (process.env.MARKET_DATA_PROVIDER ?? '').trim().toLowerCase()
+  return KNOWN_PROVIDERS.includes(raw as MarketDataProviderId) ? (raw as MarketDataProviderId) : 'polygon'
+}
+
+export function getFixturesDir(): string {
+  return process.env.MARKET_DATA_FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Build the provider selected by MARKET_DATA_PROVIDER.
+ */
+export async function createMarketDataProvider(
+  id: MarketDataProviderId = getMarketDataProviderId()
+): Promise<MarketDataProvider> {
+  switch (id) {
+    case 'fixture': {
+      const { createFixtureProvider } = await import('./providers/fixture')
+      return createFixtureProvider({ dir: getFixturesDir() })
+    }
+    case 'record': {
+      const [{ createRecordingProvider }, { polygonProvider }] = await Promise.all([
+        import('./providers/record'),
+        import('@/lib/massive-api'),
+      ])
+      return createRecordingProvider(polygonProvider, { dir: getFixturesDir() })
+    }
+    case 'polygon': {
+      const { polygonProvider } = await import('@/lib/massive-api')
+      return polygonProvider
+    }
+  }
+}
+
+// Survives module reloads in dev so record mode keeps one writer
+const globalForMarketData = globalThis as unknown as {
+  marketDataProvider: Promise<MarketDataProvider> | undefined
+}
+
+/**
+ * The process-wide provider, built on first use. A failed build is not
+ * cached, so the next call tries again.
+ */
+export function getMarketDataProvider(): Promise<MarketDataProvider> {
+  if (!globalForMarketData.marketDataProvider) {
+    const pending = createMarketDataProvider().catch((error) => {
+      if (globalForMarketData.marketDataProvider === pending) {
+        globalForMarketData.marketDataProvider = undefined
+      }
+      throw error
+    })
+    globalForMarketData.marketDataProvider = pending
+  }
+  return globalForMarketData.marketDataProvider
+}
+
+/**
+ * Replace the process-wide provider (tests); null rebuilds it from the env.
+ */
+export function setMarketDataProvider(provider: MarketDataProvider | null): void {
+  globalForMarketData.marketDataProvider = provider ? Promise.resolve(provider) : undefined
+}
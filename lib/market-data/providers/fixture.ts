@@ -0,0 +1,169 @@
+// =============================================================================
+// Fixture Provider - offline market data from disk
+// =============================================================================
+// Serves every request from the files described in ../fixtures, applying the
+// same filters Polygon would (date ranges, strikes, expirations). Files are
+// re-read on each request, so re-seeding or re-recording needs no restart.
+// Capture real data with MARKET_DATA_PROVIDER=record, or generate a synthetic
+// set with scripts/seed-market-fixtures.mjs.
+// =============================================================================
+
+import type {
+  ApiError,
+  CorporateAction,
+  DailyBar,
+  DataEntitlement,
+  IndexSnapshotItem,
+  IntradayBar,
+  MarketStatus,
+  Mover,
+  UniversalSnapshotItem,
+} from '@/lib/massive-api'
+import type { NormalizedOptionsContract, NormalizedSnapshot } from '@/lib/massive/normalize'
+import type { MarketDataProvider } from '../provider'
+import { fixturePaths, readFixture } from '../fixtures'
+
+// Fixtures are a frozen copy, so report them the way Polygon reports EOD data
+const FIXTURE_ENTITLEMENT: DataEntitlement = {
+  delayed: true,
+  delayMinutes: 0,
+  entitlementId: 'fixture',
+  source: 'eod',
+}
+
+function notFound(what: string, symbol: string | undefined, endpoint: string): ApiError {
+  return { code: 'NOT_FOUND', message: `No fixture for ${what}`, symbol, endpoint }
+}
+
+function inRange(date: string, from?: string, to?: string): boolean {
+  return (!from || date >= from) && (!to || date <= to)
+}
+
+export function createFixtureProvider(options: { dir: string }): MarketDataProvider {
+  const { dir } = options
+
+  return {
+    id: 'fixture',
+
+    async getDailyBars(symbol, from, to, query) {
+      // Without recorded raw bars, the adjusted ones stand in (no actions on file)
+      const adjusted = query?.adjusted ?? true
+      const bars =
+        (!adjusted ? await readFixture<DailyBar[]>(fixturePaths.daily(dir, symbol, false)) : null) ??
+        (await readFixture<DailyBar[]>(fixturePaths.daily(dir, symbol))) ??
+        []
+      return bars.filter((bar) => inRange(bar.date, from, to))
+    },
+
+    async getIntradayBars(symbol, interval, query) {
+      const bars = await readFixture<IntradayBar[]>(fixturePaths.intraday(dir, symbol, interval))
+      if (!bars) {
+        return {
+          success: false,
+          symbol,
+          interval,
+          results: [],
+          error: notFound(`${symbol} ${interval} bars`, symbol, 'intraday_bars'),
+        }
+      }
+
+      // Polygon filters aggregates by calendar day, not by exact time
+      const from = query?.from?.toISOString().slice(0, 10)
+      const to = query?.to?.toISOString().slice(0, 10)
+      const results = bars
+        .filter((bar) => inRange(bar.timestamp.slice(0, 10), from, to))
+        .slice(0, query?.limit || 5000)
+
+      return { success: true, symbol, interval, results }
+    },
+
+    async getTickerSnapshot(symbol) {
+      const ticker = await readFixture<NormalizedSnapshot>(fixturePaths.snapshot(dir, symbol))
+      if (!ticker) {
+        return { success: false, ticker: null, error: notFound(`${symbol} snapshot`, symbol, 'snapshot') }
+      }
+      return { success: true, ticker }
+    },
+
+    async getUniversalSnapshot({ symbols }) {
+      const items = await Promise.all(
+        symbols.map((symbol) => readFixture<UniversalSnapshotItem>(fixturePaths.universal(dir, symbol)))
+      )
+      return {
+        success: true,
+        results: items.filter((item): item is UniversalSnapshotItem => item !== null),
+        entitlement: FIXTURE_ENTITLEMENT,
+      }
+    },
+
+    async getIndexSnapshot(symbols) {
+      const items = await Promise.all(
+        symbols.map((symbol) => readFixture<IndexSnapshotItem>(fixturePaths.index(dir, symbol)))
+      )
+      return {
+        success: true,
+        results: items.filter((item): item is IndexSnapshotItem => item !== null),
+        entitlement: FIXTURE_ENTITLEMENT,
+      }
+    },
+
+    async getOptionsChain(symbol, query) {
+      const contracts = await readFixture<NormalizedOptionsContract[]>(fixturePaths.options(dir, symbol))
+      if (!contracts) {
+        return {
+          success: false,
+          underlying_symbol: symbol,
+          underlying_price: 0,
+          results: [],
+          error: notFound(`${symbol} options chain`, symbol, 'options_chain'),
+        }
+      }
+
+      const results = contracts
+        .filter(
+          (c) =>
+            (!query?.contract_type || c.contractType === query.contract_type) &&
+            (!query?.expiration_date || c.expiration === query.expiration_date) &&
+            inRange(c.expiration, query?.expiration_date_gte, query?.expiration_date_lte) &&
+            (!query?.strike_price_gte || c.strike >= query.strike_price_gte) &&
+            (!query?.strike_price_lte || c.strike <= query.strike_price_lte)
+        )
+        .slice(0, (query?.limit || 250) * (query?.maxPages ?? 1))
+
+      return {
+        success: true,
+        underlying_symbol: symbol,
+        underlying_price: results.find((c) => c.underlyingPrice > 0)?.underlyingPrice ?? 0,
+        results,
+      }
+    },
+
+    async getMarketStatus() {
+      // Without a recorded status the market reads as closed, like a weekend
+      const status = (await readFixture<MarketStatus>(fixturePaths.marketStatus(dir))) ?? {
+        market: 'stocks',
+        server_time: new Date().toISOString(),
+        exchanges: { nyse: 'closed', nasdaq: 'closed' },
+        early_close: false,
+        next_open: '',
+        next_close: '',
+      }
+      return { success: true, status }
+    },
+
+    async getMovers(direction) {
+      const movers = (await readFixture<Mover[]>(fixturePaths.movers(dir, direction))) ?? []
+      return {
+        success: true,
+        gainers: direction === 'gainers' ? movers : [],
+        losers: direction === 'losers' ? movers : [],
+        mostActive: [...movers].sort((a, b) => b.volume - a.volume).slice(0, 10),
+      }
+    },
+
+    async getCorporateActions(symbol, from) {
+      const actions = (await readFixture<CorporateAction[]>(fixturePaths.actions(dir, symbol))) ?? []
+      return { success: true, actions: actions.filter((action) => inRange(action.exDate, from)) }
+    },
+  }
+}
@@ -0,0 +1,133 @@
+// =============================================================================
+// Recording Provider - capture real responses as fixtures
+// =============================================================================
+// Wraps another provider (Polygon in practice) and saves every successful
+// response into the fixture layout, so a normal browsing session builds an
+// offline data set. Bars and option contracts are merged into what is already
+// on disk; snapshots, movers and market status keep the latest response.
+// Failed writes are logged and never fail the request.
+// =============================================================================
+
+import { logger } from '@/lib/logger'
+import type { MarketDataProvider } from '../provider'
+import { fixturePaths, readFixture, writeFixture } from '../fixtures'
+
+/**
+ * Merge `incoming` into `existing` by key (incoming wins), sorted by key.
+ */
+function mergeBy<T>(existing: T[], incoming: T[], key: (item: T) => string): T[] {
+  const merged = new Map(existing.map((item) => [key(item), item]))
+  for (const item of incoming) merged.set(key(item), item)
+  return [...merged.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, item]) => item)
+}
+
+export function createRecordingProvider(inner: MarketDataProvider, options: { dir: string }): MarketDataProvider {
+  const { dir } = options
+
+  // One write chain per file, so concurrent merges never lose each other's rows
+  const pending = new Map<string, Promise<void>>()
+
+  function save(path: string, update: () => Promise<unknown>): Promise<void> {
+    const next = (pending.get(path) ?? Promise.resolve())
+      .then(async () => writeFixture(path, await update()))
+      .catch((error) => {
+        logger.warn('Failed to record market data fixture', {
+          path,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      })
+      .finally(() => {
+        if (pending.get(path) === next) pending.delete(path)
+      })
+    pending.set(path, next)
+    return next
+  }
+
+  function saveMerged<T>(path: string, incoming: T[], key: (item: T) => string): Promise<void> {
+    return save(path, async () => mergeBy((await readFixture<T[]>(path)) ?? [], incoming, key))
+  }
+
+  return {
+    id: 'record',
+
+    async getDailyBars(symbol, from, to, query) {
+      const bars = await inner.getDailyBars(symbol, from, to, query)
+      if (bars.length > 0) {
+        const path = fixturePaths.daily(dir, symbol, query?.adjusted ?? true)
+        await saveMerged(path, bars, (bar) => bar.date)
+      }
+      return bars
+    },
+
+    async getIntradayBars(symbol, interval, query) {
+      const response = await inner.getIntradayBars(symbol, interval, query)
+      if (response.success && response.results.length > 0) {
+        await saveMerged(fixturePaths.intraday(dir, symbol, interval), response.results, (bar) => bar.timestamp)
+      }
+      return response
+    },
+
+    async getTickerSnapshot(symbol) {
+      const response = await inner.getTickerSnapshot(symbol)
+      if (response.success && response.ticker) {
+        const ticker = response.ticker
+        await save(fixturePaths.snapshot(dir, symbol), async () => ticker)
+      }
+      return response
+    },
+
+    async getUniversalSnapshot(query) {
+      const response = await inner.getUniversalSnapshot(query)
+      if (response.success) {
+        await Promise.all(
+          response.results.map((item) => save(fixturePaths.universal(dir, item.ticker), async () => item))
+        )
+      }
+      return response
+    },
+
+    async getIndexSnapshot(symbols) {
+      const response = await inner.getIndexSnapshot(symbols)
+      if (response.success) {
+        await Promise.all(
+          response.results.map((item) => save(fixturePaths.index(dir, item.ticker), async () => item))
+        )
+      }
+      return response
+    },
+
+    async getOptionsChain(symbol, query) {
+      const response = await inner.getOptionsChain(symbol, query)
+      if (response.success && response.results.length > 0) {
+        await saveMerged(fixturePaths.options(dir, symbol), response.results, (contract) => contract.ticker)
+      }
+      return response
+    },
+
+    async getMarketStatus() {
+      const response = await inner.getMarketStatus()
+      if (response.success && response.status) {
+        const status = response.status
+        await save(fixturePaths.marketStatus(dir), async () => status)
+      }
+      return response
+    },
+
+    async getMovers(direction) {
+      const response = await inner.getMovers(direction)
+      if (response.success) {
+        const movers = direction === 'gainers' ? response.gainers : response.losers
+        await save(fixturePaths.movers(dir, direction), async () => movers)
+      }
+      return response
+    },
+
+    async getCorporateActions(symbol, from) {
+      const response = await inner.getCorporateActions(symbol, from)
+      if (response.success && response.actions.length > 0) {
+        await saveMerged(fixturePaths.actions(dir, symbol), response.actions, (a) => `${a.exDate}:${a.type}`)
+      }
+      return response
+    },
+  }
+}
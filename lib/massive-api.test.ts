@@ -1,5 +1,12 @@
-import { describe, it, expect } from 'vitest'
-import { computeHeatmap, computeEnhancedMetrics, type DailyBar } from './massive-api'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import {
+  computeHeatmap,
+  computeEnhancedMetrics,
+  fetchSectorPerformance,
+  SECTOR_ETFS,
+  type DailyBar,
+} from './massive-api'
+import { setMarketDataProvider, type MarketDataProvider } from './market-data/provider'
 
 /**
  * Synthetic dataset for testing rolling window calculations
@@ -301,3 +308,33 @@ describe('Rolling window edge cases', () => {
     expect(result.slice(4)).toEqual([0, 0, 0, 0, 0, 0])
   })
 })
+
+describe('fetchSectorPerformance replay', () => {
+  afterEach(() => {
+    setMarketDataProvider(null)
+    vi.unstubAllEnvs()
+  })
+
+  it('finds the prior session across a holiday weekend', async () => {
+    // Good Friday 2024-03-29 was a market holiday; the session before
+    // Monday 2024-04-01 is Thursday 2024-03-28
+    const sessions = ['2024-03-26', '2024-03-27', '2024-03-28', '2024-04-01', '2024-04-02']
+    const closeFor = (symbol: string, i: number) => (symbol === 'SPY' ? 500 : 100) + i
+    setMarketDataProvider({
+      id: 'fixture',
+      getDailyBars: async (symbol: string, from: string, to: string) =>
+        sessions
+          .map((date, i) => ({ date, open: 0, high: 0, low: 0, close: closeFor(symbol, i), volume: 1000 }))
+          .filter((bar) => bar.date >= from && bar.date <= to),
+    } as unknown as MarketDataProvider)
+    vi.stubEnv('MARKET_DATA_PROVIDER', 'fixture')
+
+    const result = await fetchSectorPerformance('2024-04-01')
+
+    expect(result.success).toBe(true)
+    expect(result.spyPrice).toBe(503)
+    expect(result.spyChangePercent).toBeCloseTo((1 / 502) * 100)
+    expect(result.sectors).toHaveLength(Object.keys(SECTOR_ETFS).length)
+    expect(result.sectors[0]).toMatchObject({ price: 103, change: 1 })
+  })
+})
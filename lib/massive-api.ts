@@ -3,6 +3,34 @@
 // Massive/Polygon.io API Integration for Options & Indices Analysis
 // =============================================================================
 
+import type { z } from 'zod'
+import { computeMaxPain, nearestExpiration, type OptionPosition, type StrategyContract } from './options'
+import { ALLOWED_OPERATIONS } from './massive/operations'
+import { massiveRequest, massiveRequestPage, type MassiveError } from './massive/client'
+import {
+  normalizeAggregates,
+  normalizeCorporateActions,
+  normalizeEntitlement,
+  normalizeIndexSnapshot,
+  normalizeMarketStatus,
+  normalizeOptionsChain,
+  normalizeSnapshot,
+  normalizeSnapshotAll,
+  normalizeUniversalSnapshot,
+  type CorporateAction,
+  type DataEntitlement,
+  type IndexSnapshotItem,
+  type MarketPhase,
+  type NormalizedOptionsContract,
+  type NormalizedSnapshot,
+  type UniversalSnapshotItem,
+} from './massive/normalize'
+import { getUpstreamBudget, type UpstreamBudget } from './massive/scheduler'
+import { getMarketDataProvider, getMarketDataProviderId, type MarketDataProvider } from './market-data/provider'
+import { requireMarketData } from './env'
+
+export type { CorporateAction, DataEntitlement, IndexSnapshotItem, MarketPhase, UniversalSnapshotItem }
+
 // -----------------------------------------------------------------------------
 // Core Types - Daily Bars & Heatmap Metrics (existing)
 // -----------------------------------------------------------------------------
@@ -38,66 +66,14 @@ export interface HeatmapData {
 }
 
 // -----------------------------------------------------------------------------
-// Options Types - Greeks, Contracts, Chain
+// Options Chain Types
 // -----------------------------------------------------------------------------
 
-export interface Greeks {
-  delta: number
-  gamma: number
-  theta: number
-  vega: number
-  rho: number
-}
-
-export interface OptionContract {
-  ticker: string
-  underlying_ticker: string
-  contract_type: 'call' | 'put'
-  strike_price: number
-  expiration_date: string
-  shares_per_contract: number
-  exercise_style: 'american' | 'european'
-}
-
-export interface OptionQuote {
-  bid: number
-  bid_size: number
-  ask: number
-  ask_size: number
-  last_price: number
-  last_size: number
-  midpoint: number
-}
-
-export interface OptionDayData {
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-  vwap: number
-  change: number
-  change_percent: number
-  previous_close: number
-}
-
-export interface OptionSnapshot {
-  contract: OptionContract
-  quote: OptionQuote
-  day: OptionDayData
-  greeks: Greeks
-  implied_volatility: number
-  open_interest: number
-  break_even_price: number
-  underlying_price: number
-  last_updated: string
-}
-
 export interface OptionsChainResponse {
   success: boolean
   underlying_symbol: string
   underlying_price: number
-  results: OptionSnapshot[]
+  results: NormalizedOptionsContract[]
   error?: ApiError
 }
 
@@ -130,12 +106,6 @@ export interface IntradayBarsResponse {
 // Market Status Types
 // -----------------------------------------------------------------------------
 
-export type MarketPhase =
-  | 'pre-market'
-  | 'open'
-  | 'after-hours'
-  | 'closed'
-
 export interface MarketStatus {
   market: 'stocks' | 'crypto' | 'forex'
   server_time: string
@@ -158,41 +128,9 @@ export interface MarketStatusResponse {
 // Snapshot Types (Real-time Quote Data)
 // -----------------------------------------------------------------------------
 
-export interface TickerSnapshot {
-  ticker: string
-  todaysChange: number
-  todaysChangePerc: number
-  updated: number
-  day: {
-    open: number
-    high: number
-    low: number
-    close: number
-    volume: number
-    vwap: number
-  }
-  prevDay: {
-    open: number
-    high: number
-    low: number
-    close: number
-    volume: number
-    vwap: number
-  }
-  min: {
-    open: number
-    high: number
-    low: number
-    close: number
-    volume: number
-    vwap: number
-    accumulated_volume: number
-  }
-}
-
 export interface SnapshotResponse {
   success: boolean
-  ticker: TickerSnapshot | null
+  ticker: NormalizedSnapshot | null
   error?: ApiError
 }
 
@@ -200,60 +138,6 @@ export interface SnapshotResponse {
 // Universal Snapshot Types
 // -----------------------------------------------------------------------------
 
-export interface UniversalSnapshotItem {
-  ticker: string
-  name?: string
-  market: string
-  locale: string
-  type: string
-  currency_name?: string
-  last_updated_utc?: string
-  // Session data
-  session?: {
-    open: number
-    high: number
-    low: number
-    close: number
-    volume: number
-    change: number
-    change_percent: number
-    previous_close: number
-    early_trading_change?: number
-    early_trading_change_percent?: number
-    late_trading_change?: number
-    late_trading_change_percent?: number
-  }
-  // Last quote
-  last_quote?: {
-    bid: number
-    bid_size: number
-    ask: number
-    ask_size: number
-    last_updated: number
-  }
-  // Last trade
-  last_trade?: {
-    price: number
-    size: number
-    exchange: number
-    conditions?: number[]
-    timestamp: number
-  }
-  // Fair market value (for options)
-  fmv?: number
-  // Underlying asset info (for options/derivatives)
-  underlying_asset?: {
-    ticker: string
-    price: number
-    change_to_break_even?: number
-  }
-  // Greeks (for options)
-  greeks?: Greeks
-  implied_volatility?: number
-  open_interest?: number
-  break_even_price?: number
-}
-
 export interface UniversalSnapshotResponse {
   success: boolean
   results: UniversalSnapshotItem[]
@@ -266,25 +150,6 @@ export interface UniversalSnapshotResponse {
 // Index Snapshot Types
 // -----------------------------------------------------------------------------
 
-export interface IndexSnapshotItem {
-  ticker: string
-  name: string
-  market: string
-  locale: string
-  type: 'indices'
-  value: number
-  session: {
-    open: number
-    high: number
-    low: number
-    close: number
-    change: number
-    change_percent: number
-    previous_close: number
-  }
-  last_updated: number
-}
-
 export interface IndexSnapshotResponse {
   success: boolean
   results: IndexSnapshotItem[]
@@ -314,6 +179,7 @@ const KNOWN_INDICES = new Set([
   'NDX',   // Nasdaq 100
   'RUT',   // Russell 2000
   'VIX',   // CBOE Volatility Index
+  'VIX3M', // CBOE 3-Month Volatility Index
   'SOX',   // PHLX Semiconductor
   'DJI',   // Dow Jones Industrial
   'IXIC',  // Nasdaq Composite
@@ -334,7 +200,7 @@ const TICKER_MAPPING: Record<string, string> = {
   SOX: 'I:SOX',
 }
 
-const INTERVAL_MAP: Record<IntradayInterval, { multiplier: number; timespan: string }> = {
+const INTERVAL_MAP: Record<IntradayInterval, { multiplier: number; timespan: 'minute' | 'hour' }> = {
   '1m': { multiplier: 1, timespan: 'minute' },
   '5m': { multiplier: 5, timespan: 'minute' },
   '15m': { multiplier: 15, timespan: 'minute' },
@@ -342,28 +208,13 @@ const INTERVAL_MAP: Record<IntradayInterval, { multiplier: number; timespan: str
   '1h': { multiplier: 1, timespan: 'hour' },
 }
 
-// Unified base URL - configurable via environment variable
-const BASE_URL = process.env.POLYGON_BASE_URL || 'https://api.polygon.io'
-
 // Asset classes for Universal Snapshot
 export type AssetClass = 'stocks' | 'options' | 'crypto' | 'forex' | 'indices'
 
-// Entitlement/delay status for data freshness
-export interface DataEntitlement {
-  delayed: boolean
-  delayMinutes: number
-  entitlementId?: string
-  source: 'realtime' | 'delayed' | 'eod'
-}
-
 // -----------------------------------------------------------------------------
 // Utility Functions
 // -----------------------------------------------------------------------------
 
-function getApiKey(): string | null {
-  return process.env.MASSIVE_API_KEY || process.env.POLYGON_API_KEY || null
-}
-
 /**
  * Normalizes a ticker symbol for Polygon API.
  * - Indices (SPX, NDX, RUT, VIX, etc.) get the I: prefix
@@ -465,7 +316,7 @@ export interface ResponseMeta {
   lastFetchedAt: string
   marketStatus: MarketPhase
   isDelayed: boolean
-  source: 'polygon'
+  source: 'polygon' | 'fixture'
 }
 
 export function buildResponseMeta(): ResponseMeta {
@@ -473,250 +324,127 @@ export function buildResponseMeta(): ResponseMeta {
     lastFetchedAt: new Date().toISOString(),
     marketStatus: getCurrentMarketPhase(),
     isDelayed: true, // Polygon basic tier has 15-min delay
-    source: 'polygon',
+    source: getMarketDataProviderId() === 'fixture' ? 'fixture' : 'polygon',
   }
 }
 
 // -----------------------------------------------------------------------------
-// API Functions - Market Status
+// API Functions - Shared
 // -----------------------------------------------------------------------------
-
-export async function fetchMarketStatus(): Promise<MarketStatusResponse> {
-  const apiKey = getApiKey()
-
-  if (!apiKey) {
-    console.error('[API] Market status fetch failed: API key not configured')
-    return {
-      success: false,
-      status: null,
-      error: createError('API_KEY_MISSING', 'API key is not configured'),
-    }
+//
+// Every fetch below goes through lib/massive/client (allowlist, in-memory
+// cache, shared upstream budget) and parses the payload with
+// lib/massive/normalize. Nothing in this file reads raw Polygon JSON.
+
+function toApiError(error: MassiveError | null, symbol?: string, endpoint?: string): ApiError {
+  switch (error?.code) {
+    case 'NO_API_KEY':
+      return createError('API_KEY_MISSING', 'API key is not configured', symbol, endpoint)
+    case 'HTTP_404':
+      return createError('NOT_FOUND', `No data found${symbol ? ` for ${symbol}` : ''}`, symbol, endpoint)
+    case 'HTTP_429':
+      return createError('RATE_LIMITED', 'API rate limit exceeded', symbol, endpoint)
+    default:
+      return createError('FETCH_FAILED', error?.message || 'Request failed', symbol, endpoint)
   }
+}
 
-  try {
-    const url = `${BASE_URL}/v1/marketstatus/now?apiKey=${apiKey}`
+function logFailure(endpoint: string, error: ApiError): void {
+  if (error.code === 'NOT_FOUND') return
+  console.error(`[API] ${endpoint} fetch failed: ${error.message}`)
+}
 
-    const response = await fetch(url, {
-      next: { revalidate: 60 },
-    })
+// Reported when a request fails before any entitlement headers arrive
+const UNKNOWN_ENTITLEMENT: DataEntitlement = { delayed: true, delayMinutes: 15, source: 'delayed' }
 
-    if (!response.ok) {
-      console.error(`[API] Market status fetch failed: ${response.status}`)
-      return {
-        success: false,
-        status: null,
-        error: createError('FETCH_FAILED', `HTTP ${response.status}: ${response.statusText}`),
-      }
-    }
+type Payload<Op extends keyof typeof ALLOWED_OPERATIONS> = z.infer<(typeof ALLOWED_OPERATIONS)[Op]['responseSchema']>
 
-    const data = await response.json()
-
-    const status: MarketStatus = {
-      market: 'stocks',
-      server_time: data.serverTime || new Date().toISOString(),
-      exchanges: {
-        nyse: mapMarketPhase(data.exchanges?.nyse || data.market),
-        nasdaq: mapMarketPhase(data.exchanges?.nasdaq || data.market),
-      },
-      early_close: data.earlyHours || false,
-      next_open: data.nextOpen || '',
-      next_close: data.nextClose || '',
-    }
+// -----------------------------------------------------------------------------
+// API Functions - Market Status
+// -----------------------------------------------------------------------------
 
-    // Update cache
-    cachedMarketStatus = { status, fetchedAt: Date.now() }
+async function fetchPolygonMarketStatus(): Promise<MarketStatusResponse> {
+  const response = await massiveRequest<Payload<'marketStatus'>>('marketStatus', {}, { cachePolicy: { ttl: 60 } })
 
-    return { success: true, status }
-  } catch (error) {
-    console.error('[API] Market status fetch error:', error instanceof Error ? error.message : 'Unknown error')
-    return {
-      success: false,
-      status: null,
-      error: createError('FETCH_FAILED', 'Failed to fetch market status'),
-    }
+  if (!response.success || !response.data) {
+    const error = toApiError(response.error, undefined, 'market_status')
+    logFailure('Market status', error)
+    return { success: false, status: null, error }
   }
-}
 
-function mapMarketPhase(phase: string): MarketPhase {
-  switch (phase?.toLowerCase()) {
-    case 'open':
-    case 'regular':
-      return 'open'
-    case 'pre-market':
-    case 'pre':
-    case 'premarket':
-      return 'pre-market'
-    case 'after-hours':
-    case 'after':
-    case 'afterhours':
-    case 'extended-hours':
-      return 'after-hours'
-    default:
-      return 'closed'
+  const normalized = normalizeMarketStatus(response.data)
+  const status: MarketStatus = {
+    market: 'stocks',
+    server_time: normalized.serverTime,
+    exchanges: normalized.exchanges,
+    early_close: response.data.earlyHours || false,
+    next_open: '',
+    next_close: '',
   }
+
+  return { success: true, status }
 }
 
 // -----------------------------------------------------------------------------
 // API Functions - Options Chain
 // -----------------------------------------------------------------------------
 
-export async function fetchOptionsChain(
+export interface OptionsChainOptions {
+  contract_type?: 'call' | 'put'
+  expiration_date?: string
+  expiration_date_gte?: string
+  expiration_date_lte?: string
+  strike_price_gte?: number
+  strike_price_lte?: number
+  limit?: number
+  maxPages?: number // Follow next_url up to this many pages (default 1)
+}
+
+async function fetchPolygonOptionsChain(
   symbol: string,
-  options?: {
-    contract_type?: 'call' | 'put'
-    expiration_date_gte?: string
-    expiration_date_lte?: string
-    strike_price_gte?: number
-    strike_price_lte?: number
-    limit?: number
-  }
+  options?: OptionsChainOptions
 ): Promise<OptionsChainResponse> {
-  const apiKey = getApiKey()
+  const underlying = symbol.replace(/^I:/i, '').toUpperCase()
+  const opts = { cachePolicy: { ttl: getCacheRevalidation() } }
+
+  const first = await massiveRequest<Payload<'optionsChain'>>(
+    'optionsChain',
+    {
+      underlying,
+      limit: options?.limit || 250,
+      contract_type: options?.contract_type,
+      expiration_date: options?.expiration_date,
+      'expiration_date.gte': options?.expiration_date_gte,
+      'expiration_date.lte': options?.expiration_date_lte,
+      'strike_price.gte': options?.strike_price_gte || undefined,
+      'strike_price.lte': options?.strike_price_lte || undefined,
+    },
+    opts
+  )
 
-  if (!apiKey) {
-    console.error('[API] Options chain fetch failed: API key not configured')
-    return {
-      success: false,
-      underlying_symbol: symbol,
-      underlying_price: 0,
-      results: [],
-      error: createError('API_KEY_MISSING', 'API key is not configured', symbol),
-    }
+  if (!first.success || !first.data) {
+    const error = toApiError(first.error, symbol, 'options_chain')
+    logFailure(`Options chain (${symbol})`, error)
+    return { success: false, underlying_symbol: symbol, underlying_price: 0, results: [], error }
   }
 
-  const normalizedSymbol = symbol.replace('I:', '').toUpperCase()
-
-  try {
-    const params = new URLSearchParams({
-      apiKey,
-      limit: String(options?.limit || 250),
-    })
-
-    if (options?.contract_type) {
-      params.set('contract_type', options.contract_type)
-    }
-    if (options?.expiration_date_gte) {
-      params.set('expiration_date.gte', options.expiration_date_gte)
-    }
-    if (options?.expiration_date_lte) {
-      params.set('expiration_date.lte', options.expiration_date_lte)
-    }
-    if (options?.strike_price_gte) {
-      params.set('strike_price.gte', String(options.strike_price_gte))
-    }
-    if (options?.strike_price_lte) {
-      params.set('strike_price.lte', String(options.strike_price_lte))
-    }
-
-    const url = `${BASE_URL}/v3/snapshot/options/${normalizedSymbol}?${params.toString()}`
-
-    const response = await fetch(url, {
-      next: { revalidate: getCacheRevalidation() },
-    })
-
-    if (response.status === 404) {
-      console.error(`[API] Options chain not found for ${symbol}`)
-      return {
-        success: false,
-        underlying_symbol: symbol,
-        underlying_price: 0,
-        results: [],
-        error: createError('NOT_FOUND', `No options data found for ${symbol}`, symbol, 'options_chain'),
-      }
-    }
-
-    if (response.status === 429) {
-      console.error('[API] Rate limited on options chain request')
-      return {
-        success: false,
-        underlying_symbol: symbol,
-        underlying_price: 0,
-        results: [],
-        error: createError('RATE_LIMITED', 'API rate limit exceeded', symbol, 'options_chain'),
-      }
-    }
-
-    if (!response.ok) {
-      console.error(`[API] Options chain fetch failed: ${response.status}`)
-      return {
-        success: false,
-        underlying_symbol: symbol,
-        underlying_price: 0,
-        results: [],
-        error: createError('FETCH_FAILED', `HTTP ${response.status}`, symbol, 'options_chain'),
-      }
-    }
-
-    const data = await response.json()
-
-    if (!data.results || !Array.isArray(data.results)) {
-      return {
-        success: true,
-        underlying_symbol: symbol,
-        underlying_price: data.underlying_asset?.price || 0,
-        results: [],
-      }
-    }
+  // Multi-expiration requests span several pages; a failed page keeps what we have
+  const pages = [first.data]
+  let nextUrl = first.data.next_url
+  for (let page = 1; nextUrl && page < (options?.maxPages ?? 1); page++) {
+    const next = await massiveRequestPage<Payload<'optionsChain'>>('optionsChain', nextUrl, opts)
+    if (!next.success || !next.data) break
+    pages.push(next.data)
+    nextUrl = next.data.next_url
+  }
 
-    const snapshots: OptionSnapshot[] = data.results.map((item: any) => ({
-      contract: {
-        ticker: item.details?.ticker || '',
-        underlying_ticker: item.details?.underlying_ticker || symbol,
-        contract_type: item.details?.contract_type || 'call',
-        strike_price: item.details?.strike_price || 0,
-        expiration_date: item.details?.expiration_date || '',
-        shares_per_contract: item.details?.shares_per_contract || 100,
-        exercise_style: item.details?.exercise_style || 'american',
-      },
-      quote: {
-        bid: item.last_quote?.bid || 0,
-        bid_size: item.last_quote?.bid_size || 0,
-        ask: item.last_quote?.ask || 0,
-        ask_size: item.last_quote?.ask_size || 0,
-        last_price: item.last_trade?.price || 0,
-        last_size: item.last_trade?.size || 0,
-        midpoint: item.last_quote?.midpoint || ((item.last_quote?.bid || 0) + (item.last_quote?.ask || 0)) / 2,
-      },
-      day: {
-        open: item.day?.open || 0,
-        high: item.day?.high || 0,
-        low: item.day?.low || 0,
-        close: item.day?.close || 0,
-        volume: item.day?.volume || 0,
-        vwap: item.day?.vwap || 0,
-        change: item.day?.change || 0,
-        change_percent: item.day?.change_percent || 0,
-        previous_close: item.day?.previous_close || 0,
-      },
-      greeks: {
-        delta: item.greeks?.delta || 0,
-        gamma: item.greeks?.gamma || 0,
-        theta: item.greeks?.theta || 0,
-        vega: item.greeks?.vega || 0,
-        rho: item.greeks?.rho || 0,
-      },
-      implied_volatility: item.implied_volatility || 0,
-      open_interest: item.open_interest || 0,
-      break_even_price: item.break_even_price || 0,
-      underlying_price: item.underlying_asset?.price || data.underlying_asset?.price || 0,
-      last_updated: item.last_updated || new Date().toISOString(),
-    }))
+  const results = normalizeOptionsChain({ results: pages.flatMap((page) => page.results ?? []) }, underlying)
 
-    return {
-      success: true,
-      underlying_symbol: symbol,
-      underlying_price: data.underlying_asset?.price || 0,
-      results: snapshots,
-    }
-  } catch (error) {
-    console.error('[API] Options chain fetch error:', error instanceof Error ? error.message : 'Unknown error')
-    return {
-      success: false,
-      underlying_symbol: symbol,
-      underlying_price: 0,
-      results: [],
-      error: createError('FETCH_FAILED', 'Failed to fetch options chain', symbol, 'options_chain'),
-    }
+  return {
+    success: true,
+    underlying_symbol: symbol,
+    underlying_price: results.find((c) => c.underlyingPrice > 0)?.underlyingPrice ?? 0,
+    results,
   }
 }
 
@@ -724,195 +452,82 @@ export async function fetchOptionsChain(
 // API Functions - Intraday Bars
 // -----------------------------------------------------------------------------
 
-export async function fetchIntradayBars(
+export interface IntradayBarsOptions {
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+async function fetchPolygonIntradayBars(
   symbol: string,
   interval: IntradayInterval = '5m',
-  options?: {
-    from?: Date
-    to?: Date
-    limit?: number
-  }
+  options?: IntradayBarsOptions
 ): Promise<IntradayBarsResponse> {
-  const apiKey = getApiKey()
-
-  if (!apiKey) {
-    console.error('[API] Intraday bars fetch failed: API key not configured')
-    return {
-      success: false,
-      symbol,
-      interval,
-      results: [],
-      error: createError('API_KEY_MISSING', 'API key is not configured', symbol),
-    }
-  }
-
-  const normalizedSymbol = normalizeSymbol(symbol)
   const intervalConfig = INTERVAL_MAP[interval]
 
   const to = options?.to || new Date()
   const from = options?.from || new Date(to.getTime() - 24 * 60 * 60 * 1000) // Default: last 24 hours
 
-  try {
-    const url = `${BASE_URL}/v2/aggs/ticker/${normalizedSymbol}/range/${intervalConfig.multiplier}/${intervalConfig.timespan}/${formatDate(from)}/${formatDate(to)}?adjusted=true&sort=asc&limit=${options?.limit || 5000}&apiKey=${apiKey}`
-
-    const response = await fetch(url, {
-      next: { revalidate: isMarketOpen() ? 60 : 300 },
-    })
-
-    if (response.status === 404) {
-      return {
-        success: false,
-        symbol,
-        interval,
-        results: [],
-        error: createError('NOT_FOUND', `No intraday data for ${symbol}`, symbol, 'intraday_bars'),
-      }
-    }
-
-    if (response.status === 429) {
-      return {
-        success: false,
-        symbol,
-        interval,
-        results: [],
-        error: createError('RATE_LIMITED', 'API rate limit exceeded', symbol, 'intraday_bars'),
-      }
-    }
-
-    if (!response.ok) {
-      console.error(`[API] Intraday bars fetch failed: ${response.status}`)
-      return {
-        success: false,
-        symbol,
-        interval,
-        results: [],
-        error: createError('FETCH_FAILED', `HTTP ${response.status}`, symbol, 'intraday_bars'),
-      }
-    }
+  const response = await massiveRequest<Payload<'aggregates'>>(
+    'aggregates',
+    {
+      ticker: normalizeSymbol(symbol),
+      multiplier: intervalConfig.multiplier,
+      timespan: intervalConfig.timespan,
+      from: formatDate(from),
+      to: formatDate(to),
+      adjusted: true,
+      sort: 'asc',
+      limit: options?.limit || 5000,
+    },
+    { cachePolicy: { ttl: isMarketOpen() ? 60 : 300 } }
+  )
 
-    const data = await response.json()
+  if (!response.success || !response.data) {
+    const error = toApiError(response.error, symbol, 'intraday_bars')
+    logFailure(`Intraday bars (${symbol})`, error)
+    return { success: false, symbol, interval, results: [], error }
+  }
 
-    if (!data.results || !Array.isArray(data.results)) {
-      return {
-        success: true,
-        symbol,
-        interval,
-        results: [],
-      }
-    }
+  const bars: IntradayBar[] = normalizeAggregates(response.data).map((bar) => ({
+    timestamp: new Date(bar.timestamp).toISOString(),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+    vwap: bar.vwap ?? 0,
+    transactions: bar.transactions ?? 0,
+  }))
 
-    const bars: IntradayBar[] = data.results.map((bar: any) => ({
-      timestamp: new Date(bar.t).toISOString(),
-      open: bar.o || 0,
-      high: bar.h || 0,
-      low: bar.l || 0,
-      close: bar.c || 0,
-      volume: bar.v || 0,
-      vwap: bar.vw || 0,
-      transactions: bar.n || 0,
-    }))
-
-    return {
-      success: true,
-      symbol,
-      interval,
-      results: bars,
-    }
-  } catch (error) {
-    console.error('[API] Intraday bars fetch error:', error instanceof Error ? error.message : 'Unknown error')
-    return {
-      success: false,
-      symbol,
-      interval,
-      results: [],
-      error: createError('FETCH_FAILED', 'Failed to fetch intraday bars', symbol, 'intraday_bars'),
-    }
-  }
+  return { success: true, symbol, interval, results: bars }
 }
 
 // -----------------------------------------------------------------------------
 // API Functions - Ticker Snapshot
 // -----------------------------------------------------------------------------
 
-export async function fetchTickerSnapshot(symbol: string): Promise<SnapshotResponse> {
-  const apiKey = getApiKey()
+async function fetchPolygonTickerSnapshot(symbol: string): Promise<SnapshotResponse> {
+  const response = await massiveRequest<Payload<'snapshotTicker'>>(
+    'snapshotTicker',
+    { ticker: normalizeSymbol(symbol) },
+    { cachePolicy: { ttl: isMarketOpen() ? 30 : 300 } }
+  )
 
-  if (!apiKey) {
-    return {
-      success: false,
-      ticker: null,
-      error: createError('API_KEY_MISSING', 'API key is not configured', symbol),
-    }
+  if (!response.success || !response.data) {
+    return { success: false, ticker: null, error: toApiError(response.error, symbol, 'snapshot') }
   }
 
-  const normalizedSymbol = normalizeSymbol(symbol)
-
-  try {
-    const url = `${BASE_URL}/v2/snapshot/locale/us/markets/stocks/tickers/${normalizedSymbol}?apiKey=${apiKey}`
-
-    const response = await fetch(url, {
-      next: { revalidate: isMarketOpen() ? 30 : 300 },
-    })
-
-    if (!response.ok) {
-      return {
-        success: false,
-        ticker: null,
-        error: createError('FETCH_FAILED', `HTTP ${response.status}`, symbol, 'snapshot'),
-      }
-    }
-
-    const data = await response.json()
-
-    if (!data.ticker) {
-      return {
-        success: false,
-        ticker: null,
-        error: createError('INVALID_RESPONSE', 'No ticker data in response', symbol, 'snapshot'),
-      }
-    }
-
-    return {
-      success: true,
-      ticker: {
-        ticker: data.ticker.ticker,
-        todaysChange: data.ticker.todaysChange || 0,
-        todaysChangePerc: data.ticker.todaysChangePerc || 0,
-        updated: data.ticker.updated || Date.now(),
-        day: {
-          open: data.ticker.day?.o || 0,
-          high: data.ticker.day?.h || 0,
-          low: data.ticker.day?.l || 0,
-          close: data.ticker.day?.c || 0,
-          volume: data.ticker.day?.v || 0,
-          vwap: data.ticker.day?.vw || 0,
-        },
-        prevDay: {
-          open: data.ticker.prevDay?.o || 0,
-          high: data.ticker.prevDay?.h || 0,
-          low: data.ticker.prevDay?.l || 0,
-          close: data.ticker.prevDay?.c || 0,
-          volume: data.ticker.prevDay?.v || 0,
-          vwap: data.ticker.prevDay?.vw || 0,
-        },
-        min: {
-          open: data.ticker.min?.o || 0,
-          high: data.ticker.min?.h || 0,
-          low: data.ticker.min?.l || 0,
-          close: data.ticker.min?.c || 0,
-          volume: data.ticker.min?.v || 0,
-          vwap: data.ticker.min?.vw || 0,
-          accumulated_volume: data.ticker.min?.av || 0,
-        },
-      },
-    }
-  } catch (error) {
+  const ticker = normalizeSnapshot(response.data, symbol)
+  if (!ticker) {
     return {
       success: false,
       ticker: null,
-      error: createError('FETCH_FAILED', 'Failed to fetch snapshot', symbol, 'snapshot'),
+      error: createError('INVALID_RESPONSE', 'No ticker data in response', symbol, 'snapshot'),
     }
   }
+
+  return { success: true, ticker }
 }
 
 // -----------------------------------------------------------------------------
@@ -932,20 +547,9 @@ export interface UniversalSnapshotOptions {
  * @param options - Configuration for the snapshot request
  * @returns Promise with snapshot results and entitlement info
  */
-export async function fetchUniversalSnapshot(
+async function fetchPolygonUniversalSnapshot(
   options: UniversalSnapshotOptions
 ): Promise<UniversalSnapshotResponse> {
-  const apiKey = getApiKey()
-
-  if (!apiKey) {
-    return {
-      success: false,
-      results: [],
-      entitlement: { delayed: true, delayMinutes: 15, source: 'delayed' },
-      error: createError('API_KEY_MISSING', 'API key is not configured'),
-    }
-  }
-
   const { symbols, assetClass = 'stocks', includeOtc = false } = options
 
   // Normalize symbols based on asset class
@@ -953,100 +557,26 @@ export async function fetchUniversalSnapshot(
     assetClass === 'indices' ? normalizeSymbol(s) : s.toUpperCase()
   )
 
-  try {
-    const params = new URLSearchParams({
+  const response = await massiveRequest<Payload<'universalSnapshot'>>(
+    'universalSnapshot',
+    {
       'ticker.any_of': normalizedSymbols.join(','),
-      apiKey,
-    })
-
-    if (!includeOtc) {
-      params.append('include_otc', 'false')
-    }
-
-    const url = `${BASE_URL}/v3/snapshot?${params.toString()}`
-
-    const response = await fetch(url, {
-      next: { revalidate: isMarketOpen() ? 15 : 300 },
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      return {
-        success: false,
-        results: [],
-        entitlement: { delayed: true, delayMinutes: 15, source: 'delayed' },
-        error: createError('FETCH_FAILED', `HTTP ${response.status}: ${errorText}`, undefined, 'universal-snapshot'),
-      }
-    }
+      include_otc: includeOtc ? undefined : false,
+    },
+    { cachePolicy: { ttl: isMarketOpen() ? 15 : 300 } }
+  )
 
-    const data = await response.json()
-
-    // Parse entitlement from response headers or data
-    const entitlement = parseEntitlement(response, data)
-
-    const results: UniversalSnapshotItem[] = (data.results || []).map((item: any) => ({
-      ticker: item.ticker,
-      name: item.name,
-      market: item.market,
-      locale: item.locale,
-      type: item.type,
-      currency_name: item.currency_name,
-      last_updated_utc: item.last_updated_utc,
-      session: item.session
-        ? {
-            open: item.session.open || 0,
-            high: item.session.high || 0,
-            low: item.session.low || 0,
-            close: item.session.close || 0,
-            volume: item.session.volume || 0,
-            change: item.session.change || 0,
-            change_percent: item.session.change_percent || 0,
-            previous_close: item.session.previous_close || 0,
-            early_trading_change: item.session.early_trading_change,
-            early_trading_change_percent: item.session.early_trading_change_percent,
-            late_trading_change: item.session.late_trading_change,
-            late_trading_change_percent: item.session.late_trading_change_percent,
-          }
-        : undefined,
-      last_quote: item.last_quote
-        ? {
-            bid: item.last_quote.bid || 0,
-            bid_size: item.last_quote.bid_size || 0,
-            ask: item.last_quote.ask || 0,
-            ask_size: item.last_quote.ask_size || 0,
-            last_updated: item.last_quote.last_updated || 0,
-          }
-        : undefined,
-      last_trade: item.last_trade
-        ? {
-            price: item.last_trade.price || 0,
-            size: item.last_trade.size || 0,
-            exchange: item.last_trade.exchange || 0,
-            conditions: item.last_trade.conditions,
-            timestamp: item.last_trade.timestamp || 0,
-          }
-        : undefined,
-      fmv: item.fmv,
-      underlying_asset: item.underlying_asset,
-      greeks: item.greeks,
-      implied_volatility: item.implied_volatility,
-      open_interest: item.open_interest,
-      break_even_price: item.break_even_price,
-    }))
+  if (!response.success || !response.data) {
+    const error = toApiError(response.error, undefined, 'universal-snapshot')
+    logFailure('Universal snapshot', error)
+    return { success: false, results: [], entitlement: UNKNOWN_ENTITLEMENT, error }
+  }
 
-    return {
-      success: true,
-      results,
-      entitlement,
-      request_id: data.request_id,
-    }
-  } catch (error) {
-    return {
-      success: false,
-      results: [],
-      entitlement: { delayed: true, delayMinutes: 15, source: 'delayed' },
-      error: createError('FETCH_FAILED', 'Failed to fetch universal snapshot', undefined, 'universal-snapshot'),
-    }
+  return {
+    success: true,
+    results: normalizeUniversalSnapshot(response.data),
+    entitlement: normalizeEntitlement(response.headers, response.data),
+    request_id: response.data.request_id,
   }
 }
 
@@ -1061,169 +591,213 @@ export async function fetchUniversalSnapshot(
  * @param symbols - Array of index symbols (SPX, NDX, etc.)
  * @returns Promise with index snapshot results and entitlement info
  */
-export async function fetchIndexSnapshot(symbols: string[]): Promise<IndexSnapshotResponse> {
-  const apiKey = getApiKey()
+async function fetchPolygonIndexSnapshot(symbols: string[]): Promise<IndexSnapshotResponse> {
+  const response = await massiveRequest<Payload<'indicesSnapshot'>>(
+    'indicesSnapshot',
+    { 'ticker.any_of': symbols.map((s) => normalizeSymbol(s)).join(',') },
+    { cachePolicy: { ttl: isMarketOpen() ? 60 : 300 } }
+  )
 
-  if (!apiKey) {
-    return {
-      success: false,
-      results: [],
-      entitlement: { delayed: true, delayMinutes: 15, source: 'delayed' },
-      error: createError('API_KEY_MISSING', 'API key is not configured'),
-    }
+  if (!response.success || !response.data) {
+    const error = toApiError(response.error, undefined, 'index-snapshot')
+    logFailure('Index snapshot', error)
+    return { success: false, results: [], entitlement: UNKNOWN_ENTITLEMENT, error }
   }
 
-  // Normalize symbols to include I: prefix for indices
-  const normalizedSymbols = symbols.map((s) => normalizeSymbol(s))
+  // Index data may have a different delay than stocks depending on subscription
+  return {
+    success: true,
+    results: normalizeIndexSnapshot(response.data),
+    entitlement: normalizeEntitlement(response.headers, response.data),
+    request_id: response.data.request_id,
+  }
+}
 
-  try {
-    const params = new URLSearchParams({
-      'ticker.any_of': normalizedSymbols.join(','),
-      apiKey,
-    })
+// -----------------------------------------------------------------------------
+// API Functions - Daily Bars (existing, updated with better error handling)
+// -----------------------------------------------------------------------------
 
-    const url = `${BASE_URL}/v3/snapshot/indices?${params.toString()}`
+export interface DailyBarsOptions {
+  /** Split-adjusted prices (Polygon's adjusted=true). Default: true */
+  adjusted?: boolean
+}
 
-    const response = await fetch(url, {
-      next: { revalidate: isMarketOpen() ? 60 : 300 },
-    })
+/**
+ * Most recent `days` daily bars, ascending. With `asOf` (YYYY-MM-DD) the
+ * range ends on that date instead of today (replay mode).
+ */
+export async function fetchDailyBars(
+  symbol: string,
+  days = 252,
+  asOf?: string | null,
+  options?: DailyBarsOptions
+): Promise<DailyBar[]> {
+  const toDate = asOf ? new Date(`${asOf}T00:00:00Z`) : new Date()
+  const fromDate = new Date(toDate)
+  fromDate.setDate(toDate.getDate() - days * 1.5)
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      return {
-        success: false,
-        results: [],
-        entitlement: { delayed: true, delayMinutes: 15, source: 'delayed' },
-        error: createError('FETCH_FAILED', `HTTP ${response.status}: ${errorText}`, undefined, 'index-snapshot'),
-      }
-    }
+  const bars = await fetchDailyBarsRange(symbol, formatDate(fromDate), formatDate(toDate), options)
 
-    const data = await response.json()
-
-    // Parse entitlement - index data may have different delay based on subscription
-    const entitlement = parseEntitlement(response, data)
-
-    const results: IndexSnapshotItem[] = (data.results || []).map((item: any) => ({
-      ticker: item.ticker,
-      name: item.name || '',
-      market: item.market || 'indices',
-      locale: item.locale || 'us',
-      type: 'indices' as const,
-      value: item.value || item.session?.close || 0,
-      session: {
-        open: item.session?.open || 0,
-        high: item.session?.high || 0,
-        low: item.session?.low || 0,
-        close: item.session?.close || 0,
-        change: item.session?.change || 0,
-        change_percent: item.session?.change_percent || 0,
-        previous_close: item.session?.previous_close || 0,
-      },
-      last_updated: item.last_updated || Date.now(),
-    }))
+  if (bars.length === 0) {
+    throw new Error(`No data returned for ${symbol}`)
+  }
 
-    return {
-      success: true,
-      results,
-      entitlement,
-      request_id: data.request_id,
-    }
-  } catch (error) {
-    return {
-      success: false,
-      results: [],
-      entitlement: { delayed: true, delayMinutes: 15, source: 'delayed' },
-      error: createError('FETCH_FAILED', 'Failed to fetch index snapshot', undefined, 'index-snapshot'),
+  // Return most recent N bars (ascending order - oldest to newest)
+  return bars.slice(-days)
+}
+
+async function fetchPolygonDailyBars(
+  symbol: string,
+  from: string,
+  to: string,
+  options?: DailyBarsOptions
+): Promise<DailyBar[]> {
+  const response = await massiveRequest<Payload<'aggregates'>>(
+    'aggregates',
+    {
+      ticker: normalizeSymbol(symbol),
+      multiplier: 1,
+      timespan: 'day',
+      from,
+      to,
+      adjusted: options?.adjusted ?? true,
+      sort: 'asc',
+      limit: 50000,
+    },
+    { cachePolicy: { ttl: getCacheRevalidation() } }
+  )
+
+  if (!response.success || !response.data) {
+    if (response.error?.code === 'NO_API_KEY') {
+      console.error('[API] Daily bars fetch failed: API key not configured')
+      throw new Error('MASSIVE_API_KEY is not configured')
     }
+    console.error(`[API] Daily bars error for ${symbol}: ${response.error?.message}`, response.error?.details ?? '')
+    throw new Error(`Failed to fetch data for ${symbol}: ${response.error?.message ?? 'Unknown error'}`)
   }
+
+  return normalizeAggregates(response.data).map((bar) => ({
+    date: bar.date,
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+  }))
+}
+
+// -----------------------------------------------------------------------------
+// API Functions - Corporate Actions
+// -----------------------------------------------------------------------------
+
+export interface CorporateActionsResponse {
+  success: boolean
+  actions: CorporateAction[]
+  error?: ApiError
 }
 
 /**
- * Parses entitlement/delay information from API response.
- * Different Polygon plans have different data freshness:
- * - Basic: 15-minute delayed
- * - Stocks Starter: Real-time stocks, delayed options
- * - Options: Real-time options
- * - Indices: May be delayed depending on exchange agreements
+ * Splits and cash dividends with an ex-date on or after `from`, oldest first.
+ * Indices have neither, so they never go upstream.
  */
-function parseEntitlement(response: Response, data: any): DataEntitlement {
-  // Check for delay indicator in response headers
-  const delayHeader = response.headers.get('x-polygon-delayed')
-  const entitlementHeader = response.headers.get('x-polygon-entitlement')
-
-  // Check data payload for delay status
-  const isDelayed = data.delayed === true || delayHeader === 'true'
-  const delayMinutes = data.delay_minutes || (isDelayed ? 15 : 0)
-
-  // Determine source based on delay status
-  let source: DataEntitlement['source'] = 'realtime'
-  if (isDelayed) {
-    source = delayMinutes >= 1440 ? 'eod' : 'delayed' // 1440 = end of day
+async function fetchPolygonCorporateActions(symbol: string, from?: string): Promise<CorporateActionsResponse> {
+  const ticker = normalizeSymbol(symbol)
+  if (ticker.startsWith('I:')) {
+    return { success: true, actions: [] }
   }
 
-  return {
-    delayed: isDelayed,
-    delayMinutes,
-    entitlementId: entitlementHeader || undefined,
-    source,
+  const opts = { cachePolicy: { ttl: 3600 } }
+  const [splits, dividends] = await Promise.all([
+    massiveRequest<Payload<'splits'>>('splits', { ticker, 'execution_date.gte': from, limit: 1000 }, opts),
+    massiveRequest<Payload<'dividends'>>('dividends', { ticker, 'ex_dividend_date.gte': from, limit: 1000 }, opts),
+  ])
+
+  if (!splits.success || !splits.data || !dividends.success || !dividends.data) {
+    const error = toApiError(splits.error ?? dividends.error, symbol, 'corporate_actions')
+    logFailure(`Corporate actions (${symbol})`, error)
+    return { success: false, actions: [], error }
   }
+
+  return { success: true, actions: normalizeCorporateActions(symbol.toUpperCase(), splits.data, dividends.data) }
 }
 
 // -----------------------------------------------------------------------------
-// API Functions - Daily Bars (existing, updated with better error handling)
+// API Functions - Market Data Provider
 // -----------------------------------------------------------------------------
+//
+// The fetch functions above are the Polygon implementation. Everything else
+// in the app calls the wrappers below, which go through the provider chosen
+// by MARKET_DATA_PROVIDER (lib/market-data), so offline fixtures and record
+// mode work without touching any caller.
+
+export const polygonProvider: MarketDataProvider = {
+  id: 'polygon',
+  getDailyBars: fetchPolygonDailyBars,
+  getIntradayBars: fetchPolygonIntradayBars,
+  getTickerSnapshot: fetchPolygonTickerSnapshot,
+  getUniversalSnapshot: fetchPolygonUniversalSnapshot,
+  getIndexSnapshot: fetchPolygonIndexSnapshot,
+  getOptionsChain: fetchPolygonOptionsChain,
+  getMarketStatus: fetchPolygonMarketStatus,
+  getMovers: fetchPolygonMovers,
+  getCorporateActions: fetchPolygonCorporateActions,
+}
 
-export async function fetchDailyBars(symbol: string, days = 252): Promise<DailyBar[]> {
-  const apiKey = getApiKey()
+export async function fetchMarketStatus(): Promise<MarketStatusResponse> {
+  const response = await (await getMarketDataProvider()).getMarketStatus()
 
-  if (!apiKey) {
-    console.error('[API] Daily bars fetch failed: API key not configured')
-    throw new Error('MASSIVE_API_KEY is not configured')
+  // Update cache
+  if (response.success && response.status) {
+    cachedMarketStatus = { status: response.status, fetchedAt: Date.now() }
   }
 
-  const normalizedSymbol = normalizeSymbol(symbol)
-
-  const toDate = new Date()
-  const fromDate = new Date()
-  fromDate.setDate(toDate.getDate() - days * 1.5)
+  return response
+}
 
-  const fromStr = formatDate(fromDate)
-  const toStr = formatDate(toDate)
+export async function fetchOptionsChain(symbol: string, options?: OptionsChainOptions): Promise<OptionsChainResponse> {
+  return (await getMarketDataProvider()).getOptionsChain(symbol, options)
+}
 
-  try {
-    const url = `${BASE_URL}/v2/aggs/ticker/${normalizedSymbol}/range/1/day/${fromStr}/${toStr}?adjusted=true&sort=asc&limit=50000&apiKey=${apiKey}`
+export async function fetchIntradayBars(
+  symbol: string,
+  interval: IntradayInterval = '5m',
+  options?: IntradayBarsOptions
+): Promise<IntradayBarsResponse> {
+  return (await getMarketDataProvider()).getIntradayBars(symbol, interval, options)
+}
 
-    const response = await fetch(url, {
-      next: { revalidate: getCacheRevalidation() },
-    })
+export async function fetchTickerSnapshot(symbol: string): Promise<SnapshotResponse> {
+  return (await getMarketDataProvider()).getTickerSnapshot(symbol)
+}
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`[API] Daily bars error for ${symbol}: ${response.status} - ${errorText}`)
-      throw new Error(`Failed to fetch data for ${symbol}: ${response.statusText}`)
-    }
+export async function fetchUniversalSnapshot(options: UniversalSnapshotOptions): Promise<UniversalSnapshotResponse> {
+  return (await getMarketDataProvider()).getUniversalSnapshot(options)
+}
 
-    const data = await response.json()
+export async function fetchIndexSnapshot(symbols: string[]): Promise<IndexSnapshotResponse> {
+  return (await getMarketDataProvider()).getIndexSnapshot(symbols)
+}
 
-    if (!data.results || data.results.length === 0) {
-      throw new Error(`No data returned for ${symbol}`)
-    }
+/**
+ * Fetches daily bars for an explicit date range (inclusive, YYYY-MM-DD).
+ * Returns an empty array when there are no bars in the range, so callers
+ * syncing an incremental tail can tell "nothing new" apart from a failure.
+ */
+export async function fetchDailyBarsRange(
+  symbol: string,
+  from: string,
+  to: string,
+  options?: DailyBarsOptions
+): Promise<DailyBar[]> {
+  return (await getMarketDataProvider()).getDailyBars(symbol, from, to, options)
+}
 
-    const bars: DailyBar[] = data.results.map((bar: any) => ({
-      date: new Date(bar.t).toISOString().split('T')[0],
-      open: bar.o,
-      high: bar.h,
-      low: bar.l,
-      close: bar.c,
-      volume: bar.v || 0,
-    }))
+export async function fetchCorporateActions(symbol: string, from?: string): Promise<CorporateActionsResponse> {
+  return (await getMarketDataProvider()).getCorporateActions(symbol, from)
+}
 
-    // Return most recent N bars (ascending order - oldest to newest)
-    return bars.slice(-days)
-  } catch (error) {
-    console.error(`[API] Error fetching ${symbol}:`, error instanceof Error ? error.message : 'Unknown error')
-    throw error
-  }
+export async function fetchMovers(direction: 'gainers' | 'losers' = 'gainers'): Promise<MoversResponse> {
+  return (await getMarketDataProvider()).getMovers(direction)
 }
 
 // -----------------------------------------------------------------------------
@@ -1490,10 +1064,72 @@ export interface RelativeStrengthResponse {
 // API Functions - Sector Performance
 // -----------------------------------------------------------------------------
 
-export async function fetchSectorPerformance(): Promise<SectorPerformanceResponse> {
-  const apiKey = getApiKey()
+interface SessionChange {
+  close: number
+  change: number
+  changePercent: number
+  volume: number
+}
 
-  if (!apiKey) {
+/**
+ * Session change per symbol from the live snapshot.
+ */
+async function fetchSnapshotChanges(
+  symbols: string[]
+): Promise<{ changes: Map<string, SessionChange>; error?: ApiError }> {
+  const response = await fetchUniversalSnapshot({ symbols, assetClass: 'stocks' })
+  if (!response.success) {
+    return { changes: new Map(), error: response.error }
+  }
+
+  const changes = new Map<string, SessionChange>()
+  for (const item of response.results) {
+    if (!item.session) continue
+    changes.set(item.ticker, {
+      close: item.session.close,
+      change: item.session.change,
+      changePercent: item.session.change_percent,
+      volume: item.session.volume,
+    })
+  }
+  return { changes }
+}
+
+// Sessions fetched to find the two ending on `asOf`; covers weekends and
+// holiday runs, which a two-session request (three calendar days) does not
+const HISTORICAL_CHANGE_SESSIONS = 10
+
+/**
+ * Session change per symbol for the session ending on `asOf`, from daily bars.
+ */
+async function fetchHistoricalChanges(
+  symbols: string[],
+  asOf: string
+): Promise<{ changes: Map<string, SessionChange>; error?: ApiError }> {
+  const changes = new Map<string, SessionChange>()
+  await Promise.all(
+    symbols.map(async (symbol) => {
+      const bars = await fetchDailyBars(symbol, HISTORICAL_CHANGE_SESSIONS, asOf).catch(() => [] as DailyBar[])
+      const sessions = bars.filter((bar) => bar.date <= asOf)
+      if (sessions.length < 2) return
+      const [previous, latest] = sessions.slice(-2)
+      changes.set(symbol, {
+        close: latest.close,
+        change: latest.close - previous.close,
+        changePercent: ((latest.close - previous.close) / previous.close) * 100,
+        volume: latest.volume,
+      })
+    })
+  )
+  return { changes }
+}
+
+/**
+ * Sector ETF performance vs SPY for the current session, or for the session
+ * ending on `asOf` (replay mode).
+ */
+export async function fetchSectorPerformance(asOf?: string | null): Promise<SectorPerformanceResponse> {
+  if (!requireMarketData().isValid) {
     return {
       success: false,
       sectors: [],
@@ -1507,26 +1143,24 @@ export async function fetchSectorPerformance(): Promise<SectorPerformanceRespons
     const sectorSymbols = Object.keys(SECTOR_ETFS)
     const allSymbols = ['SPY', ...sectorSymbols]
 
-    // Fetch snapshots for all sector ETFs + SPY
-    const response = await fetchUniversalSnapshot({
-      symbols: allSymbols,
-      assetClass: 'stocks',
-    })
+    // Session change for all sector ETFs + SPY
+    const { changes, error } = asOf
+      ? await fetchHistoricalChanges(allSymbols, asOf)
+      : await fetchSnapshotChanges(allSymbols)
 
-    if (!response.success) {
+    if (error) {
       return {
         success: false,
         sectors: [],
         spyPrice: 0,
         spyChangePercent: 0,
-        error: response.error,
+        error,
       }
     }
 
-    const snapshots = new Map(response.results.map((s) => [s.ticker, s]))
-    const spySnapshot = snapshots.get('SPY')
+    const spy = changes.get('SPY')
 
-    if (!spySnapshot?.session) {
+    if (!spy) {
       return {
         success: false,
         sectors: [],
@@ -1536,14 +1170,14 @@ export async function fetchSectorPerformance(): Promise<SectorPerformanceRespons
       }
     }
 
-    const spyChangePercent = spySnapshot.session.change_percent
+    const spyChangePercent = spy.changePercent
 
     const sectors = sectorSymbols
       .map((symbol) => {
-        const snapshot = snapshots.get(symbol)
-        if (!snapshot?.session) return null
+        const sector = changes.get(symbol)
+        if (!sector) return null
 
-        const changePercent = snapshot.session.change_percent
+        const changePercent = sector.changePercent
         const relativeStrength = changePercent - spyChangePercent
 
         let signal: SectorPerformance['signal'] = 'neutral'
@@ -1553,10 +1187,10 @@ export async function fetchSectorPerformance(): Promise<SectorPerformanceRespons
         return {
           symbol: symbol as SectorETF,
           name: SECTOR_ETFS[symbol as SectorETF] as string,
-          price: snapshot.session.close,
-          change: snapshot.session.change,
+          price: sector.close,
+          change: sector.change,
           changePercent,
-          volume: snapshot.session.volume,
+          volume: sector.volume,
           relativeStrength,
           signal,
         } satisfies SectorPerformance
@@ -1567,7 +1201,7 @@ export async function fetchSectorPerformance(): Promise<SectorPerformanceRespons
     return {
       success: true,
       sectors,
-      spyPrice: spySnapshot.session.close,
+      spyPrice: spy.close,
       spyChangePercent,
     }
   } catch {
@@ -1585,76 +1219,45 @@ export async function fetchSectorPerformance(): Promise<SectorPerformanceRespons
 // API Functions - Movers (Gainers/Losers/Most Active)
 // -----------------------------------------------------------------------------
 
-export async function fetchMovers(
+async function fetchPolygonMovers(
   direction: 'gainers' | 'losers' = 'gainers'
 ): Promise<MoversResponse> {
-  const apiKey = getApiKey()
+  // Use the snapshot gainers/losers endpoint
+  const response = await massiveRequest<Payload<'snapshotGainers'>>(
+    direction === 'gainers' ? 'snapshotGainers' : 'snapshotLosers',
+    {},
+    { cachePolicy: { ttl: isMarketOpen() ? 60 : 300 } }
+  )
 
-  if (!apiKey) {
+  if (!response.success || !response.data) {
     return {
       success: false,
       gainers: [],
       losers: [],
       mostActive: [],
-      error: createError('API_KEY_MISSING', 'API key is not configured'),
+      error: toApiError(response.error, undefined, direction),
     }
   }
 
-  try {
-    // Use the snapshot gainers/losers endpoint
-    const url = `${BASE_URL}/v2/snapshot/locale/us/markets/stocks/${direction}?apiKey=${apiKey}`
-
-    const response = await fetch(url, {
-      next: { revalidate: isMarketOpen() ? 60 : 300 },
-    })
-
-    if (!response.ok) {
-      return {
-        success: false,
-        gainers: [],
-        losers: [],
-        mostActive: [],
-        error: createError('FETCH_FAILED', `HTTP ${response.status}`),
-      }
-    }
-
-    const data = await response.json()
-
-    if (!data.tickers || !Array.isArray(data.tickers)) {
-      return {
-        success: true,
-        gainers: [],
-        losers: [],
-        mostActive: [],
-      }
-    }
-
-    const movers: Mover[] = data.tickers.slice(0, 20).map((t: any) => ({
-      ticker: t.ticker,
-      price: t.day?.c || t.prevDay?.c || 0,
-      change: t.todaysChange || 0,
-      changePercent: t.todaysChangePerc || 0,
-      volume: t.day?.v || 0,
-      direction: (t.todaysChangePerc || 0) >= 0 ? 'up' : 'down',
+  const movers: Mover[] = normalizeSnapshotAll(response.data)
+    .slice(0, 20)
+    .map((snapshot) => ({
+      ticker: snapshot.symbol,
+      price: snapshot.price,
+      change: snapshot.change,
+      changePercent: snapshot.changePercent,
+      volume: snapshot.volume,
+      direction: snapshot.changePercent >= 0 ? 'up' : 'down',
     }))
 
-    // Sort for most active by volume
-    const mostActive = [...movers].sort((a, b) => b.volume - a.volume).slice(0, 10)
+  // Sort for most active by volume
+  const mostActive = [...movers].sort((a, b) => b.volume - a.volume).slice(0, 10)
 
-    return {
-      success: true,
-      gainers: direction === 'gainers' ? movers : [],
-      losers: direction === 'losers' ? movers : [],
-      mostActive,
-    }
-  } catch {
-    return {
-      success: false,
-      gainers: [],
-      losers: [],
-      mostActive: [],
-      error: createError('FETCH_FAILED', 'Failed to fetch movers'),
-    }
+  return {
+    success: true,
+    gainers: direction === 'gainers' ? movers : [],
+    losers: direction === 'losers' ? movers : [],
+    mostActive,
   }
 }
 
@@ -1678,10 +1281,11 @@ export async function fetchAllMovers(): Promise<MoversResponse> {
 // API Functions - Risk On/Off Classifier
 // -----------------------------------------------------------------------------
 
-export async function classifyRiskRegime(): Promise<RiskRegimeResponse> {
-  const apiKey = getApiKey()
-
-  if (!apiKey) {
+/**
+ * Risk on/off classification for today, or as of a past session (replay mode).
+ */
+export async function classifyRiskRegime(asOf?: string | null): Promise<RiskRegimeResponse> {
+  if (!requireMarketData().isValid) {
     return {
       success: false,
       metrics: null,
@@ -1693,10 +1297,10 @@ export async function classifyRiskRegime(): Promise<RiskRegimeResponse> {
     // Fetch 63-day data for SPY, QQQ, IWM, VXX (VIX proxy)
     const lookback = 63
     const [spyBars, qqqBars, iwmBars, vxxBars] = await Promise.all([
-      fetchDailyBars('SPY', lookback),
-      fetchDailyBars('QQQ', lookback),
-      fetchDailyBars('IWM', lookback),
-      fetchDailyBars('VXX', lookback).catch(() => [] as DailyBar[]), // VXX may not be available
+      fetchDailyBars('SPY', lookback, asOf),
+      fetchDailyBars('QQQ', lookback, asOf),
+      fetchDailyBars('IWM', lookback, asOf),
+      fetchDailyBars('VXX', lookback, asOf).catch(() => [] as DailyBar[]), // VXX may not be available
     ])
 
     if (spyBars.length < 21 || qqqBars.length < 21 || iwmBars.length < 21) {
@@ -1827,9 +1431,7 @@ export async function fetchRelativeStrength(
   symbol: string,
   lookback: number = 63
 ): Promise<RelativeStrengthResponse> {
-  const apiKey = getApiKey()
-
-  if (!apiKey) {
+  if (!requireMarketData().isValid) {
     return {
       success: false,
       metrics: null,
@@ -1989,6 +1591,7 @@ export interface HealthCheckResult {
     marketStatus: { ok: boolean; message: string; phase?: MarketPhase }
     sampleSnapshot: { ok: boolean; message: string; latencyMs?: number }
   }
+  upstream: UpstreamBudget
   version: string
 }
 
@@ -2002,10 +1605,13 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     sampleSnapshot: { ok: false, message: 'Not tested' },
   }
 
-  // Check API key
-  const apiKey = getApiKey()
-  if (apiKey) {
-    checks.apiKey = { ok: true, message: 'Configured' }
+  // Check API key (or the offline fixture provider standing in for it)
+  const configured = requireMarketData().isValid
+  if (configured) {
+    checks.apiKey = {
+      ok: true,
+      message: getMarketDataProviderId() === 'fixture' ? 'Offline fixtures' : 'Configured',
+    }
   }
 
   // Check market status
@@ -2028,7 +1634,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
   }
 
   // Sample snapshot test
-  if (apiKey) {
+  if (configured) {
     try {
       const start = Date.now()
       const snapshotResult = await fetchUniversalSnapshot({
@@ -2063,6 +1669,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
     status: allOk ? 'healthy' : someOk ? 'degraded' : 'unhealthy',
     timestamp,
     checks,
+    upstream: getUpstreamBudget(),
     version,
   }
 }
@@ -2072,7 +1679,7 @@ export async function performHealthCheck(): Promise<HealthCheckResult> {
 // -----------------------------------------------------------------------------
 
 export function filterOptionsChain(
-  chain: OptionSnapshot[],
+  chain: NormalizedOptionsContract[],
   filters: {
     minDelta?: number
     maxDelta?: number
@@ -2081,16 +1688,17 @@ export function filterOptionsChain(
     minOpenInterest?: number
     daysToExpiration?: { min?: number; max?: number }
   }
-): OptionSnapshot[] {
+): NormalizedOptionsContract[] {
   return chain.filter((opt) => {
-    if (filters.minDelta !== undefined && Math.abs(opt.greeks.delta) < filters.minDelta) return false
-    if (filters.maxDelta !== undefined && Math.abs(opt.greeks.delta) > filters.maxDelta) return false
-    if (filters.minIV !== undefined && opt.implied_volatility < filters.minIV) return false
-    if (filters.maxIV !== undefined && opt.implied_volatility > filters.maxIV) return false
-    if (filters.minOpenInterest !== undefined && opt.open_interest < filters.minOpenInterest) return false
+    const delta = Math.abs(opt.delta ?? 0)
+    if (filters.minDelta !== undefined && delta < filters.minDelta) return false
+    if (filters.maxDelta !== undefined && delta > filters.maxDelta) return false
+    if (filters.minIV !== undefined && opt.impliedVolatility < filters.minIV) return false
+    if (filters.maxIV !== undefined && opt.impliedVolatility > filters.maxIV) return false
+    if (filters.minOpenInterest !== undefined && opt.openInterest < filters.minOpenInterest) return false
 
     if (filters.daysToExpiration) {
-      const expDate = new Date(opt.contract.expiration_date)
+      const expDate = new Date(opt.expiration)
       const today = new Date()
       const dte = Math.ceil((expDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
 
@@ -2102,7 +1710,43 @@ export function filterOptionsChain(
   })
 }
 
-export function calculateOptionsMetrics(chain: OptionSnapshot[]): {
+/**
+ * Adapt chain contracts to the shape lib/options analytics expects.
+ */
+export function toOptionPositions(chain: NormalizedOptionsContract[]): OptionPosition[] {
+  return chain.map((opt) => ({
+    contractType: opt.contractType,
+    strike: opt.strike,
+    expiration: opt.expiration,
+    openInterest: opt.openInterest,
+    gamma: opt.gamma,
+    delta: opt.delta,
+    impliedVolatility: opt.impliedVolatility,
+    sharesPerContract: opt.sharesPerContract,
+  }))
+}
+
+/**
+ * Adapt chain contracts to the contract shape the strategy builder prices.
+ */
+export function toStrategyContracts(chain: NormalizedOptionsContract[]): StrategyContract[] {
+  return chain.map((opt) => ({
+    ticker: opt.ticker,
+    contractType: opt.contractType,
+    strike: opt.strike,
+    expiration: opt.expiration,
+    bid: opt.bid,
+    ask: opt.ask,
+    last: opt.last,
+    impliedVolatility: opt.impliedVolatility,
+    delta: opt.delta,
+    gamma: opt.gamma,
+    theta: opt.theta,
+    vega: opt.vega,
+  }))
+}
+
+export function calculateOptionsMetrics(chain: NormalizedOptionsContract[]): {
   totalVolume: number
   totalOpenInterest: number
   putCallRatio: number
@@ -2120,44 +1764,25 @@ export function calculateOptionsMetrics(chain: OptionSnapshot[]): {
   let ivSum = 0
   let ivCount = 0
 
-  const strikeOI: Record<number, { calls: number; puts: number }> = {}
-
   chain.forEach((opt) => {
-    const strike = opt.contract.strike_price
-
-    if (!strikeOI[strike]) {
-      strikeOI[strike] = { calls: 0, puts: 0 }
-    }
-
-    if (opt.contract.contract_type === 'call') {
-      callVolume += opt.day.volume
-      callOI += opt.open_interest
-      strikeOI[strike].calls += opt.open_interest
+    if (opt.contractType === 'call') {
+      callVolume += opt.volume
+      callOI += opt.openInterest
     } else {
-      putVolume += opt.day.volume
-      putOI += opt.open_interest
-      strikeOI[strike].puts += opt.open_interest
+      putVolume += opt.volume
+      putOI += opt.openInterest
     }
 
-    if (opt.implied_volatility > 0) {
-      ivSum += opt.implied_volatility
+    if (opt.impliedVolatility > 0) {
+      ivSum += opt.impliedVolatility
       ivCount++
     }
   })
 
-  // Calculate max pain (strike with maximum pain for option holders)
-  let maxPainStrike = 0
-  let maxPainValue = Infinity
-
-  Object.entries(strikeOI).forEach(([strikeStr, { calls, puts }]) => {
-    const strike = parseFloat(strikeStr)
-    // Total value lost by option holders if stock settles at this strike
-    const painValue = calls * strike + puts * strike
-    if (painValue < maxPainValue) {
-      maxPainValue = painValue
-      maxPainStrike = strike
-    }
-  })
+  // Max pain: settlement that minimizes the intrinsic payout to holders of the nearest expiration
+  const positions = toOptionPositions(chain)
+  const nearest = nearestExpiration(positions)
+  const maxPainStrike = computeMaxPain(positions.filter((p) => p.expiration === nearest)) ?? 0
 
   return {
     totalVolume: callVolume + putVolume,
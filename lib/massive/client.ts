@@ -2,11 +2,12 @@
 // Massive/Polygon API - Universal Client
 // =============================================================================
 //
-// Provides a type-safe, cached, rate-limited interface to the Massive API.
-// All requests are validated against the operations allowlist.
+// The one transport for Polygon data: every request is validated against the
+// operations allowlist, cached in memory and queued behind the process-wide
+// budget in ./scheduler. Callers turn responses into app shapes with
+// ./normalize (usually via the fetch* functions in lib/massive-api).
 // =============================================================================
 
-import { z } from 'zod'
 import {
   MASSIVE_BASE_URL,
   ALLOWED_OPERATIONS,
@@ -14,6 +15,7 @@ import {
   type MassiveOperationId,
   isAllowedOperation,
 } from './operations'
+import { polygonFetch } from './scheduler'
 
 // -----------------------------------------------------------------------------
 // Types
@@ -37,6 +39,8 @@ export interface MassiveResponse<T> {
   error: MassiveError | null
   cached: boolean
   latencyMs: number
+  /** x-polygon-* response headers (entitlement / delay flags) */
+  headers: Record<string, string>
 }
 
 export interface MassiveError {
@@ -51,13 +55,15 @@ export interface MassiveError {
 
 interface CacheEntry<T> {
   data: T
+  headers: Record<string, string>
   timestamp: number
   ttl: number
 }
 
 const cache = new Map<string, CacheEntry<unknown>>()
+const MAX_CACHE_ENTRIES = 2000
 
-function getCached<T>(key: string): T | null {
+function getCached<T>(key: string): CacheEntry<T> | null {
   const entry = cache.get(key) as CacheEntry<T> | undefined
   if (!entry) return null
 
@@ -69,14 +75,15 @@ function getCached<T>(key: string): T | null {
     return null
   }
 
-  return entry.data
+  return entry
 }
 
-function setCache<T>(key: string, data: T, ttl: number): void {
+function setCache<T>(key: string, data: T, headers: Record<string, string>, ttl: number): void {
   if (ttl <= 0) return
 
   cache.set(key, {
     data,
+    headers,
     timestamp: Date.now(),
     ttl,
   })
@@ -90,40 +97,20 @@ function setCache<T>(key: string, data: T, ttl: number): void {
       }
     }
   }
+
+  // Bulk scans can outrun expiry; drop the oldest entries past the cap
+  for (const k of cache.keys()) {
+    if (cache.size <= MAX_CACHE_ENTRIES) break
+    cache.delete(k)
+  }
 }
 
 // -----------------------------------------------------------------------------
-// Rate Limiting (simple in-memory)
+// Credentials
 // -----------------------------------------------------------------------------
 
-interface RateLimitState {
-  count: number
-  windowStart: number
-}
-
-const rateLimits = new Map<string, RateLimitState>()
-
-const RATE_LIMIT = {
-  windowMs: 60000, // 1 minute
-  maxRequests: 60, // 60 requests per minute (conservative)
-}
-
-function checkRateLimit(): boolean {
-  const key = 'global'
-  const now = Date.now()
-  const state = rateLimits.get(key)
-
-  if (!state || now - state.windowStart > RATE_LIMIT.windowMs) {
-    rateLimits.set(key, { count: 1, windowStart: now })
-    return true
-  }
-
-  if (state.count >= RATE_LIMIT.maxRequests) {
-    return false
-  }
-
-  state.count++
-  return true
+export function getMassiveApiKey(): string | null {
+  return process.env.MASSIVE_API_KEY || process.env.POLYGON_API_KEY || null
 }
 
 // -----------------------------------------------------------------------------
@@ -195,6 +182,17 @@ export function getDefaultCachePolicy(): CachePolicy {
 // Main Request Function
 // -----------------------------------------------------------------------------
 
+function failure<T>(code: string, message: string, startTime: number, details?: unknown): MassiveResponse<T> {
+  return {
+    success: false,
+    data: null,
+    error: { code, message, details },
+    cached: false,
+    latencyMs: performance.now() - startTime,
+    headers: {},
+  }
+}
+
 export async function massiveRequest<T>(
   opId: MassiveOperationId,
   params: Record<string, unknown>,
@@ -204,16 +202,7 @@ export async function massiveRequest<T>(
 
   // Validate operation is allowed
   if (!isAllowedOperation(opId)) {
-    return {
-      success: false,
-      data: null,
-      error: {
-        code: 'INVALID_OPERATION',
-        message: `Operation '${opId}' is not in the allowlist`,
-      },
-      cached: false,
-      latencyMs: performance.now() - startTime,
-    }
+    return failure('INVALID_OPERATION', `Operation '${opId}' is not in the allowlist`, startTime)
   }
 
   const op = ALLOWED_OPERATIONS[opId]
@@ -223,90 +212,101 @@ export async function massiveRequest<T>(
   const paramResult = paramSchema.safeParse(params)
 
   if (!paramResult.success) {
-    return {
-      success: false,
-      data: null,
-      error: {
-        code: 'INVALID_PARAMS',
-        message: 'Parameter validation failed',
-        details: paramResult.error.errors,
-      },
-      cached: false,
-      latencyMs: performance.now() - startTime,
-    }
+    return failure('INVALID_PARAMS', 'Parameter validation failed', startTime, paramResult.error.errors)
   }
 
-  // Check rate limit
-  if (!checkRateLimit()) {
-    return {
-      success: false,
-      data: null,
-      error: {
-        code: 'RATE_LIMITED',
-        message: 'Rate limit exceeded. Please wait and try again.',
-      },
-      cached: false,
-      latencyMs: performance.now() - startTime,
-    }
+  let url: string
+  try {
+    url = buildUrl(op.pathTemplate, params)
+  } catch (err) {
+    return failure('INVALID_PARAMS', err instanceof Error ? err.message : 'Invalid parameters', startTime)
+  }
+
+  return executeRequest<T>(opId, url, opts, startTime)
+}
+
+/**
+ * Fetch the page behind a `next_url` returned by an earlier `opId` response.
+ * The cursor is re-rooted on MASSIVE_BASE_URL and must stay on the
+ * operation's own path.
+ */
+export async function massiveRequestPage<T>(
+  opId: MassiveOperationId,
+  nextUrl: string,
+  opts?: RequestOptions
+): Promise<MassiveResponse<T>> {
+  const startTime = performance.now()
+
+  if (!isAllowedOperation(opId)) {
+    return failure('INVALID_OPERATION', `Operation '${opId}' is not in the allowlist`, startTime)
   }
 
-  // Build URL
-  const url = buildUrl(op.pathTemplate, params)
+  let page: URL
+  try {
+    page = new URL(nextUrl)
+  } catch {
+    return failure('INVALID_PARAMS', 'Invalid pagination URL', startTime)
+  }
+
+  const pathPrefix = ALLOWED_OPERATIONS[opId].pathTemplate.split('{')[0]
+  if (!page.pathname.startsWith(pathPrefix)) {
+    return failure('INVALID_PARAMS', `Pagination URL is outside '${opId}'`, startTime)
+  }
+
+  // Never forward a key embedded in the cursor; executeRequest adds ours
+  page.searchParams.delete('apiKey')
+  return executeRequest<T>(opId, `${MASSIVE_BASE_URL}${page.pathname}${page.search}`, opts, startTime)
+}
+
+async function executeRequest<T>(
+  opId: MassiveOperationId,
+  url: string,
+  opts: RequestOptions | undefined,
+  startTime: number
+): Promise<MassiveResponse<T>> {
+  const op = ALLOWED_OPERATIONS[opId]
   const cacheKey = `${opId}:${url}`
 
   // Check cache
   const cachePolicy = opts?.cachePolicy ?? getDefaultCachePolicy()
-  const cachedData = getCached<T>(cacheKey)
+  const cached = getCached<T>(cacheKey)
 
-  if (cachedData !== null) {
+  if (cached !== null) {
     return {
       success: true,
-      data: cachedData,
+      data: cached.data,
       error: null,
       cached: true,
       latencyMs: performance.now() - startTime,
+      headers: cached.headers,
     }
   }
 
   // Make request
-  const apiKey = process.env.MASSIVE_API_KEY
+  const apiKey = getMassiveApiKey()
 
   if (!apiKey) {
-    return {
-      success: false,
-      data: null,
-      error: {
-        code: 'NO_API_KEY',
-        message: 'MASSIVE_API_KEY environment variable is not set',
-      },
-      cached: false,
-      latencyMs: performance.now() - startTime,
-    }
+    return failure('NO_API_KEY', 'MASSIVE_API_KEY environment variable is not set', startTime)
   }
 
   try {
     const separator = url.includes('?') ? '&' : '?'
-    const response = await fetch(`${url}${separator}apiKey=${apiKey}`, {
-      method: op.method,
-      signal: opts?.signal,
-      headers: {
-        Accept: 'application/json',
+    // Queued behind the shared upstream budget rather than rejected
+    const response = await polygonFetch(
+      `${url}${separator}apiKey=${apiKey}`,
+      {
+        method: op.method,
+        signal: opts?.signal,
+        headers: {
+          Accept: 'application/json',
+        },
       },
-    })
+      { weight: op.rateWeight }
+    )
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error')
-      return {
-        success: false,
-        data: null,
-        error: {
-          code: `HTTP_${response.status}`,
-          message: `API request failed: ${response.status}`,
-          details: errorText,
-        },
-        cached: false,
-        latencyMs: performance.now() - startTime,
-      }
+      return failure(`HTTP_${response.status}`, `API request failed: ${response.status}`, startTime, errorText)
     }
 
     const rawData = await response.json()
@@ -320,9 +320,10 @@ export async function massiveRequest<T>(
     }
 
     const data = rawData as T
+    const headers = polygonHeaders(response.headers)
 
     // Cache the result
-    setCache(cacheKey, data, cachePolicy.ttl)
+    setCache(cacheKey, data, headers, cachePolicy.ttl)
 
     return {
       success: true,
@@ -330,87 +331,18 @@ export async function massiveRequest<T>(
       error: null,
       cached: false,
       latencyMs: performance.now() - startTime,
+      headers,
     }
   } catch (err) {
     const isAborted = err instanceof Error && err.name === 'AbortError'
-
-    return {
-      success: false,
-      data: null,
-      error: {
-        code: isAborted ? 'ABORTED' : 'FETCH_ERROR',
-        message: err instanceof Error ? err.message : 'Unknown fetch error',
-      },
-      cached: false,
-      latencyMs: performance.now() - startTime,
-    }
+    return failure(isAborted ? 'ABORTED' : 'FETCH_ERROR', err instanceof Error ? err.message : 'Unknown fetch error', startTime)
   }
 }
 
-// -----------------------------------------------------------------------------
-// Convenience Methods for Common Operations
-// -----------------------------------------------------------------------------
-
-export async function fetchAggregates(
-  ticker: string,
-  multiplier: number,
-  timespan: 'minute' | 'hour' | 'day' | 'week' | 'month',
-  from: string,
-  to: string,
-  opts?: RequestOptions
-) {
-  return massiveRequest<z.infer<typeof ALLOWED_OPERATIONS.aggregates.responseSchema>>(
-    'aggregates',
-    { ticker, multiplier, timespan, from, to, adjusted: true, sort: 'asc' },
-    opts
-  )
-}
-
-export async function fetchSnapshot(ticker: string, opts?: RequestOptions) {
-  return massiveRequest<z.infer<typeof ALLOWED_OPERATIONS.snapshotTicker.responseSchema>>(
-    'snapshotTicker',
-    { ticker },
-    opts
-  )
-}
-
-export async function fetchOptionsChain(
-  underlying: string,
-  options?: {
-    strike_price?: number
-    expiration_date?: string
-    contract_type?: 'call' | 'put'
-    limit?: number
-  },
-  opts?: RequestOptions
-) {
-  return massiveRequest<z.infer<typeof ALLOWED_OPERATIONS.optionsChain.responseSchema>>(
-    'optionsChain',
-    { underlying, ...options },
-    opts
-  )
-}
-
-export async function fetchMarketStatus(opts?: RequestOptions) {
-  return massiveRequest<z.infer<typeof ALLOWED_OPERATIONS.marketStatus.responseSchema>>(
-    'marketStatus',
-    {},
-    opts
-  )
-}
-
-export async function fetchGainers(opts?: RequestOptions) {
-  return massiveRequest<z.infer<typeof ALLOWED_OPERATIONS.snapshotGainers.responseSchema>>(
-    'snapshotGainers',
-    {},
-    opts
-  )
-}
-
-export async function fetchLosers(opts?: RequestOptions) {
-  return massiveRequest<z.infer<typeof ALLOWED_OPERATIONS.snapshotLosers.responseSchema>>(
-    'snapshotLosers',
-    {},
-    opts
-  )
+function polygonHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {}
+  headers.forEach((value, key) => {
+    if (key.toLowerCase().startsWith('x-polygon-')) result[key.toLowerCase()] = value
+  })
+  return result
 }
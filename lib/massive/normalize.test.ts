@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeEntitlement,
+  normalizeIndexSnapshot,
+  normalizeMarketStatus,
+  normalizeOptionsChain,
+} from './normalize'
+
+describe('normalizeOptionsChain', () => {
+  it('prefers the last trade and fills the underlying from the request', () => {
+    const [contract] = normalizeOptionsChain(
+      {
+        results: [
+          {
+            details: {
+              ticker: 'O:SPY261120C00600000',
+              contract_type: 'call',
+              strike_price: 600,
+              expiration_date: '2026-11-20',
+              shares_per_contract: 100,
+            },
+            day: { close: 4.1, volume: 1200 },
+            last_trade: { price: 4.25 },
+            last_quote: { bid: 4.2, ask: 4.3 },
+            underlying_asset: { price: 598.5 },
+          },
+        ],
+      },
+      'SPY'
+    )
+
+    expect(contract).toMatchObject({
+      underlying: 'SPY',
+      last: 4.25,
+      mid: 4.25,
+      volume: 1200,
+      underlyingPrice: 598.5,
+      sharesPerContract: 100,
+    })
+  })
+})
+
+describe('normalizeMarketStatus', () => {
+  it('splits extended hours into pre-market and after-hours', () => {
+    const early = normalizeMarketStatus({
+      market: 'extended-hours',
+      earlyHours: true,
+      exchanges: { nyse: 'extended-hours', nasdaq: 'extended-hours' },
+    })
+    expect(early.phase).toBe('pre-market')
+    expect(early.isOpen).toBe(false)
+
+    const late = normalizeMarketStatus({ market: 'extended-hours', afterHours: true })
+    expect(late.exchanges).toEqual({ nyse: 'after-hours', nasdaq: 'after-hours' })
+  })
+})
+
+describe('snapshot helpers', () => {
+  it('drops unresolved index tickers and reads delay headers', () => {
+    const rows = normalizeIndexSnapshot({
+      results: [
+        { ticker: 'I:SPX', value: 6012.3, session: { close: 6010 }, last_updated: 1 },
+        { ticker: 'I:NOPE', error: 'NOT_FOUND' },
+      ],
+    })
+    expect(rows.map((r) => [r.ticker, r.value])).toEqual([['I:SPX', 6012.3]])
+
+    expect(normalizeEntitlement({ 'x-polygon-delayed': 'true' })).toEqual({
+      delayed: true,
+      delayMinutes: 15,
+      entitlementId: undefined,
+      source: 'delayed',
+    })
+  })
+})
@@ -2,7 +2,8 @@
 // Massive/Polygon API - Data Normalizers
 // =============================================================================
 //
-// Normalizes API responses to consistent, typed formats.
+// The one place raw Polygon JSON is read. Every fetch in lib/massive-api
+// hands its client response to one of these and returns the result as-is.
 // Handles:
 // - Timestamp normalization to ISO dates
 // - Ascending chronological order for timeseries
@@ -17,6 +18,9 @@ import type {
   OptionsChainResponseSchema,
   MarketStatusSchema,
   SnapshotAllResponseSchema,
+  UniversalSnapshotResponseSchema,
+  SplitsResponseSchema,
+  DividendsResponseSchema,
 } from './operations'
 
 // -----------------------------------------------------------------------------
@@ -70,15 +74,94 @@ export interface NormalizedOptionsContract {
   vega: number | null
   breakEven: number | null
   underlyingPrice: number
+  sharesPerContract: number
+}
+
+// Universal snapshot rows keep Polygon's field names (live feeds read them as-is)
+export interface UniversalSnapshotItem {
+  ticker: string
+  name?: string
+  market: string
+  locale: string
+  type: string
+  last_updated?: number
+  session?: {
+    open: number
+    high: number
+    low: number
+    close: number
+    volume: number
+    change: number
+    change_percent: number
+    previous_close: number
+    early_trading_change?: number
+    early_trading_change_percent?: number
+    late_trading_change?: number
+    late_trading_change_percent?: number
+  }
+  last_quote?: {
+    bid: number
+    bid_size: number
+    ask: number
+    ask_size: number
+    last_updated: number
+  }
+  last_trade?: {
+    price: number
+    size: number
+    exchange: number
+    conditions?: number[]
+    timestamp: number
+  }
+  fmv?: number
+}
+
+export interface IndexSnapshotItem {
+  ticker: string
+  name: string
+  market: string
+  locale: string
+  type: 'indices'
+  value: number
+  session: {
+    open: number
+    high: number
+    low: number
+    close: number
+    change: number
+    change_percent: number
+    previous_close: number
+  }
+  last_updated: number
+}
+
+// Entitlement/delay status for data freshness
+export interface DataEntitlement {
+  delayed: boolean
+  delayMinutes: number
+  entitlementId?: string
+  source: 'realtime' | 'delayed' | 'eod'
+}
+
+export type MarketPhase = 'pre-market' | 'open' | 'after-hours' | 'closed'
+
+// A split or cash dividend, keyed to the first session it affects
+export interface CorporateAction {
+  symbol: string
+  type: 'split' | 'dividend'
+  exDate: string // YYYY-MM-DD
+  ratio: number | null // Split: new shares per old share (4 for a 4-for-1)
+  cashAmount: number | null // Dividend: cash per share
+  dividendType: string | null // Dividend: CD regular, SC special, LT/ST capital gains
 }
 
 export interface NormalizedMarketStatus {
   isOpen: boolean
-  phase: 'pre-market' | 'open' | 'after-hours' | 'closed'
+  phase: MarketPhase
   serverTime: string
   exchanges: {
-    nyse: string
-    nasdaq: string
+    nyse: MarketPhase
+    nasdaq: MarketPhase
   }
 }
 
@@ -199,7 +282,8 @@ export function normalizeSnapshotAll(
  * Normalize options chain response.
  */
 export function normalizeOptionsChain(
-  response: z.infer<typeof OptionsChainResponseSchema>
+  response: z.infer<typeof OptionsChainResponseSchema>,
+  underlyingSymbol = ''
 ): NormalizedOptionsContract[] {
   const results = response.results || []
 
@@ -214,14 +298,14 @@ export function normalizeOptionsChain(
 
       return {
         ticker: details.ticker,
-        underlying: details.underlying_ticker,
+        underlying: details.underlying_ticker ?? underlying?.ticker ?? underlyingSymbol,
         contractType: details.contract_type,
         strike: details.strike_price,
         expiration: details.expiration_date,
         bid: quote?.bid ?? 0,
         ask: quote?.ask ?? 0,
         mid: quote?.midpoint ?? (quote?.bid && quote?.ask ? (quote.bid + quote.ask) / 2 : 0),
-        last: opt.day?.close ?? 0,
+        last: opt.last_trade?.price || opt.day?.close || 0,
         volume: opt.day?.volume ?? 0,
         openInterest: opt.open_interest ?? 0,
         impliedVolatility: opt.implied_volatility ?? 0,
@@ -231,6 +315,7 @@ export function normalizeOptionsChain(
         vega: greeks?.vega ?? null,
         breakEven: opt.break_even_price ?? null,
         underlyingPrice: underlying?.price ?? 0,
+        sharesPerContract: details.shares_per_contract ?? 100,
       }
     })
     .filter((c): c is NormalizedOptionsContract => c !== null)
@@ -243,35 +328,187 @@ export function normalizeOptionsChain(
 }
 
 /**
- * Normalize market status response.
+ * Normalize universal snapshot rows. Tickers Polygon could not resolve come
+ * back as error rows and are dropped.
+ */
+export function normalizeUniversalSnapshot(
+  response: z.infer<typeof UniversalSnapshotResponseSchema>
+): UniversalSnapshotItem[] {
+  return (response.results || [])
+    .filter((item) => !item.error)
+    .map((item) => ({
+      ticker: item.ticker,
+      name: item.name,
+      market: item.market ?? 'stocks',
+      locale: item.locale ?? 'us',
+      type: item.type ?? '',
+      last_updated: item.last_updated,
+      session: item.session
+        ? {
+            open: item.session.open ?? 0,
+            high: item.session.high ?? 0,
+            low: item.session.low ?? 0,
+            close: item.session.close ?? 0,
+            volume: item.session.volume ?? 0,
+            change: item.session.change ?? 0,
+            change_percent: item.session.change_percent ?? 0,
+            previous_close: item.session.previous_close ?? 0,
+            early_trading_change: item.session.early_trading_change,
+            early_trading_change_percent: item.session.early_trading_change_percent,
+            late_trading_change: item.session.late_trading_change,
+            late_trading_change_percent: item.session.late_trading_change_percent,
+          }
+        : undefined,
+      last_quote: item.last_quote
+        ? {
+            bid: item.last_quote.bid ?? 0,
+            bid_size: item.last_quote.bid_size ?? 0,
+            ask: item.last_quote.ask ?? 0,
+            ask_size: item.last_quote.ask_size ?? 0,
+            last_updated: item.last_quote.last_updated ?? 0,
+          }
+        : undefined,
+      last_trade: item.last_trade
+        ? {
+            price: item.last_trade.price ?? 0,
+            size: item.last_trade.size ?? 0,
+            exchange: item.last_trade.exchange ?? 0,
+            conditions: item.last_trade.conditions,
+            timestamp: item.last_trade.sip_timestamp ?? 0,
+          }
+        : undefined,
+      fmv: item.fmv,
+    }))
+}
+
+/**
+ * Normalize index snapshot rows. `value` falls back to the session close.
+ */
+export function normalizeIndexSnapshot(
+  response: z.infer<typeof UniversalSnapshotResponseSchema>
+): IndexSnapshotItem[] {
+  return (response.results || [])
+    .filter((item) => !item.error)
+    .map((item) => ({
+      ticker: item.ticker,
+      name: item.name ?? '',
+      market: item.market ?? 'indices',
+      locale: item.locale ?? 'us',
+      type: 'indices' as const,
+      value: item.value || item.session?.close || 0,
+      session: {
+        open: item.session?.open ?? 0,
+        high: item.session?.high ?? 0,
+        low: item.session?.low ?? 0,
+        close: item.session?.close ?? 0,
+        change: item.session?.change ?? 0,
+        change_percent: item.session?.change_percent ?? 0,
+        previous_close: item.session?.previous_close ?? 0,
+      },
+      last_updated: item.last_updated ?? Date.now(),
+    }))
+}
+
+/**
+ * Entitlement/delay from the x-polygon-* headers (and payload flags, when
+ * present). Polygon plans differ in freshness:
+ * - Basic: 15-minute delayed
+ * - Stocks Starter: Real-time stocks, delayed options
+ * - Options: Real-time options
+ * - Indices: May be delayed depending on exchange agreements
+ */
+export function normalizeEntitlement(headers: Record<string, string>, data?: unknown): DataEntitlement {
+  const payload = (data ?? {}) as { delayed?: unknown; delay_minutes?: unknown }
+  const isDelayed = payload.delayed === true || headers['x-polygon-delayed'] === 'true'
+  const delayMinutes = typeof payload.delay_minutes === 'number' ? payload.delay_minutes : isDelayed ? 15 : 0
+
+  let source: DataEntitlement['source'] = 'realtime'
+  if (isDelayed) {
+    source = delayMinutes >= 1440 ? 'eod' : 'delayed' // 1440 = end of day
+  }
+
+  return {
+    delayed: isDelayed,
+    delayMinutes,
+    entitlementId: headers['x-polygon-entitlement'] || undefined,
+    source,
+  }
+}
+
+/**
+ * Normalize market status response. Exchange phases fall back to the overall
+ * market state; Polygon's "extended-hours" splits on the early-hours flag.
  */
 export function normalizeMarketStatus(
   response: z.infer<typeof MarketStatusSchema>
 ): NormalizedMarketStatus {
-  const exchanges = response.exchanges
-
-  // Determine phase
-  let phase: NormalizedMarketStatus['phase'] = 'closed'
+  const toPhase = (state: string | undefined): MarketPhase => {
+    switch (state?.toLowerCase()) {
+      case 'open':
+      case 'regular':
+        return 'open'
+      case 'pre-market':
+      case 'pre':
+      case 'premarket':
+        return 'pre-market'
+      case 'after-hours':
+      case 'after':
+      case 'afterhours':
+        return 'after-hours'
+      case 'extended-hours':
+        return response.earlyHours ? 'pre-market' : 'after-hours'
+      default:
+        return 'closed'
+    }
+  }
 
-  if (response.market === 'open') {
-    phase = 'open'
-  } else if (response.earlyHours) {
-    phase = 'pre-market'
-  } else if (response.afterHours) {
-    phase = 'after-hours'
+  const exchanges = {
+    nyse: toPhase(response.exchanges?.nyse ?? response.market),
+    nasdaq: toPhase(response.exchanges?.nasdaq ?? response.market),
   }
 
+  // Overall phase follows NYSE, which is what the dashboards display
   return {
-    isOpen: response.market === 'open',
-    phase,
+    isOpen: exchanges.nyse === 'open' || exchanges.nasdaq === 'open',
+    phase: exchanges.nyse,
     serverTime: response.serverTime || new Date().toISOString(),
-    exchanges: {
-      nyse: exchanges?.nyse ?? 'unknown',
-      nasdaq: exchanges?.nasdaq ?? 'unknown',
-    },
+    exchanges,
   }
 }
 
+/**
+ * Merge splits and dividends into one list, oldest first. Splits with a
+ * non-positive ratio are dropped.
+ */
+export function normalizeCorporateActions(
+  symbol: string,
+  splits: z.infer<typeof SplitsResponseSchema>,
+  dividends: z.infer<typeof DividendsResponseSchema>
+): CorporateAction[] {
+  const actions: CorporateAction[] = [
+    ...splits.results
+      .filter((split) => split.split_from > 0 && split.split_to > 0)
+      .map((split) => ({
+        symbol,
+        type: 'split' as const,
+        exDate: split.execution_date,
+        ratio: split.split_to / split.split_from,
+        cashAmount: null,
+        dividendType: null,
+      })),
+    ...dividends.results.map((dividend) => ({
+      symbol,
+      type: 'dividend' as const,
+      exDate: dividend.ex_dividend_date,
+      ratio: null,
+      cashAmount: dividend.cash_amount,
+      dividendType: dividend.dividend_type ?? null,
+    })),
+  ]
+
+  return actions.sort((a, b) => a.exDate.localeCompare(b.exDate))
+}
+
 // -----------------------------------------------------------------------------
 // Helper: Detect if data is delayed
 // -----------------------------------------------------------------------------
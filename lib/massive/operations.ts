@@ -12,7 +12,7 @@ import { z } from 'zod'
 // Base URL Configuration
 // -----------------------------------------------------------------------------
 
-export const MASSIVE_BASE_URL = 'https://api.polygon.io'
+export const MASSIVE_BASE_URL = process.env.POLYGON_BASE_URL || 'https://api.polygon.io'
 
 // -----------------------------------------------------------------------------
 // Response Schemas (for validation)
@@ -123,6 +123,11 @@ export const OptionsSnapshotSchema = z.object({
     last_updated: z.number().optional(),
     midpoint: z.number().optional(),
   }).optional(),
+  last_trade: z.object({
+    price: z.number().optional(),
+    size: z.number().optional(),
+    sip_timestamp: z.number().optional(),
+  }).optional(),
   open_interest: z.number().optional(),
   underlying_asset: z.object({
     change_to_break_even: z.number().optional(),
@@ -139,6 +144,82 @@ export const OptionsChainResponseSchema = z.object({
   next_url: z.string().optional(),
 })
 
+// Universal snapshot (/v3/snapshot) items across asset classes
+export const UniversalSnapshotItemSchema = z.object({
+  ticker: z.string(),
+  name: z.string().optional(),
+  market: z.string().optional(),
+  locale: z.string().optional(),
+  type: z.string().optional(),
+  value: z.number().optional(), // Indices only
+  last_updated: z.number().optional(),
+  session: z.object({
+    open: z.number().optional(),
+    high: z.number().optional(),
+    low: z.number().optional(),
+    close: z.number().optional(),
+    volume: z.number().optional(),
+    change: z.number().optional(),
+    change_percent: z.number().optional(),
+    previous_close: z.number().optional(),
+    early_trading_change: z.number().optional(),
+    early_trading_change_percent: z.number().optional(),
+    late_trading_change: z.number().optional(),
+    late_trading_change_percent: z.number().optional(),
+  }).optional(),
+  last_quote: z.object({
+    bid: z.number().optional(),
+    bid_size: z.number().optional(),
+    ask: z.number().optional(),
+    ask_size: z.number().optional(),
+    last_updated: z.number().optional(),
+  }).optional(),
+  last_trade: z.object({
+    price: z.number().optional(),
+    size: z.number().optional(),
+    exchange: z.number().optional(),
+    conditions: z.array(z.number()).optional(),
+    sip_timestamp: z.number().optional(),
+  }).optional(),
+  fmv: z.number().optional(),
+  error: z.string().optional(),
+  message: z.string().optional(),
+})
+
+export const UniversalSnapshotResponseSchema = z.object({
+  status: z.string().optional(),
+  request_id: z.string().optional(),
+  results: z.array(UniversalSnapshotItemSchema).optional().default([]),
+  next_url: z.string().optional(),
+})
+
+export const SplitsResponseSchema = z.object({
+  status: z.string().optional(),
+  request_id: z.string().optional(),
+  results: z.array(z.object({
+    ticker: z.string(),
+    execution_date: z.string(), // YYYY-MM-DD, first session on the new share count
+    split_from: z.number(),
+    split_to: z.number(),
+  })).optional().default([]),
+  next_url: z.string().optional(),
+})
+
+export const DividendsResponseSchema = z.object({
+  status: z.string().optional(),
+  request_id: z.string().optional(),
+  results: z.array(z.object({
+    ticker: z.string(),
+    ex_dividend_date: z.string(),
+    cash_amount: z.number(),
+    currency: z.string().optional(),
+    dividend_type: z.string().optional(), // CD regular, SC special, LT/ST capital gains
+    frequency: z.number().optional(),
+    pay_date: z.string().optional(),
+  })).optional().default([]),
+  next_url: z.string().optional(),
+})
+
 export const MarketStatusSchema = z.object({
   afterHours: z.boolean().optional(),
   currencies: z.object({
@@ -228,11 +309,69 @@ export const ALLOWED_OPERATIONS = {
     pathTemplate: '/v3/snapshot/options/{underlying}',
     description: 'Get options chain snapshot for an underlying',
     requiredParams: ['underlying'],
-    optionalParams: ['strike_price', 'expiration_date', 'contract_type', 'limit', 'order', 'sort'],
+    optionalParams: [
+      'strike_price',
+      'strike_price.gte',
+      'strike_price.lte',
+      'expiration_date',
+      'expiration_date.gte',
+      'expiration_date.lte',
+      'contract_type',
+      'limit',
+      'order',
+      'sort',
+    ],
     responseSchema: OptionsChainResponseSchema,
     rateWeight: 5,
   },
 
+  // Multi-ticker snapshot (stocks, options, fx, crypto, indices)
+  universalSnapshot: {
+    operationId: 'universalSnapshot',
+    method: 'GET' as const,
+    pathTemplate: '/v3/snapshot',
+    description: 'Get current snapshots for a list of tickers across asset classes',
+    requiredParams: ['ticker.any_of'],
+    optionalParams: ['include_otc', 'limit'],
+    responseSchema: UniversalSnapshotResponseSchema,
+    rateWeight: 3,
+  },
+
+  // Index values (I:SPX, I:NDX, ...)
+  indicesSnapshot: {
+    operationId: 'indicesSnapshot',
+    method: 'GET' as const,
+    pathTemplate: '/v3/snapshot/indices',
+    description: 'Get current values for a list of indices',
+    requiredParams: ['ticker.any_of'],
+    optionalParams: ['limit'],
+    responseSchema: UniversalSnapshotResponseSchema,
+    rateWeight: 3,
+  },
+
+  // Corporate actions
+  splits: {
+    operationId: 'splits',
+    method: 'GET' as const,
+    pathTemplate: '/v3/reference/splits',
+    description: 'Get historical stock splits for a ticker',
+    requiredParams: ['ticker'],
+    optionalParams: ['execution_date.gte', 'limit'],
+    responseSchema: SplitsResponseSchema,
+    rateWeight: 1,
+  },
+
+  dividends: {
+    operationId: 'dividends',
+    method: 'GET' as const,
+    pathTemplate: '/v3/reference/dividends',
+    description: 'Get historical cash dividends for a ticker',
+    requiredParams: ['ticker'],
+    optionalParams: ['ex_dividend_date.gte', 'limit'],
+    responseSchema: DividendsResponseSchema,
+    rateWeight: 1,
+  },
+
   // Market status
   marketStatus: {
     operationId: 'marketStatus',
@@ -252,12 +391,14 @@ export type MassiveOperationId = keyof typeof ALLOWED_OPERATIONS
 // Parameter Validation Schemas
 // -----------------------------------------------------------------------------
 
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/) // YYYY-MM-DD
+
 export const AggregatesParamsSchema = z.object({
   ticker: z.string().min(1).max(20),
   multiplier: z.number().int().min(1).max(60),
   timespan: z.enum(['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year']),
-  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
-  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  from: IsoDateSchema,
+  to: IsoDateSchema,
   adjusted: z.boolean().optional(),
   sort: z.enum(['asc', 'desc']).optional(),
   limit: z.number().int().min(1).max(50000).optional(),
@@ -270,19 +411,45 @@ export const SnapshotTickerParamsSchema = z.object({
 export const OptionsChainParamsSchema = z.object({
   underlying: z.string().min(1).max(20),
   strike_price: z.number().optional(),
-  expiration_date: z.string().optional(),
+  'strike_price.gte': z.number().optional(),
+  'strike_price.lte': z.number().optional(),
+  expiration_date: IsoDateSchema.optional(),
+  'expiration_date.gte': IsoDateSchema.optional(),
+  'expiration_date.lte': IsoDateSchema.optional(),
   contract_type: z.enum(['call', 'put']).optional(),
   limit: z.number().int().min(1).max(1000).optional(),
   order: z.enum(['asc', 'desc']).optional(),
   sort: z.string().optional(),
 })
 
+export const MultiTickerSnapshotParamsSchema = z.object({
+  'ticker.any_of': z.string().min(1).max(2000), // Comma-separated, up to 250 tickers
+  include_otc: z.boolean().optional(),
+  limit: z.number().int().min(1).max(250).optional(),
+})
+
+export const SplitsParamsSchema = z.object({
+  ticker: z.string().min(1).max(20),
+  'execution_date.gte': IsoDateSchema.optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+})
+
+export const DividendsParamsSchema = z.object({
+  ticker: z.string().min(1).max(20),
+  'ex_dividend_date.gte': IsoDateSchema.optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+})
+
 export const PARAM_SCHEMAS: Record<MassiveOperationId, z.ZodType<unknown>> = {
   aggregates: AggregatesParamsSchema,
   snapshotTicker: SnapshotTickerParamsSchema,
   snapshotGainers: z.object({}),
   snapshotLosers: z.object({}),
   optionsChain: OptionsChainParamsSchema,
+  universalSnapshot: MultiTickerSnapshotParamsSchema,
+  indicesSnapshot: MultiTickerSnapshotParamsSchema,
+  splits: SplitsParamsSchema,
+  dividends: DividendsParamsSchema,
   marketStatus: z.object({}),
 }
 
@@ -0,0 +1,70 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { UpstreamScheduler, getUpstreamBudget, polygonFetch } from './scheduler'
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('UpstreamScheduler', () => {
+  it('starts queued interactive calls before background ones', async () => {
+    const scheduler = new UpstreamScheduler(100, 1)
+    const order: string[] = []
+    const gate = deferred()
+
+    const first = scheduler.schedule(() => gate.promise, 1, 'background')
+    const background = scheduler.schedule(async () => order.push('background'), 1, 'background')
+    const interactive = scheduler.schedule(async () => order.push('interactive'), 1, 'interactive')
+
+    gate.resolve()
+    await Promise.all([first, background, interactive])
+    expect(order).toEqual(['interactive', 'background'])
+  })
+
+  it('holds calls that would exceed the weighted budget until it frees up', async () => {
+    vi.useFakeTimers()
+    const scheduler = new UpstreamScheduler(5)
+    const ran: number[] = []
+
+    await scheduler.schedule(async () => ran.push(1), 3, 'interactive')
+    const second = scheduler.schedule(async () => ran.push(2), 3, 'interactive')
+
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(ran).toEqual([1])
+    expect(scheduler.stats()).toMatchObject({ used: 3, remaining: 2, queued: { interactive: 1, background: 0 } })
+
+    await vi.advanceTimersByTimeAsync(30_000)
+    await second
+    expect(ran).toEqual([1, 2])
+  })
+})
+
+describe('polygonFetch', () => {
+  it('shares one upstream request between identical in-flight GETs', async () => {
+    const fetchMock = vi.fn(async () => new Response('{"status":"OK"}'))
+    vi.stubGlobal('fetch', fetchMock)
+    const before = getUpstreamBudget().deduplicated
+
+    const [a, b] = await Promise.all([
+      polygonFetch('https://api.polygon.io/v1/marketstatus/now'),
+      polygonFetch('https://api.polygon.io/v1/marketstatus/now'),
+    ])
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(await a.json()).toEqual({ status: 'OK' })
+    expect(await b.json()).toEqual({ status: 'OK' })
+    expect(getUpstreamBudget().deduplicated).toBe(before + 1)
+
+    // Finished requests are not reused
+    await polygonFetch('https://api.polygon.io/v1/marketstatus/now')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
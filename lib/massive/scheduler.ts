@@ -0,0 +1,225 @@
+// =============================================================================
+// Massive/Polygon API - Upstream Request Scheduler
+// =============================================================================
+//
+// Every outbound Polygon call goes through polygonFetch, so one process-wide
+// budget holds no matter which client made the call:
+// - a rolling one-minute budget of calls weighted by OperationDef.rateWeight
+//   (POLYGON_CALLS_PER_MINUTE, default 600)
+// - at most MAX_IN_FLIGHT requests on the wire at once
+// - interactive requests always start before queued background work
+//   (breadth scans and scheduled jobs wrap themselves in withUpstreamPriority)
+// - identical GETs already in flight share one upstream request
+// =============================================================================
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type UpstreamPriority = 'interactive' | 'background'
+
+export interface UpstreamOptions {
+  /** Budget cost of the call (1 = normal, 5 = heavy). Default: 1 */
+  weight?: number
+  /** Overrides the priority of the surrounding withUpstreamPriority scope */
+  priority?: UpstreamPriority
+}
+
+export interface UpstreamBudget {
+  callsPerMinute: number
+  used: number // Weight spent in the trailing minute
+  remaining: number
+  inFlight: number
+  queued: Record<UpstreamPriority, number>
+  totalCalls: number // Upstream requests since the process started
+  deduplicated: number // Requests served by an identical in-flight call
+}
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+const DEFAULT_CALLS_PER_MINUTE = 600
+const MAX_IN_FLIGHT = 8
+const BUDGET_WINDOW_MS = 60_000
+
+function configuredCallsPerMinute(): number {
+  const value = Number(process.env.POLYGON_CALLS_PER_MINUTE)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_CALLS_PER_MINUTE
+}
+
+// -----------------------------------------------------------------------------
+// Scheduler
+// -----------------------------------------------------------------------------
+
+interface QueuedCall {
+  weight: number
+  run: () => Promise<void>
+}
+
+export class UpstreamScheduler {
+  private readonly spent: Array<{ at: number; weight: number }> = []
+  private readonly queues: Record<UpstreamPriority, QueuedCall[]> = { interactive: [], background: [] }
+  private inFlight = 0
+  private totalCalls = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    readonly callsPerMinute: number,
+    readonly maxInFlight: number = MAX_IN_FLIGHT
+  ) {}
+
+  /**
+   * Run `task` once the budget and concurrency allow it.
+   */
+  schedule<T>(task: () => Promise<T>, weight: number, priority: UpstreamPriority): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({ weight, run: () => task().then(resolve, reject) })
+      this.drain()
+    })
+  }
+
+  stats(): Omit<UpstreamBudget, 'deduplicated'> {
+    this.expire(Date.now())
+    const used = this.used()
+    return {
+      callsPerMinute: this.callsPerMinute,
+      used,
+      remaining: Math.max(0, this.callsPerMinute - used),
+      inFlight: this.inFlight,
+      queued: { interactive: this.queues.interactive.length, background: this.queues.background.length },
+      totalCalls: this.totalCalls,
+    }
+  }
+
+  private drain(): void {
+    const now = Date.now()
+    this.expire(now)
+
+    while (this.inFlight < this.maxInFlight) {
+      const queue = this.queues.interactive.length > 0 ? this.queues.interactive : this.queues.background
+      const next = queue[0]
+      if (!next) return
+
+      // A call heavier than the whole budget still runs once the window is empty
+      const weight = Math.min(next.weight, this.callsPerMinute)
+      if (this.used() + weight > this.callsPerMinute) {
+        this.wakeWhenSpendExpires(now)
+        return
+      }
+
+      queue.shift()
+      this.spent.push({ at: now, weight })
+      this.inFlight++
+      this.totalCalls++
+      next.run().finally(() => {
+        this.inFlight--
+        this.drain()
+      })
+    }
+  }
+
+  private wakeWhenSpendExpires(now: number): void {
+    if (this.timer || this.spent.length === 0) return
+    const delay = Math.max(1, this.spent[0].at + BUDGET_WINDOW_MS - now)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain()
+    }, delay)
+    this.timer.unref?.()
+  }
+
+  private expire(now: number): void {
+    while (this.spent.length > 0 && now - this.spent[0].at >= BUDGET_WINDOW_MS) {
+      this.spent.shift()
+    }
+  }
+
+  private used(): number {
+    return this.spent.reduce((sum, entry) => sum + entry.weight, 0)
+  }
+}
+
+// Survives module reloads in dev so budgets and queues are never split
+const globalForUpstream = globalThis as unknown as {
+  polygonScheduler: UpstreamScheduler | undefined
+  polygonInFlight: Map<string, Promise<Response>> | undefined
+  polygonDeduplicated: number | undefined
+}
+
+function scheduler(): UpstreamScheduler {
+  globalForUpstream.polygonScheduler ??= new UpstreamScheduler(configuredCallsPerMinute())
+  return globalForUpstream.polygonScheduler
+}
+
+function inFlightRequests(): Map<string, Promise<Response>> {
+  globalForUpstream.polygonInFlight ??= new Map()
+  return globalForUpstream.polygonInFlight
+}
+
+// -----------------------------------------------------------------------------
+// Priority Context
+// -----------------------------------------------------------------------------
+
+const priorityContext = new AsyncLocalStorage<UpstreamPriority>()
+
+/**
+ * Run `fn` with every Polygon call it makes (however deep) at `priority`.
+ * Calls outside any scope are interactive.
+ */
+export function withUpstreamPriority<T>(priority: UpstreamPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityContext.run(priority, fn)
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Drop-in `fetch` for Polygon URLs. Each caller gets its own clone of the
+ * response, so deduplicated callers can all read the body.
+ */
+export async function polygonFetch(
+  url: string,
+  init?: RequestInit,
+  options: UpstreamOptions = {}
+): Promise<Response> {
+  const weight = options.weight ?? 1
+  const priority = options.priority ?? priorityContext.getStore() ?? 'interactive'
+  const call = () => fetch(url, init)
+
+  // Abortable and non-GET requests belong to a single caller
+  const method = (init?.method ?? 'GET').toUpperCase()
+  if (method !== 'GET' || init?.signal) {
+    return scheduler().schedule(call, weight, priority)
+  }
+
+  const shared = inFlightRequests()
+  const existing = shared.get(url)
+  if (existing) {
+    globalForUpstream.polygonDeduplicated = (globalForUpstream.polygonDeduplicated ?? 0) + 1
+    return (await existing).clone()
+  }
+
+  const pending = scheduler().schedule(call, weight, priority)
+  shared.set(url, pending)
+  pending
+    .finally(() => shared.delete(url))
+    .catch(() => {
+      // Every caller sees the rejection through `pending`
+    })
+
+  return (await pending).clone()
+}
+
+/**
+ * Current budget usage, reported by /api/health.
+ */
+export function getUpstreamBudget(): UpstreamBudget {
+  return {
+    ...scheduler().stats(),
+    deduplicated: globalForUpstream.polygonDeduplicated ?? 0,
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeOptionsChain,
+  blackScholesGamma,
+  computeMaxPain,
+  findGammaFlip,
+  settlementPayout,
+  type OptionPosition,
+} from './analytics'
+
+const now = new Date('2024-03-15T15:00:00Z')
+
+const option = (
+  contractType: 'call' | 'put',
+  strike: number,
+  openInterest: number,
+  gamma: number | null = null,
+  impliedVolatility = 0,
+  expiration = '2024-04-19'
+): OptionPosition => ({ contractType, strike, expiration, openInterest, gamma, impliedVolatility })
+
+describe('max pain', () => {
+  it('sums intrinsic payouts instead of weighting OI by strike', () => {
+    const chain = [option('call', 100, 1000), option('put', 100, 10), option('call', 110, 10), option('put', 110, 500)]
+    // At 100: puts@110 pay 10*500*100; at 110: calls@100 pay 10*1000*100
+    expect(settlementPayout(chain, 100)).toBe(500_000)
+    expect(settlementPayout(chain, 110)).toBe(1_000_000)
+    expect(computeMaxPain(chain)).toBe(100)
+  })
+
+  it('returns null for an empty chain', () => {
+    expect(computeMaxPain([])).toBeNull()
+  })
+
+  it('uses one expiration, the nearest unless another is requested', () => {
+    // The front month pins at 100; a heavy back month would drag a pooled answer to 120
+    const chain = [
+      option('call', 100, 1000, null, 0, '2024-03-22'),
+      option('put', 100, 1000, null, 0, '2024-03-22'),
+      option('put', 120, 50, null, 0, '2024-03-22'),
+      option('call', 120, 50_000, null, 0, '2024-06-21'),
+      option('put', 120, 50_000, null, 0, '2024-06-21'),
+      option('put', 100, 5_000, null, 0, '2024-06-21'),
+    ]
+
+    expect(analyzeOptionsChain(chain, 110, now)).toMatchObject({ maxPainStrike: 100, maxPainExpiration: '2024-03-22' })
+    expect(analyzeOptionsChain(chain, 110, now, '2024-06-21')).toMatchObject({
+      maxPainStrike: 120,
+      maxPainExpiration: '2024-06-21',
+    })
+  })
+})
+
+describe('gamma exposure', () => {
+  it('counts call gamma positive and put gamma negative', () => {
+    const chain = [option('call', 100, 100, 0.05), option('put', 95, 200, 0.04)]
+    const { profile, totalGex } = analyzeOptionsChain(chain, 100, now)
+    const dollar = (gamma: number, oi: number) => gamma * oi * 100 * 100 * 100 * 0.01
+
+    expect(profile.map((r) => r.strike)).toEqual([95, 100])
+    expect(profile[1].callGex).toBeCloseTo(dollar(0.05, 100))
+    expect(profile[0].putGex).toBeCloseTo(-dollar(0.04, 200))
+    expect(totalGex).toBeCloseTo(dollar(0.05, 100) - dollar(0.04, 200))
+  })
+
+  it('finds the flip between put-heavy lower strikes and call-heavy upper strikes', () => {
+    const chain = [option('put', 90, 1000, null, 0.2), option('call', 110, 1000, null, 0.2)]
+    const flip = findGammaFlip(chain, 100, now)
+    expect(flip).not.toBeNull()
+    expect(flip!).toBeGreaterThan(95)
+    expect(flip!).toBeLessThan(105)
+  })
+
+  it('drops expired contracts before computing gamma', () => {
+    // Settled yesterday: the time floor would give it enormous gamma
+    const expired = option('put', 100, 100_000, 0.5, 0.2, '2024-03-14')
+    const chain = [option('put', 90, 1000, 0.01, 0.2), option('call', 110, 1000, 0.01, 0.2)]
+
+    const withExpired = analyzeOptionsChain([...chain, expired], 100, now)
+    const without = analyzeOptionsChain(chain, 100, now)
+    expect(withExpired.totalGex).toBeCloseTo(without.totalGex)
+    expect(withExpired.gammaFlip).toBeCloseTo(without.gammaFlip!)
+    expect(withExpired.putWalls.map((w) => w.strike)).toEqual([90])
+  })
+
+  it('has no flip when every contract is a call', () => {
+    expect(findGammaFlip([option('call', 100, 1000, null, 0.3)], 100, now)).toBeNull()
+  })
+
+  it('peaks Black-Scholes gamma near the money', () => {
+    const atm = blackScholesGamma(100, 100, 0.1, 0.2)
+    expect(atm).toBeGreaterThan(blackScholesGamma(100, 120, 0.1, 0.2))
+    expect(atm).toBeCloseTo(0.0631, 3)
+  })
+})
+
+describe('OI walls', () => {
+  it('ranks call and put strikes by open interest', () => {
+    const chain = [option('call', 105, 300), option('call', 110, 900), option('put', 95, 700), option('put', 90, 200)]
+    const { callWalls, putWalls } = analyzeOptionsChain(chain, 100, now)
+    expect(callWalls.map((w) => w.strike)).toEqual([110, 105])
+    expect(putWalls[0]).toEqual({ strike: 95, openInterest: 700 })
+  })
+})
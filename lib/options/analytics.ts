@@ -0,0 +1,301 @@
+// =============================================================================
+// Options Analytics - Max Pain, Gamma Exposure, OI Walls
+// =============================================================================
+// Pure functions over a minimal contract shape so any chain source (live
+// lib/massive/normalize contracts, stored or synthetic chains) can feed them.
+//
+// Conventions:
+// - Max pain: the settlement price that minimizes the total intrinsic value
+//   paid out to option holders (calls: max(0, S-K), puts: max(0, K-S), times
+//   open interest and contract multiplier). Candidates are the listed strikes.
+//   It is only defined for one expiration, so the chain analysis uses the
+//   requested expiration or the nearest one.
+// - Expired contracts are dropped before any gamma is computed.
+// - Dealer gamma exposure (GEX): dealers are assumed long the calls and short
+//   the puts customers trade, so call gamma counts positive and put gamma
+//   negative. Reported as dollars of delta change per 1% move in the
+//   underlying: gamma * OI * multiplier * S^2 * 0.01.
+// - Gamma flip: the spot level where total dealer GEX changes sign, found by
+//   re-pricing every contract's Black-Scholes gamma across a spot grid.
+// =============================================================================
+
+export interface OptionPosition {
+  contractType: 'call' | 'put'
+  strike: number
+  expiration: string // YYYY-MM-DD
+  openInterest: number
+  gamma: number | null // Provider gamma at the current spot
+  delta?: number | null // Provider delta (used by the IV surface skew)
+  impliedVolatility: number // Decimal (0.25 = 25%), 0 when unknown
+  sharesPerContract?: number // Defaults to 100
+}
+
+export interface StrikeProfileRow {
+  strike: number
+  callOI: number
+  putOI: number
+  callGex: number
+  putGex: number // Negative (dealers short puts)
+  netGex: number
+  payout: number // Total holder payout if the max-pain expiration settles here
+}
+
+export interface OIWall {
+  strike: number
+  openInterest: number
+}
+
+export interface OptionsAnalytics {
+  spot: number
+  maxPainStrike: number | null
+  maxPainExpiration: string | null // Expiration max pain was computed for
+  totalGex: number
+  gammaFlip: number | null // Null when GEX doesn't change sign within ±25% of spot
+  callWalls: OIWall[] // Highest call OI strikes, largest first
+  putWalls: OIWall[] // Highest put OI strikes, largest first
+  profile: StrikeProfileRow[] // Ascending by strike
+}
+
+const DEFAULT_MULTIPLIER = 100
+const WALL_COUNT = 3
+
+// Spot grid for the gamma flip search
+const FLIP_RANGE = 0.25
+const FLIP_STEPS = 100
+
+// Floor on time to expiry so 0DTE contracts don't divide by zero
+const MIN_YEARS = 1 / (365 * 24)
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Full analytics for one chain snapshot. GEX, the gamma flip and OI walls
+ * pool every unexpired contract; max pain uses `expiration`, or the nearest
+ * expiration when none is given.
+ */
+export function analyzeOptionsChain(
+  positions: OptionPosition[],
+  spot: number,
+  now: Date = new Date(),
+  expiration: string | null = null
+): OptionsAnalytics {
+  const live = unexpired(positions, now)
+  const maxPainExpiration = expiration ?? nearestExpiration(live)
+  const settling = live.filter((p) => p.expiration === maxPainExpiration)
+  const profile = buildStrikeProfile(live, spot, settling)
+
+  return {
+    spot,
+    maxPainStrike: computeMaxPain(settling),
+    maxPainExpiration: settling.length > 0 ? maxPainExpiration : null,
+    totalGex: profile.reduce((sum, row) => sum + row.netGex, 0),
+    gammaFlip: findGammaFlip(live, spot, now),
+    callWalls: topWalls(profile, 'callOI'),
+    putWalls: topWalls(profile, 'putOI'),
+    profile,
+  }
+}
+
+/**
+ * Max pain strike: minimizes the intrinsic payout to option holders. Pass
+ * contracts of a single expiration.
+ */
+export function computeMaxPain(positions: OptionPosition[]): number | null {
+  return minPayoutStrike(buildStrikeProfile(positions, 0))
+}
+
+/**
+ * Per-strike open interest, dealer GEX and the payout to holders of
+ * `settling` (default: every position) if it settles at that strike.
+ */
+export function buildStrikeProfile(
+  positions: OptionPosition[],
+  spot: number,
+  settling: OptionPosition[] = positions
+): StrikeProfileRow[] {
+  const rows = new Map<number, StrikeProfileRow>()
+
+  for (const p of positions) {
+    let row = rows.get(p.strike)
+    if (!row) {
+      row = { strike: p.strike, callOI: 0, putOI: 0, callGex: 0, putGex: 0, netGex: 0, payout: 0 }
+      rows.set(p.strike, row)
+    }
+    const gex = dollarGamma(p.gamma ?? 0, p.openInterest, multiplierOf(p), spot)
+    if (p.contractType === 'call') {
+      row.callOI += p.openInterest
+      row.callGex += gex
+    } else {
+      row.putOI += p.openInterest
+      row.putGex -= gex
+    }
+    row.netGex = row.callGex + row.putGex
+  }
+
+  const profile = Array.from(rows.values()).sort((a, b) => a.strike - b.strike)
+  for (const row of profile) {
+    row.payout = settlementPayout(settling, row.strike)
+  }
+  return profile
+}
+
+/**
+ * Total intrinsic value paid to holders if the underlying settles at `price`.
+ */
+export function settlementPayout(positions: OptionPosition[], price: number): number {
+  return positions.reduce((sum, p) => {
+    const intrinsic = p.contractType === 'call' ? Math.max(0, price - p.strike) : Math.max(0, p.strike - price)
+    return sum + intrinsic * p.openInterest * multiplierOf(p)
+  }, 0)
+}
+
+/**
+ * Spot level where total dealer GEX crosses zero, re-pricing gamma with
+ * Black-Scholes at each grid point. Contracts without IV are skipped, as are
+ * expired ones (the time floor would give them outsized gamma).
+ */
+export function findGammaFlip(positions: OptionPosition[], spot: number, now: Date = new Date()): number | null {
+  const priced = unexpired(positions, now).filter((p) => p.impliedVolatility > 0 && p.openInterest > 0)
+  if (priced.length === 0 || spot <= 0) return null
+
+  const low = spot * (1 - FLIP_RANGE)
+  const step = (spot * 2 * FLIP_RANGE) / FLIP_STEPS
+
+  // Several crossings are possible; keep the one nearest to spot
+  let best: number | null = null
+  let prevLevel = low
+  let prevGex = totalGexAt(priced, prevLevel, now)
+  for (let i = 1; i <= FLIP_STEPS; i++) {
+    const level = low + step * i
+    const gex = totalGexAt(priced, level, now)
+    if (Math.sign(gex) !== Math.sign(prevGex)) {
+      const crossing = prevLevel + (step * prevGex) / (prevGex - gex)
+      if (best === null || Math.abs(crossing - spot) < Math.abs(best - spot)) best = crossing
+    }
+    prevLevel = level
+    prevGex = gex
+  }
+  return best
+}
+
+/**
+ * Black-Scholes gamma (no dividends, zero rate).
+ */
+export function blackScholesGamma(spot: number, strike: number, years: number, vol: number): number {
+  if (spot <= 0 || strike <= 0 || vol <= 0) return 0
+  const t = Math.max(years, MIN_YEARS)
+  const sqrtT = Math.sqrt(t)
+  const d1 = (Math.log(spot / strike) + 0.5 * vol * vol * t) / (vol * sqrtT)
+  return Math.exp(-0.5 * d1 * d1) / (Math.sqrt(2 * Math.PI) * spot * vol * sqrtT)
+}
+
+/**
+ * Black-Scholes delta (no dividends, zero rate): N(d1) for calls, N(d1) - 1
+ * for puts.
+ */
+export function blackScholesDelta(
+  contractType: 'call' | 'put',
+  spot: number,
+  strike: number,
+  years: number,
+  vol: number
+): number | null {
+  if (spot <= 0 || strike <= 0 || vol <= 0) return null
+  const t = Math.max(years, MIN_YEARS)
+  const d1 = (Math.log(spot / strike) + 0.5 * vol * vol * t) / (vol * Math.sqrt(t))
+  const nd1 = normalCdf(d1)
+  return contractType === 'call' ? nd1 : nd1 - 1
+}
+
+/**
+ * Black-Scholes option value (no dividends, zero rate). Intrinsic value once
+ * expired or when the volatility is unknown.
+ */
+export function blackScholesPrice(
+  contractType: 'call' | 'put',
+  spot: number,
+  strike: number,
+  years: number,
+  vol: number
+): number {
+  const intrinsic = contractType === 'call' ? Math.max(0, spot - strike) : Math.max(0, strike - spot)
+  if (years <= 0 || vol <= 0 || spot <= 0 || strike <= 0) return intrinsic
+
+  const sqrtT = Math.sqrt(years)
+  const d1 = (Math.log(spot / strike) + 0.5 * vol * vol * years) / (vol * sqrtT)
+  const d2 = d1 - vol * sqrtT
+  return contractType === 'call'
+    ? spot * normalCdf(d1) - strike * normalCdf(d2)
+    : strike * normalCdf(-d2) - spot * normalCdf(-d1)
+}
+
+/**
+ * Years from `now` to an expiration's 16:00 ET settlement (negative once past).
+ */
+export function yearsToExpiry(expiration: string, now: Date): number {
+  // Options settle at the 16:00 ET close; 21:00 UTC is close enough year-round
+  const expiry = Date.parse(`${expiration}T21:00:00Z`)
+  return (expiry - now.getTime()) / (365 * 86_400_000)
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Abramowitz-Stegun 7.1.26 (|error| < 1.5e-7)
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * z)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-z * z)
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf)
+}
+
+function unexpired(positions: OptionPosition[], now: Date): OptionPosition[] {
+  return positions.filter((p) => yearsToExpiry(p.expiration, now) > 0)
+}
+
+/**
+ * Earliest expiration among `positions`, or null for an empty chain.
+ */
+export function nearestExpiration(positions: OptionPosition[]): string | null {
+  let nearest: string | null = null
+  for (const p of positions) {
+    if (nearest === null || p.expiration < nearest) nearest = p.expiration
+  }
+  return nearest
+}
+
+function minPayoutStrike(profile: StrikeProfileRow[]): number | null {
+  let best: StrikeProfileRow | null = null
+  for (const row of profile) {
+    if (best === null || row.payout < best.payout) best = row
+  }
+  return best?.strike ?? null
+}
+
+function multiplierOf(p: OptionPosition): number {
+  return p.sharesPerContract || DEFAULT_MULTIPLIER
+}
+
+function dollarGamma(gamma: number, openInterest: number, multiplier: number, spot: number): number {
+  return gamma * openInterest * multiplier * spot * spot * 0.01
+}
+
+function totalGexAt(positions: OptionPosition[], level: number, now: Date): number {
+  return positions.reduce((sum, p) => {
+    const gamma = blackScholesGamma(level, p.strike, yearsToExpiry(p.expiration, now), p.impliedVolatility)
+    const gex = dollarGamma(gamma, p.openInterest, multiplierOf(p), level)
+    return sum + (p.contractType === 'call' ? gex : -gex)
+  }, 0)
+}
+
+function topWalls(profile: StrikeProfileRow[], key: 'callOI' | 'putOI'): OIWall[] {
+  return profile
+    .filter((row) => row[key] > 0)
+    .sort((a, b) => b[key] - a[key])
+    .slice(0, WALL_COUNT)
+    .map((row) => ({ strike: row.strike, openInterest: row[key] }))
+}
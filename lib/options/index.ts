@@ -0,0 +1,9 @@
+// =============================================================================
+// Options Module - Public Exports
+// =============================================================================
+
+export * from './analytics'
+export * from './surface'
+export * from './iv-history'
+export * from './strategy'
+export * from './unusual'
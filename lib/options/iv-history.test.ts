@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { computeIvRank, constantMaturityIv, premiumBias, type IvObservation } from './iv-history'
+import type { TermStructurePoint } from './surface'
+
+const point = (dte: number, atmIv: number | null): TermStructurePoint => ({
+  expiration: `dte-${dte}`,
+  dte,
+  atmIv,
+  put25Iv: null,
+  call25Iv: null,
+  skew25: null,
+})
+
+const series = (values: number[]): IvObservation[] =>
+  values.map((atmIv30, i) => ({ date: `2024-01-${String(i + 1).padStart(2, '0')}`, atmIv30 }))
+
+describe('constantMaturityIv', () => {
+  it('interpolates total variance between the bracketing expirations', () => {
+    // w = 0.04 * 20 = 0.8 and 0.09 * 40 = 3.6 -> w(30) = 2.2 -> sqrt(2.2 / 30)
+    const iv = constantMaturityIv([point(40, 0.3), point(20, 0.2), point(10, null)])
+    expect(iv).toBeCloseTo(Math.sqrt(2.2 / 30))
+  })
+
+  it('uses an exact match and clamps outside the curve', () => {
+    expect(constantMaturityIv([point(30, 0.25), point(45, 0.3)])).toBe(0.25)
+    expect(constantMaturityIv([point(35, 0.22), point(60, 0.3)])).toBe(0.22)
+    expect(constantMaturityIv([point(7, 0.15), point(14, 0.18)])).toBe(0.18)
+    expect(constantMaturityIv([point(14, null)])).toBeNull()
+  })
+})
+
+describe('computeIvRank', () => {
+  it('ranks the latest value within its 52-week range', () => {
+    // 0.10 .. 0.29 then today at 0.255
+    const values = Array.from({ length: 20 }, (_, i) => 0.1 + i * 0.01)
+    const stats = computeIvRank('SPY', series([...values, 0.255]))
+
+    expect(stats.current).toBe(0.255)
+    expect(stats.high).toBeCloseTo(0.29)
+    expect(stats.low).toBe(0.1)
+    expect(stats.rank).toBeCloseTo(((0.255 - 0.1) / 0.19) * 100)
+    // 16 of the 20 prior sessions were below 0.255
+    expect(stats.percentile).toBeCloseTo(80)
+    expect(stats.samples).toBe(21)
+    expect(stats.bias).toBe('sell')
+  })
+
+  it('withholds rank until enough history exists', () => {
+    const stats = computeIvRank('QQQ', series([0.2, 0.3, 0.25]))
+    expect(stats.current).toBe(0.25)
+    expect(stats.rank).toBeNull()
+    expect(stats.percentile).toBeNull()
+    expect(stats.bias).toBeNull()
+    expect(computeIvRank('IWM', []).samples).toBe(0)
+  })
+
+  it('maps rank to a premium bias', () => {
+    expect(premiumBias(85)).toBe('sell')
+    expect(premiumBias(50)).toBe('neutral')
+    expect(premiumBias(10)).toBe('buy')
+  })
+})
@@ -0,0 +1,116 @@
+// =============================================================================
+// Implied Volatility History - constant-maturity IV and IV rank
+// =============================================================================
+// Snapshots store one constant-maturity ATM IV per symbol per session
+// (30 calendar days, interpolated in total variance between the expirations
+// that bracket it). IV rank and IV percentile then place today's value in its
+// own 52-week history:
+// - IV rank: where current IV sits between the 52-week low (0) and high (100)
+// - IV percentile: share of prior sessions that closed below current IV
+// =============================================================================
+
+import type { TermStructurePoint } from './surface'
+
+export interface IvObservation {
+  date: string // YYYY-MM-DD
+  atmIv30: number
+}
+
+export interface IvRankStats {
+  symbol: string
+  date: string | null // Date of the latest snapshot
+  current: number | null
+  rank: number | null // 0-100
+  percentile: number | null // 0-100
+  high: number | null
+  low: number | null
+  samples: number
+  bias: PremiumBias | null
+}
+
+/** Premium selling when IV is rich against its own history, buying when cheap. */
+export type PremiumBias = 'sell' | 'buy' | 'neutral'
+
+export const IV_TARGET_DAYS = 30
+
+// 52 weeks of sessions
+export const IV_RANK_SESSIONS = 252
+
+// Fewer snapshots than this and rank/percentile are too noisy to publish
+export const MIN_RANK_SAMPLES = 20
+
+const RICH_RANK = 70
+const CHEAP_RANK = 30
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * ATM IV at a constant `targetDays` maturity. Interpolates total variance
+ * (IV² × t) linearly in time between the bracketing expirations; clamps to
+ * the nearest expiration when the curve does not span the target.
+ */
+export function constantMaturityIv(
+  termStructure: TermStructurePoint[],
+  targetDays = IV_TARGET_DAYS
+): number | null {
+  const points = termStructure
+    .filter((p): p is TermStructurePoint & { atmIv: number } => p.atmIv !== null && p.dte > 0)
+    .sort((a, b) => a.dte - b.dte)
+  if (points.length === 0) return null
+
+  const after = points.findIndex((p) => p.dte >= targetDays)
+  if (after === -1) return points[points.length - 1].atmIv
+  if (after === 0 || points[after].dte === targetDays) return points[after].atmIv
+
+  const lo = points[after - 1]
+  const hi = points[after]
+  const loVar = lo.atmIv * lo.atmIv * lo.dte
+  const hiVar = hi.atmIv * hi.atmIv * hi.dte
+  const variance = loVar + ((hiVar - loVar) * (targetDays - lo.dte)) / (hi.dte - lo.dte)
+  return Math.sqrt(Math.max(0, variance) / targetDays)
+}
+
+/**
+ * Rank and percentile of the latest observation within the trailing
+ * IV_RANK_SESSIONS. `history` must be sorted by date ascending.
+ */
+export function computeIvRank(symbol: string, history: IvObservation[]): IvRankStats {
+  const window = history.slice(-IV_RANK_SESSIONS)
+  const latest = window[window.length - 1]
+  if (!latest) {
+    return { symbol, date: null, current: null, rank: null, percentile: null, high: null, low: null, samples: 0, bias: null }
+  }
+
+  const values = window.map((o) => o.atmIv30)
+  const current = latest.atmIv30
+  const high = Math.max(...values)
+  const low = Math.min(...values)
+
+  let rank: number | null = null
+  let percentile: number | null = null
+  if (window.length >= MIN_RANK_SAMPLES) {
+    rank = high > low ? ((current - low) / (high - low)) * 100 : 50
+    const prior = values.slice(0, -1)
+    percentile = (prior.filter((v) => v < current).length / prior.length) * 100
+  }
+
+  return {
+    symbol,
+    date: latest.date,
+    current,
+    rank,
+    percentile,
+    high,
+    low,
+    samples: window.length,
+    bias: rank === null ? null : premiumBias(rank),
+  }
+}
+
+export function premiumBias(rank: number): PremiumBias {
+  if (rank >= RICH_RANK) return 'sell'
+  if (rank <= CHEAP_RANK) return 'buy'
+  return 'neutral'
+}
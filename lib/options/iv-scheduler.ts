@@ -0,0 +1,82 @@
+// =============================================================================
+// IV Snapshot Scheduler - nightly in-process runner
+// =============================================================================
+// Started once per server process from instrumentation.ts. Checks every
+// CHECK_MINUTES and takes one snapshot per trading session once New York time
+// passes IV_SNAPSHOT_HOUR (default 17:00, after the close has settled). Market
+// holidays are skipped so stale prior-session IV never lands in the history.
+// Set IV_SNAPSHOT_HOUR=off when an external cron calls POST /api/options/iv-rank.
+// =============================================================================
+
+import { isTradingDay } from '@/lib/as-of'
+import { requireMarketData } from '@/lib/env'
+import { logger } from '@/lib/logger'
+import { withUpstreamPriority } from '@/lib/massive/scheduler'
+import { sessionDate } from '@/lib/live/feed'
+import { runIvSnapshot } from './iv-store'
+
+const DEFAULT_SNAPSHOT_HOUR = 17
+const CHECK_MINUTES = 30
+
+const newYorkClock = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  hour: 'numeric',
+  hourCycle: 'h23',
+})
+
+// Survives module reloads in dev so we never stack intervals
+const globalForIv = globalThis as unknown as {
+  ivSnapshotScheduler: ReturnType<typeof setInterval> | undefined
+}
+
+let running = false
+let lastSnapshotDate: string | null = null
+
+function isDue(snapshotHour: number, now: Date): boolean {
+  const session = sessionDate(now.getTime())
+  if (!isTradingDay(session)) return false
+  const hour = Number(newYorkClock.formatToParts(now).find((p) => p.type === 'hour')?.value)
+  return hour >= snapshotHour && lastSnapshotDate !== session
+}
+
+async function tick(snapshotHour: number): Promise<void> {
+  if (running || !isDue(snapshotHour, new Date())) return
+  running = true
+
+  try {
+    const summary = await withUpstreamPriority('background', () => runIvSnapshot())
+    lastSnapshotDate = summary.date
+    logger.info('IV snapshot complete', {
+      date: summary.date,
+      saved: summary.saved,
+      failed: summary.failed.length,
+    })
+  } catch (error) {
+    logger.error('IV snapshot run failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  } finally {
+    running = false
+  }
+}
+
+/**
+ * Start the nightly snapshot check. Returns false when snapshots cannot run
+ * (no database or market data key) or the scheduler is disabled.
+ */
+export function startIvSnapshotScheduler(): boolean {
+  if (!process.env.DATABASE_URL || !requireMarketData().isValid) return false
+
+  const hour = Number(process.env.IV_SNAPSHOT_HOUR ?? DEFAULT_SNAPSHOT_HOUR)
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) return false
+
+  if (globalForIv.ivSnapshotScheduler) return true
+
+  const handle = setInterval(() => tick(hour), CHECK_MINUTES * 60 * 1000)
+  // Don't keep the process alive just for snapshots
+  handle.unref?.()
+  globalForIv.ivSnapshotScheduler = handle
+
+  logger.info('IV snapshot scheduler started', { snapshotHour: hour })
+  return true
+}
@@ -0,0 +1,108 @@
+// =============================================================================
+// IV History Store - nightly ATM 30-day IV snapshots in Postgres
+// =============================================================================
+// One row per symbol and session. The snapshot job upserts, so re-running it
+// on the same day (scheduler restart, manual cron call) refreshes the value
+// instead of adding a duplicate. Reads return nothing without DATABASE_URL.
+// =============================================================================
+
+import { logger } from '@/lib/logger'
+import { sessionDate } from '@/lib/live/feed'
+import { fetchAtmIv30 } from './run'
+import { computeIvRank, type IvObservation, type IvRankStats } from './iv-history'
+
+// Liquid ETFs the desk watches; override with IV_SNAPSHOT_SYMBOLS
+export const DEFAULT_IV_SNAPSHOT_SYMBOLS = ['SPY', 'QQQ', 'IWM', 'DIA', 'TLT', 'GLD']
+
+// Calendar days covering 52 weeks of sessions
+const HISTORY_CALENDAR_DAYS = 366
+
+export interface IvSnapshotSummary {
+  date: string
+  saved: number
+  failed: Array<{ symbol: string; error: string }>
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+export function ivSnapshotSymbols(): string[] {
+  const configured = process.env.IV_SNAPSHOT_SYMBOLS
+  if (!configured) return DEFAULT_IV_SNAPSHOT_SYMBOLS
+  const symbols = configured
+    .split(',')
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean)
+  return symbols.length > 0 ? symbols : DEFAULT_IV_SNAPSHOT_SYMBOLS
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+async function saveIvSnapshot(symbol: string, date: string, atmIv30: number, spot: number): Promise<void> {
+  const { prisma } = await import('@/lib/prisma')
+  await prisma.ivSnapshot.upsert({
+    where: { symbol_date: { symbol, date } },
+    create: { symbol, date, atmIv30, spot },
+    update: { atmIv30, spot },
+  })
+}
+
+/**
+ * Stored snapshots for the trailing 52 weeks, oldest first.
+ */
+export async function getIvHistory(symbol: string): Promise<IvObservation[]> {
+  if (!process.env.DATABASE_URL) return []
+
+  const since = new Date()
+  since.setDate(since.getDate() - HISTORY_CALENDAR_DAYS)
+
+  const { prisma } = await import('@/lib/prisma')
+  const rows = await prisma.ivSnapshot.findMany({
+    where: { symbol: symbol.toUpperCase(), date: { gte: formatDate(since) } },
+    orderBy: { date: 'asc' },
+    select: { date: true, atmIv30: true },
+  })
+  return rows.map((row: IvObservation) => ({ date: row.date, atmIv30: row.atmIv30 }))
+}
+
+/**
+ * 52-week IV rank and percentile from stored snapshots.
+ */
+export async function getIvRank(symbol: string): Promise<IvRankStats> {
+  const key = symbol.toUpperCase()
+  return computeIvRank(key, await getIvHistory(key))
+}
+
+// =============================================================================
+// Snapshot Job
+// =============================================================================
+
+/**
+ * Snapshot ATM 30-day IV for every symbol under today's session date.
+ * Symbols are fetched one at a time to stay inside the chain rate limits.
+ */
+export async function runIvSnapshot(symbols: string[] = ivSnapshotSymbols()): Promise<IvSnapshotSummary> {
+  const date = sessionDate()
+  const summary: IvSnapshotSummary = { date, saved: 0, failed: [] }
+
+  for (const symbol of symbols) {
+    try {
+      const result = await fetchAtmIv30(symbol)
+      if (result.atmIv30 === null) {
+        summary.failed.push({ symbol, error: result.error || 'No ATM IV' })
+        continue
+      }
+      await saveIvSnapshot(symbol, date, result.atmIv30, result.spot)
+      summary.saved++
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      logger.warn('IV snapshot failed', { symbol, error: message })
+      summary.failed.push({ symbol, error: message })
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,192 @@
+// =============================================================================
+// Options Surface Runner
+// =============================================================================
+// Loads a multi-expiration chain around spot and builds the IV surface or a
+// strategy. Shared by /api/options/surface, /api/options/strategy, their chat
+// tools and the nightly IV snapshot job.
+// =============================================================================
+
+import { fetchOptionsChain, toOptionPositions, toStrategyContracts } from '@/lib/massive-api'
+import type { NormalizedOptionsContract } from '@/lib/massive/normalize'
+import { getDailyBars } from '@/lib/bars/store'
+import { buildIvSurface, type IvSurface } from './surface'
+import { constantMaturityIv, IV_TARGET_DAYS } from './iv-history'
+import {
+  analyzeStrategy,
+  chainAroundLegs,
+  proposeStrategy,
+  STRATEGY_LABELS,
+  type StrategyAnalysis,
+  type StrategyContract,
+  type StrategyLeg,
+  type StrategyTemplate,
+} from './strategy'
+
+export const DEFAULT_SURFACE_DAYS = 90
+export const DEFAULT_STRATEGY_DAYS = 30
+export const DEFAULT_STRATEGY_WIDTH = 0.05
+
+// Strike band fetched around spot; wide enough for 25Δ wings on back months
+const FETCH_STRIKE_RANGE = 0.3
+
+// ATM IV only needs strikes near the money, so the 30-day fetch stays narrow
+// enough to cover every expiration around the target in a few pages
+const ATM_STRIKE_RANGE = 0.05
+const ATM_MIN_DAYS = 7
+const ATM_MAX_DAYS = 60
+
+// Calendars need a back month; look this far past the target expiration
+const STRATEGY_BACK_MONTH_DAYS = 60
+
+// Polygon returns 250 contracts per page
+const MAX_CHAIN_PAGES = 10
+
+export interface SurfaceRunResult {
+  symbol: string
+  surface: IvSurface | null
+  contracts: number
+  error?: string
+}
+
+export interface AtmIvRunResult {
+  symbol: string
+  atmIv30: number | null
+  spot: number
+  error?: string
+}
+
+export interface StrategyRunResult {
+  symbol: string
+  template: StrategyTemplate
+  label: string
+  spot: number
+  legs: StrategyLeg[]
+  analysis: StrategyAnalysis | null
+  contracts: StrategyContract[] // Chain around the legs, for editing
+  error?: string
+}
+
+export interface ChainLoad {
+  contracts: NormalizedOptionsContract[]
+  spot: number
+  error?: string
+}
+
+/**
+ * Chain contracts expiring `fromDays`..`toDays` out with strikes within
+ * `strikeRange` of the last close, plus the underlying price.
+ */
+export async function loadChainAroundSpot(
+  symbol: string,
+  fromDays: number,
+  toDays: number,
+  strikeRange: number,
+  maxPages = MAX_CHAIN_PAGES
+): Promise<ChainLoad> {
+  const bars = await getDailyBars(symbol, 5).catch(() => [])
+  const lastClose = bars[bars.length - 1]?.close ?? 0
+
+  const today = new Date()
+  const from = new Date(today)
+  from.setDate(from.getDate() + fromDays)
+  const until = new Date(today)
+  until.setDate(until.getDate() + toDays)
+
+  const response = await fetchOptionsChain(symbol, {
+    expiration_date_gte: from.toISOString().split('T')[0],
+    expiration_date_lte: until.toISOString().split('T')[0],
+    strike_price_gte: lastClose ? Math.floor(lastClose * (1 - strikeRange)) : undefined,
+    strike_price_lte: lastClose ? Math.ceil(lastClose * (1 + strikeRange)) : undefined,
+    limit: 250,
+    maxPages,
+  })
+
+  if (!response.success) {
+    return { contracts: [], spot: lastClose, error: response.error?.message || 'Failed to fetch options chain' }
+  }
+  if (response.results.length === 0) {
+    return { contracts: [], spot: lastClose, error: `No options listed for ${symbol} in the next ${toDays} days` }
+  }
+
+  return { contracts: response.results, spot: response.underlying_price || lastClose }
+}
+
+/**
+ * Build the IV surface for `symbol` from expirations within `days`.
+ */
+export async function fetchIvSurface(symbol: string, days = DEFAULT_SURFACE_DAYS): Promise<SurfaceRunResult> {
+  const chain = await loadChainAroundSpot(symbol, 0, days, FETCH_STRIKE_RANGE)
+  if (chain.error) {
+    return { symbol, surface: null, contracts: 0, error: chain.error }
+  }
+
+  return {
+    symbol,
+    surface: buildIvSurface(toOptionPositions(chain.contracts), chain.spot, new Date()),
+    contracts: chain.contracts.length,
+  }
+}
+
+/**
+ * Current constant-maturity 30-day ATM IV for `symbol`.
+ */
+export async function fetchAtmIv30(symbol: string): Promise<AtmIvRunResult> {
+  const chain = await loadChainAroundSpot(symbol, ATM_MIN_DAYS, ATM_MAX_DAYS, ATM_STRIKE_RANGE)
+  if (chain.error) {
+    return { symbol, atmIv30: null, spot: chain.spot, error: chain.error }
+  }
+
+  const surface = buildIvSurface(toOptionPositions(chain.contracts), chain.spot, new Date(), {
+    maxExpirations: ATM_MAX_DAYS,
+    maxStrikes: 0,
+  })
+  const atmIv30 = constantMaturityIv(surface.termStructure, IV_TARGET_DAYS)
+  return {
+    symbol,
+    atmIv30,
+    spot: chain.spot,
+    error: atmIv30 === null ? `No at-the-money IV around ${IV_TARGET_DAYS} days for ${symbol}` : undefined,
+  }
+}
+
+/**
+ * Propose `template` on `symbol` at the expiration nearest `targetDays` with
+ * wings `widthPct` of spot away, and analyze it.
+ */
+export async function fetchStrategy(
+  symbol: string,
+  template: StrategyTemplate,
+  targetDays = DEFAULT_STRATEGY_DAYS,
+  widthPct = DEFAULT_STRATEGY_WIDTH
+): Promise<StrategyRunResult> {
+  const label = STRATEGY_LABELS[template]
+  // Only expirations around the target, so weekly/daily listings don't use up the page budget
+  const fromDays = Math.floor(targetDays / 2)
+  const toDays = Math.max(
+    ATM_MIN_DAYS,
+    template === 'calendar' ? targetDays + STRATEGY_BACK_MONTH_DAYS : Math.ceil(targetDays * 1.5)
+  )
+  const strikeRange = Math.min(FETCH_STRIKE_RANGE, widthPct * 2 + ATM_STRIKE_RANGE)
+
+  const chain = await loadChainAroundSpot(symbol, fromDays, toDays, strikeRange)
+  const empty = { symbol, template, label, spot: chain.spot, legs: [], analysis: null, contracts: [] }
+  if (chain.error) {
+    return { ...empty, error: chain.error }
+  }
+
+  const contracts = toStrategyContracts(chain.contracts)
+  const legs = proposeStrategy(template, contracts, chain.spot, { targetDays, widthPct })
+  if (!legs) {
+    return { ...empty, error: `Not enough listed strikes to build a ${label} on ${symbol}` }
+  }
+
+  return {
+    symbol,
+    template,
+    label,
+    spot: chain.spot,
+    legs,
+    analysis: analyzeStrategy(legs, chain.spot),
+    contracts: chainAroundLegs(contracts, legs, chain.spot),
+  }
+}
@@ -0,0 +1,164 @@
+// =============================================================================
+// Unusual Options Scanner Runner
+// =============================================================================
+// Scans the short-dated chain of every symbol in a universe for unusual
+// activity. Each scan records the session's per-contract volume, which builds
+// the trailing averages the volume-spike flag compares against; the last
+// scan of a session overwrites earlier intraday counts. Without DATABASE_URL
+// the spike flag is simply never raised. Shared by /api/options/unusual and
+// the show_unusual_options chat tool.
+// =============================================================================
+
+import type { NormalizedOptionsContract } from '@/lib/massive/normalize'
+import { sessionDate } from '@/lib/live/feed'
+import { logger } from '@/lib/logger'
+import { loadChainAroundSpot } from './run'
+import {
+  DEFAULT_UNUSUAL_CRITERIA,
+  scanUnusualOptions,
+  trailingVolumes,
+  type OptionActivity,
+  type TrailingVolume,
+  type UnusualContract,
+  type UnusualOptionsCriteria,
+} from './unusual'
+
+// Expirations and strikes scanned per underlying
+const SCAN_MAX_DAYS = 45
+const SCAN_STRIKE_RANGE = 0.2
+const SCAN_MAX_PAGES = 4
+
+// Underlyings scanned at once
+const SCAN_CONCURRENCY = 4
+
+// Calendar days of stored volume behind the trailing average (~20 sessions)
+const TRAILING_CALENDAR_DAYS = 30
+
+export interface UnusualScanResult {
+  date: string
+  results: UnusualContract[]
+  scanned: string[]
+  failedSymbols: string[]
+  criteria: UnusualOptionsCriteria
+}
+
+function toActivity(contract: NormalizedOptionsContract): OptionActivity {
+  return {
+    ticker: contract.ticker,
+    underlying: contract.underlying,
+    contractType: contract.contractType,
+    strike: contract.strike,
+    expiration: contract.expiration,
+    volume: contract.volume,
+    openInterest: contract.openInterest,
+    bid: contract.bid,
+    ask: contract.ask,
+    last: contract.last,
+    impliedVolatility: contract.impliedVolatility,
+  }
+}
+
+// =============================================================================
+// Volume History
+// =============================================================================
+
+async function loadTrailingVolumes(underlying: string, before: string): Promise<Map<string, TrailingVolume>> {
+  if (!process.env.DATABASE_URL) return new Map()
+
+  const since = new Date(`${before}T00:00:00Z`)
+  since.setUTCDate(since.getUTCDate() - TRAILING_CALENDAR_DAYS)
+
+  const { prisma } = await import('@/lib/prisma')
+  const rows = await prisma.optionVolume.findMany({
+    where: { underlying, date: { gte: since.toISOString().split('T')[0], lt: before } },
+    select: { ticker: true, date: true, volume: true },
+  })
+  return trailingVolumes(rows)
+}
+
+async function saveVolumes(underlying: string, date: string, contracts: OptionActivity[]): Promise<void> {
+  if (!process.env.DATABASE_URL) return
+
+  const traded = contracts.filter((c) => c.volume > 0)
+  const { prisma } = await import('@/lib/prisma')
+  // Replace the session wholesale; intraday counts only grow
+  await prisma.$transaction([
+    prisma.optionVolume.deleteMany({ where: { underlying, date } }),
+    prisma.optionVolume.createMany({
+      data: traded.map((c) => ({
+        ticker: c.ticker,
+        underlying,
+        date,
+        volume: c.volume,
+        openInterest: c.openInterest,
+      })),
+      skipDuplicates: true,
+    }),
+  ])
+}
+
+// =============================================================================
+// Scanning
+// =============================================================================
+
+async function scanSymbol(
+  symbol: string,
+  date: string,
+  criteria: UnusualOptionsCriteria
+): Promise<UnusualContract[]> {
+  const chain = await loadChainAroundSpot(symbol, 0, SCAN_MAX_DAYS, SCAN_STRIKE_RANGE, SCAN_MAX_PAGES)
+  if (chain.error) throw new Error(chain.error)
+
+  const contracts = chain.contracts.map(toActivity)
+
+  let trailing = new Map<string, TrailingVolume>()
+  try {
+    trailing = await loadTrailingVolumes(symbol, date)
+    await saveVolumes(symbol, date, contracts)
+  } catch (error) {
+    logger.warn('Option volume history unavailable', {
+      symbol,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+
+  return scanUnusualOptions(contracts, chain.spot, trailing, new Date(), criteria)
+}
+
+/**
+ * Scan `symbols` and return every flagged contract, largest premium first.
+ */
+export async function scanUnusualActivity(
+  symbols: string[],
+  criteria: Partial<UnusualOptionsCriteria> = {}
+): Promise<UnusualScanResult> {
+  // Unset overrides (optional query params, tool inputs) keep the defaults
+  const overrides = Object.fromEntries(Object.entries(criteria).filter(([, value]) => value !== undefined))
+  const resolved: UnusualOptionsCriteria = { ...DEFAULT_UNUSUAL_CRITERIA, ...overrides }
+  const date = sessionDate()
+  const results: UnusualContract[] = []
+  const scanned: string[] = []
+  const failedSymbols: string[] = []
+
+  for (let i = 0; i < symbols.length; i += SCAN_CONCURRENCY) {
+    const batch = symbols.slice(i, i + SCAN_CONCURRENCY)
+    const settled = await Promise.allSettled(batch.map((symbol) => scanSymbol(symbol, date, resolved)))
+
+    settled.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        results.push(...result.value)
+        scanned.push(batch[index])
+      } else {
+        failedSymbols.push(batch[index])
+      }
+    })
+  }
+
+  return {
+    date,
+    results: results.sort((a, b) => b.premium - a.premium),
+    scanned,
+    failedSymbols,
+    criteria: resolved,
+  }
+}
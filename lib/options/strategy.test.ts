@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeStrategy, createLeg, proposeStrategy, type StrategyContract } from './strategy'
+
+const now = new Date('2024-03-15T15:00:00Z')
+
+const contract = (
+  contractType: 'call' | 'put',
+  strike: number,
+  mid: number,
+  expiration = '2024-04-19',
+  greeks: Partial<Pick<StrategyContract, 'delta' | 'gamma' | 'theta' | 'vega'>> = {}
+): StrategyContract => ({
+  ticker: `O:TEST${expiration.replace(/-/g, '')}${contractType === 'call' ? 'C' : 'P'}${strike}`,
+  contractType,
+  strike,
+  expiration,
+  bid: mid - 0.05,
+  ask: mid + 0.05,
+  last: mid,
+  impliedVolatility: 0.2,
+  delta: null,
+  gamma: null,
+  theta: null,
+  vega: null,
+  ...greeks,
+})
+
+describe('analyzeStrategy', () => {
+  it('prices a debit vertical at expiry', () => {
+    const legs = [createLeg(contract('call', 100, 3), 'buy'), createLeg(contract('call', 105, 1), 'sell')]
+    const result = analyzeStrategy(legs, 100, now)
+
+    expect(result.kind).toBe('debit')
+    expect(result.netPremium).toBe(200)
+    expect(result.maxProfit).toBe(300)
+    expect(result.maxLoss).toBe(200)
+    expect(result.breakevens).toEqual([102])
+    expect(result.evaluationDate).toBe('2024-04-19')
+  })
+
+  it('finds both breakevens of an iron condor credit', () => {
+    const legs = [
+      createLeg(contract('put', 90, 0.5), 'buy'),
+      createLeg(contract('put', 95, 1.5), 'sell'),
+      createLeg(contract('call', 105, 1.5), 'sell'),
+      createLeg(contract('call', 110, 0.5), 'buy'),
+    ]
+    const result = analyzeStrategy(legs, 100, now)
+
+    expect(result.kind).toBe('credit')
+    expect(result.netPremium).toBe(-200)
+    expect(result.maxProfit).toBe(200)
+    expect(result.maxLoss).toBe(300)
+    expect(result.breakevens).toEqual([93, 107])
+  })
+
+  it('flags unlimited upside and downside risk', () => {
+    expect(analyzeStrategy([createLeg(contract('call', 100, 2), 'buy')], 100, now).maxProfit).toBeNull()
+    const shortCall = analyzeStrategy([createLeg(contract('call', 100, 2), 'sell')], 100, now)
+    expect(shortCall.maxLoss).toBeNull()
+    expect(shortCall.maxProfit).toBe(200)
+  })
+
+  it('values back-month legs with time left on a calendar', () => {
+    const legs = [
+      createLeg(contract('call', 100, 2.5, '2024-04-19'), 'sell'),
+      createLeg(contract('call', 100, 4, '2024-05-17'), 'buy'),
+    ]
+    const result = analyzeStrategy(legs, 100, now)
+    const atStrike = result.payoff.reduce((best, p) => (Math.abs(p.price - 100) < Math.abs(best.price - 100) ? p : best))
+
+    expect(result.evaluationDate).toBe('2024-04-19')
+    // Front expires worthless at the strike while the back month keeps ~4 weeks of value
+    expect(atStrike.expiry).toBeGreaterThan(0)
+    expect(result.maxProfit).toBeLessThan(400)
+    expect(result.maxLoss).toBeLessThanOrEqual(150)
+  })
+
+  it('sums provider greeks per contract', () => {
+    const legs = [
+      createLeg(contract('call', 100, 3, '2024-04-19', { delta: 0.5, gamma: 0.05, theta: -0.04, vega: 0.11 }), 'buy', 2),
+      createLeg(contract('put', 100, 3, '2024-04-19', { delta: -0.5, gamma: 0.05, theta: -0.03, vega: 0.11 }), 'buy', 2),
+    ]
+    expect(analyzeStrategy(legs, 100, now).greeks).toEqual({ delta: 0, gamma: 20, theta: -14, vega: 44 })
+  })
+})
+
+describe('proposeStrategy', () => {
+  const chain = [90, 95, 100, 105, 110].flatMap((k) => [
+    contract('call', k, Math.max(0.5, 100 - k + 2)),
+    contract('put', k, Math.max(0.5, k - 100 + 2)),
+    contract('call', k, Math.max(1, 100 - k + 3), '2024-05-17'),
+  ])
+
+  it('builds an iron condor with wings beyond the short strikes', () => {
+    const legs = proposeStrategy('iron_condor', chain, 100, { now, widthPct: 0.05 })
+    expect(legs?.map((l) => `${l.side} ${l.contract.contractType} ${l.contract.strike}`)).toEqual([
+      'buy put 90',
+      'sell put 95',
+      'sell call 105',
+      'buy call 110',
+    ])
+  })
+
+  it('pairs a calendar across expirations at the same strike', () => {
+    const legs = proposeStrategy('calendar', chain, 101, { now })
+    expect(legs?.map((l) => [l.side, l.contract.expiration, l.contract.strike])).toEqual([
+      ['sell', '2024-04-19', 100],
+      ['buy', '2024-05-17', 100],
+    ])
+  })
+
+  it('returns null when a leg cannot be filled', () => {
+    const callsOnly = chain.filter((c) => c.contractType === 'call')
+    expect(proposeStrategy('straddle', callsOnly, 100, { now })).toBeNull()
+  })
+})
@@ -0,0 +1,400 @@
+// =============================================================================
+// Options Strategy Builder - multi-leg payoff and risk
+// =============================================================================
+// Legs are contracts from the chain with a side and quantity. Values are in
+// dollars for the whole position (premium x 100 shares per contract).
+//
+// Conventions:
+// - Net premium is positive for a debit (paid) and negative for a credit.
+// - The expiry curve is evaluated at the earliest leg expiration. Legs that
+//   expire then are worth intrinsic value; later legs (calendars) are priced
+//   with Black-Scholes at their own IV over the time they have left.
+// - The "today" curve prices every leg with Black-Scholes at its IV now.
+// - Max profit/loss come from the expiry curve; null means unlimited (the
+//   curve keeps sloping up/down as the underlying rallies).
+// - Greeks are position totals: delta in shares, gamma in shares per $1,
+//   theta in $ per day, vega in $ per vol point. Provider greeks are used when
+//   present; delta and gamma fall back to Black-Scholes.
+// =============================================================================
+
+import { blackScholesDelta, blackScholesGamma, blackScholesPrice, yearsToExpiry } from './analytics'
+
+export const STRATEGY_TEMPLATES = [
+  'long_call',
+  'long_put',
+  'bull_call_spread',
+  'bear_put_spread',
+  'bull_put_spread',
+  'bear_call_spread',
+  'straddle',
+  'strangle',
+  'iron_condor',
+  'calendar',
+] as const
+
+export type StrategyTemplate = (typeof STRATEGY_TEMPLATES)[number]
+
+export const STRATEGY_LABELS: Record<StrategyTemplate, string> = {
+  long_call: 'Long Call',
+  long_put: 'Long Put',
+  bull_call_spread: 'Bull Call Spread',
+  bear_put_spread: 'Bear Put Spread',
+  bull_put_spread: 'Bull Put Spread',
+  bear_call_spread: 'Bear Call Spread',
+  straddle: 'Long Straddle',
+  strangle: 'Long Strangle',
+  iron_condor: 'Iron Condor',
+  calendar: 'Call Calendar',
+}
+
+export interface StrategyContract {
+  ticker: string
+  contractType: 'call' | 'put'
+  strike: number
+  expiration: string // YYYY-MM-DD
+  bid: number
+  ask: number
+  last: number
+  impliedVolatility: number // Decimal, 0 when unknown
+  delta: number | null
+  gamma: number | null
+  theta: number | null // Per day, per share
+  vega: number | null // Per vol point, per share
+}
+
+export type LegSide = 'buy' | 'sell'
+
+export interface StrategyLeg {
+  contract: StrategyContract
+  side: LegSide
+  quantity: number // Contracts
+  premium: number // Per share fill price
+}
+
+export interface PayoffPoint {
+  price: number
+  expiry: number // P/L at the evaluation date
+  today: number // P/L marked with Black-Scholes now
+}
+
+export interface StrategyGreeks {
+  delta: number
+  gamma: number
+  theta: number
+  vega: number
+}
+
+export interface StrategyAnalysis {
+  netPremium: number // Positive = debit paid, negative = credit received
+  kind: 'debit' | 'credit'
+  maxProfit: number | null // Null = unlimited
+  maxLoss: number | null // Positive dollars; null = unlimited
+  breakevens: number[]
+  greeks: StrategyGreeks
+  evaluationDate: string // Earliest leg expiration
+  payoff: PayoffPoint[] // Ascending by price, around the strikes and spot
+}
+
+export interface ProposeOptions {
+  targetDays?: number // Expiration nearest this DTE (default 30)
+  widthPct?: number // Strike offset as a fraction of spot (default 0.05)
+  now?: Date
+}
+
+const CONTRACT_MULTIPLIER = 100
+
+// Payoff chart points and the share of range shown beyond strikes/spot
+const PAYOFF_POINTS = 81
+const PAYOFF_PADDING = 0.2
+
+// Max/min and breakeven search runs out to this multiple of the top strike
+const SEARCH_MULTIPLE = 3
+const SEARCH_POINTS = 600
+
+// $ per $1 move at the far end of the search treated as still sloping
+const UNLIMITED_SLOPE = 0.5
+
+// Calendars buy the first expiration at least this far past the front month
+const CALENDAR_GAP_DAYS = 21
+
+// =============================================================================
+// Pricing
+// =============================================================================
+
+/**
+ * Fill price per share: the bid/ask mid when both sides are quoted, else the
+ * last trade.
+ */
+export function legPremium(contract: StrategyContract): number {
+  if (contract.bid > 0 && contract.ask > 0) return (contract.bid + contract.ask) / 2
+  return contract.last || contract.ask || contract.bid || 0
+}
+
+export function createLeg(contract: StrategyContract, side: LegSide, quantity = 1): StrategyLeg {
+  return { contract, side, quantity, premium: legPremium(contract) }
+}
+
+/**
+ * Dollar value of all legs with the underlying at `price` on `at`.
+ */
+export function strategyValue(legs: StrategyLeg[], price: number, at: Date): number {
+  return legs.reduce((sum, leg) => {
+    const { contractType, strike, expiration, impliedVolatility } = leg.contract
+    const value = blackScholesPrice(contractType, price, strike, yearsToExpiry(expiration, at), impliedVolatility)
+    return sum + sideSign(leg.side) * leg.quantity * CONTRACT_MULTIPLIER * value
+  }, 0)
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+/**
+ * Premium, payoff curves, breakevens and risk for one or more legs.
+ */
+export function analyzeStrategy(legs: StrategyLeg[], spot: number, now: Date = new Date()): StrategyAnalysis {
+  const netPremium = legs.reduce(
+    (sum, leg) => sum + sideSign(leg.side) * leg.quantity * leg.premium * CONTRACT_MULTIPLIER,
+    0
+  )
+
+  const evaluationDate = legs.map((l) => l.contract.expiration).sort()[0] ?? ''
+  // Just after the 16:00 ET settlement so front legs are worth intrinsic value
+  const settlement = new Date(Date.parse(`${evaluationDate}T21:00:00Z`) + 1000)
+  const expiryPnl = (price: number) => strategyValue(legs, price, settlement) - netPremium
+  const todayPnl = (price: number) => strategyValue(legs, price, now) - netPremium
+
+  const strikes = legs.map((l) => l.contract.strike)
+  const refs = spot > 0 ? [...strikes, spot] : strikes
+  const low = Math.min(...refs)
+  const high = Math.max(...refs)
+
+  // Dense grid from zero past the strikes, with every strike as a kink point
+  const farPrice = high * SEARCH_MULTIPLE
+  const search = uniqueSorted([
+    ...linspace(0, farPrice, SEARCH_POINTS),
+    ...strikes,
+  ])
+  const searchPnl = search.map(expiryPnl)
+
+  const farSlope = (expiryPnl(farPrice * 1.01) - expiryPnl(farPrice)) / (farPrice * 0.01)
+  const best = Math.max(...searchPnl)
+  const worst = Math.min(...searchPnl)
+
+  const payoff = linspace(low * (1 - PAYOFF_PADDING), high * (1 + PAYOFF_PADDING), PAYOFF_POINTS).map((price) => ({
+    price: round(price),
+    expiry: round(expiryPnl(price)),
+    today: round(todayPnl(price)),
+  }))
+
+  return {
+    netPremium: round(netPremium),
+    kind: netPremium >= 0 ? 'debit' : 'credit',
+    maxProfit: farSlope > UNLIMITED_SLOPE ? null : round(best),
+    maxLoss: farSlope < -UNLIMITED_SLOPE ? null : round(Math.max(0, -worst)),
+    breakevens: findBreakevens(search, searchPnl),
+    greeks: aggregateGreeks(legs, spot, now),
+    evaluationDate,
+    payoff,
+  }
+}
+
+function aggregateGreeks(legs: StrategyLeg[], spot: number, now: Date): StrategyGreeks {
+  const totals: StrategyGreeks = { delta: 0, gamma: 0, theta: 0, vega: 0 }
+  for (const leg of legs) {
+    const { contractType, strike, expiration, impliedVolatility } = leg.contract
+    const years = yearsToExpiry(expiration, now)
+    const size = sideSign(leg.side) * leg.quantity * CONTRACT_MULTIPLIER
+
+    const delta = leg.contract.delta ?? blackScholesDelta(contractType, spot, strike, years, impliedVolatility) ?? 0
+    const gamma = leg.contract.gamma ?? blackScholesGamma(spot, strike, years, impliedVolatility)
+
+    totals.delta += size * delta
+    totals.gamma += size * gamma
+    totals.theta += size * (leg.contract.theta ?? 0)
+    totals.vega += size * (leg.contract.vega ?? 0)
+  }
+  return {
+    delta: round(totals.delta),
+    gamma: round(totals.gamma, 4),
+    theta: round(totals.theta),
+    vega: round(totals.vega),
+  }
+}
+
+function findBreakevens(prices: number[], pnl: number[]): number[] {
+  const out: number[] = []
+  for (let i = 1; i < prices.length; i++) {
+    const a = pnl[i - 1]
+    const b = pnl[i]
+    if ((a < 0 && b >= 0) || (a > 0 && b <= 0)) {
+      const x = b === a ? prices[i] : prices[i - 1] + ((prices[i] - prices[i - 1]) * -a) / (b - a)
+      if (out.length === 0 || Math.abs(out[out.length - 1] - x) > 0.01) out.push(round(x))
+    }
+  }
+  return out
+}
+
+// =============================================================================
+// Templates
+// =============================================================================
+
+/**
+ * Pick legs for a template from the chain: the expiration nearest
+ * `targetDays`, the body at the money and wings `widthPct` of spot away.
+ * Returns null when the chain has no contracts to fill every leg.
+ */
+export function proposeStrategy(
+  template: StrategyTemplate,
+  contracts: StrategyContract[],
+  spot: number,
+  options: ProposeOptions = {}
+): StrategyLeg[] | null {
+  const targetDays = options.targetDays ?? 30
+  const width = spot * (options.widthPct ?? 0.05)
+  const now = options.now ?? new Date()
+
+  const dte = (expiration: string) => yearsToExpiry(expiration, now) * 365
+  const expirations = Array.from(new Set(contracts.map((c) => c.expiration)))
+    .filter((e) => dte(e) > 0)
+    .sort()
+  if (expirations.length === 0) return null
+
+  const front = expirations.reduce((best, e) =>
+    Math.abs(dte(e) - targetDays) < Math.abs(dte(best) - targetDays) ? e : best
+  )
+  const chain = contracts.filter((c) => c.expiration === front)
+
+  const atmCall = pickNearest(chain, 'call', spot)
+  const atmPut = pickNearest(chain, 'put', spot)
+
+  const legs = (() => {
+    switch (template) {
+      case 'long_call':
+        return [buy(atmCall)]
+      case 'long_put':
+        return [buy(atmPut)]
+      case 'bull_call_spread':
+        return [buy(atmCall), sell(pickBeyond(chain, 'call', spot + width, atmCall, 1))]
+      case 'bear_put_spread':
+        return [buy(atmPut), sell(pickBeyond(chain, 'put', spot - width, atmPut, -1))]
+      case 'bull_put_spread': {
+        const short = pickNearest(chain, 'put', spot - width)
+        return [sell(short), buy(pickBeyond(chain, 'put', spot - 2 * width, short, -1))]
+      }
+      case 'bear_call_spread': {
+        const short = pickNearest(chain, 'call', spot + width)
+        return [sell(short), buy(pickBeyond(chain, 'call', spot + 2 * width, short, 1))]
+      }
+      case 'straddle': {
+        // Same strike on both sides when the chain lists it
+        const put = atmCall ? (pickExact(chain, 'put', atmCall.strike) ?? atmPut) : atmPut
+        return [buy(atmCall), buy(put)]
+      }
+      case 'strangle':
+        return [buy(pickNearest(chain, 'put', spot - width)), buy(pickNearest(chain, 'call', spot + width))]
+      case 'iron_condor': {
+        const shortPut = pickNearest(chain, 'put', spot - width)
+        const shortCall = pickNearest(chain, 'call', spot + width)
+        return [
+          buy(pickBeyond(chain, 'put', spot - 2 * width, shortPut, -1)),
+          sell(shortPut),
+          sell(shortCall),
+          buy(pickBeyond(chain, 'call', spot + 2 * width, shortCall, 1)),
+        ]
+      }
+      case 'calendar': {
+        const back =
+          expirations.find((e) => dte(e) >= dte(front) + CALENDAR_GAP_DAYS) ?? expirations[expirations.length - 1]
+        if (back === front || !atmCall) return [null]
+        const backChain = contracts.filter((c) => c.expiration === back)
+        return [sell(atmCall), buy(pickExact(backChain, 'call', atmCall.strike))]
+      }
+    }
+  })()
+
+  return legs.every((leg): leg is StrategyLeg => leg !== null) ? legs : null
+}
+
+/**
+ * The slice of the chain a builder UI offers for editing: at each leg
+ * expiration, the `maxStrikes` strikes nearest spot plus every leg strike.
+ */
+export function chainAroundLegs(
+  contracts: StrategyContract[],
+  legs: StrategyLeg[],
+  spot: number,
+  maxStrikes = 16
+): StrategyContract[] {
+  const expirations = new Set(legs.map((l) => l.contract.expiration))
+  const legStrikes = new Set(legs.map((l) => l.contract.strike))
+
+  return Array.from(expirations).flatMap((expiration) => {
+    const chain = contracts.filter((c) => c.expiration === expiration)
+    const nearest = Array.from(new Set(chain.map((c) => c.strike)))
+      .sort((a, b) => Math.abs(a - spot) - Math.abs(b - spot))
+      .slice(0, maxStrikes)
+    const keep = new Set([...nearest, ...legStrikes])
+    return chain.filter((c) => keep.has(c.strike)).sort((a, b) => a.strike - b.strike)
+  })
+}
+
+function pickNearest(chain: StrategyContract[], type: 'call' | 'put', target: number): StrategyContract | null {
+  let best: StrategyContract | null = null
+  for (const c of chain) {
+    if (c.contractType !== type) continue
+    if (best === null || Math.abs(c.strike - target) < Math.abs(best.strike - target)) best = c
+  }
+  return best
+}
+
+function pickExact(chain: StrategyContract[], type: 'call' | 'put', strike: number): StrategyContract | null {
+  return chain.find((c) => c.contractType === type && c.strike === strike) ?? null
+}
+
+/**
+ * Wing leg: nearest to `target` among strikes strictly above (1) or below
+ * (-1) the body, so a sparse chain never collapses a spread to one strike.
+ */
+function pickBeyond(
+  chain: StrategyContract[],
+  type: 'call' | 'put',
+  target: number,
+  body: StrategyContract | null,
+  direction: 1 | -1
+): StrategyContract | null {
+  if (!body) return null
+  const wings = chain.filter((c) => (direction === 1 ? c.strike > body.strike : c.strike < body.strike))
+  return pickNearest(wings, type, target)
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function buy(contract: StrategyContract | null): StrategyLeg | null {
+  return contract ? createLeg(contract, 'buy') : null
+}
+
+function sell(contract: StrategyContract | null): StrategyLeg | null {
+  return contract ? createLeg(contract, 'sell') : null
+}
+
+function sideSign(side: LegSide): number {
+  return side === 'buy' ? 1 : -1
+}
+
+function linspace(from: number, to: number, count: number): number[] {
+  if (count < 2 || to <= from) return [from]
+  const step = (to - from) / (count - 1)
+  return Array.from({ length: count }, (_, i) => from + i * step)
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b)
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { buildIvSurface } from './surface'
+import type { OptionPosition } from './analytics'
+
+const now = new Date('2024-03-15T15:00:00Z')
+
+const contract = (
+  contractType: 'call' | 'put',
+  strike: number,
+  expiration: string,
+  impliedVolatility: number,
+  delta: number | null = null
+): OptionPosition => ({ contractType, strike, expiration, impliedVolatility, delta, openInterest: 100, gamma: null })
+
+describe('buildIvSurface', () => {
+  const chain = [
+    // Front month: steep put skew
+    contract('put', 90, '2024-04-19', 0.3, -0.2),
+    contract('put', 95, '2024-04-19', 0.24, -0.26),
+    contract('call', 100, '2024-04-19', 0.2, 0.52),
+    contract('put', 100, '2024-04-19', 0.21, -0.48),
+    contract('call', 105, '2024-04-19', 0.18, 0.24),
+    // Back month: higher ATM vol, no usable 25Δ call
+    contract('put', 95, '2024-06-21', 0.26, -0.3),
+    contract('call', 100, '2024-06-21', 0.23, 0.55),
+    contract('call', 110, '2024-06-21', 0.21, 0.45),
+    // Expired contracts are ignored
+    contract('call', 100, '2024-03-08', 0.5, 0.5),
+  ]
+
+  it('builds the ATM term structure and 25-delta skew per expiry', () => {
+    const surface = buildIvSurface(chain, 100, now)
+    expect(surface.expirations).toEqual(['2024-04-19', '2024-06-21'])
+
+    const [front, back] = surface.termStructure
+    expect(front.atmIv).toBeCloseTo(0.2) // Call side at the money strike
+    expect(front.put25Iv).toBe(0.24)
+    expect(front.call25Iv).toBe(0.18)
+    expect(front.skew25).toBeCloseTo(0.06)
+    expect(back.call25Iv).toBeNull()
+    expect(back.skew25).toBeNull()
+    expect(surface.shape).toBe('contango')
+  })
+
+  it('interpolates ATM IV between strikes and fills the OTM grid', () => {
+    const surface = buildIvSurface(chain, 102.5, now)
+    expect(surface.termStructure[0].atmIv).toBeCloseTo(0.195) // Midway between the 100 put (0.21) and 105 call (0.18)
+    expect(surface.strikes).toEqual([90, 95, 100, 105, 110])
+    // Row 0 = front month; 100 < spot so the put IV is used
+    expect(surface.grid[0]).toEqual([0.3, 0.24, 0.21, 0.18, null])
+  })
+
+  it('derives delta from IV when the provider sends none', () => {
+    const noDelta = chain.map((c) => ({ ...c, delta: null }))
+    const front = buildIvSurface(noDelta, 100, now).termStructure[0]
+    expect(front.put25Iv).not.toBeNull()
+    expect(front.call25Iv).not.toBeNull()
+  })
+})
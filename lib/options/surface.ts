@@ -0,0 +1,180 @@
+// =============================================================================
+// Implied Volatility Surface
+// =============================================================================
+// Aggregates per-contract IV across expirations:
+// - ATM term structure: IV interpolated at spot for each expiration
+// - 25-delta skew: IV of the ~25Δ put minus IV of the ~25Δ call (positive =
+//   downside protection is richer than upside calls)
+// - Strike x expiry grid for a heat-style surface
+//
+// Each (strike, expiry) uses the out-of-the-money side (puts below spot,
+// calls at/above), falling back to the other side when it is missing, which
+// is how desks quote a single smile.
+// =============================================================================
+
+import { blackScholesDelta, yearsToExpiry, type OptionPosition } from './analytics'
+
+export interface TermStructurePoint {
+  expiration: string
+  dte: number
+  atmIv: number | null
+  put25Iv: number | null
+  call25Iv: number | null
+  skew25: number | null // put25Iv - call25Iv, in IV decimals (0.05 = 5 vol points)
+}
+
+export interface IvSurface {
+  spot: number
+  expirations: string[] // Ascending; rows of `grid`
+  strikes: number[] // Ascending; columns of `grid`
+  grid: (number | null)[][]
+  termStructure: TermStructurePoint[]
+  shape: 'contango' | 'backwardation' | 'flat' | null // Front vs back ATM IV
+}
+
+export interface IvSurfaceOptions {
+  maxExpirations?: number // Default 8
+  maxStrikes?: number // Default 25, nearest to spot
+  strikeRange?: number // ± fraction of spot for the grid (default 0.15)
+}
+
+// Accept a 25Δ pick only if the nearest delta is within this distance
+const DELTA_TOLERANCE = 0.1
+
+// Front/back ATM IV difference (vol points) treated as a flat curve
+const FLAT_THRESHOLD = 0.005
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Build the surface from chain positions around `spot`.
+ */
+export function buildIvSurface(
+  positions: OptionPosition[],
+  spot: number,
+  now: Date = new Date(),
+  options: IvSurfaceOptions = {}
+): IvSurface {
+  const maxExpirations = options.maxExpirations ?? 8
+  const maxStrikes = options.maxStrikes ?? 25
+  const strikeRange = options.strikeRange ?? 0.15
+
+  const live = positions.filter((p) => p.impliedVolatility > 0 && yearsToExpiry(p.expiration, now) > 0)
+
+  const byExpiration = new Map<string, OptionPosition[]>()
+  for (const p of live) {
+    const list = byExpiration.get(p.expiration) ?? []
+    list.push(p)
+    byExpiration.set(p.expiration, list)
+  }
+  const expirations = Array.from(byExpiration.keys()).sort().slice(0, maxExpirations)
+
+  const termStructure = expirations.map((expiration) =>
+    termPoint(expiration, byExpiration.get(expiration) ?? [], spot, now)
+  )
+
+  // Grid columns: the strikes nearest spot within range, ascending
+  const strikes = Array.from(
+    new Set(
+      expirations.flatMap((e) => (byExpiration.get(e) ?? []).map((p) => p.strike))
+    )
+  )
+    .filter((k) => spot <= 0 || Math.abs(k - spot) / spot <= strikeRange)
+    .sort((a, b) => Math.abs(a - spot) - Math.abs(b - spot))
+    .slice(0, maxStrikes)
+    .sort((a, b) => a - b)
+
+  const grid = expirations.map((expiration) => {
+    const smile = otmSmile(byExpiration.get(expiration) ?? [], spot)
+    return strikes.map((k) => smile.get(k) ?? null)
+  })
+
+  return { spot, expirations, strikes, grid, termStructure, shape: curveShape(termStructure) }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function termPoint(expiration: string, contracts: OptionPosition[], spot: number, now: Date): TermStructurePoint {
+  const years = yearsToExpiry(expiration, now)
+  const put25 = nearestDelta(contracts.filter((c) => c.contractType === 'put'), -0.25, spot, years)
+  const call25 = nearestDelta(contracts.filter((c) => c.contractType === 'call'), 0.25, spot, years)
+
+  return {
+    expiration,
+    dte: Math.max(0, Math.ceil(years * 365)),
+    atmIv: interpolateAt(otmSmile(contracts, spot), spot),
+    put25Iv: put25,
+    call25Iv: call25,
+    skew25: put25 !== null && call25 !== null ? put25 - call25 : null,
+  }
+}
+
+/**
+ * One IV per strike: OTM side preferred (puts below spot, calls at/above).
+ */
+function otmSmile(contracts: OptionPosition[], spot: number): Map<number, number> {
+  const calls = new Map<number, number>()
+  const puts = new Map<number, number>()
+  for (const c of contracts) {
+    if (c.contractType === 'call') calls.set(c.strike, c.impliedVolatility)
+    else puts.set(c.strike, c.impliedVolatility)
+  }
+
+  const smile = new Map<number, number>()
+  for (const strike of new Set([...calls.keys(), ...puts.keys()])) {
+    const preferred = strike < spot ? puts.get(strike) : calls.get(strike)
+    const fallback = strike < spot ? calls.get(strike) : puts.get(strike)
+    const iv = preferred ?? fallback
+    if (iv !== undefined) smile.set(strike, iv)
+  }
+  return smile
+}
+
+/**
+ * Linear interpolation of the smile at `x`; clamps to the nearest wing.
+ */
+function interpolateAt(smile: Map<number, number>, x: number): number | null {
+  const strikes = Array.from(smile.keys()).sort((a, b) => a - b)
+  if (strikes.length === 0) return null
+
+  let below: number | null = null
+  let above: number | null = null
+  for (const k of strikes) {
+    if (k <= x) below = k
+    if (k >= x && above === null) above = k
+  }
+  if (below === null) return smile.get(strikes[0]) ?? null
+  if (above === null) return smile.get(strikes[strikes.length - 1]) ?? null
+  if (below === above) return smile.get(below) ?? null
+
+  const lo = smile.get(below) as number
+  const hi = smile.get(above) as number
+  return lo + ((hi - lo) * (x - below)) / (above - below)
+}
+
+/**
+ * IV of the contract whose delta is closest to `target`. Provider deltas are
+ * used when present (non-zero); otherwise delta is derived from the IV.
+ */
+function nearestDelta(contracts: OptionPosition[], target: number, spot: number, years: number): number | null {
+  let best: { distance: number; iv: number } | null = null
+  for (const c of contracts) {
+    const delta = c.delta || blackScholesDelta(c.contractType, spot, c.strike, years, c.impliedVolatility)
+    if (delta === null) continue
+    const distance = Math.abs(delta - target)
+    if (best === null || distance < best.distance) best = { distance, iv: c.impliedVolatility }
+  }
+  return best && best.distance <= DELTA_TOLERANCE ? best.iv : null
+}
+
+function curveShape(term: TermStructurePoint[]): IvSurface['shape'] {
+  const points = term.filter((t) => t.atmIv !== null)
+  if (points.length < 2) return null
+  const diff = (points[points.length - 1].atmIv as number) - (points[0].atmIv as number)
+  if (Math.abs(diff) < FLAT_THRESHOLD) return 'flat'
+  return diff > 0 ? 'contango' : 'backwardation'
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { scanUnusualOptions, trailingVolumes, DEFAULT_UNUSUAL_CRITERIA, type OptionActivity } from './unusual'
+
+const now = new Date('2024-03-15T15:00:00Z')
+
+const activity = (overrides: Partial<OptionActivity>): OptionActivity => ({
+  ticker: 'O:TEST240419C00110000',
+  underlying: 'TEST',
+  contractType: 'call',
+  strike: 110,
+  expiration: '2024-04-19',
+  volume: 0,
+  openInterest: 10_000,
+  bid: 0.95,
+  ask: 1.05,
+  last: 1,
+  impliedVolatility: 0.3,
+  ...overrides,
+})
+
+describe('scanUnusualOptions', () => {
+  it('flags volume well above open interest, including brand-new strikes', () => {
+    const flagged = scanUnusualOptions(
+      [
+        activity({ ticker: 'A', volume: 5_000, openInterest: 1_000 }),
+        activity({ ticker: 'B', volume: 500, openInterest: 0 }),
+        activity({ ticker: 'C', volume: 1_500, openInterest: 1_000 }),
+        activity({ ticker: 'D', volume: 50, openInterest: 0 }), // Below the volume floor
+      ],
+      100,
+      new Map(),
+      now
+    )
+    expect(flagged.map((c) => [c.ticker, c.volumeOiRatio])).toEqual([
+      ['A', 5],
+      ['B', null],
+    ])
+    expect(flagged[0].reasons).toEqual(['volume_oi'])
+    expect(flagged[0].otmPct).toBe(10)
+  })
+
+  it('flags spikes against the stored trailing average', () => {
+    const trailing = new Map([
+      ['A', { average: 200, samples: 10 }],
+      ['B', { average: 200, samples: 2 }], // Too little history
+    ])
+    const flagged = scanUnusualOptions(
+      [activity({ ticker: 'A', volume: 1_200 }), activity({ ticker: 'B', volume: 1_200 })],
+      100,
+      trailing,
+      now
+    )
+    expect(flagged).toHaveLength(1)
+    expect(flagged[0]).toMatchObject({ ticker: 'A', volumeMultiple: 6, reasons: ['volume_spike'] })
+  })
+
+  it('flags large premium only on short-dated out-of-the-money strikes', () => {
+    // 3,000 x $10 x 100 = $3M traded
+    const big = { volume: 3_000, bid: 9.5, ask: 10.5, last: 10 }
+    const flagged = scanUnusualOptions(
+      [
+        activity({ ...big, ticker: 'OTM_SHORT', expiration: '2024-03-22' }),
+        activity({ ...big, ticker: 'ITM_SHORT', expiration: '2024-03-22', strike: 90 }),
+        activity({ ...big, ticker: 'OTM_LONG', expiration: '2024-06-21' }),
+        activity({ ...big, ticker: 'OTM_PUT', contractType: 'put', strike: 95, expiration: '2024-03-22' }),
+      ],
+      100,
+      new Map(),
+      now,
+      DEFAULT_UNUSUAL_CRITERIA
+    )
+    expect(flagged.map((c) => c.ticker).sort()).toEqual(['OTM_PUT', 'OTM_SHORT'])
+    expect(flagged[0].premium).toBe(3_000_000)
+    expect(flagged[0].dte).toBe(7)
+  })
+})
+
+describe('trailingVolumes', () => {
+  it('counts sessions without a row as zero volume', () => {
+    const averages = trailingVolumes([
+      { ticker: 'A', date: '2024-03-12', volume: 300 },
+      { ticker: 'A', date: '2024-03-13', volume: 300 },
+      { ticker: 'B', date: '2024-03-14', volume: 90 },
+    ])
+    expect(averages.get('A')).toEqual({ average: 200, samples: 3 })
+    expect(averages.get('B')).toEqual({ average: 30, samples: 3 })
+  })
+})
@@ -0,0 +1,166 @@
+// =============================================================================
+// Unusual Options Activity
+// =============================================================================
+// Flags contracts whose trading stands out from their own positioning:
+// - volume_oi: session volume at least `minVolumeOiRatio` x open interest
+//   (or any real volume on a strike with no open interest) - fresh positions
+// - volume_spike: volume at least `spikeMultiple` x the contract's stored
+//   trailing average daily volume
+// - large_premium: at least `minPremium` dollars (volume x mid x 100) on an
+//   out-of-the-money strike expiring within `maxDte` days - the classic
+//   directional "sweep" footprint
+// Every flag also requires `minVolume` contracts so thin strikes don't trip it.
+// =============================================================================
+
+import { yearsToExpiry } from './analytics'
+
+export type UnusualReason = 'volume_oi' | 'volume_spike' | 'large_premium'
+
+export interface OptionActivity {
+  ticker: string
+  underlying: string
+  contractType: 'call' | 'put'
+  strike: number
+  expiration: string // YYYY-MM-DD
+  volume: number
+  openInterest: number
+  bid: number
+  ask: number
+  last: number
+  impliedVolatility: number
+}
+
+export interface TrailingVolume {
+  average: number
+  samples: number
+}
+
+export interface UnusualOptionsCriteria {
+  minVolume: number
+  minVolumeOiRatio: number
+  spikeMultiple: number
+  minPremium: number
+  maxDte: number
+}
+
+export interface UnusualContract {
+  ticker: string
+  underlying: string
+  contractType: 'call' | 'put'
+  strike: number
+  expiration: string
+  dte: number
+  spot: number
+  otmPct: number // Distance out of the money in %, negative when in the money
+  volume: number
+  openInterest: number
+  volumeOiRatio: number | null // Null when open interest is zero
+  averageVolume: number | null // Null without enough stored history
+  volumeMultiple: number | null
+  premium: number // Dollars traded today
+  impliedVolatility: number
+  reasons: UnusualReason[]
+}
+
+export const DEFAULT_UNUSUAL_CRITERIA: UnusualOptionsCriteria = {
+  minVolume: 100,
+  minVolumeOiRatio: 2,
+  spikeMultiple: 5,
+  minPremium: 250_000,
+  maxDte: 14,
+}
+
+// Trailing averages from fewer sessions than this are ignored
+export const MIN_AVERAGE_SAMPLES = 3
+
+const CONTRACT_MULTIPLIER = 100
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Flag unusual contracts on one underlying. Results are sorted by premium,
+ * largest first.
+ */
+export function scanUnusualOptions(
+  contracts: OptionActivity[],
+  spot: number,
+  trailing: Map<string, TrailingVolume>,
+  now: Date = new Date(),
+  criteria: UnusualOptionsCriteria = DEFAULT_UNUSUAL_CRITERIA
+): UnusualContract[] {
+  const flagged: UnusualContract[] = []
+
+  for (const c of contracts) {
+    if (c.volume < criteria.minVolume) continue
+
+    const dte = Math.max(0, Math.floor(yearsToExpiry(c.expiration, now) * 365)) // 0 on expiration day
+    const otmPct = spot > 0 ? ((c.contractType === 'call' ? c.strike - spot : spot - c.strike) / spot) * 100 : 0
+    const premium = c.volume * contractMid(c) * CONTRACT_MULTIPLIER
+
+    const volumeOiRatio = c.openInterest > 0 ? c.volume / c.openInterest : null
+    const history = trailing.get(c.ticker)
+    const averageVolume = history && history.samples >= MIN_AVERAGE_SAMPLES ? history.average : null
+    const volumeMultiple = averageVolume !== null ? c.volume / Math.max(averageVolume, 1) : null
+
+    const reasons: UnusualReason[] = []
+    if (volumeOiRatio === null || volumeOiRatio >= criteria.minVolumeOiRatio) reasons.push('volume_oi')
+    if (volumeMultiple !== null && volumeMultiple >= criteria.spikeMultiple) reasons.push('volume_spike')
+    if (premium >= criteria.minPremium && dte <= criteria.maxDte && otmPct > 0) reasons.push('large_premium')
+    if (reasons.length === 0) continue
+
+    flagged.push({
+      ticker: c.ticker,
+      underlying: c.underlying,
+      contractType: c.contractType,
+      strike: c.strike,
+      expiration: c.expiration,
+      dte,
+      spot,
+      otmPct: round(otmPct),
+      volume: c.volume,
+      openInterest: c.openInterest,
+      volumeOiRatio: volumeOiRatio === null ? null : round(volumeOiRatio),
+      averageVolume: averageVolume === null ? null : round(averageVolume),
+      volumeMultiple: volumeMultiple === null ? null : round(volumeMultiple),
+      premium: Math.round(premium),
+      impliedVolatility: c.impliedVolatility,
+      reasons,
+    })
+  }
+
+  return flagged.sort((a, b) => b.premium - a.premium)
+}
+
+/**
+ * Mean daily volume per contract over the stored sessions of one underlying.
+ * Only traded contracts are stored, so a session without a row for a
+ * contract counts as zero volume.
+ */
+export function trailingVolumes(rows: Array<{ ticker: string; date: string; volume: number }>): Map<string, TrailingVolume> {
+  const sessions = new Set(rows.map((row) => row.date)).size
+  const totals = new Map<string, number>()
+  for (const row of rows) {
+    totals.set(row.ticker, (totals.get(row.ticker) ?? 0) + row.volume)
+  }
+
+  const out = new Map<string, TrailingVolume>()
+  for (const [ticker, total] of totals) {
+    out.set(ticker, { average: total / sessions, samples: sessions })
+  }
+  return out
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function contractMid(c: OptionActivity): number {
+  if (c.bid > 0 && c.ask > 0) return (c.bid + c.ask) / 2
+  return c.last || c.ask || c.bid || 0
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,92 @@
+// =============================================================================
+// User Preferences
+// =============================================================================
+// Thin accessors over the UserPreferences table. Rows are keyed by User.id, or
+// by DEFAULT_USER_ID when auth is disabled (see lib/auth/session.ts).
+// =============================================================================
+
+import { parseTraderConfigOverrides, type TraderConfigOverrides } from '@/lib/trader-config'
+
+export const DEFAULT_USER_ID = 'local'
+
+export interface UserPreferencesData {
+  userId: string
+  defaultSymbols: string
+  defaultLookback: number
+  defaultBasis: 'close' | 'intraday'
+  darkMode: boolean
+  alertsEnabled: boolean
+  traderConfig: TraderConfigOverrides | null
+}
+
+export type UserPreferencesUpdate = Partial<Omit<UserPreferencesData, 'userId'>>
+
+const DEFAULT_PREFERENCES: Omit<UserPreferencesData, 'userId'> = {
+  defaultSymbols: 'SPY,QQQ,IWM,VIX',
+  defaultLookback: 63,
+  defaultBasis: 'close',
+  darkMode: true,
+  alertsEnabled: false,
+  traderConfig: null,
+}
+
+function fromRow(row: {
+  userId: string
+  defaultSymbols: string
+  defaultLookback: number
+  defaultBasis: string
+  darkMode: boolean
+  alertsEnabled: boolean
+  traderConfig?: string | null
+}): UserPreferencesData {
+  return {
+    userId: row.userId,
+    defaultSymbols: row.defaultSymbols,
+    defaultLookback: row.defaultLookback,
+    defaultBasis: row.defaultBasis === 'intraday' ? 'intraday' : 'close',
+    darkMode: row.darkMode,
+    alertsEnabled: row.alertsEnabled,
+    traderConfig: parseTraderConfigOverrides(row.traderConfig),
+  }
+}
+
+/**
+ * Load preferences for a user, falling back to schema defaults when no row
+ * exists, the database is not configured, or there is no user (signed out).
+ */
+export async function getUserPreferences(
+  userId: string | null = DEFAULT_USER_ID
+): Promise<UserPreferencesData> {
+  if (!userId || !process.env.DATABASE_URL) {
+    return { userId: userId ?? DEFAULT_USER_ID, ...DEFAULT_PREFERENCES }
+  }
+
+  const { prisma } = await import('@/lib/prisma')
+  const row = await prisma.userPreferences.findUnique({ where: { userId } })
+  return row ? fromRow(row) : { userId, ...DEFAULT_PREFERENCES }
+}
+
+/**
+ * Create or update preferences for a user.
+ */
+export async function updateUserPreferences(
+  update: UserPreferencesUpdate,
+  userId = DEFAULT_USER_ID
+): Promise<UserPreferencesData> {
+  const { traderConfig, ...rest } = update
+  const data = {
+    ...rest,
+    // Store overrides as JSON; an explicit null resets to defaults
+    ...(traderConfig !== undefined && {
+      traderConfig: traderConfig && Object.keys(traderConfig).length > 0 ? JSON.stringify(traderConfig) : null,
+    }),
+  }
+
+  const { prisma } = await import('@/lib/prisma')
+  const row = await prisma.userPreferences.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  })
+  return fromRow(row)
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkRateLimit,
+  MemoryRateLimitStore,
+  parseApiKeyTiers,
+  resolveRateLimitIdentity,
+  type RateLimitStore,
+} from './rate-limit'
+
+const CONFIG = { windowMs: 60_000, maxRequests: 3 }
+const WINDOW = 60_000 * 1000 // Any start time
+
+describe('checkRateLimit', () => {
+  it('rejects past the limit without counting the rejected request', async () => {
+    const store = new MemoryRateLimitStore()
+    for (let i = 0; i < 3; i++) {
+      expect((await checkRateLimit('a', CONFIG, store, WINDOW + i)).allowed).toBe(true)
+    }
+
+    const rejected = await checkRateLimit('a', CONFIG, store, WINDOW + 10)
+    expect(rejected.allowed).toBe(false)
+    expect(rejected.retryAfterMs).toBeGreaterThan(0)
+
+    // Other keys are unaffected
+    expect((await checkRateLimit('b', CONFIG, store, WINDOW + 10)).allowed).toBe(true)
+  })
+
+  it('counts each hit for exactly one window, with no boundary reset', async () => {
+    const store = new MemoryRateLimitStore()
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit('a', CONFIG, store, WINDOW + 59_000)
+    }
+
+    // Still inside the trailing minute, whatever the clock boundaries
+    expect((await checkRateLimit('a', CONFIG, store, WINDOW + 61_000)).allowed).toBe(false)
+    expect((await checkRateLimit('a', CONFIG, store, WINDOW + 118_999)).allowed).toBe(false)
+
+    const later = await checkRateLimit('a', CONFIG, store, WINDOW + 119_000)
+    expect(later.allowed).toBe(true)
+    expect(later.remaining).toBe(2)
+  })
+
+  it('frees one slot as each hit slides out', async () => {
+    const store = new MemoryRateLimitStore()
+    for (const offset of [0, 20_000, 40_000]) {
+      await checkRateLimit('a', CONFIG, store, WINDOW + offset)
+    }
+
+    const rejected = await checkRateLimit('a', CONFIG, store, WINDOW + 50_000)
+    expect(rejected.allowed).toBe(false)
+    // The oldest hit slides out at WINDOW + 60s
+    expect(rejected.retryAfterMs).toBe(10_000)
+
+    const freed = await checkRateLimit('a', CONFIG, store, rejected.resetAt)
+    expect(freed.allowed).toBe(true)
+    expect(freed.remaining).toBe(0)
+    expect(freed.resetAt).toBe(WINDOW + 80_000)
+
+    expect((await checkRateLimit('a', CONFIG, store, WINDOW + 79_999)).allowed).toBe(false)
+    expect((await checkRateLimit('a', CONFIG, store, WINDOW + 80_000)).allowed).toBe(true)
+  })
+
+  it('falls back to memory when the store fails', async () => {
+    const broken: RateLimitStore = {
+      record: async () => {
+        throw new Error('connection refused')
+      },
+    }
+    const result = await checkRateLimit('fallback-test', CONFIG, broken, WINDOW)
+    expect(result.allowed).toBe(true)
+    expect(result.remaining).toBe(2)
+  })
+})
+
+describe('API key tiers', () => {
+  it('parses tier:key entries and ignores unknown tiers', () => {
+    const tiers = parseApiKeyTiers('pro:abc, internal:def,gold:ghi,broken')
+    expect([...tiers.entries()]).toEqual([
+      ['abc', 'pro'],
+      ['def', 'internal'],
+    ])
+  })
+
+  it('limits known keys per key and everything else per IP', () => {
+    const tiers = parseApiKeyTiers('pro:abc')
+    const headers = { 'x-forwarded-for': '1.2.3.4' }
+
+    const keyed = resolveRateLimitIdentity(
+      new Request('http://localhost/api/sectors', { headers: { ...headers, 'x-api-key': 'abc' } }),
+      tiers
+    )
+    expect(keyed.tier).toBe('pro')
+    expect(keyed.id).toMatch(/^key:[0-9a-f]{16}$/)
+
+    const unknown = resolveRateLimitIdentity(
+      new Request('http://localhost/api/sectors', { headers: { ...headers, 'x-api-key': 'nope' } }),
+      tiers
+    )
+    expect(unknown).toEqual({ id: 'ip:1.2.3.4', tier: 'free' })
+  })
+})
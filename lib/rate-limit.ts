@@ -1,8 +1,13 @@
 // =============================================================================
 // Tucson Trader - Rate Limiting
-// In-memory rate limiter with sliding window
+// Sliding-log rate limiter over a pluggable store: Postgres (RateLimitEntry)
+// when DATABASE_URL is set so limits hold across deploys and instances,
+// in-memory otherwise
 // =============================================================================
 
+import { hashToken } from '@/lib/auth/crypto'
+import { logger } from '@/lib/logger'
+
 export interface RateLimitConfig {
   windowMs: number // Time window in milliseconds
   maxRequests: number // Max requests per window
@@ -16,73 +21,167 @@ export interface RateLimitResult {
 }
 
 // =============================================================================
-// In-Memory Store
+// Stores
 // =============================================================================
 
-interface RateLimitEntry {
-  count: number
-  windowStart: number
+export interface SlidingLog {
+  allowed: boolean // Whether this request was recorded
+  hits: number[] // Timestamps of the key's hits in the trailing window, oldest first
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>()
+/**
+ * Sliding log of accepted requests per key. A store must check and record
+ * atomically per key, so concurrent requests can't both take the last slot.
+ */
+export interface RateLimitStore {
+  /**
+   * Record a hit for `key` at `now` if fewer than `maxRequests` hits fall in
+   * the trailing `windowMs`. Returns at most `maxRequests` of the newest hits
+   * in the window, including this one when it was recorded.
+   */
+  record(key: string, now: number, config: RateLimitConfig): Promise<SlidingLog>
+}
 
-// Cleanup old entries every 5 minutes
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    const now = Date.now()
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (now - entry.windowStart > 3600000) {
-        // 1 hour expiry
-        rateLimitStore.delete(key)
+// Hits older than this are dropped by both stores
+const ENTRY_TTL_MS = 3600000 // 1 hour
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly logs = new Map<string, number[]>()
+
+  async record(key: string, now: number, { windowMs, maxRequests }: RateLimitConfig): Promise<SlidingLog> {
+    const hits = (this.logs.get(key) ?? []).filter((at) => at > now - windowMs).slice(-maxRequests)
+    const allowed = hits.length < maxRequests
+    if (allowed) hits.push(now)
+    this.logs.set(key, hits)
+    return { allowed, hits: [...hits] }
+  }
+
+  prune(now = Date.now()): void {
+    for (const [key, hits] of this.logs.entries()) {
+      if (hits.length === 0 || now - hits[hits.length - 1] > ENTRY_TTL_MS) {
+        this.logs.delete(key)
       }
     }
-  }, 300000) // 5 minutes
+  }
+}
+
+// Postgres prunes stale hits itself at most this often
+const DB_PRUNE_INTERVAL_MS = 600000 // 10 minutes
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPrunedAt = 0
+
+  async record(key: string, now: number, { windowMs, maxRequests }: RateLimitConfig): Promise<SlidingLog> {
+    const { prisma } = await import('@/lib/prisma')
+
+    const log = await prisma.$transaction(async (tx: Pick<typeof prisma, 'rateLimitEntry' | '$executeRaw'>) => {
+      // Serializes checks for this key across instances until the transaction ends
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`
+
+      const newest: { hitAt: Date }[] = await tx.rateLimitEntry.findMany({
+        where: { key, hitAt: { gt: new Date(now - windowMs) } },
+        orderBy: { hitAt: 'desc' },
+        take: maxRequests,
+        select: { hitAt: true },
+      })
+      const hits = newest.map((row) => row.hitAt.getTime()).reverse()
+
+      if (hits.length >= maxRequests) return { allowed: false, hits }
+      await tx.rateLimitEntry.create({ data: { key, hitAt: new Date(now) } })
+      return { allowed: true, hits: [...hits, now] }
+    })
+
+    this.prune(now)
+
+    return log
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < DB_PRUNE_INTERVAL_MS) return
+    this.lastPrunedAt = now
+
+    import('@/lib/prisma')
+      .then(({ prisma }) =>
+        prisma.rateLimitEntry.deleteMany({ where: { hitAt: { lt: new Date(now - ENTRY_TTL_MS) } } })
+      )
+      .catch((error: unknown) => {
+        logger.warn('Rate limit cleanup failed', { error: error instanceof Error ? error.message : 'Unknown error' })
+      })
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore()
+
+// Cleanup old entries every 5 minutes
+if (typeof setInterval !== 'undefined') {
+  const timer = setInterval(() => memoryStore.prune(), 300000)
+  timer.unref?.()
+}
+
+let databaseStore: PostgresRateLimitStore | null = null
+
+/**
+ * Postgres when DATABASE_URL is set, otherwise the per-process memory store.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!process.env.DATABASE_URL) return memoryStore
+  databaseStore ??= new PostgresRateLimitStore()
+  return databaseStore
 }
 
 // =============================================================================
 // Rate Limiter
 // =============================================================================
 
-export function checkRateLimit(
+/**
+ * Sliding-window check over the exact hit timestamps: a request is allowed
+ * when fewer than `maxRequests` accepted requests fall in the trailing
+ * `windowMs`. Rejected requests are not counted. If the store fails, the
+ * memory store takes over so an outage never blocks (or unthrottles) every
+ * request.
+ */
+export async function checkRateLimit(
   key: string,
-  config: RateLimitConfig
-): RateLimitResult {
-  const now = Date.now()
-  const entry = rateLimitStore.get(key)
-
-  // No existing entry or window expired - create new window
-  if (!entry || now - entry.windowStart >= config.windowMs) {
-    rateLimitStore.set(key, {
-      count: 1,
-      windowStart: now,
+  config: RateLimitConfig,
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  try {
+    return await slidingWindowCheck(store, key, config, now)
+  } catch (error) {
+    if (store === memoryStore) throw error
+    logger.warn('Rate limit store unavailable, using memory', {
+      error: error instanceof Error ? error.message : 'Unknown error',
     })
-
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetAt: now + config.windowMs,
-    }
+    return slidingWindowCheck(memoryStore, key, config, now)
   }
+}
 
-  // Within window - check if limit exceeded
-  if (entry.count >= config.maxRequests) {
-    const resetAt = entry.windowStart + config.windowMs
+async function slidingWindowCheck(
+  store: RateLimitStore,
+  key: string,
+  config: RateLimitConfig,
+  now: number
+): Promise<RateLimitResult> {
+  const { windowMs, maxRequests } = config
+  const { allowed, hits } = await store.record(key, now, config)
+
+  if (!allowed) {
+    // A slot opens once the oldest hit still holding one slides out
+    const freesAt = hits[Math.max(0, hits.length - maxRequests)] + windowMs
+    const retryAfterMs = Math.max(0, freesAt - now)
     return {
       allowed: false,
       remaining: 0,
-      resetAt,
-      retryAfterMs: resetAt - now,
+      resetAt: now + retryAfterMs,
+      retryAfterMs,
     }
   }
 
-  // Increment count
-  entry.count++
-  rateLimitStore.set(key, entry)
-
   return {
     allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetAt: entry.windowStart + config.windowMs,
+    remaining: Math.max(0, maxRequests - hits.length),
+    resetAt: hits[0] + windowMs,
   }
 }
 
@@ -116,6 +215,69 @@ export const RATE_LIMITS = {
   } as RateLimitConfig,
 } as const
 
+// =============================================================================
+// API Key Tiers
+// =============================================================================
+
+export type RateLimitTier = 'free' | 'pro' | 'internal'
+
+// Multiplier applied to every preset's maxRequests
+export const RATE_LIMIT_TIERS: Record<RateLimitTier, number> = {
+  free: 1, // Anonymous callers, limited per IP
+  pro: 5,
+  internal: 50,
+}
+
+export interface RateLimitIdentity {
+  id: string // Store key prefix: "ip:<address>" or "key:<hash>"
+  tier: RateLimitTier
+}
+
+/**
+ * Parse RATE_LIMIT_API_KEYS ("pro:abc123,internal:def456") into key -> tier.
+ * Entries with an unknown tier are ignored.
+ */
+export function parseApiKeyTiers(value: string | undefined): Map<string, RateLimitTier> {
+  const tiers = new Map<string, RateLimitTier>()
+  for (const entry of (value || '').split(',')) {
+    const separator = entry.indexOf(':')
+    if (separator < 0) continue
+    const tier = entry.slice(0, separator).trim()
+    const key = entry.slice(separator + 1).trim()
+    if (key && tier in RATE_LIMIT_TIERS) {
+      tiers.set(key, tier as RateLimitTier)
+    }
+  }
+  return tiers
+}
+
+let cachedTiers: { source: string | undefined; tiers: Map<string, RateLimitTier> } | null = null
+
+function apiKeyTiers(): Map<string, RateLimitTier> {
+  const source = process.env.RATE_LIMIT_API_KEYS
+  if (!cachedTiers || cachedTiers.source !== source) {
+    cachedTiers = { source, tiers: parseApiKeyTiers(source) }
+  }
+  return cachedTiers.tiers
+}
+
+/**
+ * Requests with a known `x-api-key` are limited per key at that key's tier;
+ * everything else (including unknown keys) is limited per IP.
+ */
+export function resolveRateLimitIdentity(
+  request: Request,
+  tiers: Map<string, RateLimitTier> = apiKeyTiers()
+): RateLimitIdentity {
+  const apiKey = request.headers.get('x-api-key')?.trim()
+  const tier = apiKey ? tiers.get(apiKey) : undefined
+  if (apiKey && tier) {
+    // Never store raw keys
+    return { id: `key:${hashToken(apiKey).slice(0, 16)}`, tier }
+  }
+  return { id: `ip:${getClientIP(request)}`, tier: 'free' }
+}
+
 // =============================================================================
 // IP Extraction Helper
 // =============================================================================
@@ -142,19 +304,21 @@ export function getClientIP(request: Request): string {
 
 import { NextResponse } from 'next/server'
 
-export function withRateLimit(
+export async function withRateLimit(
   request: Request,
   config: RateLimitConfig = RATE_LIMITS.standard
-): RateLimitResult & { response?: NextResponse } {
-  const ip = getClientIP(request)
+): Promise<RateLimitResult & { limit: number; response?: NextResponse }> {
+  const identity = resolveRateLimitIdentity(request)
   const path = new URL(request.url).pathname
-  const key = `${ip}:${path}`
+  const key = `${identity.id}:${path}`
+  const limit = config.maxRequests * RATE_LIMIT_TIERS[identity.tier]
 
-  const result = checkRateLimit(key, config)
+  const result = await checkRateLimit(key, { ...config, maxRequests: limit })
 
   if (!result.allowed) {
     return {
       ...result,
+      limit,
       response: NextResponse.json(
         {
           error: 'Too many requests',
@@ -165,7 +329,7 @@ export function withRateLimit(
           status: 429,
           headers: {
             'Retry-After': String(Math.ceil((result.retryAfterMs || 0) / 1000)),
-            'X-RateLimit-Limit': String(config.maxRequests),
+            'X-RateLimit-Limit': String(limit),
             'X-RateLimit-Remaining': '0',
             'X-RateLimit-Reset': String(result.resetAt),
           },
@@ -174,7 +338,7 @@ export function withRateLimit(
     }
   }
 
-  return result
+  return { ...result, limit }
 }
 
 // =============================================================================
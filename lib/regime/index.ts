@@ -0,0 +1,6 @@
+// =============================================================================
+// Risk Regime Module - Public Exports
+// =============================================================================
+
+export * from './model'
+export * from './run'
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import type { DailyBar } from '@/lib/massive-api'
+import { computeRegimeModel, resolveRegimeModelConfig } from './model'
+
+const DATES = Array.from({ length: 80 }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10))
+
+function bars(closes: number[]): DailyBar[] {
+  return closes.map((close, i) => ({ date: DATES[i], open: close, high: close, low: close, close, volume: 0 }))
+}
+
+const RISING = bars(DATES.map((_, i) => 100 + i))
+const TREND_ONLY = { trend: { symbols: ['SPY'], highLookback: 5 } }
+
+describe('resolveRegimeModelConfig', () => {
+  it('keeps defaults for undefined overrides', () => {
+    const config = resolveRegimeModelConfig({ weights: { credit: undefined, dollar: 0 }, confirmDays: 3 })
+
+    expect(config.weights.credit).toBe(1.5)
+    expect(config.weights.dollar).toBe(0)
+    expect(config.confirmDays).toBe(3)
+  })
+})
+
+describe('computeRegimeModel', () => {
+  it('blends available factors and renormalizes the weights', () => {
+    const result = computeRegimeModel(
+      {
+        bars: {
+          SPY: RISING,
+          // Backwardated: VIX above VIX3M
+          VIX: bars(DATES.map(() => 30)),
+          VIX3M: bars(DATES.map(() => 25)),
+        },
+      },
+      { ...TREND_ONLY, weights: { trend: 1, volatility: 1 } }
+    )
+
+    const latest = result.points[result.points.length - 1]
+    expect(latest.factors).toMatchObject({ trend: 1, volatility: -1, credit: null, breadth: null })
+    expect(latest.composite).toBe(0)
+    expect(latest.regime).toBe('mixed')
+    expect(result.points[0].date).toBe(DATES[4])
+  })
+
+  it('only changes regime once the new reading holds, dating it from the first print', () => {
+    // Rally, a one-day dip, then a slide
+    const closes = DATES.map((_, i) => (i < 40 ? 100 + i : i === 40 ? 130 : i < 50 ? 139 + (i - 40) * 0.1 : 120 - i))
+    const result = computeRegimeModel({ bars: { SPY: bars(closes) } }, TREND_ONLY, 40)
+
+    expect(result.points.find((p) => p.date === DATES[40])?.regime).toBe('risk_on')
+
+    const firstOff = closes.findIndex((close, i) => i > 45 && close < 130)
+    expect(result.points.find((p) => p.date === DATES[firstOff])?.regime).toBe('risk_on')
+    expect(result.points.find((p) => p.date === DATES[firstOff + 1])?.regime).toBe('risk_off')
+
+    expect(result.points).toHaveLength(40)
+    expect(result.current).toMatchObject({
+      regime: 'risk_off',
+      since: DATES[firstOff],
+      sessions: DATES.length - firstOff,
+      truncated: false,
+    })
+  })
+})
@@ -0,0 +1,364 @@
+// =============================================================================
+// Multi-Factor Risk Regime Model
+// =============================================================================
+// Scores six factors every session on a -1 (risk-off) to +1 (risk-on) scale
+// and blends them into a weighted composite:
+//
+// - trend: % from the rolling high of the index ETFs (SPY/QQQ/IWM)
+// - credit: high yield vs investment grade (HYG/LQD) against its average
+// - rates: long Treasuries (TLT) against their average; a bid for duration
+//   reads as a flight to safety
+// - dollar: UUP against its average; a rising dollar tightens conditions
+// - breadth: % of a universe at new highs minus % at new lows
+// - volatility: VIX / VIX3M term structure; backwardation is stress
+//
+// Factors without data on a session drop out and the remaining weights are
+// renormalized. A regime change has to hold for `confirmDays` sessions, so
+// one noisy print doesn't reset how long the regime has lasted.
+// =============================================================================
+
+import type { DailyBar, RiskRegime } from '@/lib/massive-api'
+import type { BreadthSeries } from '@/lib/breadth/compute'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const REGIME_FACTOR_IDS = ['trend', 'credit', 'rates', 'dollar', 'breadth', 'volatility'] as const
+export type RegimeFactorId = (typeof REGIME_FACTOR_IDS)[number]
+
+export interface RegimeTrendConfig {
+  symbols: string[]
+  highLookback: number // Sessions in the rolling high
+  bullishBelow: number // % from high scored +1
+  bearishAbove: number // % from high scored -1
+}
+
+export interface RegimeAverageConfig {
+  period: number // SMA the value is compared against
+  scalePct: number // % above/below the SMA scored +/-1
+  invert: boolean // Rising is risk-off
+}
+
+export interface RegimeModelConfig {
+  weights: Record<RegimeFactorId, number> // 0 disables a factor
+  trend: RegimeTrendConfig
+  credit: RegimeAverageConfig & { numerator: string; denominator: string }
+  rates: RegimeAverageConfig & { symbol: string }
+  dollar: RegimeAverageConfig & { symbol: string }
+  breadth: { universe: string; lookback: number; scalePct: number }
+  volatility: { front: string; back: string; contango: number; backwardation: number }
+  thresholds: {
+    riskOn: number // Composite at or above
+    riskOff: number // Composite at or below
+    conflict: number // Factor scores this far apart on both sides make it mixed
+  }
+  confirmDays: number
+}
+
+export interface RegimeModelConfigOverrides {
+  weights?: Partial<RegimeModelConfig['weights']>
+  trend?: Partial<RegimeModelConfig['trend']>
+  credit?: Partial<RegimeModelConfig['credit']>
+  rates?: Partial<RegimeModelConfig['rates']>
+  dollar?: Partial<RegimeModelConfig['dollar']>
+  breadth?: Partial<RegimeModelConfig['breadth']>
+  volatility?: Partial<RegimeModelConfig['volatility']>
+  thresholds?: Partial<RegimeModelConfig['thresholds']>
+  confirmDays?: number
+}
+
+export interface RegimePoint {
+  date: string
+  regime: RiskRegime // Confirmed regime
+  composite: number // -1 to 1
+  confidence: number // 0-100
+  factors: Record<RegimeFactorId, number | null> // null when the factor had no data
+  sessionsInRegime: number // Including this session
+}
+
+export interface RegimeState {
+  regime: RiskRegime
+  since: string // First session of the current regime
+  sessions: number
+  truncated: boolean // Regime held since the first modeled session; `sessions` is a floor
+  composite: number
+  confidence: number
+  factors: Record<RegimeFactorId, number | null>
+}
+
+export interface RegimeModelResult {
+  config: RegimeModelConfig
+  points: RegimePoint[] // Ascending
+  current: RegimeState | null
+}
+
+export interface RegimeInputs {
+  bars: Record<string, DailyBar[]> // Ascending, by symbol
+  breadth?: BreadthSeries | null
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_REGIME_MODEL_CONFIG: RegimeModelConfig = {
+  weights: { trend: 2, credit: 1.5, rates: 0.5, dollar: 0.5, breadth: 1, volatility: 1.5 },
+  trend: { symbols: ['SPY', 'QQQ', 'IWM'], highLookback: 21, bullishBelow: 2, bearishAbove: 5 },
+  credit: { numerator: 'HYG', denominator: 'LQD', period: 50, scalePct: 1, invert: false },
+  rates: { symbol: 'TLT', period: 50, scalePct: 3, invert: true },
+  dollar: { symbol: 'UUP', period: 50, scalePct: 2, invert: true },
+  breadth: { universe: 'spy', lookback: 21, scalePct: 20 },
+  volatility: { front: 'VIX', back: 'VIX3M', contango: 0.9, backwardation: 1.0 },
+  thresholds: { riskOn: 0.25, riskOff: -0.25, conflict: 0.5 },
+  confirmDays: 2,
+}
+
+// Overrides come straight from optional query and tool params
+function definedOnly<T extends object>(values: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(values ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>
+}
+
+export function resolveRegimeModelConfig(overrides: RegimeModelConfigOverrides = {}): RegimeModelConfig {
+  const base = DEFAULT_REGIME_MODEL_CONFIG
+  return {
+    weights: { ...base.weights, ...definedOnly(overrides.weights) },
+    trend: { ...base.trend, ...definedOnly(overrides.trend) },
+    credit: { ...base.credit, ...definedOnly(overrides.credit) },
+    rates: { ...base.rates, ...definedOnly(overrides.rates) },
+    dollar: { ...base.dollar, ...definedOnly(overrides.dollar) },
+    breadth: { ...base.breadth, ...definedOnly(overrides.breadth) },
+    volatility: { ...base.volatility, ...definedOnly(overrides.volatility) },
+    thresholds: { ...base.thresholds, ...definedOnly(overrides.thresholds) },
+    confirmDays: overrides.confirmDays ?? base.confirmDays,
+  }
+}
+
+/**
+ * Bar symbols the enabled factors read.
+ */
+export function regimeSymbols(config: RegimeModelConfig): string[] {
+  const { weights } = config
+  return Array.from(
+    new Set([
+      ...config.trend.symbols,
+      ...(weights.credit > 0 ? [config.credit.numerator, config.credit.denominator] : []),
+      ...(weights.rates > 0 ? [config.rates.symbol] : []),
+      ...(weights.dollar > 0 ? [config.dollar.symbol] : []),
+      ...(weights.volatility > 0 ? [config.volatility.front, config.volatility.back] : []),
+    ])
+  )
+}
+
+/**
+ * Sessions of bars needed before the first modeled session.
+ */
+export function regimeWarmupDays(config: RegimeModelConfig): number {
+  return (
+    Math.max(config.trend.highLookback, config.credit.period, config.rates.period, config.dollar.period) +
+    config.confirmDays
+  )
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function round(value: number, decimals = 3): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function clamp(value: number): number {
+  return Math.max(-1, Math.min(1, value))
+}
+
+/**
+ * Linear score: `plus` maps to +1, `minus` to -1 (either may be the larger).
+ */
+function linearScore(value: number, plus: number, minus: number): number {
+  if (plus === minus) return value <= plus ? 1 : -1
+  return clamp(1 - (2 * (value - plus)) / (minus - plus))
+}
+
+/**
+ * Ratio of two symbols' closes on the dates both trade.
+ */
+function ratioSeries(numerator: DailyBar[] = [], denominator: DailyBar[] = []): { date: string; value: number }[] {
+  const closes = new Map(denominator.map((bar) => [bar.date, bar.close]))
+  return numerator
+    .filter((bar) => (closes.get(bar.date) ?? 0) > 0)
+    .map((bar) => ({ date: bar.date, value: bar.close / (closes.get(bar.date) as number) }))
+}
+
+/**
+ * Score by % distance from the value's own SMA.
+ */
+function averageScores(
+  values: { date: string; value: number }[],
+  config: RegimeAverageConfig
+): Map<string, number> {
+  const scores = new Map<string, number>()
+  let sum = 0
+  values.forEach((point, i) => {
+    sum += point.value
+    if (i >= config.period) sum -= values[i - config.period].value
+    if (i < config.period - 1) return
+    const pct = 100 * (point.value / (sum / config.period) - 1)
+    scores.set(point.date, clamp(pct / config.scalePct) * (config.invert ? -1 : 1))
+  })
+  return scores
+}
+
+function trendScores(bars: DailyBar[] = [], config: RegimeTrendConfig): Map<string, number> {
+  const scores = new Map<string, number>()
+  bars.forEach((bar, i) => {
+    if (i < config.highLookback - 1) return
+    let high = 0
+    for (let j = i - config.highLookback + 1; j <= i; j++) high = Math.max(high, bars[j].close)
+    const pctFromHigh = high > 0 ? (100 * (high - bar.close)) / high : 0
+    scores.set(bar.date, linearScore(pctFromHigh, config.bullishBelow, config.bearishAbove))
+  })
+  return scores
+}
+
+function classify(composite: number, scores: number[], config: RegimeModelConfig): RiskRegime {
+  const { riskOn, riskOff, conflict } = config.thresholds
+  if (composite >= riskOn) return 'risk_on'
+  if (composite <= riskOff) return 'risk_off'
+  const conflicted = scores.some((s) => s >= conflict) && scores.some((s) => s <= -conflict)
+  return conflicted ? 'mixed' : 'neutral'
+}
+
+// =============================================================================
+// Model
+// =============================================================================
+
+/**
+ * Daily regime series over the dates of the first trend symbol, keeping the
+ * last `history` sessions (all when omitted).
+ */
+export function computeRegimeModel(
+  inputs: RegimeInputs,
+  overrides: RegimeModelConfigOverrides = {},
+  history?: number
+): RegimeModelResult {
+  const config = resolveRegimeModelConfig(overrides)
+  const { bars } = inputs
+
+  // Per-factor scores by date
+  const trendBySymbol = config.trend.symbols.map((symbol) => trendScores(bars[symbol], config.trend))
+  const credit = averageScores(ratioSeries(bars[config.credit.numerator], bars[config.credit.denominator]), config.credit)
+  const rates = averageScores(
+    (bars[config.rates.symbol] ?? []).map((bar) => ({ date: bar.date, value: bar.close })),
+    config.rates
+  )
+  const dollar = averageScores(
+    (bars[config.dollar.symbol] ?? []).map((bar) => ({ date: bar.date, value: bar.close })),
+    config.dollar
+  )
+  const breadth = new Map(
+    (inputs.breadth?.entries ?? []).map((entry) => [
+      entry.date,
+      clamp((entry.pctNewHighs - entry.pctNewLows) / config.breadth.scalePct),
+    ])
+  )
+  const volatility = new Map(
+    ratioSeries(bars[config.volatility.front], bars[config.volatility.back]).map(({ date, value }) => [
+      date,
+      linearScore(value, config.volatility.contango, config.volatility.backwardation),
+    ])
+  )
+
+  const factorAt = (id: RegimeFactorId, date: string): number | null => {
+    if (config.weights[id] <= 0) return null
+    switch (id) {
+      case 'trend': {
+        const scores = trendBySymbol.map((byDate) => byDate.get(date)).filter((s): s is number => s !== undefined)
+        return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null
+      }
+      case 'credit':
+        return credit.get(date) ?? null
+      case 'rates':
+        return rates.get(date) ?? null
+      case 'dollar':
+        return dollar.get(date) ?? null
+      case 'breadth':
+        return breadth.get(date) ?? null
+      case 'volatility':
+        return volatility.get(date) ?? null
+    }
+  }
+
+  const points: RegimePoint[] = []
+  let confirmed = null as RiskRegime | null
+  let pending = null as { regime: RiskRegime; sessions: number } | null
+  let sessionsInRegime = 0
+
+  for (const { date } of bars[config.trend.symbols[0]] ?? []) {
+    const factors = Object.fromEntries(
+      REGIME_FACTOR_IDS.map((id) => [id, factorAt(id, date)])
+    ) as Record<RegimeFactorId, number | null>
+    // The trend factor anchors the model; skip its warm-up
+    if (factors.trend === null) continue
+
+    let weighted = 0
+    let totalWeight = 0
+    const scores: number[] = []
+    for (const id of REGIME_FACTOR_IDS) {
+      const score = factors[id]
+      if (score === null) continue
+      weighted += score * config.weights[id]
+      totalWeight += config.weights[id]
+      scores.push(score)
+    }
+    const composite = totalWeight > 0 ? weighted / totalWeight : 0
+    const raw = classify(composite, scores, config)
+
+    if (confirmed === null) {
+      confirmed = raw
+      sessionsInRegime = 0
+    } else if (raw === confirmed) {
+      pending = null
+    } else {
+      pending = pending?.regime === raw ? { regime: raw, sessions: pending.sessions + 1 } : { regime: raw, sessions: 1 }
+      if (pending.sessions >= config.confirmDays) {
+        // The new regime began when it first printed
+        confirmed = raw
+        sessionsInRegime = pending.sessions - 1
+        pending = null
+      }
+    }
+    sessionsInRegime++
+
+    points.push({
+      date,
+      regime: confirmed,
+      composite: round(composite),
+      confidence: Math.round(50 + 45 * Math.abs(composite)),
+      factors: Object.fromEntries(
+        REGIME_FACTOR_IDS.map((id) => [id, factors[id] === null ? null : round(factors[id] as number)])
+      ) as Record<RegimeFactorId, number | null>,
+      sessionsInRegime,
+    })
+  }
+
+  const latest = points[points.length - 1]
+  const current: RegimeState | null = latest
+    ? {
+        regime: latest.regime,
+        since: points[points.length - latest.sessionsInRegime].date,
+        sessions: latest.sessionsInRegime,
+        truncated: latest.sessionsInRegime === points.length,
+        composite: latest.composite,
+        confidence: latest.confidence,
+        factors: latest.factors,
+      }
+    : null
+
+  return {
+    config,
+    points: history === undefined ? points : points.slice(-history),
+    current,
+  }
+}
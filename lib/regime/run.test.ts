@@ -0,0 +1,76 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest'
+import type { DailyBar } from '@/lib/massive-api'
+import type { BreadthSeries } from '@/lib/breadth/compute'
+
+const getDailyBars = vi.hoisted(() => vi.fn())
+const computeUniverseBreadth = vi.hoisted(() => vi.fn())
+vi.mock('@/lib/bars/store', () => ({ getDailyBars }))
+vi.mock('@/lib/breadth/universe-series', () => ({ computeUniverseBreadth }))
+
+import { clearRegimeCache, computeRegimeHistory } from './run'
+
+const BARS: DailyBar[] = Array.from({ length: 90 }, (_, i) => {
+  const close = 100 + i
+  return { date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10), open: close, high: close, low: close, close, volume: 0 }
+})
+
+// Broad participation: 30% at new highs, none at new lows
+const BREADTH: BreadthSeries = {
+  entries: BARS.map(({ date }) => ({
+    date,
+    pctNewLows: 0,
+    pctNewHighs: 30,
+    countNewLows: 0,
+    countNewHighs: 15,
+    countValid: 50,
+    newLowSymbols: [],
+    newHighSymbols: [],
+  })),
+  lookbackDays: 21,
+  totalSymbols: 50,
+  symbolsCovered: 50,
+}
+
+beforeEach(() => {
+  clearRegimeCache()
+  getDailyBars.mockReset()
+  getDailyBars.mockResolvedValue(BARS)
+  computeUniverseBreadth.mockReset()
+  computeUniverseBreadth.mockResolvedValue({ series: BREADTH })
+})
+
+describe('computeRegimeHistory', () => {
+  it('runs the model once per session date and config', async () => {
+    const first = await computeRegimeHistory(20, {}, '2024-03-01')
+    const calls = getDailyBars.mock.calls.length
+
+    expect(await computeRegimeHistory(20, {}, '2024-03-01')).toBe(first)
+    expect(getDailyBars).toHaveBeenCalledTimes(calls)
+
+    await computeRegimeHistory(20, {}, '2024-03-04')
+    await computeRegimeHistory(20, { confirmDays: 3 }, '2024-03-01')
+    expect(getDailyBars).toHaveBeenCalledTimes(calls * 3)
+  })
+
+  it('includes breadth by default, scanning the universe once per session', async () => {
+    const result = await computeRegimeHistory(20, {}, '2024-03-01')
+    expect(result?.breadthAvailable).toBe(true)
+    expect(result?.current?.factors.breadth).toBe(1)
+
+    // Other thresholds for the same session reuse the breadth series
+    await computeRegimeHistory(20, { thresholds: { riskOn: 0.5 } }, '2024-03-01')
+    expect(computeUniverseBreadth).toHaveBeenCalledTimes(1)
+
+    const off = await computeRegimeHistory(20, { weights: { breadth: 0 } }, '2024-03-04')
+    expect(off?.breadthAvailable).toBe(false)
+    expect(computeUniverseBreadth).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries a run that found no data', async () => {
+    getDailyBars.mockResolvedValue([])
+    expect(await computeRegimeHistory(20, {}, '2024-03-01')).toBeNull()
+
+    getDailyBars.mockResolvedValue(BARS)
+    expect(await computeRegimeHistory(20, {}, '2024-03-01')).not.toBeNull()
+  })
+})
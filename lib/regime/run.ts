@@ -0,0 +1,173 @@
+// =============================================================================
+// Risk Regime Runner
+// =============================================================================
+// Loads factor history from the bar store plus the breadth series of the
+// configured universe, and runs the regime model. Used by /api/risk?history=.
+//
+// Runs are cached per session date: a replayed session never changes, and
+// the live session is recomputed at most once per LIVE_TTL_MS. The breadth
+// series (a scan of every universe member, read through the bar store) is
+// cached the same way on its own, so runs with other weights or thresholds
+// for the same session reuse it.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+import { getDailyBars } from '@/lib/bars/store'
+import { loadUniverse } from '@/lib/universes'
+import { computeUniverseBreadth } from '@/lib/breadth/universe-series'
+import type { BreadthSeries } from '@/lib/breadth/compute'
+import { logger } from '@/lib/logger'
+import { todayIso } from '@/lib/as-of'
+import {
+  computeRegimeModel,
+  regimeSymbols,
+  regimeWarmupDays,
+  resolveRegimeModelConfig,
+  type RegimeModelConfig,
+  type RegimeModelConfigOverrides,
+  type RegimeModelResult,
+} from './model'
+
+export interface RegimeRunResult extends RegimeModelResult {
+  failedSymbols: string[]
+  breadthAvailable: boolean
+}
+
+const LIVE_TTL_MS = 15 * 60 * 1000
+const MAX_CACHED_RUNS = 50
+
+interface CacheEntry<T> {
+  value: Promise<T>
+  expiresAt: number
+}
+
+// In-flight and finished runs, keyed by session date, history and config
+const runCache = new Map<string, CacheEntry<RegimeRunResult | null>>()
+
+// Breadth series, keyed by session date, universe, lookback and days
+const breadthCache = new Map<string, CacheEntry<BreadthSeries | null>>()
+
+/**
+ * Drop every cached run and breadth series (tests).
+ */
+export function clearRegimeCache(): void {
+  runCache.clear()
+  breadthCache.clear()
+}
+
+function sessionKey(asOf: string | null, now: number): string {
+  return asOf ?? `live:${todayIso(new Date(now))}`
+}
+
+/**
+ * Return the cached value for `key`, or start `load` and cache it until the
+ * session can change. Null results and failures are not kept, so they retry.
+ */
+function cached<T>(
+  cache: Map<string, CacheEntry<T | null>>,
+  key: string,
+  asOf: string | null,
+  now: number,
+  load: () => Promise<T | null>
+): Promise<T | null> {
+  const entry = cache.get(key)
+  if (entry && entry.expiresAt > now) return entry.value
+
+  const value = load()
+  cache.set(key, { value, expiresAt: asOf ? Infinity : now + LIVE_TTL_MS })
+  if (cache.size > MAX_CACHED_RUNS) {
+    cache.delete(cache.keys().next().value as string)
+  }
+
+  value.then(
+    (result) => {
+      if (result === null && cache.get(key)?.value === value) cache.delete(key)
+    },
+    () => {
+      if (cache.get(key)?.value === value) cache.delete(key)
+    }
+  )
+  return value
+}
+
+/**
+ * Regime series over the last `history` sessions, ending on `asOf` when
+ * given. Factors whose data fails to load drop out of the composite.
+ *
+ * @returns null when the anchor trend symbol has no data
+ */
+export async function computeRegimeHistory(
+  history: number,
+  overrides: RegimeModelConfigOverrides = {},
+  asOf: string | null = null
+): Promise<RegimeRunResult | null> {
+  const config = resolveRegimeModelConfig(overrides)
+  const now = Date.now()
+  const key = `${sessionKey(asOf, now)}|${history}|${JSON.stringify(config)}`
+
+  return cached(runCache, key, asOf, now, () => runRegimeModel(history, config, asOf))
+}
+
+async function runRegimeModel(
+  history: number,
+  config: RegimeModelConfig,
+  asOf: string | null
+): Promise<RegimeRunResult | null> {
+  const days = history + regimeWarmupDays(config) + 10
+  const symbols = regimeSymbols(config)
+
+  const [barResults, breadth] = await Promise.all([
+    Promise.allSettled(symbols.map((symbol) => getDailyBars(symbol, days, asOf))),
+    config.weights.breadth > 0 ? loadBreadth(config.breadth.universe, config.breadth.lookback, days, asOf) : null,
+  ])
+
+  const bars: Record<string, DailyBar[]> = {}
+  const failedSymbols: string[] = []
+  barResults.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value.length > 0) {
+      bars[symbols[index]] = result.value
+    } else {
+      failedSymbols.push(symbols[index])
+    }
+  })
+
+  if (!bars[config.trend.symbols[0]]) {
+    return null
+  }
+
+  return {
+    ...computeRegimeModel({ bars, breadth }, config, history),
+    failedSymbols,
+    breadthAvailable: breadth !== null,
+  }
+}
+
+function loadBreadth(
+  universeId: string,
+  lookback: number,
+  days: number,
+  asOf: string | null
+): Promise<BreadthSeries | null> {
+  const now = Date.now()
+  const key = `${sessionKey(asOf, now)}|${universeId}|${lookback}|${days}`
+  return cached(breadthCache, key, asOf, now, () => computeBreadth(universeId, lookback, days, asOf))
+}
+
+async function computeBreadth(
+  universeId: string,
+  lookback: number,
+  days: number,
+  asOf: string | null
+): Promise<BreadthSeries | null> {
+  try {
+    const universe = await loadUniverse(universeId)
+    if (!universe) return null
+    return (await computeUniverseBreadth(universe, lookback, days, asOf))?.series ?? null
+  } catch (error) {
+    logger.warn('Breadth unavailable for the regime model', {
+      universe: universeId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
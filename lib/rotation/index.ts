@@ -0,0 +1,6 @@
+// =============================================================================
+// Sector Rotation Module - Public Exports
+// =============================================================================
+
+export * from './rrg'
+export * from './run'
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import type { DailyBar } from '@/lib/massive-api'
+import { computeRrg, computeRrgPoints, resolveRrgOptions, rrgQuadrant } from './rrg'
+
+// Weekdays only, starting Monday 2024-01-01
+const DATES = Array.from({ length: 140 }, (_, i) => {
+  const week = Math.floor(i / 5)
+  return new Date(Date.UTC(2024, 0, 1 + week * 7 + (i % 5))).toISOString().slice(0, 10)
+})
+
+function bars(closes: number[]): DailyBar[] {
+  return closes.map((close, i) => ({ date: DATES[i], open: close, high: close, low: close, close, volume: 0 }))
+}
+
+const FLAT = bars(DATES.map(() => 100))
+const DAILY = { interval: 'daily', smoothing: 1, period: 10, momentumPeriod: 5 } as const
+
+describe('rrgQuadrant', () => {
+  it('classifies by which side of 100 each axis sits', () => {
+    expect(rrgQuadrant({ rsRatio: 101, rsMomentum: 101 })).toBe('leading')
+    expect(rrgQuadrant({ rsRatio: 101, rsMomentum: 99 })).toBe('weakening')
+    expect(rrgQuadrant({ rsRatio: 99, rsMomentum: 99 })).toBe('lagging')
+    expect(rrgQuadrant({ rsRatio: 99, rsMomentum: 101 })).toBe('improving')
+  })
+})
+
+describe('computeRrgPoints', () => {
+  it('puts an accelerating outperformer in the leading quadrant', () => {
+    const points = computeRrgPoints(bars(DATES.map((_, i) => 100 * 1.002 ** (i * i / 10))), FLAT, resolveRrgOptions(DAILY))
+
+    const latest = points[points.length - 1]
+    expect(latest.rsRatio).toBeGreaterThan(100)
+    expect(latest.rsMomentum).toBeGreaterThan(100)
+  })
+
+  it('samples the last session of each week and caps the points', () => {
+    const options = resolveRrgOptions({ ...DAILY, interval: 'weekly', period: 4, momentumPeriod: 2, points: 10 })
+    const points = computeRrgPoints(bars(DATES.map((_, i) => 100 + i)), FLAT, options)
+
+    expect(points).toHaveLength(10)
+    expect(points.map((p) => new Date(`${p.date}T00:00:00Z`).getUTCDay())).toEqual(Array(10).fill(5))
+    expect(points[points.length - 1].date).toBe(DATES[DATES.length - 1])
+  })
+})
+
+describe('computeRrg', () => {
+  it('keeps symbols with too little history but without a quadrant', () => {
+    const result = computeRrg(
+      { XLK: bars(DATES.map((_, i) => 100 + i)), NEW: bars([100, 101, 102]) },
+      { symbol: 'SPY', bars: FLAT },
+      { XLK: 'Technology' },
+      DAILY
+    )
+
+    expect(result.asOf).toBe(DATES[DATES.length - 1])
+    // A constant dollar gain is a shrinking percentage gain: still ahead, but fading
+    expect(result.series.find((s) => s.symbol === 'XLK')).toMatchObject({ name: 'Technology', quadrant: 'weakening' })
+    expect(result.series.find((s) => s.symbol === 'NEW')).toMatchObject({ name: 'NEW', points: [], quadrant: null })
+  })
+})
@@ -0,0 +1,218 @@
+// =============================================================================
+// Relative Rotation Graph (RRG)
+// =============================================================================
+// Places each symbol on two axes relative to a benchmark:
+//
+// - RS-Ratio: the trend of relative strength. RS = close / benchmark close,
+//   smoothed with an EMA(smoothing), then expressed as 100 x RS over its own
+//   SMA(period). Above 100 the symbol is outperforming its recent norm.
+// - RS-Momentum: the rate of change of RS-Ratio, as 100 x RS-Ratio over its
+//   SMA(momentumPeriod). Above 100 relative strength is improving.
+//
+// The exact JdK formulas are proprietary; this normalization keeps both axes
+// centered on 100 the same way, so points rotate clockwise through the
+// improving -> leading -> weakening -> lagging quadrants.
+// =============================================================================
+
+import type { DailyBar } from '@/lib/massive-api'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RrgQuadrant = 'leading' | 'weakening' | 'lagging' | 'improving'
+export type RrgInterval = 'daily' | 'weekly'
+
+export interface RrgOptions {
+  interval: RrgInterval
+  smoothing: number // EMA periods applied to raw relative strength
+  period: number // SMA periods RS-Ratio is normalized against
+  momentumPeriod: number // SMA periods RS-Momentum is normalized against
+  points: number // Most recent points returned per symbol
+  tailLength: number // Points drawn as the trailing tail
+}
+
+export interface RrgPoint {
+  date: string // Last session of the period
+  rsRatio: number
+  rsMomentum: number
+}
+
+export interface RrgSeries {
+  symbol: string
+  name: string
+  points: RrgPoint[] // Ascending; empty when history is too short
+  quadrant: RrgQuadrant | null // Of the latest point
+}
+
+export interface RrgResult {
+  benchmark: string
+  options: RrgOptions
+  asOf: string | null // Latest benchmark date
+  series: RrgSeries[]
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_RRG_OPTIONS: RrgOptions = {
+  interval: 'weekly',
+  smoothing: 3,
+  period: 14,
+  momentumPeriod: 5,
+  points: 52,
+  tailLength: 10,
+}
+
+// Sessions per interval, for sizing the history request
+const SESSIONS_PER_INTERVAL: Record<RrgInterval, number> = { daily: 1, weekly: 5 }
+
+/**
+ * Defaults with `overrides` applied; undefined overrides (unset query or
+ * tool params) keep the default.
+ */
+export function resolveRrgOptions(overrides: Partial<RrgOptions> = {}): RrgOptions {
+  const set = Object.entries(overrides).filter(([, value]) => value !== undefined)
+  return { ...DEFAULT_RRG_OPTIONS, ...Object.fromEntries(set) }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Last bar of each ISO week (weeks start on Monday, UTC).
+ */
+function resampleWeekly(bars: DailyBar[]): DailyBar[] {
+  const weekly: DailyBar[] = []
+  let currentWeek = ''
+  for (const bar of bars) {
+    const date = new Date(`${bar.date}T00:00:00Z`)
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+    const week = date.toISOString().slice(0, 10)
+    if (week === currentWeek) {
+      weekly[weekly.length - 1] = bar
+    } else {
+      weekly.push(bar)
+      currentWeek = week
+    }
+  }
+  return weekly
+}
+
+function ema(values: number[], period: number): number[] {
+  const alpha = 2 / (Math.max(1, period) + 1)
+  const result: number[] = []
+  values.forEach((value, i) => {
+    result.push(i === 0 ? value : result[i - 1] + alpha * (value - result[i - 1]))
+  })
+  return result
+}
+
+/**
+ * 100 x value / SMA(period) of the values; null until the window is full.
+ */
+function normalizeToSma(values: (number | null)[], period: number): (number | null)[] {
+  let sum = 0
+  let count = 0
+  return values.map((value, i) => {
+    if (value !== null) {
+      sum += value
+      count++
+    }
+    const dropped = i >= period ? values[i - period] : null
+    if (dropped !== null) {
+      sum -= dropped
+      count--
+    }
+    return value !== null && count === period && sum !== 0 ? (100 * value) / (sum / period) : null
+  })
+}
+
+// =============================================================================
+// Computation
+// =============================================================================
+
+export function rrgQuadrant(point: Pick<RrgPoint, 'rsRatio' | 'rsMomentum'>): RrgQuadrant {
+  if (point.rsRatio >= 100) return point.rsMomentum >= 100 ? 'leading' : 'weakening'
+  return point.rsMomentum >= 100 ? 'improving' : 'lagging'
+}
+
+/**
+ * Daily sessions of history needed for `options` to produce its full
+ * number of points (EMA warm-up counted at three periods).
+ */
+export function rrgHistoryDays(options: RrgOptions): number {
+  const periods = options.smoothing * 3 + options.period + options.momentumPeriod + options.points
+  return periods * SESSIONS_PER_INTERVAL[options.interval] + 10
+}
+
+/**
+ * RS-Ratio / RS-Momentum points for one symbol against the benchmark, over
+ * the dates both have bars for.
+ */
+export function computeRrgPoints(
+  bars: DailyBar[],
+  benchmarkBars: DailyBar[],
+  options: RrgOptions = DEFAULT_RRG_OPTIONS
+): RrgPoint[] {
+  const benchmarkClose = new Map(benchmarkBars.map((bar) => [bar.date, bar.close]))
+  const paired = bars.filter((bar) => (benchmarkClose.get(bar.date) ?? 0) > 0)
+  const sampled = options.interval === 'weekly' ? resampleWeekly(paired) : paired
+  if (sampled.length === 0) return []
+
+  const rs = ema(
+    sampled.map((bar) => (100 * bar.close) / (benchmarkClose.get(bar.date) as number)),
+    options.smoothing
+  )
+  const rsRatio = normalizeToSma(rs, options.period)
+  const rsMomentum = normalizeToSma(rsRatio, options.momentumPeriod)
+
+  const points: RrgPoint[] = []
+  sampled.forEach((bar, i) => {
+    const ratio = rsRatio[i]
+    const momentum = rsMomentum[i]
+    if (ratio === null || momentum === null) return
+    points.push({ date: bar.date, rsRatio: round(ratio), rsMomentum: round(momentum) })
+  })
+
+  return points.slice(-options.points)
+}
+
+/**
+ * RRG series for every symbol in `barsBySymbol` against `benchmarkBars`.
+ *
+ * @param names - Display names by symbol (defaults to the symbol)
+ */
+export function computeRrg(
+  barsBySymbol: Record<string, DailyBar[]>,
+  benchmark: { symbol: string; bars: DailyBar[] },
+  names: Record<string, string> = {},
+  overrides: Partial<RrgOptions> = {}
+): RrgResult {
+  const options = resolveRrgOptions(overrides)
+
+  const series = Object.entries(barsBySymbol).map(([symbol, bars]): RrgSeries => {
+    const points = computeRrgPoints(bars, benchmark.bars, options)
+    const latest = points[points.length - 1]
+    return {
+      symbol,
+      name: names[symbol] ?? symbol,
+      points,
+      quadrant: latest ? rrgQuadrant(latest) : null,
+    }
+  })
+
+  return {
+    benchmark: benchmark.symbol,
+    options,
+    asOf: benchmark.bars[benchmark.bars.length - 1]?.date ?? null,
+    series,
+  }
+}
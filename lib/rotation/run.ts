@@ -0,0 +1,64 @@
+// =============================================================================
+// Sector Rotation Runner
+// =============================================================================
+// Loads history from the bar store and computes the relative rotation graph
+// for every sector ETF plus any extra symbols. Shared by /api/sectors?mode=rrg
+// and the show_sector_rotation chat tool.
+// =============================================================================
+
+import { SECTOR_ETFS, type DailyBar } from '@/lib/massive-api'
+import { getDailyBars } from '@/lib/bars/store'
+import { computeRrg, resolveRrgOptions, rrgHistoryDays, type RrgOptions, type RrgResult } from './rrg'
+
+export const DEFAULT_RRG_BENCHMARK = 'SPY'
+
+export interface SectorRotationResult extends RrgResult {
+  failedSymbols: string[]
+}
+
+/**
+ * RRG for the sector ETFs and `extraSymbols` against `benchmark`, ending on
+ * `asOf` when given.
+ *
+ * @returns null when the benchmark has no data
+ */
+export async function computeSectorRotation(
+  extraSymbols: string[] = [],
+  overrides: Partial<RrgOptions> = {},
+  benchmark: string = DEFAULT_RRG_BENCHMARK,
+  asOf: string | null = null
+): Promise<SectorRotationResult | null> {
+  const options = resolveRrgOptions(overrides)
+  const days = rrgHistoryDays(options)
+
+  const benchmarkSymbol = benchmark.toUpperCase()
+  const symbols = Array.from(
+    new Set([...Object.keys(SECTOR_ETFS), ...extraSymbols.map((s) => s.toUpperCase().trim()).filter(Boolean)])
+  ).filter((symbol) => symbol !== benchmarkSymbol)
+
+  const [benchmarkResult, ...results] = await Promise.allSettled(
+    [benchmarkSymbol, ...symbols].map((symbol) => getDailyBars(symbol, days, asOf))
+  )
+  if (benchmarkResult.status !== 'fulfilled' || benchmarkResult.value.length === 0) {
+    return null
+  }
+
+  const barsBySymbol: Record<string, DailyBar[]> = {}
+  const failedSymbols: string[] = []
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value.length > 0) {
+      barsBySymbol[symbols[index]] = result.value
+    } else {
+      failedSymbols.push(symbols[index])
+    }
+  })
+
+  const rrg = computeRrg(
+    barsBySymbol,
+    { symbol: benchmarkSymbol, bars: benchmarkResult.value },
+    SECTOR_ETFS as Record<string, string>,
+    options
+  )
+
+  return { ...rrg, failedSymbols }
+}
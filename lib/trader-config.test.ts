@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { resolveTraderConfig, computeBreadth, computeRegime, TRADER_CONFIG } from './trader-signals'
+import {
+  appendTraderConfigParams,
+  parseTraderConfigOverrides,
+  traderConfigFromSearchParams,
+} from './trader-config'
+
+describe('resolveTraderConfig', () => {
+  it('applies later overrides on top of earlier ones', () => {
+    const config = resolveTraderConfig({ HOT_THRESHOLD: 2, COLD_THRESHOLD: 20 }, { HOT_THRESHOLD: 5 })
+    expect(config).toEqual({ ...TRADER_CONFIG, HOT_THRESHOLD: 5, COLD_THRESHOLD: 20 })
+  })
+
+  it('falls back to default bands when a pair would invert', () => {
+    const config = resolveTraderConfig({ HOT_THRESHOLD: 10, COLD_THRESHOLD: 8, REJECTION_MILD: 4 })
+    expect(config.HOT_THRESHOLD).toBe(TRADER_CONFIG.HOT_THRESHOLD)
+    expect(config.COLD_THRESHOLD).toBe(TRADER_CONFIG.COLD_THRESHOLD)
+    expect(config.REJECTION_MILD).toBe(4)
+  })
+
+  it('changes the regime label when thresholds move', () => {
+    const row = { SPX: 4, NDX: 5, RUT: 4, DJI: 1 }
+    expect(computeRegime(computeBreadth(row)).label).toBe('Narrow / Mixed')
+
+    const loose = resolveTraderConfig({ HOT_THRESHOLD: 5 })
+    expect(computeRegime(computeBreadth(row, loose), loose).label).toBe('Risk-On')
+  })
+})
+
+describe('traderConfigFromSearchParams', () => {
+  it('reads overrides and round-trips through appendTraderConfigParams', () => {
+    const { overrides, error } = traderConfigFromSearchParams(
+      new URLSearchParams('symbols=SPX&hotThreshold=2&regimeMajority=0.75')
+    )
+    expect(error).toBeUndefined()
+    expect(overrides).toEqual({ HOT_THRESHOLD: 2, REGIME_MAJORITY: 0.75 })
+
+    const params = appendTraderConfigParams(new URLSearchParams(), overrides)
+    expect(params.toString()).toBe('hotThreshold=2&regimeMajority=0.75')
+  })
+
+  it('returns null without threshold params and an error for invalid ones', () => {
+    expect(traderConfigFromSearchParams(new URLSearchParams('symbols=SPX')).overrides).toBeNull()
+
+    const invalid = traderConfigFromSearchParams(new URLSearchParams('hotThreshold=10&coldThreshold=5'))
+    expect(invalid.overrides).toBeNull()
+    expect(invalid.error).toContain('coldThreshold')
+  })
+})
+
+describe('parseTraderConfigOverrides', () => {
+  it('ignores malformed stored values', () => {
+    expect(parseTraderConfigOverrides('{"HOT_THRESHOLD":4}')).toEqual({ HOT_THRESHOLD: 4 })
+    expect(parseTraderConfigOverrides('not json')).toBeNull()
+    expect(parseTraderConfigOverrides({ UNKNOWN: 1 })).toBeNull()
+    expect(parseTraderConfigOverrides(null)).toBeNull()
+  })
+})
@@ -0,0 +1,113 @@
+// =============================================================================
+// Trader Config Overrides
+// =============================================================================
+// Validation and (de)serialization for per-user and per-request overrides of
+// TRADER_CONFIG. Overrides are always partial; resolveTraderConfig merges them
+// onto the defaults. Shared by API routes (query params, preferences JSON)
+// and the client settings panel.
+// =============================================================================
+
+import { z } from 'zod'
+import type { TraderConfig } from '@/lib/trader-signals'
+
+export type TraderConfigOverrides = Partial<TraderConfig>
+
+export const TraderConfigOverridesSchema = z
+  .object({
+    HOT_THRESHOLD: z.number().int().min(0).max(252),
+    COLD_THRESHOLD: z.number().int().min(1).max(504),
+    REGIME_MAJORITY: z.number().min(0.5).max(1),
+    REJECTION_MILD: z.number().int().min(1).max(50),
+    REJECTION_NOTABLE: z.number().int().min(1).max(100),
+    RECENT_ROWS: z.number().int().min(1).max(60),
+  })
+  .partial()
+  .strict()
+  .refine(
+    (c) => c.HOT_THRESHOLD === undefined || c.COLD_THRESHOLD === undefined || c.COLD_THRESHOLD > c.HOT_THRESHOLD,
+    { message: 'COLD_THRESHOLD must be greater than HOT_THRESHOLD', path: ['COLD_THRESHOLD'] }
+  )
+  .refine(
+    (c) => c.REJECTION_MILD === undefined || c.REJECTION_NOTABLE === undefined || c.REJECTION_NOTABLE >= c.REJECTION_MILD,
+    { message: 'REJECTION_NOTABLE must be at least REJECTION_MILD', path: ['REJECTION_NOTABLE'] }
+  )
+
+// Query parameter name for each config key
+export const TRADER_CONFIG_PARAMS: Record<keyof TraderConfig, string> = {
+  HOT_THRESHOLD: 'hotThreshold',
+  COLD_THRESHOLD: 'coldThreshold',
+  REGIME_MAJORITY: 'regimeMajority',
+  REJECTION_MILD: 'rejectionMild',
+  REJECTION_NOTABLE: 'rejectionNotable',
+  RECENT_ROWS: 'recentRows',
+}
+
+const CONFIG_KEYS = Object.keys(TRADER_CONFIG_PARAMS) as (keyof TraderConfig)[]
+
+/**
+ * Read overrides from query params (`?hotThreshold=2&coldThreshold=20`).
+ * Returns `overrides: null` when no threshold params are present.
+ */
+export function traderConfigFromSearchParams(
+  searchParams: URLSearchParams
+): { overrides: TraderConfigOverrides | null; error?: string } {
+  const raw: Record<string, number> = {}
+
+  for (const key of CONFIG_KEYS) {
+    const value = searchParams.get(TRADER_CONFIG_PARAMS[key])
+    if (value === null || value === '') continue
+    raw[key] = Number(value)
+  }
+
+  if (Object.keys(raw).length === 0) {
+    return { overrides: null }
+  }
+
+  const parsed = TraderConfigOverridesSchema.safeParse(raw)
+  if (!parsed.success) {
+    return {
+      overrides: null,
+      error: parsed.error.errors
+        .map((e) => `${TRADER_CONFIG_PARAMS[e.path[0] as keyof TraderConfig] ?? e.path.join('.')}: ${e.message}`)
+        .join('; '),
+    }
+  }
+
+  return { overrides: parsed.data }
+}
+
+/**
+ * Append overrides to a URLSearchParams instance using the query param names.
+ */
+export function appendTraderConfigParams(
+  params: URLSearchParams,
+  overrides: TraderConfigOverrides | null | undefined
+): URLSearchParams {
+  if (!overrides) return params
+  for (const key of CONFIG_KEYS) {
+    const value = overrides[key]
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      params.set(TRADER_CONFIG_PARAMS[key], String(value))
+    }
+  }
+  return params
+}
+
+/**
+ * Parse stored overrides (JSON string or object). Invalid or empty input
+ * yields null so a bad row never breaks signal computation.
+ */
+export function parseTraderConfigOverrides(value: unknown): TraderConfigOverrides | null {
+  let candidate = value
+  if (typeof value === 'string') {
+    try {
+      candidate = JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+
+  const parsed = TraderConfigOverridesSchema.safeParse(candidate)
+  if (!parsed.success || Object.keys(parsed.data).length === 0) return null
+  return parsed.data
+}
@@ -11,7 +11,16 @@ import type { HeatmapMetrics } from './massive-api'
 // Configuration Constants (trader-tunable)
 // -----------------------------------------------------------------------------
 
-export const TRADER_CONFIG = {
+export interface TraderConfig {
+  HOT_THRESHOLD: number
+  COLD_THRESHOLD: number
+  REGIME_MAJORITY: number
+  REJECTION_MILD: number
+  REJECTION_NOTABLE: number
+  RECENT_ROWS: number
+}
+
+export const TRADER_CONFIG: TraderConfig = {
   // Breadth thresholds (in days)
   HOT_THRESHOLD: 3,       // <=3 days = "hot" (near highs)
   COLD_THRESHOLD: 15,     // >=15 days = "cold" (far from highs)
@@ -28,6 +37,38 @@ export const TRADER_CONFIG = {
   RECENT_ROWS: 10,        // Last N sessions for rejection rate
 }
 
+/**
+ * Merge per-user or per-request overrides onto the defaults.
+ * Overrides that would invert a threshold pair (cold below hot, notable below
+ * mild) are dropped so the regime and severity bands stay well-formed.
+ */
+export function resolveTraderConfig(
+  ...overrides: (Partial<TraderConfig> | null | undefined)[]
+): TraderConfig {
+  const merged: TraderConfig = { ...TRADER_CONFIG }
+
+  for (const override of overrides) {
+    if (!override) continue
+    for (const key of Object.keys(TRADER_CONFIG) as (keyof TraderConfig)[]) {
+      const value = override[key]
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        merged[key] = value
+      }
+    }
+  }
+
+  if (merged.COLD_THRESHOLD <= merged.HOT_THRESHOLD) {
+    merged.HOT_THRESHOLD = TRADER_CONFIG.HOT_THRESHOLD
+    merged.COLD_THRESHOLD = TRADER_CONFIG.COLD_THRESHOLD
+  }
+  if (merged.REJECTION_NOTABLE < merged.REJECTION_MILD) {
+    merged.REJECTION_MILD = TRADER_CONFIG.REJECTION_MILD
+    merged.REJECTION_NOTABLE = TRADER_CONFIG.REJECTION_NOTABLE
+  }
+
+  return merged
+}
+
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
@@ -95,7 +136,7 @@ export interface DivergenceSignal {
 
 export function computeBreadth(
   latestRow: Record<string, number>,
-  config = TRADER_CONFIG
+  config: TraderConfig = TRADER_CONFIG
 ): BreadthStats {
   const symbols = Object.keys(latestRow)
   let hotCount = 0
@@ -126,7 +167,7 @@ export function computeBreadth(
 
 export function computeRegime(
   breadth: BreadthStats,
-  config = TRADER_CONFIG
+  config: TraderConfig = TRADER_CONFIG
 ): RegimeInfo {
   const majorityThreshold = Math.ceil(breadth.total * config.REGIME_MAJORITY)
 
@@ -151,7 +192,7 @@ export function computeRegime(
 // Rejection Detection
 // -----------------------------------------------------------------------------
 
-function getRejectionSeverity(delta: number, config = TRADER_CONFIG): RejectionSeverity {
+function getRejectionSeverity(delta: number, config: TraderConfig = TRADER_CONFIG): RejectionSeverity {
   if (delta <= config.REJECTION_MILD) return 'mild'
   if (delta <= config.REJECTION_NOTABLE) return 'notable'
   return 'strong'
@@ -161,7 +202,7 @@ export function detectRejections(
   highRow: Record<string, number>,
   closeRow: Record<string, number>,
   date: string,
-  config = TRADER_CONFIG
+  config: TraderConfig = TRADER_CONFIG
 ): RejectionSignal[] {
   const rejections: RejectionSignal[] = []
 
@@ -224,7 +265,7 @@ export function computeRecentRejectionRate(
   basisHigh: Record<string, HeatmapMetrics[]>,
   basisClose: Record<string, HeatmapMetrics[]>,
   dates: string[],
-  config = TRADER_CONFIG
+  config: TraderConfig = TRADER_CONFIG
 ): { rate: number; count: number; sessions: number } {
   const recentDays = Math.min(config.RECENT_ROWS, dates.length)
   let rejectionCount = 0
@@ -261,7 +302,7 @@ export function computeSignalSummary(
   basisHigh: Record<string, HeatmapMetrics[]>,
   basisClose: Record<string, HeatmapMetrics[]>,
   dates: string[],
-  config = TRADER_CONFIG
+  config: TraderConfig = TRADER_CONFIG
 ): SignalSummary | null {
   if (dates.length === 0) return null
 
@@ -431,7 +472,7 @@ export function getAllRecentRejections(
   basisHigh: Record<string, HeatmapMetrics[]>,
   basisClose: Record<string, HeatmapMetrics[]>,
   dates: string[],
-  config = TRADER_CONFIG
+  config: TraderConfig = TRADER_CONFIG
 ): RejectionSignal[] {
   const allRejections: RejectionSignal[] = []
   const recentDays = Math.min(config.RECENT_ROWS, dates.length)
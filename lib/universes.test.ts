@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+
+const prisma = vi.hoisted(() => ({ customUniverse: { findUnique: vi.fn() } }))
+vi.mock('@/lib/prisma', () => ({ prisma }))
+
+import { CustomUniverseInputSchema, loadUniverse } from './universes'
+
+const ROW = {
+  slug: 'my-semis',
+  label: 'My Semis',
+  description: null,
+  symbols: JSON.stringify(['NVDA', 'AMD']),
+  etfProxy: null,
+  disclosureText: null,
+  updatedAt: new Date('2024-03-01T12:00:00Z'),
+}
+
+describe('CustomUniverseInputSchema', () => {
+  it('rejects slugs taken by built-in universes or their aliases', () => {
+    for (const slug of ['spy', 'Semis']) {
+      const parsed = CustomUniverseInputSchema.safeParse({ slug, label: 'X', symbols: ['AAPL', 'MSFT'] })
+      expect(parsed.success).toBe(false)
+    }
+  })
+
+  it('rejects invalid symbols and dedupes the rest', () => {
+    const invalid = CustomUniverseInputSchema.safeParse({ slug: 'mine', label: 'Mine', symbols: ['AAPL', 'NOT A SYMBOL'] })
+    expect(invalid.success).toBe(false)
+
+    const parsed = CustomUniverseInputSchema.parse({ slug: 'Mine', label: 'Mine', symbols: ['aapl', 'MSFT', 'AAPL'] })
+    expect(parsed.slug).toBe('mine')
+    expect(parsed.symbols).toEqual(['AAPL', 'MSFT'])
+  })
+})
+
+describe('loadUniverse', () => {
+  beforeEach(() => {
+    prisma.customUniverse.findUnique.mockReset()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('resolves built-ins and aliases without touching the database', async () => {
+    vi.stubEnv('DATABASE_URL', 'postgres://test')
+
+    expect((await loadUniverse('semis'))?.id).toBe('soxx')
+    expect(prisma.customUniverse.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('falls back to saved custom universes by slug', async () => {
+    vi.stubEnv('DATABASE_URL', 'postgres://test')
+    prisma.customUniverse.findUnique.mockResolvedValue(ROW)
+
+    const universe = await loadUniverse(' My-Semis ')
+    expect(prisma.customUniverse.findUnique).toHaveBeenCalledWith({ where: { slug: 'my-semis' } })
+    expect(universe).toMatchObject({ id: 'my-semis', symbols: ['NVDA', 'AMD'], custom: true, asOf: '2024-03-01' })
+  })
+
+  it('returns null for unknown ids, without a database, and when the lookup fails', async () => {
+    vi.stubEnv('DATABASE_URL', '')
+    expect(await loadUniverse('my-semis')).toBeNull()
+    expect(prisma.customUniverse.findUnique).not.toHaveBeenCalled()
+
+    vi.stubEnv('DATABASE_URL', 'postgres://test')
+    prisma.customUniverse.findUnique.mockResolvedValue(null)
+    expect(await loadUniverse('nope')).toBeNull()
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    prisma.customUniverse.findUnique.mockRejectedValue(new Error('connection refused'))
+    expect(await loadUniverse('my-semis')).toBeNull()
+    consoleError.mockRestore()
+  })
+})
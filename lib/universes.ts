@@ -3,8 +3,14 @@
 // =============================================================================
 // These use ETF constituents as proxies for index breadth since we don't have
 // direct access to official index constituent feeds (PHLX, S&P, etc.).
+//
+// The lists below are the current-holdings fallback. Full, dated constituent
+// lists can be imported per universe (POST /api/universes/:id/membership) and
+// are then used point-in-time by breadth - see lib/breadth/membership.ts.
 // =============================================================================
 
+import { z } from 'zod'
+
 export interface Universe {
   id: string
   label: string
@@ -13,6 +19,7 @@ export interface Universe {
   disclosureText: string
   etfProxy: string
   asOf: string // Last updated date
+  custom?: boolean // User-defined universe stored in the database
 }
 
 // =============================================================================
@@ -189,33 +196,41 @@ export const UNIVERSES: Record<string, Universe> = {
 // Helper Functions
 // =============================================================================
 
+const UNIVERSE_ALIASES: Record<string, string> = {
+  'semiconductors': 'soxx',
+  'semis': 'soxx',
+  'sox': 'soxx',
+  'phlx': 'soxx',
+  'nasdaq': 'qqq',
+  'nasdaq100': 'qqq',
+  'nasdaq-100': 'qqq',
+  'sp500': 'spy',
+  's&p500': 'spy',
+  's&p': 'spy',
+  'russell': 'iwm',
+  'russell2000': 'iwm',
+  'smallcaps': 'iwm',
+  'dow': 'dia',
+  'dow30': 'dia',
+  'djia': 'dia',
+}
+
 export function resolveUniverse(universeId: string): Universe | null {
   const normalized = universeId.toLowerCase().trim()
 
   // Handle aliases
-  const aliases: Record<string, string> = {
-    'semiconductors': 'soxx',
-    'semis': 'soxx',
-    'sox': 'soxx',
-    'phlx': 'soxx',
-    'nasdaq': 'qqq',
-    'nasdaq100': 'qqq',
-    'nasdaq-100': 'qqq',
-    'sp500': 'spy',
-    's&p500': 'spy',
-    's&p': 'spy',
-    'russell': 'iwm',
-    'russell2000': 'iwm',
-    'smallcaps': 'iwm',
-    'dow': 'dia',
-    'dow30': 'dia',
-    'djia': 'dia',
-  }
-
-  const resolvedId = aliases[normalized] || normalized
+  const resolvedId = UNIVERSE_ALIASES[normalized] || normalized
   return UNIVERSES[resolvedId] || null
 }
 
+/**
+ * True if an id is taken by a built-in universe or one of its aliases.
+ * Custom universes may not shadow these.
+ */
+export function isReservedUniverseId(universeId: string): boolean {
+  return resolveUniverse(universeId) !== null
+}
+
 export function listUniverses(): Universe[] {
   return Object.values(UNIVERSES)
 }
@@ -224,3 +239,91 @@ export function getUniverseSymbolCount(universeId: string): number {
   const universe = resolveUniverse(universeId)
   return universe?.symbols.length || 0
 }
+
+// =============================================================================
+// Custom Universes (database-backed)
+// =============================================================================
+
+export const CustomUniverseInputSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9][a-z0-9-]{1,39}$/, 'slug must be 2-40 chars: lowercase letters, digits, dashes')
+    .refine((slug) => !isReservedUniverseId(slug), 'slug collides with a built-in universe'),
+  label: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(280).optional(),
+  symbols: z
+    .array(z.string().trim().toUpperCase().regex(/^[A-Z0-9.^-]{1,10}$/, 'invalid symbol'))
+    .min(2)
+    .max(500)
+    .transform((symbols) => Array.from(new Set(symbols))),
+  etfProxy: z.string().trim().toUpperCase().regex(/^[A-Z0-9.^-]{1,10}$/).optional(),
+  disclosureText: z.string().trim().max(500).optional(),
+})
+
+export type CustomUniverseInput = z.infer<typeof CustomUniverseInputSchema>
+
+interface CustomUniverseRow {
+  slug: string
+  label: string
+  description: string | null
+  symbols: string
+  etfProxy: string | null
+  disclosureText: string | null
+  updatedAt: Date
+}
+
+export function customUniverseFromRow(row: CustomUniverseRow): Universe {
+  const symbols = JSON.parse(row.symbols) as string[]
+  return {
+    id: row.slug,
+    label: row.label,
+    description: row.description || `Custom universe (${symbols.length} symbols)`,
+    symbols,
+    disclosureText: row.disclosureText || 'User-defined custom universe.',
+    etfProxy: row.etfProxy || '',
+    asOf: row.updatedAt.toISOString().split('T')[0],
+    custom: true,
+  }
+}
+
+/**
+ * Resolve a built-in universe (including aliases) or a saved custom universe.
+ * Use this anywhere a universe id comes from a user or the AI.
+ */
+export async function loadUniverse(universeId: string): Promise<Universe | null> {
+  const builtIn = resolveUniverse(universeId)
+  if (builtIn) return builtIn
+
+  if (!process.env.DATABASE_URL) return null
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+    const row = await prisma.customUniverse.findUnique({
+      where: { slug: universeId.toLowerCase().trim() },
+    })
+    return row ? customUniverseFromRow(row) : null
+  } catch (error) {
+    console.error('[Universes] Failed to load custom universe:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * List built-in universes followed by saved custom universes.
+ */
+export async function listAllUniverses(): Promise<Universe[]> {
+  const builtIns = listUniverses()
+
+  if (!process.env.DATABASE_URL) return builtIns
+
+  try {
+    const { prisma } = await import('@/lib/prisma')
+    const rows = await prisma.customUniverse.findMany({ orderBy: { label: 'asc' } })
+    return [...builtIns, ...rows.map(customUniverseFromRow)]
+  } catch (error) {
+    console.error('[Universes] Failed to list custom universes:', error instanceof Error ? error.message : error)
+    return builtIns
+  }
+}
@@ -17,8 +17,10 @@ export default defineConfig({
       use: { ...devices['Desktop Chrome'] },
     },
   ],
+  // Runs offline: the dev server reads seeded fixtures instead of calling Polygon
   webServer: {
-    command: 'npm run dev',
+    command: 'npm run fixtures:seed && npm run dev',
+    env: { MARKET_DATA_PROVIDER: 'fixture' },
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
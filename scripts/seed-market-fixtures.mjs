@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+// =============================================================================
+// Seed synthetic market data fixtures (MARKET_DATA_PROVIDER=fixture)
+// =============================================================================
+// Writes a deterministic random walk of daily bars ending on the most recent
+// weekday, plus matching stock snapshots and a closed market status, for the
+// dashboard defaults, the risk/sector symbols and any extra symbols given as
+// arguments. The numbers are made up: use them for offline development and
+// e2e runs, and MARKET_DATA_PROVIDER=record when real data matters.
+//
+//   node scripts/seed-market-fixtures.mjs [SYMBOL ...]
+//
+// Writes to MARKET_DATA_FIXTURES_DIR (default fixtures/market-data) and
+// overwrites only the files it generates.
+// =============================================================================
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+const DIR = process.env.MARKET_DATA_FIXTURES_DIR?.trim() || 'fixtures/market-data'
+const TRADING_DAYS = 400
+
+const INDICES = { DJI: 38000, SPX: 5000, IXIC: 16000, NDX: 17500, RUT: 2000, SOX: 4500, VIX: 15 }
+const STOCKS = {
+  SPY: 500, QQQ: 430, IWM: 200, DIA: 380, VXX: 15,
+  XLK: 200, XLF: 40, XLV: 140, XLE: 90, XLI: 120, XLP: 75,
+  XLY: 180, XLB: 85, XLU: 65, XLRE: 40, XLC: 80,
+}
+
+// mulberry32, seeded per symbol so every run writes identical prices
+function random(seedText) {
+  let seed = [...seedText].reduce((hash, ch) => (Math.imul(hash, 31) + ch.charCodeAt(0)) | 0, 7)
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = seed
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function tradingDays(count) {
+  const days = []
+  const date = new Date()
+  date.setUTCHours(0, 0, 0, 0)
+  while (days.length < count) {
+    const weekday = date.getUTCDay()
+    if (weekday !== 0 && weekday !== 6) days.push(date.toISOString().slice(0, 10))
+    date.setUTCDate(date.getUTCDate() - 1)
+  }
+  return days.reverse()
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100
+}
+
+function dailyBars(symbol, start, dates, isIndex) {
+  const next = random(symbol)
+  let close = start
+  return dates.map((date) => {
+    const open = close * (1 + (next() - 0.5) * 0.004)
+    close = open * (1 + (next() - 0.48) * 0.025)
+    const high = Math.max(open, close) * (1 + next() * 0.008)
+    const low = Math.min(open, close) * (1 - next() * 0.008)
+    const volume = isIndex ? 0 : Math.round(5e6 + next() * 5e7)
+    return { date, open: round(open), high: round(high), low: round(low), close: round(close), volume }
+  })
+}
+
+function snapshotItem(symbol, bars) {
+  const [previous, latest] = bars.slice(-2)
+  const change = latest.close - previous.close
+  return {
+    ticker: symbol,
+    market: 'stocks',
+    locale: 'us',
+    type: 'CS',
+    session: {
+      open: latest.open,
+      high: latest.high,
+      low: latest.low,
+      close: latest.close,
+      volume: latest.volume,
+      change: round(change),
+      change_percent: round((change / previous.close) * 100),
+      previous_close: previous.close,
+    },
+  }
+}
+
+async function write(path, data) {
+  await mkdir(join(path, '..'), { recursive: true })
+  await writeFile(path, `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+}
+
+async function main() {
+  const dates = tradingDays(TRADING_DAYS)
+  const extra = Object.fromEntries(process.argv.slice(2).map((s) => [s.replace(/^I:/i, '').toUpperCase(), 100]))
+  const stocks = { ...STOCKS, ...extra }
+
+  for (const [symbol, start] of Object.entries(INDICES)) {
+    await write(join(DIR, 'daily', `${symbol}.json`), dailyBars(symbol, start, dates, true))
+  }
+  for (const [symbol, start] of Object.entries(stocks)) {
+    const bars = dailyBars(symbol, start, dates, false)
+    await write(join(DIR, 'daily', `${symbol}.json`), bars)
+    await write(join(DIR, 'universal', `${symbol}.json`), snapshotItem(symbol, bars))
+  }
+
+  await write(join(DIR, 'market-status.json'), {
+    market: 'stocks',
+    server_time: new Date().toISOString(),
+    exchanges: { nyse: 'closed', nasdaq: 'closed' },
+    early_close: false,
+    next_open: '',
+    next_close: '',
+  })
+
+  const count = Object.keys(INDICES).length + Object.keys(stocks).length
+  console.log(`Seeded ${count} symbols (${dates[0]} to ${dates.at(-1)}) into ${DIR}`)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})